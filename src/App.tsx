@@ -1,7 +1,8 @@
 import ReikanTenderAI from './ReikanTenderAI';
+import { AuthGate } from './components/AuthGate';
 
 function App() {
-  return <ReikanTenderAI />;
+  return <AuthGate>{account => <ReikanTenderAI account={account} />}</AuthGate>;
 }
 
 export default App;
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useMemo, useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Check,
@@ -23,6 +23,8 @@ import {
   Loader2,
   Sparkles,
   CheckCircle2,
+  Kanban,
+  LogOut,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -35,9 +37,32 @@ import { Separator } from "@/components/ui/separator";
 import { dbService } from "@/lib/db-service";
 import { CalculationDetails } from "@/components/CalculationDetails";
 import { FileUploadZone } from "@/components/FileUploadZone";
+import { TenderVersions } from "@/components/TenderVersions";
 import { PriceValidation } from "@/components/PriceValidation";
 import { DocumentSource, DocumentSourceInline } from "@/components/DocumentSource";
-import { LVPosition } from "@/lib/price-validation-service";
+import { ConflictReview } from "@/components/ConflictReview";
+import { ScoreExplanation } from "@/components/ScoreExplanation";
+import { OutcomeCapture } from "@/components/OutcomeCapture";
+import { BidDecisionGate } from "@/components/BidDecisionGate";
+import { BidDecision, bidDecisionService } from "@/lib/bid-decision-service";
+import { TenderPipeline } from "@/components/TenderPipeline";
+import { progressStatus, TenderWorkspace, WorkspaceStatus } from "@/lib/tender-workspace";
+import { Account, authService, authHeaders, canEdit, ROLE_LABELS } from "@/lib/auth-service";
+import { LVPosition, priceValidationService } from "@/lib/price-validation-service";
+import { importGAEBFile, GAEBImportResult, GAEB_FILE_ACCEPT } from "@/lib/gaeb-import";
+import { formatReference, parseReference, ReferenceProject, SuitabilityRequirement } from "@/lib/suitability-check";
+import {
+  GO_MIN_MUST_PERCENT,
+  GO_MIN_SCORE,
+  loadScoringWeights,
+  LogisticsInput,
+  logisticsScore,
+  saveScoringWeights,
+  scoreTender,
+  ScoringWeights,
+  TenderScore
+} from "@/lib/tender-scoring";
+import { MIN_OUTCOMES, predictWin, priceWeightOf, trainWinModel, WinModel, WinPrediction } from "@/lib/win-model";
 
 // ---------------- Types
 interface SourceInfo {
@@ -48,10 +73,21 @@ interface SourceInfo {
   detail?: string;
 }
 
+// Zuschlagskriterium with its Unterkriterien; weight is the share of the total score
+interface CriterionInfo extends SourceInfo {
+  weight: number | null;
+  subCriteria: CriterionInfo[];
+}
+
 interface Tender {
   id: string;
   runId?: string;
+  // First batch of the tender; stays the same across amendments
   tenderId?: string;
+  version?: number;
+  versionCount?: number;
+  // Amendments touching steps the team already worked on
+  unreadNotifications?: number;
   status?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -61,10 +97,14 @@ interface Tender {
   deadline: string | null; // ISO date or null if missing
   url: string;
   score: number; // overall match score 0..100
+  // How the score was computed, criterion by criterion
+  scoreBreakdown?: TenderScore;
   legalRisks: string[];
   legalRisksWithSource?: SourceInfo[];
   mustHits: number;
   mustTotal: number;
+  // Mindestanforderungen an die Eignung; mustHits counts those the company profile meets
+  suitability?: SuitabilityRequirement[];
   mustHitPercent?: number; // NEW: Calculated percentage
   canHits: number;
   canTotal: number;
@@ -75,7 +115,10 @@ interface Tender {
   scopeOfWorkSource?: SourceInfo; // NEW: Source tracking for scope
   certifications?: string[];
   evaluationCriteria?: string[];
-  evaluationCriteriaWithSource?: SourceInfo[]; // NEW: Source tracking
+  evaluationCriteriaWithSource?: CriterionInfo[]; // NEW: Source tracking
+  // Weight checks per level of the criteria, and how prices are scored
+  evaluationChecks?: Array<{ ok: boolean; text: string }>;
+  priceFormula?: string | null;
   safety?: string[];
   penalties?: string[];
   submission?: string[]; // Top mandatory requirements (from mandatory_requirements[])
@@ -87,6 +130,7 @@ interface Tender {
     description_de?: string;
     source_document?: string; // NEW: Source tracking
     source_chunk_id?: string | null;
+    page_number?: number | null;
   }>;
   projectDuration?: string | null;  // Timeline project duration (e.g., "24 Monate")
   economicAnalysis?: { // Economic analysis (from economic_analysis)
@@ -152,6 +196,9 @@ interface CompanyProfile {
   contactEmail: string;
   depotPostcode?: string;
   certifications?: string; // ISO, quality standards
+  annualTurnover?: number; // € average of the last three years
+  employees?: number;
+  references?: ReferenceProject[];
 }
 
 interface DocItem {
@@ -220,9 +267,21 @@ const mergeSourceDocuments = (a?: string, b?: string) => {
   return Array.from(parts).join("; ");
 };
 
+const describeSource = (source?: { source_document?: string | null; page_number?: number | null } | null) => {
+  if (!source?.source_document) return "";
+  return source.page_number ? `${source.source_document}, S. ${source.page_number}` : source.source_document;
+};
+
+// Most confident extracted fact of a type (ui_json.facts is sorted by confidence)
+const findFact = (facts: unknown, factType: string) => {
+  if (!Array.isArray(facts)) return null;
+  const cited = facts as Array<{ fact_type?: string; source_document?: string; page_number?: number | null }>;
+  return cited.find((fact) => fact?.fact_type === factType) || null;
+};
+
 const pickTopRisks = (risks: any[], metaSource?: string) => {
   const severityRank: Record<string, number> = { high: 3, medium: 2, low: 1 };
-  const deduped = new Map<string, { text: string; source_document: string; source_chunk_id?: string | null; severity: string; index: number }>();
+  const deduped = new Map<string, { text: string; source_document: string; source_chunk_id?: string | null; page_number?: number | null; severity: string; index: number }>();
 
   risks.forEach((risk: any, index: number) => {
     const text = (risk?.risk_de || risk?.text || "").trim();
@@ -232,6 +291,7 @@ const pickTopRisks = (risks: any[], metaSource?: string) => {
     if (!key) return;
     const source_document = risk?.source_document || metaSource || "";
     const source_chunk_id = risk?.source_chunk_id ?? null;
+    const page_number = risk?.page_number ?? null;
     if (deduped.has(key)) {
       const existing = deduped.get(key)!;
       // Create a new object instead of mutating
@@ -241,7 +301,7 @@ const pickTopRisks = (risks: any[], metaSource?: string) => {
       });
       return;
     }
-    deduped.set(key, { text, source_document, source_chunk_id, severity, index });
+    deduped.set(key, { text, source_document, source_chunk_id, page_number, severity, index });
   });
 
   return Array.from(deduped.values())
@@ -251,10 +311,11 @@ const pickTopRisks = (risks: any[], metaSource?: string) => {
       return bRank - aRank || a.index - b.index;
     })
     .slice(0, 5)
-    .map(({ text, source_document, source_chunk_id }) => ({
+    .map(({ text, source_document, source_chunk_id, page_number }) => ({
       text,
       source_document,
       source_chunk_id,
+      page_number,
     }));
 };
 
@@ -269,6 +330,7 @@ const pickTopRequirements = (requirements: any[], metaSource?: string) => {
         detail,
         source_document: req?.source_document || "",
         source_chunk_id: req?.source_chunk_id ?? null,
+        page_number: req?.page_number ?? null,
         index,
       };
     })
@@ -290,46 +352,64 @@ const pickTopRequirements = (requirements: any[], metaSource?: string) => {
       detail: req.detail || undefined,
       source_document: req.source_document || primarySource || "",
       source_chunk_id: req.source_chunk_id,
+      page_number: req.page_number,
     });
     if (result.length >= 5) break;
   }
   return result;
 };
 
-const pickTopCriteria = (criteria: any[], metaSource?: string) => {
-  const seen = new Map<string, { text: string; weight: number; source_document: string; source_chunk_id?: string | null }>();
-  criteria.forEach((crit: any) => {
-    const text = (crit?.criterion_de || crit?.text || "").trim();
-    if (!text || isPlaceholder(text)) return;
-    const weight = Number(crit?.weight_percent ?? 0);
-    if (Number.isFinite(weight) && weight === 0) return;
-    const key = normalizeText(text);
-    const source_document = crit?.source_document || metaSource || "";
-    const source_chunk_id = crit?.source_chunk_id ?? null;
-    if (!seen.has(key)) {
-      seen.set(key, { text, weight, source_document, source_chunk_id });
-      return;
-    }
-    const existing = seen.get(key)!;
-    if (weight > existing.weight) {
-      seen.set(key, { text, weight, source_document, source_chunk_id });
-    } else {
-      // Create a new object instead of mutating
-      seen.set(key, {
-        ...existing,
-        source_document: mergeSourceDocuments(existing.source_document, source_document)
-      });
+// Entry of ui_json.evaluation_criteria
+interface UiCriterion {
+  criterion_de?: string;
+  text?: string;
+  weight_percent?: number | null;
+  weight_de?: string | null;
+  parent_de?: string | null;
+  source_document?: string;
+  source_chunk_id?: string | null;
+  page_number?: number | null;
+}
+
+// Hauptkriterien by weight with their Unterkriterien, as normalized by the aggregation
+const pickTopCriteria = (criteria: UiCriterion[], metaSource?: string): CriterionInfo[] => {
+  const toInfo = (crit: UiCriterion): CriterionInfo | null => {
+    const name = (crit?.criterion_de || crit?.text || "").trim();
+    if (!name || isPlaceholder(name)) return null;
+    const share = Number(crit?.weight_percent);
+    const weight = crit?.weight_percent != null && Number.isFinite(share) ? share : null;
+    // Unterkriterien also show the weight given in the documents ("20 Punkte")
+    const given = crit?.parent_de && crit?.weight_de ? `${crit.weight_de}, ` : "";
+    return {
+      text: weight !== null ? `${name} (${given}${weight}%)` : crit?.weight_de ? `${name} (${crit.weight_de})` : name,
+      weight,
+      subCriteria: [],
+      source_document: crit?.source_document || metaSource || "",
+      source_chunk_id: crit?.source_chunk_id ?? null,
+      page_number: crit?.page_number ?? null,
+    };
+  };
+
+  const main = new Map<string, CriterionInfo>();
+  criteria.filter(crit => !crit?.parent_de).forEach(crit => {
+    const info = toInfo(crit);
+    if (!info) return;
+    const key = normalizeText(crit.criterion_de || crit.text || "");
+    const existing = main.get(key);
+    if (!existing || (info.weight ?? -1) > (existing.weight ?? -1)) {
+      main.set(key, existing ? { ...info, source_document: mergeSourceDocuments(existing.source_document, info.source_document) } : info);
     }
   });
 
-  return Array.from(seen.values())
-    .sort((a, b) => b.weight - a.weight)
-    .slice(0, 5)
-    .map((item) => ({
-      text: item.weight ? `${item.text} (${item.weight}%)` : item.text,
-      source_document: item.source_document,
-      source_chunk_id: item.source_chunk_id,
-    }));
+  criteria.filter(crit => crit?.parent_de).forEach(crit => {
+    const parent = main.get(normalizeText(crit.parent_de!));
+    const info = toInfo(crit);
+    if (parent && info) parent.subCriteria.push(info);
+  });
+
+  return Array.from(main.values())
+    .sort((a, b) => (b.weight ?? -1) - (a.weight ?? -1))
+    .slice(0, 5);
 };
 
 const pickTopStrings = (items: any[], limit = 5) => {
@@ -360,6 +440,7 @@ const buildTimelineSteps = (steps: any[], timeline: any, metaSource?: string) =>
       days_de: (step?.days_de || "").trim(),
       source_document: step?.source_document || metaSource || "",
       source_chunk_id: step?.source_chunk_id ?? null,
+      page_number: step?.page_number ?? null,
       index,
     }))
     .filter((step: any) => step.title_de && !isPlaceholder(step.title_de));
@@ -390,7 +471,8 @@ const buildTimelineSteps = (steps: any[], timeline: any, metaSource?: string) =>
       description_de: `Abgabefrist: ${timeline.submission_deadline_de}`,
       days_de: "",
       source_document: timeline.source_document || metaSource || "",
-      source_chunk_id: null,
+      source_chunk_id: timeline.source_chunk_id ?? null,
+      page_number: timeline.page_number ?? null,
       index: Number.MAX_SAFE_INTEGER,
     };
   }
@@ -406,6 +488,7 @@ const buildTimelineSteps = (steps: any[], timeline: any, metaSource?: string) =>
       days_de: step.days_de,
       source_document: step.source_document,
       source_chunk_id: step.source_chunk_id,
+      page_number: step.page_number,
     }));
 };
 
@@ -545,6 +628,29 @@ const DEFAULT_PRICING: PricingInput = {
   marginPct: 12,
 };
 
+function defaultAiEdits(): Record<string, string> {
+  const initialEdits: Record<string, string> = {};
+  DEFAULT_DOCS.forEach(doc => {
+    if (doc.status !== 'missing') {
+      initialEdits[doc.id] = 'checked';
+    }
+  });
+  return initialEdits;
+}
+
+// Data of the wizard steps kept in a tender's workspace
+interface WorkspaceState {
+  profile: CompanyProfile;
+  docs: DocItem[];
+  pricing: PricingInput;
+  answers: Record<string, string>;
+  aiEdits: Record<string, string>;
+  riskAccepted: boolean;
+}
+
+// Changes are saved to the workspace once the wizard was idle this long
+const WORKSPACE_SAVE_DELAY_MS = 1500;
+
 // ---------------- Utils
 const pct = (hits: number, total: number) => (total === 0 ? 0 : Math.round((100 * hits) / total));
 
@@ -567,6 +673,21 @@ function SourceBadge({ source }: { source?: string }) {
   );
 }
 
+// The tender with its match score against the company profile
+function withScore(tender: Tender, profile: CompanyProfile, logistics: LogisticsInput, weights: ScoringWeights): Tender {
+  const breakdown = scoreTender(tender, profile, logistics, weights);
+  return {
+    ...tender,
+    score: breakdown.overall,
+    scoreBreakdown: breakdown,
+    mustHits: breakdown.mustHits,
+    mustTotal: breakdown.mustTotal,
+    canHits: breakdown.canHits,
+    canTotal: breakdown.canTotal,
+    logisticsScore: breakdown.logistics
+  };
+}
+
 function euro(n: number) {
   return new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR", maximumFractionDigits: 0 }).format(n);
 }
@@ -586,17 +707,9 @@ function computeWinProbability(
   return Math.max(1, Math.min(99, Math.round((base + mustBoost) * 0.9 + 5)));
 }
 
-function routeFeasibilityScore(distanceKm: number, projectDays: number, fleetStr: string) {
-  const regionalDepots = /Hamburg|Bremen|Hannover|Berlin|München|Köln|Stuttgart|Depot/i.test(fleetStr) ? 1 : 0;
-  const distancePenalty = Math.max(0, distanceKm - 50) * 0.4; // soft cap 50 km for equipment delivery
-  const durationBonus = Math.min(10, projectDays / 30 * 2); // longer projects = better logistics
-  const raw = 100 - distancePenalty + durationBonus + regionalDepots * 8;
-  return Math.max(0, Math.min(100, Math.round(raw)));
-}
-
 // ---------------- Root
-export default function ReikanTenderAI() {
-  const [step, setStep] = useState<number>(1);
+export default function ReikanTenderAI({ account }: { account: Account }) {
+  const [step, setStepState] = useState<number>(1);
   const [mode, setMode] = useState<"search" | "upload">("search");
   const [query, setQuery] = useState<string>("");
   const [sortKey, setSortKey] = useState<"deadline" | "score">("deadline");
@@ -607,15 +720,7 @@ export default function ReikanTenderAI() {
   const [pricing, setPricing] = useState<PricingInput>(DEFAULT_PRICING);
   const [autoFill, setAutoFill] = useState<boolean>(true);
   const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [aiEdits, setAiEdits] = useState<Record<string, string>>(() => {
-    const initialEdits: Record<string, string> = {};
-    DEFAULT_DOCS.forEach(doc => {
-      if (doc.status !== 'missing') {
-        initialEdits[doc.id] = 'checked';
-      }
-    });
-    return initialEdits;
-  });
+  const [aiEdits, setAiEdits] = useState<Record<string, string>>(defaultAiEdits);
   const [riskAccepted, setRiskAccepted] = useState<boolean>(false);
   const [showTests, setShowTests] = useState<boolean>(false);
   const [currentSubmissionId, setCurrentSubmissionId] = useState<string | null>(null);
@@ -632,9 +737,147 @@ export default function ReikanTenderAI() {
   const [loadingTenders, setLoadingTenders] = useState<boolean>(false);
   const [tendersError, setTendersError] = useState<string | null>(null);
   const [loadingTenderDetails, setLoadingTenderDetails] = useState<boolean>(false);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [latestBatch, setLatestBatch] = useState<BatchSummaryPayload | null>(null);
+  const [importedLV, setImportedLV] = useState<GAEBImportResult | null>(null);
+  const [scoringWeights, setScoringWeights] = useState<ScoringWeights>(loadScoringWeights);
+  const [showScoreExplanation, setShowScoreExplanation] = useState<boolean>(false);
+  const logistics = useMemo(
+    () => ({ distanceKm: pricing.deliveryDistance, projectDays: pricing.projectDurationDays }),
+    [pricing.deliveryDistance, pricing.projectDurationDays]
+  );
+  const [winModel, setWinModel] = useState<WinModel | null>(null);
+  const [outcomeCount, setOutcomeCount] = useState<number>(0);
+  const [priceDeltaPct, setPriceDeltaPct] = useState<number | null>(null);
+  const [bidDecision, setBidDecision] = useState<BidDecision | null>(null);
+  // Tender whose latest bid decision has been loaded (null while loading)
+  const [bidDecisionKey, setBidDecisionKey] = useState<string | null>(null);
+  // Loaded workspace waiting for the bid decision before its step is restored
+  const [pendingWorkspace, setPendingWorkspace] = useState<{ tenderKey: string; step: number | null } | null>(null);
+  const [workspaceStatus, setWorkspaceStatus] = useState<WorkspaceStatus>('sichtung');
+  // Tender whose workspace is loaded into the wizard; nothing is saved before
+  const [workspaceKey, setWorkspaceKey] = useState<string | null>(null);
+  const [showPipeline, setShowPipeline] = useState<boolean>(false);
+  const resumedWorkspaceRef = useRef<TenderWorkspace | null>(null);
+  const restoredRef = useRef<boolean>(false);
+  const lastSavedRef = useRef<string>('');
+
+  // Past the Kriterien step only with a signed-off Bid; read through a ref so
+  // that every way of changing the step goes through the same check
+  const bidApprovedRef = useRef<boolean>(true);
+  bidApprovedRef.current = !selected || bidDecision?.decision === 'bid';
+  const setStep = useCallback((next: number | ((current: number) => number)) => {
+    setStepState(current => {
+      const target = typeof next === 'function' ? next(current) : next;
+      return target > 2 && !bidApprovedRef.current ? Math.min(current, 2) : target;
+    });
+  }, []);
+
+  useEffect(() => {
+    const tenderKey = selected?.id;
+    setBidDecision(null);
+    setBidDecisionKey(null);
+    if (!tenderKey) return;
+
+    let cancelled = false;
+    bidDecisionService.getLatestDecision(tenderKey)
+      .then(decision => !cancelled && setBidDecision(decision))
+      .catch(error => console.error('Failed to load bid decision:', error))
+      .finally(() => !cancelled && setBidDecisionKey(tenderKey));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected?.id]);
+
+  // Load the tender's workspace, or start a new one with empty step data
+  useEffect(() => {
+    const tenderKey = selected?.id;
+    setWorkspaceKey(null);
+    setPendingWorkspace(null);
+    if (!tenderKey) return;
+
+    const restore = (workspace: TenderWorkspace | null) => {
+      const state = (workspace?.state || {}) as Partial<WorkspaceState>;
+      if (state.profile) setProfile(state.profile);
+      setDocs(state.docs || DEFAULT_DOCS);
+      setPricing(state.pricing || DEFAULT_PRICING);
+      setAnswers(state.answers || {});
+      setAiEdits(state.aiEdits || defaultAiEdits());
+      setRiskAccepted(state.riskAccepted ?? false);
+      setCurrentSubmissionId(workspace?.submission_id ?? null);
+      setWorkspaceStatus(workspace?.status ?? 'sichtung');
+      setPendingWorkspace({ tenderKey, step: workspace ? workspace.current_step : null });
+    };
+
+    const resumed = resumedWorkspaceRef.current;
+    resumedWorkspaceRef.current = null;
+    if (resumed?.tender_key === tenderKey) {
+      restore(resumed);
+      return;
+    }
+
+    let cancelled = false;
+    dbService.getWorkspace(tenderKey)
+      .then(workspace => !cancelled && restore(workspace))
+      .catch(error => console.error('Failed to load workspace:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected?.id]);
+
+  // The saved step goes through the Bid/No-Bid gate, so it needs the latest decision;
+  // saving starts only afterwards
+  useEffect(() => {
+    if (!pendingWorkspace || pendingWorkspace.tenderKey !== bidDecisionKey) return;
+
+    if (pendingWorkspace.step !== null) setStep(pendingWorkspace.step);
+    restoredRef.current = pendingWorkspace.step !== null;
+    setWorkspaceKey(pendingWorkspace.tenderKey);
+    setPendingWorkspace(null);
+  }, [pendingWorkspace, bidDecisionKey, setStep]);
+
+  useEffect(() => {
+    setWorkspaceStatus(current => progressStatus(current, step, bidDecision?.decision === 'bid'));
+  }, [step, bidDecision]);
+
+  const workspace = useMemo(() => selected && {
+    tender_key: selected.id,
+    title: selected.title,
+    buyer: selected.buyer,
+    deadline: selected.deadline || null,
+    status: workspaceStatus,
+    current_step: step,
+    tender: selected as unknown as Record<string, unknown>,
+    state: { profile, docs, pricing, answers, aiEdits, riskAccepted } satisfies WorkspaceState,
+    submission_id: currentSubmissionId,
+    last_editor: account.name
+  }, [selected, workspaceStatus, step, profile, docs, pricing, answers, aiEdits, riskAccepted, currentSubmissionId, account.name]);
+
+  // Save every change of the wizard to the tender's workspace; viewers only look
+  useEffect(() => {
+    if (!workspace || workspace.tender_key !== workspaceKey || !canEdit(account.role)) return;
+
+    const serialized = JSON.stringify(workspace);
+    // Opening a workspace is no change of it
+    if (restoredRef.current) {
+      restoredRef.current = false;
+      lastSavedRef.current = serialized;
+      return;
+    }
+    if (serialized === lastSavedRef.current) return;
+
+    const timer = setTimeout(() => {
+      dbService.saveWorkspace(workspace)
+        .then(() => {
+          lastSavedRef.current = serialized;
+        })
+        .catch(error => console.error('Failed to save workspace:', error));
+    }, WORKSPACE_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [workspace, workspaceKey, account.role]);
 
   useEffect(() => {
     if (isProcessing) {
@@ -649,7 +892,7 @@ export default function ReikanTenderAI() {
   const fetchTenderDetails = async (runId: string): Promise<Tender> => {
     const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
     // Use /api/batches/:id/summary to get consistent ui_json data from run_summaries table
-    const response = await fetch(`${apiUrl}/api/batches/${runId}/summary`);
+    const response = await fetch(`${apiUrl}/api/batches/${runId}/summary`, { headers: await authHeaders() });
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
@@ -687,7 +930,7 @@ export default function ReikanTenderAI() {
       setTendersError(null);
       try {
         const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
-        const response = await fetch(`${apiUrl}/api/tenders?sortBy=${sortKey}`);
+        const response = await fetch(`${apiUrl}/api/tenders?sortBy=${sortKey}`, { headers: await authHeaders() });
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
         }
@@ -777,17 +1020,103 @@ export default function ReikanTenderAI() {
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, []);
+  }, [setStep]);
+
+  // Match score of the selected tender against the company profile
+  useEffect(() => {
+    if (!selected) return;
+    const breakdown = scoreTender(selected, profile, logistics, scoringWeights);
+    if (JSON.stringify(breakdown) === JSON.stringify(selected.scoreBreakdown)) return;
+    setSelected(prev => prev && withScore(prev, profile, logistics, scoringWeights));
+  }, [selected, profile, logistics, scoringWeights]);
 
   const mustPct = useMemo(() => pct(selected?.mustHits ?? 0, selected?.mustTotal ?? 0), [selected]);
   const canPct = useMemo(() => pct(selected?.canHits ?? 0, selected?.canTotal ?? 0), [selected]);
   const missingCount = useMemo(() => docs.filter((d) => d.status !== "present").length, [docs]);
   const routeScore = useMemo(
-    () => routeFeasibilityScore(pricing.deliveryDistance, pricing.projectDurationDays, profile.fleet),
-    [pricing, profile.fleet]
+    () => logisticsScore(logistics.distanceKm, logistics.projectDays, profile.fleet),
+    [logistics, profile.fleet]
   );
 
-  const winProb = useMemo(() => computeWinProbability(selected, missingCount, answers, mustPct), [selected, missingCount, answers, mustPct]);
+  // Learned from the recorded outcomes once there are enough; the heuristic until then
+  const loadWinModel = () => {
+    dbService.getOutcomeSamples()
+      .then(samples => {
+        setOutcomeCount(samples.length);
+        setWinModel(trainWinModel(samples));
+      })
+      .catch(error => console.error('Failed to load submission outcomes:', error));
+  };
+
+  useEffect(() => {
+    loadWinModel();
+  }, []);
+
+  const handleOutcomeRecorded = (result: 'awarded' | 'lost') => {
+    loadWinModel();
+    setWorkspaceStatus(result === 'awarded' ? 'zuschlag' : 'absage');
+  };
+
+  // Opens a tender from the pipeline at the step it was left at
+  const handleResumeWorkspace = async (tenderKey: string) => {
+    setShowPipeline(false);
+    if (selected?.id === tenderKey) return;
+    try {
+      const workspace = await dbService.getWorkspace(tenderKey);
+      if (!workspace) return;
+      resumedWorkspaceRef.current = workspace;
+      setSelected(workspace.tender as unknown as Tender);
+    } catch (error) {
+      console.error('Failed to resume workspace:', error);
+      alert('Die Ausschreibung konnte nicht geöffnet werden.');
+    }
+  };
+
+  const handleWorkspaceStatusChanged = (tenderKey: string, status: WorkspaceStatus) => {
+    if (selected?.id === tenderKey) setWorkspaceStatus(status);
+  };
+
+  // How the imported LV's unit prices compare with the historical prices
+  useEffect(() => {
+    const positions: LVPosition[] = (importedLV?.positionen || [])
+      .filter(p => p.typ === "position" && p.einzelpreis > 0)
+      .map(p => ({
+        position_code: p.oz,
+        position_name: p.kurztext || p.beschreibung,
+        unit: p.einheit,
+        quantity: p.menge,
+        unit_price: p.einzelpreis,
+        total_price: p.gesamtpreis
+      }));
+    if (positions.length === 0) {
+      setPriceDeltaPct(null);
+      return;
+    }
+    let cancelled = false;
+    priceValidationService.averagePriceDeviation(positions)
+      .then(delta => !cancelled && setPriceDeltaPct(delta))
+      .catch(error => console.error('Failed to compare prices with history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [importedLV]);
+
+  const winFeatures = useMemo(() => selected && {
+    score: selected.score,
+    priceDeltaPct,
+    distanceKm: pricing.deliveryDistance,
+    buyer: selected.buyer,
+    priceWeight: priceWeightOf(selected.evaluationCriteriaWithSource || [])
+  }, [selected, priceDeltaPct, pricing.deliveryDistance]);
+
+  const winPrediction = useMemo<WinPrediction | null>(
+    () => (winModel && winFeatures ? predictWin(winModel, winFeatures) : null),
+    [winModel, winFeatures]
+  );
+  const winProb = useMemo(
+    () => winPrediction?.probability ?? computeWinProbability(selected, missingCount, answers, mustPct),
+    [winPrediction, selected, missingCount, answers, mustPct]
+  );
 
   const { subtotal, surcharge, margin, total } = useMemo(() => calcPrice(pricing), [pricing]);
 
@@ -845,13 +1174,26 @@ export default function ReikanTenderAI() {
     alert('✓ Dokumente aus Datenraum geladen\n\n- ISO 9001 Zertifikat (aktualisiert)\n- Versicherungsnachweis (aktuell)\n- Referenzliste (3 Projekte hinzugefügt)');
   };
 
-  const handleImportURLs = async () => {
+  const handleImportGAEB = async (file: File) => {
     setSearchingTenders(true);
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    setSearchingTenders(false);
-    const urls = prompt('Ausschreibungs-URLs oder GAEB-Dateien importieren:\n\nURLs (eine pro Zeile):\nhttps://example.com/tender/123\n\noder GAEB-Dateien hochladen:\n.X83, .X84, .D83 (Leistungsverzeichnis)');
-    if (urls) {
-      alert(`✓ Verarbeite ${urls.split('\n').filter(u => u.trim()).length} Ausschreibungen\n\nExtrahierte Informationen:\n- Auftraggeber & Vergabestelle\n- Lose & Teilleistungen\n- Fristen & Termine\n- Leistungsverzeichnis (GAEB)\n- VOB/BGL-Anforderungen`);
+    try {
+      const result = await importGAEBFile(file);
+      if (result.positionen.length === 0) {
+        throw new Error('Das Leistungsverzeichnis enthält keine Positionen');
+      }
+      setImportedLV(result);
+      // The Kalkulation is behind the Bid/No-Bid gate too; the LV stays imported until the Bid is signed off
+      if (!bidApprovedRef.current) {
+        setStep(2);
+        alert(`✓ ${result.positionen.length} LV-Positionen importiert\n\nDie Kalkulation öffnet sich erst nach der Bid-Entscheidung. Bitte treffen Sie zuerst die Bid/No-Bid-Entscheidung für diesen Tender.`);
+        return;
+      }
+      setStep(6);
+    } catch (error) {
+      console.error('GAEB import failed:', error);
+      alert(`GAEB-Import fehlgeschlagen: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`);
+    } finally {
+      setSearchingTenders(false);
     }
   };
 
@@ -879,6 +1221,11 @@ export default function ReikanTenderAI() {
     const submissionWithSource = pickTopRequirements(requirements, meta.source_document);
     const legalRisksWithSource = pickTopRisks(risks, meta.source_document);
     const evaluationCriteriaWithSource = pickTopCriteria(evaluationCriteria, meta.source_document);
+    const suitability: SuitabilityRequirement[] = Array.isArray(uiJson.suitability_requirements)
+      ? uiJson.suitability_requirements
+      : [];
+    const evaluationChecks = (Array.isArray(uiJson.evaluation_checks) ? uiJson.evaluation_checks : [])
+      .map((check: { ok: boolean; note_de: string }) => ({ ok: check.ok, text: check.note_de }));
 
     // Map missing evidence with source
     const missingEvidenceWithSource = missingEvidence
@@ -886,6 +1233,7 @@ export default function ReikanTenderAI() {
         text: doc?.document_de || doc?.text,
         source_document: doc?.source_document || meta.source_document || "",
         source_chunk_id: doc?.source_chunk_id ?? null,
+        page_number: doc?.page_number ?? null,
       }))
       .filter((doc: any) => doc.text && !isPlaceholder(doc.text));
 
@@ -893,25 +1241,29 @@ export default function ReikanTenderAI() {
     const scopeOfWorkSource: SourceInfo = {
       text: executive.brief_description_de || "",
       source_document: executive.source_document || meta.source_document || "",
-      source_chunk_id: null,
+      source_chunk_id: executive.source_chunk_id ?? null,
+      page_number: executive.page_number ?? null,
     };
 
     const penalties = pickTopStrings(penaltiesRaw, 5);
     const certifications = pickTopStrings(certificationsRaw, 5);
     const timelineSteps = buildTimelineSteps(processSteps, timeline, meta.source_document);
 
-    return {
+    return withScore({
       id: meta.tender_id || payload.summary.run_id || payload.batchId,
+      tenderId: meta.root_batch_id,
+      version: meta.version,
       title: meta.tender_title || executive.title_de || meta.tender_id || "Missing Title",
       buyer: meta.organization || executive.organization_de || "Missing Organization",
       region: executive.location_de || "DE",
       deadline,
       url: "",
-      score: 85, // Default score, can be calculated based on match criteria
+      score: 0,
       legalRisks: legalRisksWithSource.map(r => r.text),
       legalRisksWithSource,
-      mustHits: Math.min(requirements.length, 5),
-      mustTotal: Math.min(requirements.length, 5),
+      mustHits: 0,
+      mustTotal: suitability.length,
+      suitability,
       canHits: 0,
       canTotal: 0,
       serviceTypes: pickTopStrings(serviceTypes, 7),
@@ -922,6 +1274,8 @@ export default function ReikanTenderAI() {
       certifications,
       evaluationCriteria: evaluationCriteriaWithSource.map(e => e.text),
       evaluationCriteriaWithSource,
+      evaluationChecks,
+      priceFormula: uiJson.price_formula?.name_de || null,
       safety,
       penalties,
       processSteps: timelineSteps,
@@ -929,21 +1283,22 @@ export default function ReikanTenderAI() {
       economicAnalysis: uiJson.economic_analysis || undefined,
       missingEvidence: missingEvidenceWithSource.map(m => m.text),
       missingEvidenceWithSource,
+      // Cited from the extracted facts ("Datei.pdf, S. 3"), the primary document only where none exists
       sources: {
-        title: meta.source_document || "",
-        buyer: meta.source_document || executive.source_document || "",
-        mustCriteria: submissionWithSource[0]?.source_document || meta.source_document || "",
-        logistics: executive.source_document || meta.source_document || "",
-        deadline: timeline.source_document || meta.source_document || "",
-        certifications: meta.source_document || "",
-        scopeOfWork: executive.source_document || meta.source_document || "",
-        pricingModel: "",
+        title: describeSource(meta),
+        buyer: describeSource(meta),
+        mustCriteria: describeSource(submissionWithSource[0] || meta),
+        logistics: describeSource(executive),
+        deadline: describeSource(timeline),
+        certifications: describeSource(findFact(uiJson.facts, "certification") || meta),
+        scopeOfWork: describeSource(executive),
+        pricingModel: describeSource(findFact(uiJson.facts, "price_position")),
         penalties: meta.source_document || "",
-        evaluationCriteria: evaluationCriteriaWithSource[0]?.source_document || meta.source_document || "",
-        submission: submissionWithSource[0]?.source_document || meta.source_document || "",
-        legalRisks: legalRisksWithSource[0]?.source_document || meta.source_document || "",
+        evaluationCriteria: describeSource(evaluationCriteriaWithSource[0] || meta),
+        submission: describeSource(submissionWithSource[0] || meta),
+        legalRisks: describeSource(legalRisksWithSource[0] || meta),
       },
-    };
+    }, profile, logistics, scoringWeights);
   };
 
   const handleTenderCreated = (payload: BatchSummaryPayload) => {
@@ -964,9 +1319,36 @@ export default function ReikanTenderAI() {
     alert(`✓ Marktpreise berechnet\n\nAktueller Preis: ${euro(pricing.pricePerSqmPerCleaning)}/m²\nBasierend auf: Marktdaten Norddeutschland (November 2025)\nEmpfohlen: €0,40-€0,55/m² je nach Leistungsart (Industriereinigung)`);
   };
 
+  // A resolved conflict changes the profile the tender details are built from
+  const handleConflictResolved = async () => {
+    const runId = selected?.runId || selected?.id;
+    if (!runId) return;
+    try {
+      setSelected(await fetchTenderDetails(runId));
+    } catch (error) {
+      console.error('Failed to re-fetch tender details:', error);
+    }
+  };
+
+  const handleSelectVersion = async (runId: string) => {
+    try {
+      setLoadingTenderDetails(true);
+      setSelected(await fetchTenderDetails(runId));
+    } catch (error) {
+      console.error('Failed to load tender version:', error);
+    } finally {
+      setLoadingTenderDetails(false);
+    }
+  };
+
   const handleExplainWeights = () => {
-    if (!selected) return;
-    alert(`Gewichtungs-Aufschlüsselung:\n\nMuss-Kriterien (60%):\n- ${selected.mustHits}/${selected.mustTotal} Anforderungen erfüllt\n- Kritische Compliance-Faktoren\n\nKann-Kriterien (30%):\n- ${selected.canHits}/${selected.canTotal} optionale Merkmale\n- Wettbewerbsvorteile\n\nLogistik-Machbarkeit (10%):\n- Entfernungs- und Häufigkeitsanalyse\n- Fuhrpark-Fähigkeiten`);
+    if (!selected?.scoreBreakdown) return;
+    setShowScoreExplanation(true);
+  };
+
+  const handleWeightsChange = (weights: ScoringWeights) => {
+    saveScoringWeights(weights);
+    setScoringWeights(weights);
   };
 
   const handleComplianceCheck = async () => {
@@ -1007,6 +1389,7 @@ export default function ReikanTenderAI() {
       return;
     }
     await saveToDatabase();
+    setWorkspaceStatus('abgegeben');
     alert('✓ Ausschreibungs-Einreichung abgeschlossen!\n\nEinreichungs-ID: ' + (currentSubmissionId || 'Generiert') + '\n\nIhre Angebotsabgabe wurde:\n✓ Validiert\n✓ In Datenbank gespeichert\n✓ Bereit zur Überprüfung\n\nNächste Schritte:\n1. Generiertes Dokument prüfen\n2. Interne Freigaben einholen\n3. Über Vergabeportal einreichen');
   };
 
@@ -1053,10 +1436,21 @@ export default function ReikanTenderAI() {
         contact_name: profile.contactName,
         contact_email: profile.contactEmail,
         depot_postcode: profile.depotPostcode || '',
-        disposal_sites: profile.certifications || ''
+        disposal_sites: profile.certifications || '',
+        annual_turnover: profile.annualTurnover ?? null,
+        employee_count: profile.employees ?? null,
+        reference_projects: profile.references || []
       });
       setProfileId(profileData.id);
 
+      // Saved with the submission so its outcome can train the win-probability model
+      const submissionFeatures = {
+        match_score: winFeatures?.score ?? selected.score,
+        price_delta_pct: winFeatures?.priceDeltaPct ?? null,
+        distance_km: winFeatures?.distanceKm ?? null,
+        price_weight: winFeatures?.priceWeight ?? null
+      };
+
       let submissionId = currentSubmissionId;
       if (!submissionId) {
         const submission = await dbService.createSubmission({
@@ -1064,7 +1458,8 @@ export default function ReikanTenderAI() {
           profile_id: profileData.id,
           win_probability: winProb,
           route_score: routeScore,
-          risk_accepted: riskAccepted
+          risk_accepted: riskAccepted,
+          ...submissionFeatures
         });
         submissionId = submission.id;
         setCurrentSubmissionId(submissionId);
@@ -1072,7 +1467,8 @@ export default function ReikanTenderAI() {
         await dbService.updateSubmission(submissionId, {
           win_probability: winProb,
           route_score: routeScore,
-          risk_accepted: riskAccepted
+          risk_accepted: riskAccepted,
+          ...submissionFeatures
         });
       }
 
@@ -1244,43 +1640,14 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
         .toLowerCase()
         .includes(q);
     });
-    const sorted = [...pool].sort((a, b) => {
+    // The list carries no match score; it depends on the company profile
+    const scored = pool.map((t) => withScore(t, profile, logistics, scoringWeights));
+    const sorted = scored.sort((a, b) => {
       if (sortKey === "deadline") return +new Date(a.deadline || 0) - +new Date(b.deadline || 0);
       return (b.score || 0) - (a.score || 0);
     });
     return sorted;
-  }, [query, sortKey, results]);
-
-  // Simple Auth Check (Rendered last to allow hooks to run)
-  if (!isAuthenticated) {
-    return (
-      <div className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-100 p-4">
-        <Card className="w-full max-w-sm shadow-xl">
-          <CardContent className="pt-6">
-            <p className="text-center text-sm text-muted-foreground mb-4">Enter your password</p>
-            <form
-              onSubmit={(e) => {
-                e.preventDefault();
-                const fd = new FormData(e.currentTarget);
-                if (fd.get("user") === "admin" && fd.get("pass") === "Tender@2026") {
-                  setIsAuthenticated(true);
-                } else {
-                  alert("Incorrect Credentials");
-                }
-              }}
-              className="space-y-4"
-            >
-              <Input name="user" placeholder="Username" required />
-              <Input name="pass" type="password" placeholder="Password" required />
-              <Button type="submit" className="w-full">
-                Enter
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
+  }, [query, sortKey, results, profile, logistics, scoringWeights]);
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-zinc-50 to-white p-6">
@@ -1303,11 +1670,34 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
             <p className="text-sm text-zinc-500">Deutschland · Baugeräte & Baustelleneinrichtung · 840.000+ Mietgeräte</p>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant={showPipeline ? "default" : "secondary"} size="sm" onClick={() => setShowPipeline((v) => !v)}>
+              <Kanban className="h-4 w-4 mr-2" /> Pipeline
+            </Button>
             <Switch checked={autoFill} onCheckedChange={setAutoFill} aria-label="AI autofill" />
             <span className="text-sm text-zinc-600">KI Auto-Ausfüllen</span>
+            <div className="h-6 w-px bg-zinc-200" />
+            <div className="text-right text-xs leading-tight">
+              <div className="font-medium">{account.orgName}</div>
+              <div className="text-zinc-500">{account.name}</div>
+            </div>
+            <Badge variant="secondary">{ROLE_LABELS[account.role]}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => authService.signOut()} title="Abmelden">
+              <LogOut className="h-4 w-4" />
+            </Button>
           </div>
         </header>
 
+        {showPipeline && (
+          <TenderPipeline
+            steps={Steps}
+            selectedKey={selected?.id ?? null}
+            editor={account.name}
+            readOnly={!canEdit(account.role)}
+            onResume={handleResumeWorkspace}
+            onStatusChanged={handleWorkspaceStatusChanged}
+          />
+        )}
+
         {/* Stepper */}
         <ol className="mb-6 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-9 gap-2">
           {Steps.map((s) => (
@@ -1343,7 +1733,7 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
                 sortKey={sortKey}
                 setSortKey={setSortKey}
                 onAIFind={handleAIFind}
-                onImportURLs={handleImportURLs}
+                onImportGAEB={handleImportGAEB}
                 searching={searchingTenders}
                 mode={mode}
                 setMode={setMode}
@@ -1357,15 +1747,33 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
               fetch('http://127.0.0.1:7242/ingest/70bc6035-312b-4a30-a0b3-2cb694b82ca0', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'ReikanTenderAI.tsx:1362', message: 'RENDERING Overview (StepCriteria) with selected', data: { selectedKeys: Object.keys(selected), metaSource: selected.sources?.title, hasEvaluationCriteria: !!selected.evaluationCriteriaWithSource, evaluationCriteriaLength: selected.evaluationCriteriaWithSource?.length || 0, risksLength: selected.legalRisksWithSource?.length || 0, processStepsLength: selected.processSteps?.length || 0, hypothesisId: 'ALL' }, timestamp: Date.now(), sessionId: 'debug-session', runId: 'initial' }) }).catch(() => { });
               // #endregion
               return (
-                <StepCriteria
-                  tender={selected}
-                  routeScore={routeScore}
-                  onNext={() => setStep(3)}
-                  onBack={() => setStep(1)}
-                  onImproveScore={handleImproveScore}
-                  onExplainWeights={handleExplainWeights}
-                  improvingScore={improvingScore}
-                />
+                <div className="grid grid-cols-1 gap-4">
+                  <TenderVersions batchId={selected.runId || selected.id} onSelectVersion={handleSelectVersion} />
+                  <ConflictReview batchId={selected.runId || selected.id} onResolved={handleConflictResolved} />
+                  <StepCriteria
+                    tender={selected}
+                    routeScore={routeScore}
+                    onNext={() => setStep(3)}
+                    onBack={() => setStep(1)}
+                    onImproveScore={handleImproveScore}
+                    onExplainWeights={handleExplainWeights}
+                    improvingScore={improvingScore}
+                  />
+                  <BidDecisionGate
+                    tenderId={selected.id}
+                    tenderTitle={selected.title}
+                    decision={bidDecision}
+                    onDecided={setBidDecision}
+                  />
+                  {showScoreExplanation && selected.scoreBreakdown && (
+                    <ScoreExplanation
+                      score={selected.scoreBreakdown}
+                      weights={scoringWeights}
+                      onWeightsChange={handleWeightsChange}
+                      onClose={() => setShowScoreExplanation(false)}
+                    />
+                  )}
+                </div>
               );
             })()}
             {step === 2 && !selected && (
@@ -1384,7 +1792,7 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
             {step === 5 && (
               <StepDocs docs={docs} setDocStatus={setDocStatus} onUpload={handleUpload} onNext={() => setStep(6)} onBack={() => setStep(4)} onFetchFromDataroom={handleFetchFromDataroom} uploading={uploading} />
             )}
-            {step === 6 && <StepPricing pricing={pricing} setPricing={setPricing} onNext={() => setStep(7)} onBack={() => setStep(5)} onEstimateDistance={handleEstimateDistance} onAutoCalcFuel={handleAutoCalcFuel} />}
+            {step === 6 && <StepPricing pricing={pricing} setPricing={setPricing} importedLV={importedLV} onNext={() => setStep(7)} onBack={() => setStep(5)} onEstimateDistance={handleEstimateDistance} onAutoCalcFuel={handleAutoCalcFuel} />}
             {step === 7 && <StepDocumentValidation onNext={() => setStep(8)} onBack={() => setStep(6)} />}
             {step === 8 && <StepEdit docs={docs} aiEdits={aiEdits} setAiEdits={setAiEdits} onNext={() => setStep(9)} onBack={() => setStep(7)} onImprove={handleDocumentImprove} onFillGaps={handleFillGapsWithTemplates} onComplianceCheck={handleComplianceCheck} />}
             {step === 9 && selected && (
@@ -1394,6 +1802,11 @@ Einreichungs-ID: ${currentSubmissionId || 'Nicht gespeichert'}
                 docs={docs}
                 answers={answers}
                 winProb={winProb}
+                winPrediction={winPrediction}
+                winModel={winModel}
+                outcomeCount={outcomeCount}
+                submissionId={currentSubmissionId}
+                onOutcomeRecorded={handleOutcomeRecorded}
                 riskAccepted={riskAccepted}
                 setRiskAccepted={setRiskAccepted}
                 onBack={() => setStep(8)}
@@ -1473,7 +1886,7 @@ function StepScan({
   sortKey,
   setSortKey,
   onAIFind,
-  onImportURLs,
+  onImportGAEB,
   searching,
   mode,
   setMode,
@@ -1492,7 +1905,7 @@ function StepScan({
   sortKey: "deadline" | "score";
   setSortKey: (k: "deadline" | "score") => void;
   onAIFind: () => Promise<void>;
-  onImportURLs: () => Promise<void>;
+  onImportGAEB: (file: File) => Promise<void>;
   searching: boolean;
   mode: "search" | "upload";
   setMode: (m: "search" | "upload") => void;
@@ -1513,7 +1926,11 @@ function StepScan({
             Zurück zur Suche
           </Button>
         </div>
-        <FileUploadZone onTenderCreated={onTenderCreated} onProcessingChange={onProcessingChange} />
+        <FileUploadZone
+          onTenderCreated={onTenderCreated}
+          onProcessingChange={onProcessingChange}
+          amendTender={selected?.runId ? { batchId: selected.runId, title: selected.title } : null}
+        />
       </div>
     );
   }
@@ -1533,7 +1950,19 @@ function StepScan({
           <CardContent className="space-y-3">
             <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Suchbegriffe, Region, Auftraggeber, Leistungsart" aria-label="Ausschreibungen suchen" />
             <div className="flex gap-2">
-              <Button variant="secondary" className="w-full" onClick={onImportURLs} disabled={searching}>URLs / GAEB importieren</Button>
+              <label className={`inline-flex w-full cursor-pointer items-center justify-center rounded-lg bg-zinc-100 px-4 py-2 text-sm font-medium transition hover:bg-zinc-200 ${searching ? "pointer-events-none opacity-50" : ""}`}>
+                GAEB importieren
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={GAEB_FILE_ACCEPT}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) onImportGAEB(file);
+                  }}
+                />
+              </label>
               <Button className="w-full" onClick={onAIFind} disabled={searching}>
                 {searching ? (
                   <>
@@ -1643,6 +2072,16 @@ function StepScan({
                       {t.title && t.title !== 'Missing Title' ? (
                         <p className="text-sm text-zinc-700 font-medium">{t.title}</p>
                       ) : null}
+                      {t.versionCount && t.versionCount > 1 ? (
+                        <span className="w-fit rounded-md bg-zinc-100 px-2 py-0.5 text-xs text-zinc-700">
+                          Version {t.version} · {t.versionCount - 1} Änderung{t.versionCount > 2 ? 'en' : ''}
+                        </span>
+                      ) : null}
+                      {t.unreadNotifications ? (
+                        <span className="w-fit rounded-md bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                          Änderungen betreffen bearbeitete Schritte
+                        </span>
+                      ) : null}
                     </div>
 
                   </div>
@@ -1693,7 +2132,10 @@ function StepCriteria({
   onExplainWeights: () => void;
   improvingScore: boolean;
 }) {
-  const goNoGo = tender.score >= 70 && pct(tender.mustHits, tender.mustTotal) >= 80 ? 'GO' : 'NO-GO';
+  // Without recognised Mindestanforderungen there is nothing the company could miss
+  const mustMet = tender.mustTotal === 0 || pct(tender.mustHits, tender.mustTotal) >= GO_MIN_MUST_PERCENT;
+  const goNoGo = tender.scoreBreakdown?.decision ?? (tender.score >= GO_MIN_SCORE && mustMet ? 'GO' : 'NO-GO');
+  const mustItems = (tender.scoreBreakdown?.items || []).filter(item => item.category === 'must');
   const [expanded, setExpanded] = useState(false);
   const limit = 400;
   const scope = tender.scopeOfWork ?? "";
@@ -1705,7 +2147,10 @@ function StepCriteria({
         <CardHeader>
           <CardTitle className="text-base flex items-center justify-between">
             Executive Summary
-            <Badge className={`${goNoGo === 'GO' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}`}>
+            <Badge
+              className={`${goNoGo === 'GO' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}`}
+              title={tender.scoreBreakdown?.decisionReasons.join("\n")}
+            >
               {goNoGo}
             </Badge>
           </CardTitle>
@@ -1740,11 +2185,30 @@ function StepCriteria({
                 <h4 className="text-sm font-semibold mb-3">A. Go / No-Go Entscheidung</h4>
                 <ul className="text-xs space-y-3">
                   <li className="flex items-start gap-2">
-                    <span className={`font-medium mt-0.5 ${pct(tender.mustHits, tender.mustTotal) >= 80 ? 'text-emerald-600' : 'text-red-600'}`}>
-                      {pct(tender.mustHits, tender.mustTotal) >= 80 ? '✓' : '✗'}
+                    <span className={`font-medium mt-0.5 ${mustMet ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {mustMet ? '✓' : '✗'}
                     </span>
                     <div className="flex-1">
-                      <div><strong>Muss-Kriterien:</strong> {pct(tender.mustHits, tender.mustTotal)}% ({tender.mustHits}/{tender.mustTotal})</div>
+                      {tender.mustTotal > 0 ? (
+                        <div><strong>Muss-Kriterien:</strong> {pct(tender.mustHits, tender.mustTotal)}% ({tender.mustHits}/{tender.mustTotal})</div>
+                      ) : (
+                        <div><strong>Muss-Kriterien:</strong> keine Mindestanforderungen erkannt</div>
+                      )}
+                      {mustItems.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {mustItems.map((item, i) => (
+                            <li key={i} className="flex items-start gap-1" title={item.text}>
+                              <span className={item.met === true ? 'text-emerald-600' : item.met === false ? 'text-red-600' : 'text-zinc-400'}>
+                                {item.met === true ? '✓' : item.met === false ? '✗' : '?'}
+                              </span>
+                              <span>
+                                {item.label}
+                                <span className="text-zinc-500"> – {item.reason}</span>
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <SourceBadge source={tender.sources?.mustCriteria} />
                     </div>
                   </li>
@@ -1857,6 +2321,15 @@ function StepCriteria({
                               source_chunk_id={criteria.source_chunk_id}
                               page_number={criteria.page_number}
                             />
+                            {criteria.subCriteria?.length > 0 && (
+                              <ul className="mt-1 space-y-1 border-l border-zinc-200 pl-3">
+                                {criteria.subCriteria.map((sub, j) => (
+                                  <li key={`eval-sub-criteria-${sub.text.substring(0, 30)}-${j}`}>
+                                    {sub.text}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
                         </li>
                       ))
@@ -1873,6 +2346,18 @@ function StepCriteria({
                       <div><strong>Kriterien:</strong> Standard</div>
                     </li>
                   )}
+                  {tender.priceFormula && (
+                    <li className="flex items-start gap-2">
+                      <span className="text-zinc-400 mt-0.5">•</span>
+                      <div><strong>Preiswertung:</strong> {tender.priceFormula}</div>
+                    </li>
+                  )}
+                  {tender.evaluationChecks?.filter(check => !check.ok).map((check, i) => (
+                    <li key={`eval-check-${i}`} className="flex items-start gap-2 text-amber-700">
+                      <span className="mt-0.5">⚠</span>
+                      <div>{check.text}</div>
+                    </li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -2306,7 +2791,11 @@ function StepCriteria({
 
 // ---------------- Step 3
 function StepCompany({ profile, setProfile, autoFill, onNext, onBack, onAutoFill, onValidate, autoFilling, validating }: { profile: CompanyProfile; setProfile: (p: CompanyProfile) => void; autoFill: boolean; onNext: () => void; onBack: () => void; onAutoFill: () => Promise<void>; onValidate: () => Promise<void>; autoFilling: boolean; validating: boolean }) {
-  const update = (k: keyof CompanyProfile, v: string | string[] | undefined) => setProfile({ ...profile, [k]: v } as CompanyProfile);
+  const update = (k: keyof CompanyProfile, v: string | string[] | number | ReferenceProject[] | undefined) => setProfile({ ...profile, [k]: v } as CompanyProfile);
+  const toNumber = (v: string) => {
+    const n = parseFloat(v.replace(/\./g, "").replace(",", "."));
+    return Number.isFinite(n) ? n : undefined;
+  };
   return (
     <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
       <Card className="md:col-span-2">
@@ -2334,6 +2823,15 @@ function StepCompany({ profile, setProfile, autoFill, onNext, onBack, onAutoFill
             <LabeledInput label="Ansprechpartner" value={profile.contactName} onChange={(v) => update("contactName", v)} />
             <TagEditor label="Nachweise" tags={profile.permits} onChange={(tags) => update("permits", tags)} />
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <LabeledInput label="Jahresumsatz (Ø 3 Jahre, €)" value={profile.annualTurnover?.toString() ?? ""} onChange={(v) => update("annualTurnover", toNumber(v))} />
+            <LabeledInput label="Beschäftigte" value={profile.employees?.toString() ?? ""} onChange={(v) => update("employees", toNumber(v))} />
+          </div>
+          <TagEditor
+            label="Referenzen (Titel, Jahr, Auftragswert)"
+            tags={(profile.references || []).map(formatReference)}
+            onChange={(tags) => update("references", tags.map(parseReference).filter((r): r is ReferenceProject => r !== null))}
+          />
         </CardContent>
       </Card>
 
@@ -2591,7 +3089,7 @@ function calcPrice(p: PricingInput) {
   };
 }
 
-function StepPricing({ pricing, setPricing, onNext, onBack, onEstimateDistance, onAutoCalcFuel }: { pricing: PricingInput; setPricing: (p: PricingInput) => void; onNext: () => void; onBack: () => void; onEstimateDistance: () => Promise<void>; onAutoCalcFuel: () => Promise<void> }) {
+function StepPricing({ pricing, setPricing, importedLV, onNext, onBack, onEstimateDistance, onAutoCalcFuel }: { pricing: PricingInput; setPricing: (p: PricingInput) => void; importedLV: GAEBImportResult | null; onNext: () => void; onBack: () => void; onEstimateDistance: () => Promise<void>; onAutoCalcFuel: () => Promise<void> }) {
   const { subtotal, surcharge, margin, total, equipmentRental, transportCosts, operatorCosts, fuelCosts, maintenanceCosts, insuranceCosts, setupCosts } = useMemo(() => calcPrice(pricing), [pricing]);
   const set = (k: keyof PricingInput, v: number) => setPricing({ ...pricing, [k]: v });
 
@@ -2725,7 +3223,7 @@ function StepPricing({ pricing, setPricing, onNext, onBack, onEstimateDistance,
         region="DE-HH"
       />
 
-      <CalculationDetails />
+      <CalculationDetails importedLV={importedLV} />
     </div>
   );
 }
@@ -3299,7 +3797,7 @@ function StepEdit({ docs, aiEdits, setAiEdits, onNext, onBack, onImprove, onFill
 }
 
 // ---------------- Step 8
-function StepSummary({ tender, profile, docs, answers, winProb, riskAccepted, setRiskAccepted, onBack, pricing, routeScore, onSave, onGenerateDoc, saving, saveSuccess, onExportDataRoom, onSubmit }: { tender: Tender; profile: CompanyProfile; docs: DocItem[]; answers: Record<string, string>; winProb: number; riskAccepted: boolean; setRiskAccepted: (v: boolean) => void; onBack: () => void; pricing: { subtotal: number; surcharge: number; margin: number; total: number }; routeScore: number; onSave: () => Promise<void>; onGenerateDoc: () => Promise<void>; saving: boolean; saveSuccess: boolean; onExportDataRoom: () => Promise<void>; onSubmit: () => Promise<void> }) {
+function StepSummary({ tender, profile, docs, answers, winProb, winPrediction, winModel, outcomeCount, submissionId, onOutcomeRecorded, riskAccepted, setRiskAccepted, onBack, pricing, routeScore, onSave, onGenerateDoc, saving, saveSuccess, onExportDataRoom, onSubmit }: { tender: Tender; profile: CompanyProfile; docs: DocItem[]; answers: Record<string, string>; winProb: number; winPrediction: WinPrediction | null; winModel: WinModel | null; outcomeCount: number; submissionId: string | null; onOutcomeRecorded: (result: 'awarded' | 'lost') => void; riskAccepted: boolean; setRiskAccepted: (v: boolean) => void; onBack: () => void; pricing: { subtotal: number; surcharge: number; margin: number; total: number }; routeScore: number; onSave: () => Promise<void>; onGenerateDoc: () => Promise<void>; saving: boolean; saveSuccess: boolean; onExportDataRoom: () => Promise<void>; onSubmit: () => Promise<void> }) {
   const readyDocs = docs.filter((d) => d.status === "present").length;
   const totalDocs = docs.length;
   const unanswered = Object.keys(answers).filter((k) => !answers[k]?.trim()).length;
@@ -3317,11 +3815,34 @@ function StepSummary({ tender, profile, docs, answers, winProb, riskAccepted, se
             </div>
           </div>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <Metric title="Gewinnchance" value={`${winProb}%`} caption="Heuristik" />
+            <Metric title="Gewinnchance" value={`${winProb}%`} caption={winModel ? `Modell aus ${winModel.samples} Ergebnissen` : "Heuristik"} />
             <Metric title="Logistik" value={`${routeScore}%`} caption="Machbarkeit" />
             <Metric title="Dokumente" value={`${readyDocs}/${totalDocs}`} caption="bereit" />
             <Metric title="Offen" value={`${unanswered}`} caption="Fragen" />
           </div>
+          <div className="rounded-xl border p-3 text-xs">
+            {winModel && winPrediction ? (
+              <>
+                <div className="mb-1 font-medium">
+                  Kalibriert auf {winModel.samples} erfasste Ergebnisse ({winModel.wins} Zuschläge), Brier-Score {winModel.brier.toLocaleString("de-DE", { maximumFractionDigits: 2 })}
+                </div>
+                <ul className="space-y-0.5">
+                  {winPrediction.drivers.map((driver) => (
+                    <li key={driver.label} className="flex items-start gap-2">
+                      <span className={driver.effect > 0 ? "text-emerald-600" : "text-red-600"}>{driver.effect > 0 ? "▲" : "▼"}</span>
+                      <span>
+                        {driver.label}: <span className="text-zinc-500">{driver.text}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <div className="text-zinc-500">
+                Faustregel aus Bewertung, fehlenden Dokumenten und offenen Fragen. Ab {MIN_OUTCOMES} erfassten Ergebnissen mit Zuschlägen und Absagen wird die Gewinnchance aus den bisherigen Vergaben gelernt ({outcomeCount}/{MIN_OUTCOMES}).
+              </div>
+            )}
+          </div>
           <Separator />
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <Metric title="Preis Gesamt" value={euro(pricing.total)} caption="inkl. Marge" />
@@ -3399,6 +3920,10 @@ function StepSummary({ tender, profile, docs, answers, winProb, riskAccepted, se
           </div>
         </CardContent>
       </Card>
+
+      <div className="md:col-span-2">
+        <OutcomeCapture submissionId={submissionId} onRecorded={onOutcomeRecorded} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,134 @@
+import { FormEvent, ReactNode, useEffect, useState } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { Loader2, LogIn, LogOut } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Account, authService } from '@/lib/auth-service';
+
+interface AuthGateProps {
+    children: (account: Account) => ReactNode;
+}
+
+/**
+ * Signs the user in through Supabase Auth and resolves the organization and
+ * role they work with. Everything below only renders for a member of an
+ * organization; row level security limits what they see to that organization.
+ */
+export function AuthGate({ children }: AuthGateProps) {
+    const [user, setUser] = useState<User | null>(null);
+    const [account, setAccount] = useState<Account | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [signingIn, setSigningIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        // Token refreshes hand over a new session for the same user
+        const signedIn = (session: Session | null) => {
+            if (!cancelled) setUser(prev => (prev?.id === session?.user.id ? prev : session?.user ?? null));
+        };
+
+        authService.getSession()
+            .then(signedIn)
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+        const unsubscribe = authService.onAuthStateChange(signedIn);
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!user) {
+            setAccount(null);
+            return;
+        }
+
+        let cancelled = false;
+        setLoading(true);
+        authService.getAccount(user)
+            .then(loaded => !cancelled && setAccount(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
+
+    const signIn = async (e: FormEvent) => {
+        e.preventDefault();
+        setSigningIn(true);
+        setError(null);
+        try {
+            await authService.signIn(email.trim(), password);
+            setPassword('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Anmeldung fehlgeschlagen');
+        } finally {
+            setSigningIn(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Anmeldung wird geprüft…
+            </div>
+        );
+    }
+
+    if (user && account) return <>{children(account)}</>;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-100 p-4">
+            <Card className="w-full max-w-sm shadow-xl">
+                <CardHeader>
+                    <CardTitle className="text-base">{user ? 'Keine Organisation' : 'Anmelden'}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {user ? (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                {user.email} ist noch keiner Organisation zugeordnet. Bitten Sie einen Admin Ihrer Organisation, Sie hinzuzufügen.
+                            </p>
+                            <Button variant="secondary" className="w-full" onClick={() => authService.signOut()}>
+                                <LogOut className="h-4 w-4 mr-2" />
+                                Abmelden
+                            </Button>
+                        </>
+                    ) : (
+                        <form onSubmit={signIn} className="space-y-4">
+                            <Input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="E-Mail"
+                                autoComplete="username"
+                                required
+                            />
+                            <Input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder="Passwort"
+                                autoComplete="current-password"
+                                required
+                            />
+                            <Button type="submit" className="w-full" disabled={signingIn}>
+                                {signingIn ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <LogIn className="h-4 w-4 mr-2" />}
+                                Anmelden
+                            </Button>
+                        </form>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BarChart3, CheckCircle2, Loader2, Scale, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    BAND_LABELS,
+    BID_CATEGORIES,
+    bandOf,
+    BidDecision,
+    bidDecisionService,
+    BidQuestion,
+    DecisionReport,
+    scoreAnswers,
+} from '@/lib/bid-decision-service';
+
+interface BidDecisionGateProps {
+    tenderId: string;
+    tenderTitle: string;
+    // Latest decision for the tender, null while none was taken
+    decision: BidDecision | null;
+    onDecided: (decision: BidDecision) => void;
+}
+
+// Remembered so the name does not have to be typed for every decision
+const APPROVER_KEY = 'bidDecisionApprover';
+
+const RECOMMENDATION: Record<string, string> = {
+    hoch: 'Empfehlung: Bid',
+    mittel: 'Empfehlung: genau prüfen',
+    niedrig: 'Empfehlung: No-Bid',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * The Bid/No-Bid gate of a tender: a weighted questionnaire on strategic fit,
+ * capacity, margin, risk and the relationship with the buyer, signed off by
+ * an approver. Only a Bid lets the tender past the Kriterien step.
+ */
+export function BidDecisionGate({ tenderId, tenderTitle, decision, onDecided }: BidDecisionGateProps) {
+    const [questions, setQuestions] = useState<BidQuestion[]>([]);
+    // Index of the chosen option per question
+    const [choices, setChoices] = useState<Record<string, number>>({});
+    const [approver, setApprover] = useState(() => localStorage.getItem(APPROVER_KEY) || '');
+    const [decidedAt, setDecidedAt] = useState(today);
+    const [comments, setComments] = useState('');
+    const [editing, setEditing] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [report, setReport] = useState<DecisionReport | null>(null);
+    const [showReport, setShowReport] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        bidDecisionService.getQuestions()
+            .then(loaded => !cancelled && setQuestions(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        setEditing(false);
+        setChoices({});
+        setComments('');
+        setDecidedAt(today());
+    }, [tenderId]);
+
+    useEffect(() => {
+        if (!showReport) return;
+
+        let cancelled = false;
+        bidDecisionService.getReport()
+            .then(loaded => !cancelled && setReport(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [showReport, decision]);
+
+    const result = useMemo(() => scoreAnswers(questions, choices), [questions, choices]);
+    const band = result ? bandOf(result.score) : null;
+
+    const decide = async (choice: BidDecision['decision']) => {
+        if (!result || !band || !approver.trim()) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const saved = await bidDecisionService.recordDecision({
+                tender_id: tenderId,
+                tender_title: tenderTitle,
+                decision: choice,
+                score: result.score,
+                band,
+                answers: result.answers,
+                approver: approver.trim(),
+                decided_at: decidedAt || today(),
+                comments: comments.trim(),
+            });
+            localStorage.setItem(APPROVER_KEY, approver.trim());
+            setEditing(false);
+            onDecided(saved);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const categories = (Object.keys(BID_CATEGORIES) as BidQuestion['category'][])
+        .filter(category => questions.some(q => q.category === category));
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Scale className="h-4 w-4" />
+                    Bid/No-Bid-Entscheidung
+                    {decision && !editing && (
+                        <Badge className={decision.decision === 'bid' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}>
+                            {decision.decision === 'bid' ? 'Bid' : 'No-Bid'}
+                        </Badge>
+                    )}
+                </CardTitle>
+                <Button variant="ghost" size="sm" onClick={() => setShowReport(v => !v)}>
+                    <BarChart3 className="h-4 w-4 mr-1" />
+                    Auswertung
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {showReport && report && (
+                    <div className="rounded-lg border bg-zinc-50 p-3 text-xs space-y-2">
+                        <table className="w-full">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="font-medium">Band</th>
+                                    <th className="font-medium">Entscheidungen</th>
+                                    <th className="font-medium">Bid-Quote</th>
+                                    <th className="font-medium">Zuschläge / Absagen</th>
+                                    <th className="font-medium">Gewinnquote</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.bands.map(row => (
+                                    <tr key={row.band}>
+                                        <td>{BAND_LABELS[row.band]}</td>
+                                        <td>{row.decisions}</td>
+                                        <td>{row.bidRate === null ? '–' : `${row.bidRate} %`}</td>
+                                        <td>{row.awarded} / {row.lost}</td>
+                                        <td>{row.winRate === null ? '–' : `${row.winRate} %`}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.months.length > 0 && (
+                            <div className="flex flex-wrap gap-3 text-muted-foreground">
+                                {report.months.map(month => (
+                                    <span key={month.month}>
+                                        {month.month}: {month.bids}/{month.decisions} Bid ({month.bidRate ?? 0} %)
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {loading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Lade Fragebogen…
+                    </div>
+                )}
+
+                {decision && !editing && (
+                    <div className="space-y-2 text-sm">
+                        <p>
+                            {decision.decision === 'bid'
+                                ? 'Freigegeben für die Angebotsbearbeitung.'
+                                : 'Kein Angebot – die Bearbeitung endet hier.'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                            {decision.approver} · {new Date(decision.decided_at).toLocaleDateString('de-DE')} ·
+                            {' '}Bewertung {decision.score} ({BAND_LABELS[decision.band]})
+                        </p>
+                        {decision.comments && <p className="text-xs whitespace-pre-wrap">{decision.comments}</p>}
+                        <Button variant="secondary" size="sm" onClick={() => setEditing(true)}>Neu entscheiden</Button>
+                    </div>
+                )}
+
+                {!loading && (!decision || editing) && (
+                    <>
+                        {!decision && (
+                            <p className="text-xs text-muted-foreground">
+                                Vor der Angebotsbearbeitung ist eine freigegebene Bid-Entscheidung erforderlich.
+                            </p>
+                        )}
+                        {categories.map(category => (
+                            <div key={category} className="space-y-2">
+                                <h4 className="text-sm font-semibold">{BID_CATEGORIES[category]}</h4>
+                                {questions.filter(q => q.category === category).map(q => (
+                                    <div key={q.id} className="space-y-1">
+                                        <div className="text-xs">{q.question} <span className="text-muted-foreground">(Gewicht {q.weight})</span></div>
+                                        <div className="flex flex-wrap gap-2">
+                                            {q.options.map((option, index) => (
+                                                <button
+                                                    key={option.label}
+                                                    type="button"
+                                                    onClick={() => setChoices(prev => ({ ...prev, [q.id]: index }))}
+                                                    className={`rounded-lg border px-2 py-1 text-xs ${choices[q.id] === index ? 'bg-zinc-900 text-white' : 'hover:bg-zinc-100'}`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+
+                        <div className="rounded-lg border p-3 text-sm">
+                            {result && band ? (
+                                <span>
+                                    Bewertung <strong>{result.score}</strong> · {BAND_LABELS[band]} · {RECOMMENDATION[band]}
+                                </span>
+                            ) : (
+                                <span className="text-muted-foreground">
+                                    {Object.keys(choices).length} von {questions.length} Fragen beantwortet
+                                </span>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                            <label className="space-y-1 text-sm">
+                                <span className="font-medium">Freigabe durch</span>
+                                <Input value={approver} onChange={(e) => setApprover(e.target.value)} placeholder="Name" />
+                            </label>
+                            <label className="space-y-1 text-sm">
+                                <span className="font-medium">Datum</span>
+                                <Input type="date" value={decidedAt} onChange={(e) => setDecidedAt(e.target.value)} />
+                            </label>
+                        </div>
+                        <label className="block space-y-1 text-sm">
+                            <span className="font-medium">Kommentar</span>
+                            <Textarea value={comments} onChange={(e) => setComments(e.target.value)} />
+                        </label>
+
+                        <div className="flex justify-end gap-2">
+                            {editing && <Button variant="ghost" onClick={() => setEditing(false)}>Abbrechen</Button>}
+                            <Button variant="secondary" onClick={() => decide('no_bid')} disabled={!result || !approver.trim() || saving}>
+                                <XCircle className="h-4 w-4 mr-2" />
+                                No-Bid
+                            </Button>
+                            <Button onClick={() => decide('bid')} disabled={!result || !approver.trim() || saving}>
+                                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                                Bid freigeben
+                            </Button>
+                        </div>
+                    </>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,19 +6,16 @@ import { Separator } from "@/components/ui/separator";
 import { Download, Save, FileText, Trash2, Plus, Info } from "lucide-react";
 import { exportGAEBToExcel } from "@/lib/gaeb-excel-export";
 import { exportGAEBToPDF } from "@/lib/gaeb-pdf-export";
+import { exportGAEBToX84 } from "@/lib/gaeb-xml-export";
+import { GAEBImportResult, GAEBPosition, GAEBPositionsart } from "@/lib/gaeb-import";
 
-interface GAEBPosition {
-  id: number;
-  oz: string;
-  beschreibung: string;
-  menge: number;
-  einheit: string;
-  einzelpreis: number;
-  gesamtpreis: number;
-  typ: "titel" | "position" | "summe";
-  ebene: number;
-  bglCode?: string;
-}
+const POSITIONSART_LABELS: Record<GAEBPositionsart, string | null> = {
+  normal: null,
+  grund: "Grundposition",
+  alternativ: "Alternativposition",
+  bedarf: "Bedarfsposition",
+  pauschal: "Pauschal",
+};
 
 const BGL_CATEGORIES = [
   { code: "01.01", name: "Bagger (Hydraulikbagger)", einheit: "Tag", preis: 450 },
@@ -38,7 +35,7 @@ const BGL_CATEGORIES = [
   { code: "08.02", name: "Abbruchhammer", einheit: "Tag", preis: 55 },
 ];
 
-export function CalculationDetails() {
+export function CalculationDetails({ importedLV }: { importedLV?: GAEBImportResult | null }) {
   const [projektInfo, setProjektInfo] = useState({
     projektName: "Baustelleneinrichtung A7 Hamburg",
     auftraggeber: "DEGES GmbH",
@@ -80,6 +77,18 @@ export function CalculationDetails() {
 
   const [editingCell, setEditingCell] = useState<{ id: number; field: string } | null>(null);
 
+  // An imported LV replaces the sample positions; empty header fields keep the current values
+  useEffect(() => {
+    if (!importedLV) return;
+    setPositionen(importedLV.positionen);
+    setProjektInfo(prev => ({
+      projektName: importedLV.projektInfo.projektName || prev.projektName,
+      auftraggeber: importedLV.projektInfo.auftraggeber || prev.auftraggeber,
+      projektNummer: importedLV.projektInfo.projektNummer || prev.projektNummer,
+      datum: importedLV.projektInfo.datum || prev.datum,
+    }));
+  }, [importedLV]);
+
   const calculatePosition = (pos: GAEBPosition) => {
     if (pos.typ === "titel" || pos.typ === "summe") return { ...pos, gesamtpreis: 0 };
     const gesamtpreis = pos.menge * pos.einzelpreis;
@@ -122,7 +131,7 @@ export function CalculationDetails() {
 
   const totals = useMemo(() => {
     const summePositionen = positionen
-      .filter(p => p.typ === "position")
+      .filter(p => p.typ === "position" && !p.ohneGesamtbetrag)
       .reduce((sum, p) => sum + p.gesamtpreis, 0);
 
     const transport = geraeteTransportPauschale;
@@ -175,6 +184,10 @@ export function CalculationDetails() {
     exportGAEBToPDF(positionen, projektInfo, kostenData);
   };
 
+  const handleExportX84 = () => {
+    exportGAEBToX84(positionen, projektInfo, importedLV?.lvStruktur);
+  };
+
   return (
     <div className="space-y-4">
       <Card>
@@ -190,10 +203,23 @@ export function CalculationDetails() {
               <Button size="sm" variant="outline" onClick={handleExportExcel}>
                 <Download className="mr-2 h-4 w-4" />Excel
               </Button>
+              <Button size="sm" variant="secondary" onClick={handleExportX84}>
+                <Download className="mr-2 h-4 w-4" />GAEB X84
+              </Button>
             </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {importedLV && (
+            <div className="text-xs text-blue-700 bg-blue-100 rounded p-3 flex items-start gap-2">
+              <Info className="h-4 w-4 flex-shrink-0" />
+              <div>
+                Importiert aus <span className="font-medium">{importedLV.dateiname}</span> ({importedLV.format === "D83" ? "GAEB 90" : `GAEB DA XML ${importedLV.version}`}, {importedLV.format}) –{" "}
+                {importedLV.positionen.filter(p => p.typ === "position").length} Positionen. Bedarfs- und Alternativpositionen ohne Gesamtbetrag fließen nicht in die Summe ein.
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-blue-50 rounded-lg">
             <div>
               <div className="text-xs text-zinc-600 mb-1">Projektname</div>
@@ -305,11 +331,17 @@ export function CalculationDetails() {
                         <Input
                           value={pos.beschreibung}
                           onChange={(e) => updatePosition(pos.id, 'beschreibung', e.target.value)}
+                          title={pos.langtext || undefined}
                           className="h-7 text-sm"
                         />
                         {pos.bglCode && (
                           <span className="text-xs text-zinc-500 ml-1">BGL {pos.bglCode}</span>
                         )}
+                        {pos.positionsart && POSITIONSART_LABELS[pos.positionsart] && (
+                          <span className="text-xs text-amber-700 ml-1">
+                            {POSITIONSART_LABELS[pos.positionsart]}{pos.ohneGesamtbetrag ? " (ohne GB)" : ""}
+                          </span>
+                        )}
                       </td>
                       <td className="text-right p-2">
                         <Input
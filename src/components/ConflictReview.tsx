@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Check, EyeOff, Flag, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DocumentSource } from '@/components/DocumentSource';
+import { isBatchId } from '@/lib/api-client';
+import { conflictService, ConflictAction, DocumentConflict } from '@/lib/conflict-service';
+
+interface ConflictReviewProps {
+    batchId: string;
+    // Called after a value was taken over, so the tender can be reloaded
+    onResolved?: () => void;
+}
+
+const CONFLICT_TYPES: Record<string, { label: string; className: string }> = {
+    contradiction: { label: 'Widerspruch', className: 'bg-red-100 text-red-800' },
+    inconsistency: { label: 'Abweichung', className: 'bg-amber-100 text-amber-800' },
+    missing: { label: 'Fehlt', className: 'bg-zinc-200 text-zinc-800' },
+    duplicate: { label: 'Duplikat', className: 'bg-zinc-200 text-zinc-800' },
+};
+
+// Remembered so the name does not have to be typed for every decision
+const RESOLVED_BY_KEY = 'conflictResolvedBy';
+
+/**
+ * Lists the conflicts found between the documents of a tender. For each the
+ * user takes one of the competing values (or enters one), ignores it or marks
+ * it for manual review.
+ */
+export function ConflictReview({ batchId, onResolved }: ConflictReviewProps) {
+    const [conflicts, setConflicts] = useState<DocumentConflict[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [resolvedBy, setResolvedBy] = useState(() => localStorage.getItem(RESOLVED_BY_KEY) || '');
+    // Chosen value per conflict: one of the competing values or typed in
+    const [choices, setChoices] = useState<Record<string, string>>({});
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isBatchId(batchId)) return;
+
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        conflictService.getConflicts(batchId)
+            .then(loaded => !cancelled && setConflicts(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [batchId]);
+
+    const decide = async (conflict: DocumentConflict, action: ConflictAction) => {
+        setSavingId(conflict.id);
+        setError(null);
+        try {
+            const updated = await conflictService.resolveConflict(conflict.id, action, {
+                value: action === 'resolve' ? choices[conflict.id] : undefined,
+                resolvedBy: resolvedBy.trim()
+            });
+            localStorage.setItem(RESOLVED_BY_KEY, resolvedBy.trim());
+            setConflicts(prev => action === 'review'
+                ? prev.map(c => c.id === updated.id ? updated : c)
+                : prev.filter(c => c.id !== updated.id));
+            if (action === 'resolve') onResolved?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    if (!isBatchId(batchId) || (!loading && !error && conflicts.length === 0)) {
+        return null;
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-amber-600" />
+                        Widersprüche zwischen Dokumenten
+                    </span>
+                    {conflicts.length > 0 && <Badge className="bg-amber-100 text-amber-800">{conflicts.length} offen</Badge>}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {loading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Lade Widersprüche…
+                    </div>
+                )}
+
+                {conflicts.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="font-medium whitespace-nowrap">Bearbeitet von</span>
+                        <Input className="max-w-xs" value={resolvedBy} onChange={(e) => setResolvedBy(e.target.value)} placeholder="Name" />
+                    </label>
+                )}
+
+                {conflicts.map(conflict => {
+                    const type = CONFLICT_TYPES[conflict.conflict_type] || CONFLICT_TYPES.contradiction;
+                    const choice = choices[conflict.id] ?? '';
+                    const isListed = conflict.conflicting_values.some(v => v.value === choice);
+                    const setChoice = (value: string) => setChoices(prev => ({ ...prev, [conflict.id]: value }));
+                    const saving = savingId === conflict.id;
+
+                    return (
+                        <div key={conflict.id} className="rounded-xl border p-3 space-y-3">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-sm font-semibold">{conflict.field_label || conflict.field_name}</span>
+                                <Badge className={type.className}>{type.label}</Badge>
+                                {conflict.resolution_status === 'manual_review' && (
+                                    <Badge className="bg-blue-100 text-blue-800">
+                                        Manuelle Prüfung{conflict.resolved_by ? ` · ${conflict.resolved_by}` : ''}
+                                    </Badge>
+                                )}
+                            </div>
+                            {conflict.resolution_note && <p className="text-xs text-muted-foreground">{conflict.resolution_note}</p>}
+
+                            <div className="space-y-2">
+                                {conflict.conflicting_values.map(value => (
+                                    <label key={value.value} className="flex items-start gap-2 text-sm">
+                                        <input
+                                            type="radio"
+                                            className="mt-1"
+                                            name={`conflict-${conflict.id}`}
+                                            checked={choice === value.value}
+                                            onChange={() => setChoice(value.value)}
+                                        />
+                                        <span className="space-y-1">
+                                            <span className="font-medium">{value.value}</span>
+                                            <span className="flex flex-wrap gap-x-3">
+                                                {value.sources.map(source => (
+                                                    <DocumentSource
+                                                        key={source.segment_id}
+                                                        source_document={source.source_document}
+                                                        source_chunk_id={source.segment_id}
+                                                        page_number={source.page_number}
+                                                    />
+                                                ))}
+                                            </span>
+                                        </span>
+                                    </label>
+                                ))}
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="radio"
+                                        name={`conflict-${conflict.id}`}
+                                        checked={choice !== '' && !isListed}
+                                        onChange={() => setChoice(isListed ? '' : choice)}
+                                    />
+                                    <Input
+                                        className="max-w-sm"
+                                        value={isListed ? '' : choice}
+                                        onChange={(e) => setChoice(e.target.value)}
+                                        placeholder="Anderer Wert"
+                                    />
+                                </label>
+                            </div>
+
+                            <div className="flex flex-wrap justify-end gap-2">
+                                <Button variant="ghost" size="sm" disabled={saving} onClick={() => decide(conflict, 'review')}>
+                                    <Flag className="h-4 w-4 mr-1" /> Manuell prüfen
+                                </Button>
+                                <Button variant="secondary" size="sm" disabled={saving} onClick={() => decide(conflict, 'ignore')}>
+                                    <EyeOff className="h-4 w-4 mr-1" /> Ignorieren
+                                </Button>
+                                <Button size="sm" disabled={saving || !choice.trim()} onClick={() => decide(conflict, 'resolve')}>
+                                    {saving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Check className="h-4 w-4 mr-1" />}
+                                    Wert übernehmen
+                                </Button>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
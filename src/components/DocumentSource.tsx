@@ -1,5 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { FileText } from 'lucide-react';
+import { SourceViewer } from '@/components/SourceViewer';
+
+// document_segments ids; older results carry free-form chunk ids
+const isSegmentId = (id?: string | null): id is string =>
+    !!id && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
 
 interface DocumentSourceProps {
     source_document?: string | null;
@@ -11,8 +16,11 @@ interface DocumentSourceProps {
 /**
  * DocumentSource component displays a clickable document icon with source information
  * Matches the UI design from the screenshots with blue document icon
+ * Opens the cited passage in the SourceViewer side panel
  */
 export function DocumentSource({ source_document, source_chunk_id, page_number, className = '' }: DocumentSourceProps) {
+    const [showSource, setShowSource] = useState(false);
+
     if (!source_document || source_document === 'Unknown') {
         return null;
     }
@@ -21,22 +29,31 @@ export function DocumentSource({ source_document, source_chunk_id, page_number,
         e.preventDefault();
         e.stopPropagation();
 
-        const message = `Dokument: ${source_document}${page_number ? `\nSeite: ${page_number}` : ''}${source_chunk_id ? `\nAusschnitt ID: ${source_chunk_id}` : ''}`;
-        alert(message);
+        setShowSource(true);
     };
 
     const displayText = page_number ? `${source_document} (S. ${page_number})` : source_document;
 
     return (
-        <button
-            type="button"
-            onClick={handleClick}
-            className={`inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 hover:underline transition-colors cursor-pointer ${className}`}
-            title={`Dokument: ${source_document}${page_number ? ` - Seite ${page_number}` : ''}`}
-        >
-            <FileText className="h-3.5 w-3.5" />
-            <span className="font-medium">{displayText}</span>
-        </button>
+        <>
+            <button
+                type="button"
+                onClick={handleClick}
+                className={`inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 hover:underline transition-colors cursor-pointer ${className}`}
+                title={`Dokument: ${source_document}${page_number ? ` - Seite ${page_number}` : ''}`}
+            >
+                <FileText className="h-3.5 w-3.5" />
+                <span className="font-medium">{displayText}</span>
+            </button>
+            {showSource && (
+                <SourceViewer
+                    source_document={source_document}
+                    segmentId={isSegmentId(source_chunk_id) ? source_chunk_id : null}
+                    page_number={page_number}
+                    onClose={() => setShowSource(false)}
+                />
+            )}
+        </>
     );
 }
 
@@ -50,6 +67,8 @@ interface DocumentSourceInlineProps {
  * Inline document source badge (smaller, for inline use)
  */
 export function DocumentSourceInline({ source_document, source_chunk_id, page_number }: DocumentSourceInlineProps) {
+    const [showSource, setShowSource] = useState(false);
+
     if (!source_document || source_document === 'Unknown') {
         return null;
     }
@@ -58,21 +77,30 @@ export function DocumentSourceInline({ source_document, source_chunk_id, page_nu
         e.preventDefault();
         e.stopPropagation();
 
-        const message = `Dokument: ${source_document}${page_number ? `\nSeite: ${page_number}` : ''}${source_chunk_id ? `\nAusschnitt ID: ${source_chunk_id}` : ''}`;
-        alert(message);
+        setShowSource(true);
     };
 
     const displayText = page_number ? `S.${page_number}` : (source_chunk_id || 'Info');
 
     return (
-        <button
-            type="button"
-            onClick={handleClick}
-            className="inline-flex items-center gap-0.5 ml-1 text-[10px] text-blue-500 hover:text-blue-700 cursor-pointer"
-            title={`Dokument: ${source_document}${page_number ? ` - Seite ${page_number}` : ''}`}
-        >
-            <FileText className="h-2.5 w-2.5" />
-            <span className="underline">{displayText}</span>
-        </button>
+        <>
+            <button
+                type="button"
+                onClick={handleClick}
+                className="inline-flex items-center gap-0.5 ml-1 text-[10px] text-blue-500 hover:text-blue-700 cursor-pointer"
+                title={`Dokument: ${source_document}${page_number ? ` - Seite ${page_number}` : ''}`}
+            >
+                <FileText className="h-2.5 w-2.5" />
+                <span className="underline">{displayText}</span>
+            </button>
+            {showSource && (
+                <SourceViewer
+                    source_document={source_document}
+                    segmentId={isSegmentId(source_chunk_id) ? source_chunk_id : null}
+                    page_number={page_number}
+                    onClose={() => setShowSource(false)}
+                />
+            )}
+        </>
     );
 }
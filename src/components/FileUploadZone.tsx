@@ -8,6 +8,7 @@ import {
   Loader2,
 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { authHeaders } from '@/lib/auth-service';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -21,6 +22,17 @@ interface BatchStatus {
   files_processing: number;
   files_pending: number;
   progress_percent: number;
+  ocr_pages?: number;
+  low_quality_pages?: LowQualityPage[];
+}
+
+interface LowQualityPage {
+  file_upload_id: string;
+  filename: string;
+  page_number: number;
+  confidence: number | null;
+  reason: string;
+  detail?: string | null;
 }
 
 interface BatchSummary {
@@ -53,19 +65,22 @@ interface UploadingFile {
 interface FileUploadZoneProps {
   onTenderCreated: (payload: { batchId: string; summary: BatchSummary; files?: BatchFile[] }) => void;
   onProcessingChange?: (status: boolean) => void;
+  // Tender an upload can be attached to as its next version (amendment, Bieterinformation)
+  amendTender?: { batchId: string; title: string } | null;
 }
 
-export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated, onProcessingChange }) => {
+export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated, onProcessingChange, amendTender }) => {
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [batchStatus, setBatchStatus] = useState<BatchStatus | null>(null);
   const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [asAmendment, setAsAmendment] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const fetchBatchStatus = async (batchId: string): Promise<BatchStatus> => {
-    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/status`);
+    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/status`, { headers: await authHeaders() });
     if (!res.ok) {
       throw new Error('Failed to fetch batch status');
     }
@@ -73,7 +88,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
   };
 
   const fetchBatchSummary = async (batchId: string): Promise<BatchSummary> => {
-    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/summary`);
+    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/summary`, { headers: await authHeaders() });
     if (!res.ok) {
       throw new Error('Failed to fetch batch summary');
     }
@@ -81,7 +96,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
   };
 
   const fetchBatchFiles = async (batchId: string): Promise<BatchFile[]> => {
-    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/files`);
+    const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/files`, { headers: await authHeaders() });
     if (!res.ok) {
       throw new Error('Failed to fetch batch files');
     }
@@ -92,7 +107,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
   const triggerProcessing = async (batchId: string) => {
     const res = await fetch(`${API_BASE_URL}/api/batches/${batchId}/process`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
       body: JSON.stringify({}),
     });
     if (!res.ok) {
@@ -147,6 +162,9 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
       try {
         const formData = new FormData();
         formData.append('file', file);
+        if (asAmendment && amendTender) {
+          formData.append('amends', amendTender.batchId);
+        }
 
         setUploadingFiles(prev =>
           prev.map(f =>
@@ -158,6 +176,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
 
         const res = await fetch(`${API_BASE_URL}/upload-tender`, {
           method: 'POST',
+          headers: await authHeaders(),
           body: formData,
         });
 
@@ -253,9 +272,41 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({ onTenderCreated,
           <div className="text-xs text-zinc-600">
             {Number(batchStatus.files_success || 0) + Number(batchStatus.files_failed || 0)} / {Number(batchStatus.total_files) || Number(batchStatus.files_tracked) || 0} files complete
           </div>
+          {batchStatus.low_quality_pages && batchStatus.low_quality_pages.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertCircle className="h-4 w-4 text-amber-600" />
+                {batchStatus.low_quality_pages.length} scanned pages need a manual check
+              </div>
+              {batchStatus.low_quality_pages.map(page => (
+                <div key={`${page.file_upload_id}-${page.page_number}`}>
+                  {page.filename}, page {page.page_number}
+                  {page.confidence !== null ? ` (OCR ${Math.round(page.confidence * 100)}%)` : ' (not readable)'}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
+      {amendTender && (
+        <label className="flex items-start gap-2 rounded-lg border bg-white p-3 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={asAmendment}
+            disabled={isUploading}
+            onChange={e => setAsAmendment(e.target.checked)}
+          />
+          <span>
+            <span className="font-medium">Als neue Version von „{amendTender.title}“ hochladen</span>
+            <span className="block text-xs text-zinc-600">
+              Änderungsbekanntmachung oder Bieterinformation: frühere Versionen bleiben erhalten, Änderungen werden gegenübergestellt.
+            </span>
+          </span>
+        </label>
+      )}
+
       <div
         onDragOver={e => {
           e.preventDefault();
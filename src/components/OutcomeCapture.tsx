@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Save, Trophy } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { dbService } from '@/lib/db-service';
+import type { Database } from '@/lib/database.types';
+
+type OutcomeResult = Database['public']['Tables']['submission_outcomes']['Row']['result'];
+
+interface OutcomeCaptureProps {
+    // null until the submission was saved
+    submissionId: string | null;
+    // Called after an outcome was saved, so the win-probability model can learn from it
+    onRecorded?: (result: OutcomeResult) => void;
+}
+
+// Remembered so the name does not have to be typed for every outcome
+const RECORDED_BY_KEY = 'outcomeRecordedBy';
+
+const parseNumber = (value: string) => {
+    const n = parseFloat(value.replace(/\./g, '').replace(',', '.'));
+    return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Records how a submitted bid ended, as told by the Vorabinformation
+ * (§ 134 GWB): awarded or lost, the winning price, our rank and the reasons.
+ */
+export function OutcomeCapture({ submissionId, onRecorded }: OutcomeCaptureProps) {
+    const [result, setResult] = useState<OutcomeResult | ''>('');
+    const [winningPrice, setWinningPrice] = useState('');
+    const [rank, setRank] = useState('');
+    const [bidderCount, setBidderCount] = useState('');
+    const [notifiedAt, setNotifiedAt] = useState('');
+    const [reasons, setReasons] = useState('');
+    const [recordedBy, setRecordedBy] = useState(() => localStorage.getItem(RECORDED_BY_KEY) || '');
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!submissionId) return;
+
+        let cancelled = false;
+        setLoading(true);
+        dbService.getOutcome(submissionId)
+            .then(outcome => {
+                if (cancelled || !outcome) return;
+                setResult(outcome.result);
+                setWinningPrice(outcome.winning_price?.toString() ?? '');
+                setRank(outcome.rank?.toString() ?? '');
+                setBidderCount(outcome.bidder_count?.toString() ?? '');
+                setNotifiedAt(outcome.notified_at ?? '');
+                setReasons(outcome.reasons);
+                setSaved(true);
+            })
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [submissionId]);
+
+    const handleSave = async () => {
+        if (!submissionId || !result) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await dbService.saveOutcome({
+                submission_id: submissionId,
+                result,
+                winning_price: parseNumber(winningPrice),
+                rank: parseNumber(rank),
+                bidder_count: parseNumber(bidderCount),
+                notified_at: notifiedAt || null,
+                reasons: reasons.trim(),
+                recorded_by: recordedBy.trim()
+            });
+            localStorage.setItem(RECORDED_BY_KEY, recordedBy.trim());
+            setSaved(true);
+            onRecorded?.(result);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const edit = (setter: (value: string) => void) => (value: string) => {
+        setter(value);
+        setSaved(false);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Trophy className="h-4 w-4" />
+                    Ergebnis der Vergabe
+                    {saved && result && (
+                        <Badge className={result === 'awarded' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}>
+                            {result === 'awarded' ? 'Zuschlag' : 'Absage'}
+                        </Badge>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {!submissionId ? (
+                    <p className="text-sm text-muted-foreground">
+                        Speichern Sie die Einreichung, um später das Ergebnis der Vorabinformation zu erfassen.
+                    </p>
+                ) : loading ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Lade Ergebnis…
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                            <label className="space-y-1 text-sm">
+                                <span className="font-medium">Ergebnis</span>
+                                <select
+                                    className="w-full rounded-lg border px-3 py-2 text-sm"
+                                    value={result}
+                                    onChange={(e) => edit(v => setResult(v as OutcomeResult | ''))(e.target.value)}
+                                >
+                                    <option value="">– offen –</option>
+                                    <option value="awarded">Zuschlag erhalten</option>
+                                    <option value="lost">Nicht berücksichtigt</option>
+                                </select>
+                            </label>
+                            <label className="space-y-1 text-sm">
+                                <span className="font-medium">Datum der Vorabinformation</span>
+                                <Input type="date" value={notifiedAt} onChange={(e) => edit(setNotifiedAt)(e.target.value)} />
+                            </label>
+                            <label className="space-y-1 text-sm">
+                                <span className="font-medium">Preis des Zuschlags (€)</span>
+                                <Input value={winningPrice} onChange={(e) => edit(setWinningPrice)(e.target.value)} placeholder="falls bekannt" />
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                <label className="space-y-1 text-sm">
+                                    <span className="font-medium">Unser Rang</span>
+                                    <Input type="number" min={1} value={rank} onChange={(e) => edit(setRank)(e.target.value)} />
+                                </label>
+                                <label className="space-y-1 text-sm">
+                                    <span className="font-medium">Bieter</span>
+                                    <Input type="number" min={1} value={bidderCount} onChange={(e) => edit(setBidderCount)(e.target.value)} />
+                                </label>
+                            </div>
+                        </div>
+                        <label className="block space-y-1 text-sm">
+                            <span className="font-medium">Gründe der Nichtberücksichtigung (§ 134 GWB)</span>
+                            <Textarea value={reasons} onChange={(e) => edit(setReasons)(e.target.value)} />
+                        </label>
+                        <label className="block space-y-1 text-sm">
+                            <span className="font-medium">Erfasst von</span>
+                            <Input value={recordedBy} onChange={(e) => setRecordedBy(e.target.value)} placeholder="Name" />
+                        </label>
+                    </>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {submissionId && !loading && (
+                    <div className="flex justify-end">
+                        <Button onClick={handleSave} disabled={!result || saving}>
+                            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                            Ergebnis speichern
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
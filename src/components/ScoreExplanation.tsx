@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+    DEFAULT_SCORING_WEIGHTS,
+    ScoreCategory,
+    ScoringWeights,
+    TenderScore,
+} from '@/lib/tender-scoring';
+
+interface ScoreExplanationProps {
+    score: TenderScore;
+    weights: ScoringWeights;
+    onWeightsChange: (weights: ScoringWeights) => void;
+    onClose: () => void;
+}
+
+const WEIGHT_FIELDS: Array<{ key: ScoreCategory; label: string }> = [
+    { key: 'must', label: 'Muss-Kriterien' },
+    { key: 'can', label: 'Kann-Kriterien' },
+    { key: 'logistics', label: 'Logistik' },
+];
+
+/**
+ * Explains the match score of a tender criterion by criterion and lets the
+ * user change how the three parts are weighted.
+ */
+export function ScoreExplanation({ score, weights, onWeightsChange, onClose }: ScoreExplanationProps) {
+    const [draft, setDraft] = useState<ScoringWeights>(weights);
+    const changed = WEIGHT_FIELDS.some(({ key }) => draft[key] !== weights[key]);
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+            onClick={(e) => {
+                e.stopPropagation();
+                onClose();
+            }}
+        >
+            <Card className="w-full max-w-2xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                        <CardTitle className="text-base flex items-center gap-2">
+                            Gewichtungs-Aufschlüsselung
+                            <Badge className={score.decision === 'GO' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}>
+                                {score.decision}
+                            </Badge>
+                        </CardTitle>
+                        <p className="text-xs text-muted-foreground mt-1">
+                            Gesamtbewertung {score.overall} % · {score.decisionReasons.join(' · ')}
+                        </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4 max-h-[70vh] overflow-y-auto">
+                    {score.parts.map(part => {
+                        const items = score.items.filter(item => item.category === part.category);
+                        return (
+                            <div key={part.category} className="rounded-lg border p-3">
+                                <div className="flex items-center justify-between text-sm font-medium">
+                                    <span>{part.label} ({part.share} %)</span>
+                                    <span>{part.percent} % erfüllt → {part.points} Punkte</span>
+                                </div>
+                                <ul className="mt-2 space-y-1 text-xs">
+                                    {items.map((item, i) => (
+                                        <li key={i} className="flex items-start gap-2">
+                                            <span className={item.met === true ? 'text-emerald-600' : item.met === false ? 'text-red-600' : 'text-zinc-400'}>
+                                                {item.met === true ? '✓' : item.met === false ? '✗' : '?'}
+                                            </span>
+                                            <span>
+                                                {item.label}
+                                                <span className="text-muted-foreground"> – {item.reason}</span>
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        );
+                    })}
+                    {WEIGHT_FIELDS.filter(({ key }) => !score.parts.some(part => part.category === key)).map(({ key, label }) => (
+                        <p key={key} className="text-xs text-muted-foreground">
+                            {label}: keine Kriterien erkannt, die Gewichtung verteilt sich auf die übrigen Teile.
+                        </p>
+                    ))}
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">Gewichtung</p>
+                        <div className="grid grid-cols-3 gap-3">
+                            {WEIGHT_FIELDS.map(({ key, label }) => (
+                                <label key={key} className="space-y-1 text-xs">
+                                    <span>{label}</span>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        value={draft[key]}
+                                        onChange={(e) => setDraft({ ...draft, [key]: Math.max(0, parseFloat(e.target.value || '0')) })}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Die Gewichte werden ins Verhältnis gesetzt und müssen nicht 100 ergeben.
+                        </p>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setDraft(DEFAULT_SCORING_WEIGHTS)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Standard (60/30/10)
+                        </Button>
+                        <Button variant="secondary" onClick={onClose}>Schließen</Button>
+                        <Button onClick={() => onWeightsChange(draft)} disabled={!changed}>
+                            Gewichtung übernehmen
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Tag, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { segmentService, SectionType, SegmentDetail } from '@/lib/segment-service';
+
+interface SegmentLabelDialogProps {
+    segmentId: string;
+    onClose: () => void;
+}
+
+const CLASSIFIER_LABELS: Record<string, string> = {
+    model: 'Trainiertes Modell',
+    keywords: 'Schlüsselwörter',
+    user: 'Manuell korrigiert',
+};
+
+// Remembered so the name does not have to be typed for every correction
+const LABELLED_BY_KEY = 'segmentLabelledBy';
+
+/**
+ * Shows a source segment and lets the user correct its section type.
+ * Corrections are stored as training data for the segment classifier.
+ */
+export function SegmentLabelDialog({ segmentId, onClose }: SegmentLabelDialogProps) {
+    const [segment, setSegment] = useState<SegmentDetail | null>(null);
+    const [sectionTypes, setSectionTypes] = useState<SectionType[]>([]);
+    const [selectedType, setSelectedType] = useState('');
+    const [labelledBy, setLabelledBy] = useState(() => localStorage.getItem(LABELLED_BY_KEY) || '');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        Promise.all([segmentService.getSegment(segmentId), segmentService.getSectionTypes()])
+            .then(([loadedSegment, types]) => {
+                if (cancelled) return;
+                setSegment(loadedSegment);
+                setSectionTypes(types);
+                setSelectedType(loadedSegment.section_type_id || '');
+            })
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [segmentId]);
+
+    const handleSave = async () => {
+        if (!selectedType) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await segmentService.relabelSegment(segmentId, selectedType, labelledBy.trim());
+            localStorage.setItem(LABELLED_BY_KEY, labelledBy.trim());
+            setSegment(prev => prev ? { ...prev, section_type_id: selectedType, classifier: 'user', confidence: 1 } : prev);
+            setSaved(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+            onClick={(e) => {
+                e.stopPropagation();
+                onClose();
+            }}
+        >
+            <Card className="w-full max-w-2xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                        <CardTitle className="text-base">Quellabschnitt</CardTitle>
+                        {segment && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                                {segment.filename || 'Unbekanntes Dokument'}
+                                {segment.page_number ? ` · Seite ${segment.page_number}` : ''}
+                                {segment.heading_path.length > 0 ? ` · ${segment.heading_path.join(' › ')}` : ''}
+                            </p>
+                        )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={onClose}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {loading && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" /> Lade Abschnitt…
+                        </div>
+                    )}
+
+                    {segment && (
+                        <>
+                            <div className="max-h-72 overflow-y-auto whitespace-pre-wrap rounded-lg border bg-zinc-50 p-3 text-sm">
+                                {segment.content}
+                            </div>
+                            {segment.duplicate_of && (
+                                <p className="text-xs text-muted-foreground">
+                                    Wiederholt einen anderen Abschnitt fast wörtlich und wird bei der Auswertung nicht mitgezählt.
+                                </p>
+                            )}
+
+                            <div className="text-xs text-muted-foreground">
+                                Klassifiziert durch: {CLASSIFIER_LABELS[segment.classifier || ''] || 'Unbekannt'}
+                                {segment.confidence !== null ? ` (Konfidenz ${Math.round(segment.confidence * 100)} %)` : ''}
+                            </div>
+
+                            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                                <label className="space-y-1 text-sm">
+                                    <span className="font-medium">Abschnittstyp</span>
+                                    <select
+                                        className="w-full rounded-lg border px-3 py-2 text-sm"
+                                        value={selectedType}
+                                        onChange={(e) => {
+                                            setSelectedType(e.target.value);
+                                            setSaved(false);
+                                        }}
+                                    >
+                                        <option value="">– nicht zugeordnet –</option>
+                                        {sectionTypes.map(type => (
+                                            <option key={type.id} value={type.id}>
+                                                {type.description || type.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="space-y-1 text-sm">
+                                    <span className="font-medium">Korrigiert von</span>
+                                    <Input value={labelledBy} onChange={(e) => setLabelledBy(e.target.value)} placeholder="Name" />
+                                </label>
+                            </div>
+                        </>
+                    )}
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    {saved && <p className="text-sm text-green-700">Gespeichert – die Korrektur fließt ins nächste Training ein.</p>}
+
+                    <div className="flex justify-end gap-2">
+                        <Button variant="secondary" onClick={onClose}>Schließen</Button>
+                        <Button onClick={handleSave} disabled={!segment || !selectedType || saving}>
+                            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Tag className="h-4 w-4 mr-2" />}
+                            Abschnittstyp speichern
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ExternalLink, FileText, Loader2, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SegmentLabelDialog } from '@/components/SegmentLabelDialog';
+import { segmentService, CitedFact, PageSegment, SegmentSource } from '@/lib/segment-service';
+
+interface SourceViewerProps {
+    source_document: string;
+    segmentId?: string | null;
+    page_number?: number | null;
+    onClose: () => void;
+}
+
+const FACT_LABELS: Record<string, string> = {
+    contracting_authority: 'Auftraggeber',
+    contact_email: 'E-Mail',
+    contact_phone: 'Telefon',
+    tender_number: 'Vergabenummer',
+    procedure_type: 'Verfahrensart',
+    procurement_regulation: 'Vergabeordnung',
+    scope_of_work: 'Leistungsbeschreibung',
+    place_of_performance: 'Leistungsort',
+    performance_period: 'Leistungszeitraum',
+    must_criteria: 'Nachweis',
+    suitability_threshold: 'Mindestanforderung',
+    certification: 'Zertifikat',
+    evaluation_criteria: 'Zuschlagskriterium',
+    technical_norm: 'Norm',
+    deadline: 'Frist',
+    key_date: 'Termin',
+    price_position: 'Preisposition',
+    legal_requirement: 'Rechtliches',
+    safety_requirement: 'Sicherheit',
+};
+
+const describeFact = (fact: CitedFact) => {
+    const value = fact.value || {};
+    const text = value.bezeichnung ?? value.value ?? value.merkmal ?? value.position ?? '';
+    const date = value.datum ? [value.datum, value.uhrzeit ? `${value.uhrzeit} Uhr` : null].filter(Boolean).join(', ') : null;
+    const detail = date ?? (value.gewichtung !== undefined && value.gewichtung !== null ? `${value.gewichtung} ${value.einheit || '%'}` : null);
+    return detail ? `${text} (${detail})` : String(text);
+};
+
+/**
+ * Side panel showing where an extracted value comes from: the original file at
+ * the cited page, the page text with the cited lines highlighted, and every
+ * other fact cited from the same document to step through.
+ */
+export function SourceViewer({ source_document, segmentId, page_number, onClose }: SourceViewerProps) {
+    const [source, setSource] = useState<SegmentSource | null>(null);
+    const [activeSegmentId, setActiveSegmentId] = useState<string | null>(segmentId || null);
+    const [factIndex, setFactIndex] = useState<number | null>(null);
+    const [loading, setLoading] = useState<boolean>(!!segmentId);
+    const [error, setError] = useState<string | null>(null);
+    const [showRelabel, setShowRelabel] = useState(false);
+    const highlightRef = useRef<HTMLDivElement | null>(null);
+
+    // Load the page of the active segment unless it is already shown
+    useEffect(() => {
+        if (!activeSegmentId) return;
+        if (source?.segments.some(segment => segment.segment_id === activeSegmentId)) return;
+
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        segmentService.getSegmentSource(activeSegmentId)
+            .then(loaded => {
+                if (cancelled) return;
+                setSource(loaded);
+                // Opened from a citation: start at the first fact cited from this segment
+                const cited = loaded.facts.findIndex(fact => fact.segment_id === activeSegmentId);
+                setFactIndex(prev => prev ?? (cited === -1 ? null : cited));
+            })
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [activeSegmentId, source]);
+
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [source, activeSegmentId, factIndex]);
+
+    const facts = source?.facts || [];
+    const activeFact = factIndex !== null ? facts[factIndex] : null;
+    const currentPage = activeFact?.page_number ?? source?.page_number ?? page_number ?? null;
+    const isPdf = source?.document.mime_type === 'application/pdf';
+
+    const goToFact = (index: number) => {
+        const fact = facts[index];
+        if (!fact) return;
+        setFactIndex(index);
+        if (fact.segment_id) setActiveSegmentId(fact.segment_id);
+    };
+
+    const isHighlighted = (segment: PageSegment, lineIndex: number) => {
+        if (segment.segment_id !== activeSegmentId) return false;
+        const fact = activeFact && activeFact.segment_id === activeSegmentId ? activeFact : null;
+        // Table rows were merged during extraction, so the whole table is the source
+        if (!fact || segment.is_table || segment.first_line === null || fact.line_start === null) return true;
+        const line = segment.first_line + lineIndex;
+        return line >= fact.line_start && line <= (fact.line_end ?? fact.line_start);
+    };
+
+    let highlightAssigned = false;
+
+    // Clicks must not reach the element the citation sits in
+    const handleBackdropClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onClose();
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={handleBackdropClick}>
+                <div
+                    className="flex h-full w-full max-w-3xl flex-col bg-white shadow-2xl"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="flex items-start justify-between border-b p-4">
+                        <div className="min-w-0">
+                            <div className="flex items-center gap-2 text-sm font-semibold">
+                                <FileText className="h-4 w-4 text-blue-600 shrink-0" />
+                                <span className="truncate">{source?.document.filename || source_document}</span>
+                            </div>
+                            <div className="mt-1 text-xs text-muted-foreground">
+                                {currentPage ? `Seite ${currentPage}` : 'Ohne Seitenangabe'}
+                                {activeFact?.section ? ` · ${activeFact.section}` : ''}
+                                {activeFact?.line_start ? ` · Zeile ${activeFact.line_start}${activeFact.line_end && activeFact.line_end !== activeFact.line_start ? `–${activeFact.line_end}` : ''}` : ''}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            {source?.document.url && (
+                                <a
+                                    href={currentPage && isPdf ? `${source.document.url}#page=${currentPage}` : source.document.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs hover:bg-zinc-100"
+                                >
+                                    <ExternalLink className="h-3.5 w-3.5" /> Original
+                                </a>
+                            )}
+                            {activeSegmentId && (
+                                <Button variant="ghost" size="sm" onClick={() => setShowRelabel(true)}>
+                                    <Tag className="h-3.5 w-3.5 mr-1" /> Abschnittstyp
+                                </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={onClose}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+
+                    {facts.length > 0 && (
+                        <div className="flex items-center gap-2 border-b bg-zinc-50 px-4 py-2">
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                disabled={factIndex === null || factIndex === 0}
+                                onClick={() => factIndex !== null && goToFact(factIndex - 1)}
+                            >
+                                <ChevronLeft className="h-4 w-4" />
+                            </Button>
+                            <div className="min-w-0 flex-1 text-xs">
+                                {activeFact ? (
+                                    <>
+                                        <Badge className="mr-2">{FACT_LABELS[activeFact.fact_type] || activeFact.fact_type}</Badge>
+                                        <span className="font-medium">{describeFact(activeFact)}</span>
+                                    </>
+                                ) : (
+                                    <span className="text-muted-foreground">{facts.length} Angaben aus diesem Dokument</span>
+                                )}
+                            </div>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                {factIndex !== null ? `${factIndex + 1} / ${facts.length}` : `– / ${facts.length}`}
+                            </span>
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                disabled={factIndex !== null && factIndex >= facts.length - 1}
+                                onClick={() => goToFact(factIndex === null ? 0 : factIndex + 1)}
+                            >
+                                <ChevronRight className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    )}
+
+                    <div className="flex-1 overflow-y-auto">
+                        {!segmentId && (
+                            <div className="p-4 text-sm text-muted-foreground">
+                                Für diese Angabe ist keine Quellstelle verknüpft.
+                                {page_number ? ` Laut Auswertung steht sie auf Seite ${page_number}.` : ''}
+                            </div>
+                        )}
+
+                        {loading && (
+                            <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+                                <Loader2 className="h-4 w-4 animate-spin" /> Lade Quelle…
+                            </div>
+                        )}
+
+                        {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+
+                        {source?.document.url && isPdf && currentPage && (
+                            <iframe
+                                key={`${source.document.url}-${currentPage}`}
+                                src={`${source.document.url}#page=${currentPage}`}
+                                title={source.document.filename || source_document}
+                                className="h-[55vh] w-full border-b"
+                            />
+                        )}
+
+                        {source && !loading && (
+                            <div className="p-4 font-mono text-xs leading-relaxed">
+                                {source.segments.map(segment => (
+                                    <div key={segment.segment_id} className={segment.is_heading ? 'mt-3 font-semibold' : 'mb-2'}>
+                                        {segment.content.split('\n').map((line, index) => {
+                                            const highlighted = isHighlighted(segment, index);
+                                            // Scroll to the first highlighted line
+                                            const ref = highlighted && !highlightAssigned ? highlightRef : undefined;
+                                            if (ref) highlightAssigned = true;
+                                            return (
+                                                <div
+                                                    key={index}
+                                                    ref={ref}
+                                                    className={`flex gap-3 rounded px-1 ${highlighted ? 'bg-yellow-100' : ''}`}
+                                                >
+                                                    <span className="w-10 shrink-0 select-none text-right text-zinc-400">
+                                                        {segment.first_line !== null && !segment.is_table ? segment.first_line + index : ''}
+                                                    </span>
+                                                    <span className="whitespace-pre-wrap break-words">{line || ' '}</span>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {showRelabel && activeSegmentId && (
+                <SegmentLabelDialog segmentId={activeSegmentId} onClose={() => setShowRelabel(false)} />
+            )}
+        </>
+    );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Clock, Kanban, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { dbService } from '@/lib/db-service';
+import { WORKSPACE_STATUSES, WorkspaceCard, WorkspaceStatus } from '@/lib/tender-workspace';
+
+interface TenderPipelineProps {
+    // Titles of the wizard steps by id
+    steps: Array<{ id: number; title: string }>;
+    // Tender open in the wizard, highlighted on the board
+    selectedKey: string | null;
+    // Name recorded as the last editor of a moved card
+    editor: string;
+    // Viewers see the board but cannot move cards
+    readOnly: boolean;
+    onResume: (tenderKey: string) => void;
+    onStatusChanged: (tenderKey: string, status: WorkspaceStatus) => void;
+}
+
+/**
+ * Every tender in progress as a Kanban board by status. Cards are dragged
+ * between columns to change the status and opened to resume the tender at
+ * the step it was left at.
+ */
+export function TenderPipeline({ steps, selectedKey, editor, readOnly, onResume, onStatusChanged }: TenderPipelineProps) {
+    const [workspaces, setWorkspaces] = useState<WorkspaceCard[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [dragged, setDragged] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        dbService.getWorkspaces()
+            .then(loaded => !cancelled && setWorkspaces(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const move = async (id: string, status: WorkspaceStatus) => {
+        const workspace = workspaces.find(w => w.id === id);
+        if (readOnly || !workspace || workspace.status === status) return;
+
+        setError(null);
+        setWorkspaces(prev => prev.map(w => (w.id === id ? { ...w, status, last_editor: editor } : w)));
+        try {
+            await dbService.updateWorkspaceStatus(id, status, editor);
+            onStatusChanged(workspace.tender_key, status);
+        } catch (err) {
+            setWorkspaces(prev => prev.map(w => (w.id === id ? workspace : w)));
+            setError(err instanceof Error ? err.message : 'Status konnte nicht geändert werden');
+        }
+    };
+
+    const stepTitle = (step: number) => steps.find(s => s.id === step)?.title ?? `Schritt ${step}`;
+
+    return (
+        <Card className="mb-6">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Kanban className="h-4 w-4" />
+                    Pipeline
+                </CardTitle>
+                {readOnly && <Badge variant="secondary">Nur Lesen</Badge>}
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Lade Pipeline…
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 gap-3 sm:grid-cols-3 xl:grid-cols-6">
+                        {WORKSPACE_STATUSES.map(column => {
+                            const cards = workspaces.filter(w => w.status === column.status);
+                            return (
+                                <div
+                                    key={column.status}
+                                    className="rounded-2xl border bg-zinc-50 p-2 min-h-32"
+                                    onDragOver={(e) => e.preventDefault()}
+                                    onDrop={() => {
+                                        if (dragged) move(dragged, column.status);
+                                        setDragged(null);
+                                    }}
+                                >
+                                    <div className="mb-2 flex items-center justify-between px-1 text-xs font-medium text-zinc-600">
+                                        {column.label}
+                                        <Badge variant="secondary">{cards.length}</Badge>
+                                    </div>
+                                    <div className="space-y-2">
+                                        {cards.map(card => (
+                                            <button
+                                                key={card.id}
+                                                type="button"
+                                                draggable={!readOnly}
+                                                onDragStart={() => setDragged(card.id)}
+                                                onClick={() => onResume(card.tender_key)}
+                                                className={`w-full rounded-xl border bg-white p-2 text-left text-xs hover:shadow ${card.tender_key === selectedKey ? 'border-zinc-900' : ''}`}
+                                                title="Öffnen und weiterbearbeiten"
+                                            >
+                                                <div className="font-medium line-clamp-2">{card.title || card.tender_key}</div>
+                                                {card.buyer && <div className="text-muted-foreground truncate">{card.buyer}</div>}
+                                                <div className="mt-1 flex items-center justify-between text-muted-foreground">
+                                                    <span>{card.current_step}. {stepTitle(card.current_step)}</span>
+                                                    {card.deadline && (
+                                                        <span className="flex items-center gap-1">
+                                                            <Clock className="h-3 w-3" />
+                                                            {new Date(card.deadline).toLocaleDateString('de-DE')}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <div className="mt-1 text-[11px] text-muted-foreground">
+                                                    {card.last_editor || 'Unbekannt'} · {new Date(card.updated_at).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })}
+                                                </div>
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {!loading && workspaces.length === 0 && (
+                    <p className="mt-3 text-sm text-muted-foreground">
+                        Noch keine Ausschreibungen in Bearbeitung. Wählen Sie eine Ausschreibung aus, um sie hier zu verfolgen.
+                    </p>
+                )}
+                {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
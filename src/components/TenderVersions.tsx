@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { BellRing, Check, GitCompare, Loader2, Minus, Pencil, Plus } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { isBatchId } from '@/lib/api-client';
+import { ProfileChange, TenderVersions as Versions, versionService } from '@/lib/version-service';
+
+interface TenderVersionsProps {
+    // Batch of the version shown
+    batchId: string;
+    // Shows another version of the tender
+    onSelectVersion: (batchId: string) => void;
+}
+
+const CHANGE_ICONS: Record<ProfileChange['change_type'], typeof Plus> = {
+    added: Plus,
+    removed: Minus,
+    changed: Pencil,
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('de-DE');
+
+/**
+ * Versions of a tender: the original documents and every amendment uploaded
+ * for it. Lists what the shown version changed against the one it amends and
+ * the notifications about changes to steps the team already worked on.
+ */
+export function TenderVersions({ batchId, onSelectVersion }: TenderVersionsProps) {
+    const [data, setData] = useState<Versions | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isBatchId(batchId)) return;
+
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        versionService.getVersions(batchId)
+            .then(loaded => !cancelled && setData(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [batchId]);
+
+    const markRead = async (notificationId: string) => {
+        try {
+            const updated = await versionService.markNotificationRead(notificationId);
+            setData(prev => prev && {
+                ...prev,
+                notifications: prev.notifications.map(n => n.id === updated.id ? updated : n)
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+        }
+    };
+
+    const versions = data?.versions || [];
+    const unread = (data?.notifications || []).filter(n => !n.read_at);
+    if (!isBatchId(batchId) || (!loading && !error && versions.length <= 1 && unread.length === 0)) {
+        return null;
+    }
+
+    const shown = versions.find(v => v.batch_id === batchId);
+    const latest = versions[versions.length - 1];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                        <GitCompare className="h-4 w-4" />
+                        Versionen der Ausschreibung
+                    </span>
+                    {shown && <Badge className="bg-zinc-100 text-zinc-800">Version {shown.version} von {versions.length}</Badge>}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {loading && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Lade Versionen…
+                    </div>
+                )}
+
+                {unread.map(notification => (
+                    <div key={notification.id} className="rounded-xl border border-amber-200 bg-amber-50 p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                            <p className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+                                <BellRing className="h-4 w-4" /> {notification.title}
+                            </p>
+                            <Button variant="ghost" size="sm" onClick={() => markRead(notification.id)}>
+                                <Check className="h-4 w-4 mr-1" /> Gelesen
+                            </Button>
+                        </div>
+                        <ul className="list-disc pl-5 text-xs text-amber-900 space-y-0.5">
+                            {notification.message.split('\n').map(line => <li key={line}>{line}</li>)}
+                        </ul>
+                        <div className="flex flex-wrap gap-1">
+                            {notification.affected_step_labels.map(label => (
+                                <Badge key={label} className="bg-amber-100 text-amber-800">Erneut prüfen: {label}</Badge>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+
+                {shown && shown.version > 1 && (
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">Änderungen gegenüber Version {shown.version - 1}</p>
+                        {shown.changes.length === 0 && (
+                            <p className="text-xs text-muted-foreground">Keine Änderungen an den ausgewerteten Angaben.</p>
+                        )}
+                        {shown.changes.map(change => {
+                            const Icon = CHANGE_ICONS[change.change_type];
+                            return (
+                                <div key={change.field_name} className="flex items-start justify-between gap-3 text-sm">
+                                    <span className="flex items-start gap-2">
+                                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-zinc-500" />
+                                        {change.summary}
+                                    </span>
+                                    <span className="flex shrink-0 flex-wrap justify-end gap-1">
+                                        {change.affected_step_labels.map(label => (
+                                            <Badge key={label} className="bg-zinc-100 text-zinc-700">{label}</Badge>
+                                        ))}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {versions.length > 1 && (
+                    <div className="flex flex-wrap gap-2">
+                        {versions.map(version => (
+                            <Button
+                                key={version.batch_id}
+                                variant={version.batch_id === batchId ? 'default' : 'secondary'}
+                                size="sm"
+                                disabled={version.batch_id === batchId}
+                                onClick={() => onSelectVersion(version.batch_id)}
+                            >
+                                V{version.version} · {formatDate(version.created_at)}
+                                {version.batch_id === latest?.batch_id ? ' (aktuell)' : ''}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,17 @@
+import { authHeaders } from './auth-service';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// Calls the tender-api REST facade as the signed-in user; rejects with the API's error message
+export async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const headers = { ...(await authHeaders()), ...(init?.headers as Record<string, string> | undefined) };
+  const res = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body?.success) {
+    throw new Error(body?.error || `Request failed (${res.status})`);
+  }
+  return body as T;
+}
+
+// Processed batches are identified by UUID; demo tenders have nothing to load
+export const isBatchId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
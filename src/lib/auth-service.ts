@@ -0,0 +1,81 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type OrgRole = Database['public']['Tables']['memberships']['Row']['role'];
+
+export const ROLE_LABELS: Record<OrgRole, string> = {
+  admin: 'Admin',
+  kalkulator: 'Kalkulator',
+  bid_manager: 'Bid-Manager',
+  viewer: 'Viewer'
+};
+
+// The signed-in user and the organization they work in
+export interface Account {
+  userId: string;
+  email: string;
+  name: string;
+  orgId: string;
+  orgName: string;
+  role: OrgRole;
+}
+
+// Viewers may look at everything of their organization but change nothing
+export const canEdit = (role: OrgRole) => role !== 'viewer';
+
+export const authService = {
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession();
+    if (error) throw error;
+    return data.session;
+  },
+
+  // Returns the unsubscribe function
+  onAuthStateChange(callback: (session: Session | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signIn(email: string, password: string): Promise<Session> {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return data.session;
+  },
+
+  async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+
+  // The user's first membership; null while no admin has added them to an organization
+  async getAccount(user: User): Promise<Account | null> {
+    const { data, error } = await supabase
+      .from('memberships')
+      .select('role, organization:organizations(id, name)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    const membership = data as { role: OrgRole; organization: { id: string; name: string } | null } | null;
+    if (!membership?.organization) return null;
+
+    const email = user.email || '';
+    return {
+      userId: user.id,
+      email,
+      name: (user.user_metadata?.full_name as string | undefined) || email,
+      orgId: membership.organization.id,
+      orgName: membership.organization.name,
+      role: membership.role
+    };
+  }
+};
+
+// Authorization header for the tender-api and the edge functions, which act on behalf of the user
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
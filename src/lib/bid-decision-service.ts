@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type BidQuestion = Database['public']['Tables']['bid_questions']['Row'];
+export type BidDecision = Database['public']['Tables']['bid_decisions']['Row'];
+type BidDecisionInsert = Database['public']['Tables']['bid_decisions']['Insert'];
+export type BidAnswer = BidDecision['answers'][number];
+export type BidBand = BidDecision['band'];
+
+export const BID_CATEGORIES: Record<BidQuestion['category'], string> = {
+  strategie: 'Strategische Passung',
+  kapazitaet: 'Kapazität',
+  marge: 'Margenpotenzial',
+  risiko: 'Risiko',
+  beziehung: 'Kundenbeziehung'
+};
+
+export const BAND_LABELS: Record<BidBand, string> = {
+  hoch: 'Hoch (ab 70)',
+  mittel: 'Mittel (50–69)',
+  niedrig: 'Niedrig (unter 50)'
+};
+
+export interface BandReport {
+  band: BidBand;
+  decisions: number;
+  bids: number;
+  // Bids with a recorded outcome
+  awarded: number;
+  lost: number;
+  bidRate: number | null;
+  winRate: number | null;
+}
+
+export interface PeriodReport {
+  // "2026-02"
+  month: string;
+  decisions: number;
+  bids: number;
+  bidRate: number | null;
+}
+
+export interface DecisionReport {
+  bands: BandReport[];
+  months: PeriodReport[];
+}
+
+export function bandOf(score: number): BidBand {
+  if (score >= 70) return 'hoch';
+  if (score >= 50) return 'mittel';
+  return 'niedrig';
+}
+
+// Weighted score of the chosen options, 0..100; null until every question is answered
+export function scoreAnswers(questions: BidQuestion[], choices: Record<string, number>): { score: number; answers: BidAnswer[] } | null {
+  if (questions.length === 0 || questions.some(q => q.options[choices[q.id]] === undefined)) return null;
+
+  const answers = questions.map(q => {
+    const option = q.options[choices[q.id]];
+    return { question_id: q.id, question: q.question, option: option.label, score: option.score, weight: Number(q.weight) };
+  });
+  const totalWeight = answers.reduce((sum, a) => sum + a.weight, 0);
+  const score = answers.reduce((sum, a) => sum + a.score * a.weight, 0) / totalWeight;
+  return { score: Math.round(score * 10) / 10, answers };
+}
+
+const rate = (part: number, total: number) => (total === 0 ? null : Math.round((100 * part) / total));
+
+export const bidDecisionService = {
+  async getQuestions(): Promise<BidQuestion[]> {
+    const { data, error } = await supabase
+      .from('bid_questions')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as BidQuestion[];
+  },
+
+  // The decision that applies to the tender, null if none was taken yet
+  async getLatestDecision(tenderId: string): Promise<BidDecision | null> {
+    const { data, error } = await supabase
+      .from('bid_decisions')
+      .select('*')
+      .eq('tender_id', tenderId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as BidDecision | null;
+  },
+
+  async recordDecision(decision: BidDecisionInsert): Promise<BidDecision> {
+    const { data, error } = await supabase
+      .from('bid_decisions')
+      .insert(decision)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as BidDecision;
+  },
+
+  // Bid rate per month and bid and win rates per band, counting the latest decision per tender
+  async getReport(): Promise<DecisionReport> {
+    const { data, error } = await supabase
+      .from('bid_decisions')
+      .select('tender_id, decision, band, decided_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const latest = new Map<string, Pick<BidDecision, 'tender_id' | 'decision' | 'band' | 'decided_at'>>();
+    for (const row of (data || []) as BidDecision[]) {
+      if (!latest.has(row.tender_id)) latest.set(row.tender_id, row);
+    }
+    const decisions = [...latest.values()];
+
+    // Outcomes are recorded per submission, submissions point to the tender
+    const { data: outcomeData, error: outcomesError } = await supabase
+      .from('submission_outcomes')
+      .select('result, submission:tender_submissions(tender_id)');
+
+    if (outcomesError) throw outcomesError;
+    const results = new Map<string, 'awarded' | 'lost'>();
+    for (const outcome of (outcomeData || []) as Array<{ result: 'awarded' | 'lost'; submission: { tender_id: string } | null }>) {
+      if (outcome.submission) results.set(outcome.submission.tender_id, outcome.result);
+    }
+
+    const bands = (Object.keys(BAND_LABELS) as BidBand[]).map(band => {
+      const inBand = decisions.filter(d => d.band === band);
+      const bids = inBand.filter(d => d.decision === 'bid');
+      const awarded = bids.filter(d => results.get(d.tender_id) === 'awarded').length;
+      const lost = bids.filter(d => results.get(d.tender_id) === 'lost').length;
+      return {
+        band,
+        decisions: inBand.length,
+        bids: bids.length,
+        awarded,
+        lost,
+        bidRate: rate(bids.length, inBand.length),
+        winRate: rate(awarded, awarded + lost)
+      };
+    });
+
+    const byMonth = new Map<string, { decisions: number; bids: number }>();
+    for (const decision of decisions) {
+      const month = decision.decided_at.substring(0, 7);
+      const entry = byMonth.get(month) || { decisions: 0, bids: 0 };
+      entry.decisions++;
+      if (decision.decision === 'bid') entry.bids++;
+      byMonth.set(month, entry);
+    }
+    const months = [...byMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, entry]) => ({ month, ...entry, bidRate: rate(entry.bids, entry.decisions) }));
+
+    return { bands, months };
+  }
+};
@@ -0,0 +1,60 @@
+import { apiRequest } from '@/lib/api-client';
+
+export type ConflictType = 'contradiction' | 'inconsistency' | 'missing' | 'duplicate';
+
+// resolve: take a value for the field; ignore: keep the extracted value; review: leave open for manual review
+export type ConflictAction = 'resolve' | 'ignore' | 'review';
+
+export interface ConflictSource {
+  file_upload_id: string;
+  source_document: string;
+  page_number: number | null;
+  segment_id: string;
+}
+
+// One of the competing values with the documents stating it
+export interface ConflictValue {
+  value: string;
+  sources: ConflictSource[];
+}
+
+export interface DocumentConflict {
+  id: string;
+  field_name: string;
+  field_label: string | null;
+  conflict_type: ConflictType;
+  conflicting_values: ConflictValue[];
+  resolution_status: 'pending' | 'manual_review' | 'resolved' | 'ignored';
+  resolution_note: string | null;
+  resolved_value: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export const conflictService = {
+  // Pending conflicts and those marked for manual review
+  async getConflicts(batchId: string): Promise<DocumentConflict[]> {
+    const body = await apiRequest<{ conflicts: DocumentConflict[] }>(`/api/batches/${batchId}/conflicts`);
+    return body.conflicts;
+  },
+
+  // A resolved value is written into the tender profile and the tender
+  async resolveConflict(
+    conflictId: string,
+    action: ConflictAction,
+    options: { value?: string; resolvedBy?: string; note?: string } = {}
+  ): Promise<DocumentConflict> {
+    const body = await apiRequest<{ conflict: DocumentConflict }>(`/api/conflicts/${conflictId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action,
+        value: options.value,
+        resolved_by: options.resolvedBy || null,
+        note: options.note
+      })
+    });
+    return body.conflict;
+  }
+};
@@ -1,9 +1,60 @@
 export interface Database {
   public: {
     Tables: {
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      memberships: {
+        Row: {
+          id: string;
+          org_id: string;
+          user_id: string;
+          role: 'admin' | 'kalkulator' | 'bid_manager' | 'viewer';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id: string;
+          user_id: string;
+          role?: 'admin' | 'kalkulator' | 'bid_manager' | 'viewer';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          user_id?: string;
+          role?: 'admin' | 'kalkulator' | 'bid_manager' | 'viewer';
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'memberships_org_id_fkey';
+            columns: ['org_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       tenders: {
         Row: {
           id: string;
+          org_id: string;
           title: string;
           buyer: string;
           region: string;
@@ -37,6 +88,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
+          org_id?: string;
           title: string;
           buyer: string;
           region: string;
@@ -70,6 +122,7 @@ export interface Database {
         };
         Update: {
           id?: string;
+          org_id?: string;
           title?: string;
           buyer?: string;
           region?: string;
@@ -101,10 +154,246 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      tender_upload_batches: {
+        Row: {
+          id: string;
+          org_id: string;
+          total_files: number;
+          processed_files: number;
+          status: string;
+          tender_id: string | null;
+          root_batch_id: string | null;
+          amends_batch_id: string | null;
+          version: number;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          org_id?: string;
+          total_files?: number;
+          processed_files?: number;
+          status?: string;
+          tender_id?: string | null;
+          root_batch_id?: string | null;
+          amends_batch_id?: string | null;
+          version?: number;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          total_files?: number;
+          processed_files?: number;
+          status?: string;
+          tender_id?: string | null;
+          root_batch_id?: string | null;
+          amends_batch_id?: string | null;
+          version?: number;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      tender_file_uploads: {
+        Row: {
+          id: string;
+          upload_batch_id: string;
+          original_filename: string;
+          relative_path: string;
+          file_path: string;
+          file_size: number;
+          mime_type: string;
+          processing_status: string;
+          extraction_result: Record<string, unknown>;
+          error_message: string;
+          content_hash: string | null;
+          parent_upload_id: string | null;
+          duplicate_of: string | null;
+          created_at: string;
+          processed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          upload_batch_id: string;
+          original_filename: string;
+          relative_path?: string;
+          file_path: string;
+          file_size: number;
+          mime_type: string;
+          processing_status?: string;
+          extraction_result?: Record<string, unknown>;
+          error_message?: string;
+          content_hash?: string | null;
+          parent_upload_id?: string | null;
+          duplicate_of?: string | null;
+          created_at?: string;
+          processed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          upload_batch_id?: string;
+          original_filename?: string;
+          relative_path?: string;
+          file_path?: string;
+          file_size?: number;
+          mime_type?: string;
+          processing_status?: string;
+          extraction_result?: Record<string, unknown>;
+          error_message?: string;
+          content_hash?: string | null;
+          parent_upload_id?: string | null;
+          duplicate_of?: string | null;
+          created_at?: string;
+          processed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      tender_profiles: {
+        Row: {
+          id: string;
+          batch_id: string;
+          consolidated_data: Record<string, unknown>;
+          meta_info: Record<string, unknown>;
+          leistungsumfang: Record<string, unknown>;
+          pflichtnachweise: Record<string, unknown>;
+          zuschlagskriterien: Record<string, unknown>;
+          validation_status: 'pending' | 'valid' | 'invalid' | 'partial';
+          validation_errors: unknown[];
+          conflict_count: number;
+          confidence_avg: number | null;
+          processing_completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          batch_id: string;
+          consolidated_data?: Record<string, unknown>;
+          meta_info?: Record<string, unknown>;
+          leistungsumfang?: Record<string, unknown>;
+          pflichtnachweise?: Record<string, unknown>;
+          zuschlagskriterien?: Record<string, unknown>;
+          validation_status?: 'pending' | 'valid' | 'invalid' | 'partial';
+          validation_errors?: unknown[];
+          conflict_count?: number;
+          confidence_avg?: number | null;
+          processing_completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          batch_id?: string;
+          consolidated_data?: Record<string, unknown>;
+          meta_info?: Record<string, unknown>;
+          leistungsumfang?: Record<string, unknown>;
+          pflichtnachweise?: Record<string, unknown>;
+          zuschlagskriterien?: Record<string, unknown>;
+          validation_status?: 'pending' | 'valid' | 'invalid' | 'partial';
+          validation_errors?: unknown[];
+          conflict_count?: number;
+          confidence_avg?: number | null;
+          processing_completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      pipeline_stages: {
+        Row: {
+          id: string;
+          batch_id: string;
+          stage_name: 'ingestion' | 'normalization' | 'segmentation' | 'classification' | 'extraction' | 'validation' | 'aggregation' | 'completed';
+          status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+          progress_percent: number;
+          started_at: string | null;
+          completed_at: string | null;
+          error_message: string | null;
+          metadata: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          batch_id: string;
+          stage_name: 'ingestion' | 'normalization' | 'segmentation' | 'classification' | 'extraction' | 'validation' | 'aggregation' | 'completed';
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+          progress_percent?: number;
+          started_at?: string | null;
+          completed_at?: string | null;
+          error_message?: string | null;
+          metadata?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          batch_id?: string;
+          stage_name?: 'ingestion' | 'normalization' | 'segmentation' | 'classification' | 'extraction' | 'validation' | 'aggregation' | 'completed';
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+          progress_percent?: number;
+          started_at?: string | null;
+          completed_at?: string | null;
+          error_message?: string | null;
+          metadata?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      document_conflicts: {
+        Row: {
+          id: string;
+          tender_profile_id: string;
+          field_name: string;
+          field_label: string | null;
+          conflict_type: 'duplicate' | 'contradiction' | 'inconsistency' | 'missing';
+          source_segments: string[];
+          conflicting_values: unknown[];
+          resolution_status: 'pending' | 'resolved' | 'ignored' | 'manual_review';
+          resolution_note: string | null;
+          resolved_value: string | null;
+          resolved_by: string | null;
+          created_at: string;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          tender_profile_id: string;
+          field_name: string;
+          field_label?: string | null;
+          conflict_type: 'duplicate' | 'contradiction' | 'inconsistency' | 'missing';
+          source_segments?: string[];
+          conflicting_values?: unknown[];
+          resolution_status?: 'pending' | 'resolved' | 'ignored' | 'manual_review';
+          resolution_note?: string | null;
+          resolved_value?: string | null;
+          resolved_by?: string | null;
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          tender_profile_id?: string;
+          field_name?: string;
+          field_label?: string | null;
+          conflict_type?: 'duplicate' | 'contradiction' | 'inconsistency' | 'missing';
+          source_segments?: string[];
+          conflicting_values?: unknown[];
+          resolution_status?: 'pending' | 'resolved' | 'ignored' | 'manual_review';
+          resolution_note?: string | null;
+          resolved_value?: string | null;
+          resolved_by?: string | null;
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Relationships: [];
       };
       company_profiles: {
         Row: {
           id: string;
+          org_id: string;
           name: string;
           address: string;
           vat_id: string;
@@ -115,11 +404,15 @@ export interface Database {
           contact_email: string;
           depot_postcode: string;
           disposal_sites: string;
+          annual_turnover: number | null;
+          employee_count: number | null;
+          reference_projects: Array<{ title: string; year: number; value?: number }>;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
+          org_id?: string;
           name: string;
           address?: string;
           vat_id?: string;
@@ -130,11 +423,15 @@ export interface Database {
           contact_email?: string;
           depot_postcode?: string;
           disposal_sites?: string;
+          annual_turnover?: number | null;
+          employee_count?: number | null;
+          reference_projects?: Array<{ title: string; year: number; value?: number }>;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
+          org_id?: string;
           name?: string;
           address?: string;
           vat_id?: string;
@@ -145,9 +442,13 @@ export interface Database {
           contact_email?: string;
           depot_postcode?: string;
           disposal_sites?: string;
+          annual_turnover?: number | null;
+          employee_count?: number | null;
+          reference_projects?: Array<{ title: string; year: number; value?: number }>;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       tender_submissions: {
         Row: {
@@ -158,6 +459,10 @@ export interface Database {
           win_probability: number;
           route_score: number;
           risk_accepted: boolean;
+          match_score: number | null;
+          price_delta_pct: number | null;
+          distance_km: number | null;
+          price_weight: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -169,6 +474,10 @@ export interface Database {
           win_probability?: number;
           route_score?: number;
           risk_accepted?: boolean;
+          match_score?: number | null;
+          price_delta_pct?: number | null;
+          distance_km?: number | null;
+          price_weight?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -180,9 +489,196 @@ export interface Database {
           win_probability?: number;
           route_score?: number;
           risk_accepted?: boolean;
+          match_score?: number | null;
+          price_delta_pct?: number | null;
+          distance_km?: number | null;
+          price_weight?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      bid_questions: {
+        Row: {
+          id: string;
+          category: 'strategie' | 'kapazitaet' | 'marge' | 'risiko' | 'beziehung';
+          question: string;
+          weight: number;
+          options: Array<{ label: string; score: number }>;
+          sort_order: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          category: 'strategie' | 'kapazitaet' | 'marge' | 'risiko' | 'beziehung';
+          question: string;
+          weight?: number;
+          options?: Array<{ label: string; score: number }>;
+          sort_order?: number;
+          is_active?: boolean;
           created_at?: string;
           updated_at?: string;
         };
+        Update: {
+          id?: string;
+          category?: 'strategie' | 'kapazitaet' | 'marge' | 'risiko' | 'beziehung';
+          question?: string;
+          weight?: number;
+          options?: Array<{ label: string; score: number }>;
+          sort_order?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      bid_decisions: {
+        Row: {
+          id: string;
+          org_id: string;
+          tender_id: string;
+          tender_title: string;
+          decision: 'bid' | 'no_bid';
+          score: number;
+          band: 'hoch' | 'mittel' | 'niedrig';
+          answers: Array<{ question_id: string; question: string; option: string; score: number; weight: number }>;
+          approver: string;
+          decided_at: string;
+          comments: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id?: string;
+          tender_id: string;
+          tender_title?: string;
+          decision: 'bid' | 'no_bid';
+          score: number;
+          band: 'hoch' | 'mittel' | 'niedrig';
+          answers?: Array<{ question_id: string; question: string; option: string; score: number; weight: number }>;
+          approver: string;
+          decided_at?: string;
+          comments?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          tender_id?: string;
+          tender_title?: string;
+          decision?: 'bid' | 'no_bid';
+          score?: number;
+          band?: 'hoch' | 'mittel' | 'niedrig';
+          answers?: Array<{ question_id: string; question: string; option: string; score: number; weight: number }>;
+          approver?: string;
+          decided_at?: string;
+          comments?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      tender_workspaces: {
+        Row: {
+          id: string;
+          org_id: string;
+          tender_key: string;
+          title: string;
+          buyer: string;
+          deadline: string | null;
+          status: 'sichtung' | 'in_bearbeitung' | 'freigabe' | 'abgegeben' | 'zuschlag' | 'absage';
+          current_step: number;
+          tender: Record<string, unknown>;
+          state: Record<string, unknown>;
+          submission_id: string | null;
+          last_editor: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id?: string;
+          tender_key: string;
+          title?: string;
+          buyer?: string;
+          deadline?: string | null;
+          status?: 'sichtung' | 'in_bearbeitung' | 'freigabe' | 'abgegeben' | 'zuschlag' | 'absage';
+          current_step?: number;
+          tender?: Record<string, unknown>;
+          state?: Record<string, unknown>;
+          submission_id?: string | null;
+          last_editor?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          tender_key?: string;
+          title?: string;
+          buyer?: string;
+          deadline?: string | null;
+          status?: 'sichtung' | 'in_bearbeitung' | 'freigabe' | 'abgegeben' | 'zuschlag' | 'absage';
+          current_step?: number;
+          tender?: Record<string, unknown>;
+          state?: Record<string, unknown>;
+          submission_id?: string | null;
+          last_editor?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      submission_outcomes: {
+        Row: {
+          id: string;
+          submission_id: string;
+          result: 'awarded' | 'lost';
+          winning_price: number | null;
+          rank: number | null;
+          bidder_count: number | null;
+          reasons: string;
+          notified_at: string | null;
+          recorded_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          submission_id: string;
+          result: 'awarded' | 'lost';
+          winning_price?: number | null;
+          rank?: number | null;
+          bidder_count?: number | null;
+          reasons?: string;
+          notified_at?: string | null;
+          recorded_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          submission_id?: string;
+          result?: 'awarded' | 'lost';
+          winning_price?: number | null;
+          rank?: number | null;
+          bidder_count?: number | null;
+          reasons?: string;
+          notified_at?: string | null;
+          recorded_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'submission_outcomes_submission_id_fkey';
+            columns: ['submission_id'];
+            isOneToOne: true;
+            referencedRelation: 'tender_submissions';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       documents: {
         Row: {
@@ -215,6 +711,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       qa_responses: {
         Row: {
@@ -247,6 +744,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       pricing_data: {
         Row: {
@@ -306,7 +804,152 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      historical_prices: {
+        Row: {
+          id: string;
+          org_id: string;
+          position_code: string;
+          position_name: string;
+          unit: string;
+          unit_price: number;
+          tender_id: string | null;
+          project_type: string;
+          region: string | null;
+          recorded_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          org_id?: string;
+          position_code: string;
+          position_name: string;
+          unit: string;
+          unit_price: number;
+          tender_id?: string | null;
+          project_type: string;
+          region?: string | null;
+          recorded_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          org_id?: string;
+          position_code?: string;
+          position_name?: string;
+          unit?: string;
+          unit_price?: number;
+          tender_id?: string | null;
+          project_type?: string;
+          region?: string | null;
+          recorded_at?: string;
+          created_at?: string;
+        };
+        Relationships: [];
       };
+      standard_positions: {
+        Row: {
+          id: string;
+          position_code: string;
+          position_name: string;
+          category: string;
+          project_type: string;
+          is_mandatory: boolean;
+          typical_unit: string | null;
+          typical_quantity_min: number | null;
+          typical_quantity_max: number | null;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          position_code: string;
+          position_name: string;
+          category: string;
+          project_type: string;
+          is_mandatory?: boolean;
+          typical_unit?: string | null;
+          typical_quantity_min?: number | null;
+          typical_quantity_max?: number | null;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          position_code?: string;
+          position_name?: string;
+          category?: string;
+          project_type?: string;
+          is_mandatory?: boolean;
+          typical_unit?: string | null;
+          typical_quantity_min?: number | null;
+          typical_quantity_max?: number | null;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      calculation_validations: {
+        Row: {
+          id: string;
+          tender_id: string | null;
+          validation_type: string;
+          severity: 'error' | 'warning' | 'info';
+          position_code: string | null;
+          position_name: string | null;
+          issue_description: string;
+          expected_value: string | null;
+          actual_value: string | null;
+          suggestion: string | null;
+          resolved: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tender_id?: string | null;
+          validation_type: string;
+          severity: 'error' | 'warning' | 'info';
+          position_code?: string | null;
+          position_name?: string | null;
+          issue_description: string;
+          expected_value?: string | null;
+          actual_value?: string | null;
+          suggestion?: string | null;
+          resolved?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tender_id?: string | null;
+          validation_type?: string;
+          severity?: 'error' | 'warning' | 'info';
+          position_code?: string | null;
+          position_name?: string | null;
+          issue_description?: string;
+          expected_value?: string | null;
+          actual_value?: string | null;
+          suggestion?: string | null;
+          resolved?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      [_ in never]: never;
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
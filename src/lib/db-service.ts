@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import type { Database } from './database.types';
+import type { OutcomeSample } from './win-model';
+import type { TenderWorkspace, WorkspaceCard, WorkspaceStatus } from './tender-workspace';
 
 type Tender = Database['public']['Tables']['tenders']['Row'];
 type TenderInsert = Database['public']['Tables']['tenders']['Insert'];
@@ -13,6 +15,9 @@ type QAResponse = Database['public']['Tables']['qa_responses']['Row'];
 type QAResponseInsert = Database['public']['Tables']['qa_responses']['Insert'];
 type PricingData = Database['public']['Tables']['pricing_data']['Row'];
 type PricingDataInsert = Database['public']['Tables']['pricing_data']['Insert'];
+type SubmissionOutcome = Database['public']['Tables']['submission_outcomes']['Row'];
+type SubmissionOutcomeInsert = Database['public']['Tables']['submission_outcomes']['Insert'];
+type TenderWorkspaceInsert = Database['public']['Tables']['tender_workspaces']['Insert'];
 
 export const dbService = {
   supabase,
@@ -233,6 +238,112 @@ export const dbService = {
     return data;
   },
 
+  async getOutcome(submissionId: string): Promise<SubmissionOutcome | null> {
+    const { data, error } = await supabase
+      .from('submission_outcomes')
+      .select('*')
+      .eq('submission_id', submissionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async saveOutcome(outcome: SubmissionOutcomeInsert): Promise<SubmissionOutcome> {
+    const { data, error } = await supabase
+      .from('submission_outcomes')
+      .upsert({ ...outcome, updated_at: new Date().toISOString() }, { onConflict: 'submission_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.updateSubmission(outcome.submission_id, { status: outcome.result === 'awarded' ? 'won' : 'lost' });
+    return data;
+  },
+
+  // Recorded outcomes with the features their submissions were saved with
+  async getOutcomeSamples(): Promise<OutcomeSample[]> {
+    const { data: outcomeData, error } = await supabase
+      .from('submission_outcomes')
+      .select('submission_id, result');
+
+    if (error) throw error;
+    const outcomes = (outcomeData || []) as Pick<SubmissionOutcome, 'submission_id' | 'result'>[];
+    if (outcomes.length === 0) return [];
+
+    const { data: submissionData, error: submissionsError } = await supabase
+      .from('tender_submissions')
+      .select('id, tender_id, match_score, price_delta_pct, distance_km, price_weight')
+      .in('id', outcomes.map(o => o.submission_id));
+
+    if (submissionsError) throw submissionsError;
+    const submissions = (submissionData || []) as Pick<
+      TenderSubmission, 'id' | 'tender_id' | 'match_score' | 'price_delta_pct' | 'distance_km' | 'price_weight'
+    >[];
+
+    const { data: tenderData, error: tendersError } = await supabase
+      .from('tenders')
+      .select('id, buyer')
+      .in('id', [...new Set(submissions.map(s => s.tender_id))]);
+
+    if (tendersError) throw tendersError;
+    const tenders = (tenderData || []) as Pick<Tender, 'id' | 'buyer'>[];
+
+    return outcomes.flatMap(outcome => {
+      const submission = submissions.find(s => s.id === outcome.submission_id);
+      // Submissions saved before the features were recorded cannot be learned from
+      if (!submission || submission.match_score === null) return [];
+      return [{
+        won: outcome.result === 'awarded',
+        score: submission.match_score,
+        priceDeltaPct: submission.price_delta_pct,
+        distanceKm: submission.distance_km,
+        priceWeight: submission.price_weight,
+        buyer: tenders.find(t => t.id === submission.tender_id)?.buyer || ''
+      }];
+    });
+  },
+
+  // All workspaces for the pipeline board, most recently changed first
+  async getWorkspaces(): Promise<WorkspaceCard[]> {
+    const { data, error } = await supabase
+      .from('tender_workspaces')
+      .select('id, tender_key, title, buyer, deadline, status, current_step, last_editor, updated_at')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as WorkspaceCard[];
+  },
+
+  async getWorkspace(tenderKey: string): Promise<TenderWorkspace | null> {
+    const { data, error } = await supabase
+      .from('tender_workspaces')
+      .select('*')
+      .eq('tender_key', tenderKey)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as TenderWorkspace | null;
+  },
+
+  async saveWorkspace(workspace: TenderWorkspaceInsert): Promise<void> {
+    const { error } = await supabase
+      .from('tender_workspaces')
+      .upsert({ ...workspace, updated_at: new Date().toISOString() }, { onConflict: 'org_id,tender_key' });
+
+    if (error) throw error;
+  },
+
+  async updateWorkspaceStatus(id: string, status: WorkspaceStatus, lastEditor: string): Promise<void> {
+    const { error } = await supabase
+      .from('tender_workspaces')
+      .update({ status, last_editor: lastEditor, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
   async getSubmissionWithDetails(submissionId: string) {
     const [submission, documents, qaResponses, pricing] = await Promise.all([
       this.getSubmissionById(submissionId),
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { authHeaders } from './auth-service';
 
 export interface UploadBatch {
   id: string;
@@ -14,16 +15,23 @@ export interface FileUpload {
   id: string;
   upload_batch_id: string;
   original_filename: string;
+  relative_path: string;
   file_path: string;
   file_size: number;
   mime_type: string;
   processing_status: string;
   extraction_result: any;
   error_message: string;
+  content_hash: string | null;
+  parent_upload_id: string | null;
+  duplicate_of: string | null;
   created_at: string;
   processed_at: string | null;
 }
 
+const isZipArchive = (file: File) =>
+  /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
 export const fileUploadService = {
   async createBatch(fileCount: number): Promise<UploadBatch> {
     const { data, error } = await supabase
@@ -51,11 +59,14 @@ export const fileUploadService = {
       .replace(/[^a-zA-Z0-9._-]/g, '_');
 
     const fileName = `${batchId}/${Date.now()}-${sanitizedName}`;
+    const isArchive = isZipArchive(file);
+    const mimeType = isArchive ? 'application/zip' : file.type;
 
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from('tender-documents')
       .upload(fileName, file, {
         cacheControl: '3600',
+        contentType: mimeType,
         upsert: false
       });
 
@@ -68,7 +79,7 @@ export const fileUploadService = {
         original_filename: file.name,
         file_path: uploadData.path,
         file_size: file.size,
-        mime_type: file.type,
+        mime_type: mimeType,
         processing_status: 'pending'
       })
       .select()
@@ -76,7 +87,12 @@ export const fileUploadService = {
 
     if (recordError) throw recordError;
 
-    await this.triggerEdgeFunctionProcessing(fileRecord, batchId);
+    // Archives are expanded server-side into one upload per contained document
+    if (isArchive) {
+      await this.triggerArchiveExpansion(fileRecord, batchId);
+    } else {
+      await this.triggerEdgeFunctionProcessing(fileRecord, batchId);
+    }
 
     return fileRecord;
   },
@@ -89,7 +105,8 @@ export const fileUploadService = {
       const response = await fetch(`${supabaseUrl}/functions/v1/process-tender-documents`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${supabaseAnonKey}`,
+          'apikey': supabaseAnonKey,
+          ...(await authHeaders()),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -109,6 +126,34 @@ export const fileUploadService = {
     }
   },
 
+  async triggerArchiveExpansion(fileRecord: FileUpload, batchId: string): Promise<void> {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/expand-tender-archive`, {
+        method: 'POST',
+        headers: {
+          'apikey': supabaseAnonKey,
+          ...(await authHeaders()),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          batchId: batchId,
+          fileId: fileRecord.id,
+          filePath: fileRecord.file_path,
+          originalFilename: fileRecord.original_filename,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error('Archive expansion failed:', await response.text());
+      }
+    } catch (error) {
+      console.error('Failed to trigger archive expansion:', error);
+    }
+  },
+
   mergeTenderExtractions(files: FileUpload[]): any {
     const completedFiles = files.filter(f => f.processing_status === 'completed' && f.extraction_result);
 
@@ -289,7 +334,8 @@ export const fileUploadService = {
       const response = await fetch(`${supabaseUrl}/functions/v1/aggregate-tender-batch`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${supabaseAnonKey}`,
+          'apikey': supabaseAnonKey,
+          ...(await authHeaders()),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -429,7 +475,14 @@ export const fileUploadService = {
     console.log('Pflichtnachweise:', pflichtnachweise);
     console.log('Zuschlagskriterien:', zuschlagskriterien);
 
-    const deadline = fristen.fristen?.find((f: any) => f.bezeichnung?.toLowerCase().includes('angebot'))?.datum ||
+    // Typed key dates carry Europe/Berlin timestamps; older profiles only have fristen
+    const profileKeyDates: Array<{ type: string; timestamp: string | null }> = profile.consolidated_data?.key_dates || [];
+    const submission = profileKeyDates.find(k => k.type === 'angebotsfrist' && k.timestamp);
+    const submissionFrist = fristen.fristen?.find((f: any) => f.bezeichnung?.toLowerCase().includes('angebot'));
+
+    const deadline = submission?.timestamp ||
+                     submissionFrist?.zeitpunkt ||
+                     submissionFrist?.datum ||
                      fristen.fristen?.[0]?.datum ||
                      new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
@@ -503,15 +556,19 @@ export const fileUploadService = {
       }
     });
 
-    const keyDates = (fristen.fristen || []).map((f: any) => ({
+    const keyDates = profileKeyDates.length > 0 ? profileKeyDates : (fristen.fristen || []).map((f: any) => ({
       date: f.datum,
       description: f.bezeichnung,
       type: 'deadline'
     }));
 
-    const evaluationCriteria = kriterienListe.map((k: any) =>
-      k.gewichtung ? `${k.bezeichnung} (${k.gewichtung}%)` : k.bezeichnung
-    );
+    // Hauptkriterien with their share of the total score; points are converted by the aggregation
+    const evaluationCriteria = kriterienListe
+      .filter((k: any) => !k.oberkriterium)
+      .map((k: any) => {
+        const share = k.anteil_gesamt ?? (k.einheit === 'Punkte' ? null : k.gewichtung);
+        return share ? `${k.bezeichnung} (${share}%)` : k.bezeichnung;
+      });
 
     // Calculate matches based on company profile availability
     // For now, assume 80% must-criteria match and 60% can-criteria match
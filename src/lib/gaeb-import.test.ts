@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { importGAEBFile, parseGAEB90, parseGAEBXml } from "./gaeb-import";
+
+const X83 = `<?xml version="1.0" encoding="UTF-8"?>
+<GAEB xmlns="http://www.gaeb.de/GAEB_DA_XML/DA83/3.3">
+  <GAEBInfo><Version>3.3</Version><Date>2026-02-10</Date></GAEBInfo>
+  <PrjInfo><NamePrj>2026-017</NamePrj><LblPrj>Kanalsanierung Musterstadt</LblPrj></PrjInfo>
+  <Award>
+    <DP>83</DP>
+    <AwardInfo><Cur>EUR</Cur></AwardInfo>
+    <OWN><Address><Name1>Stadt Musterstadt</Name1></Address></OWN>
+    <BoQ ID="BOQ1">
+      <BoQInfo>
+        <LblBoQ>LV Kanal</LblBoQ>
+        <BoQBkdn><Type>BoQLevel</Type><Length>2</Length><Num>Yes</Num></BoQBkdn>
+        <BoQBkdn><Type>Item</Type><Length>4</Length><Num>Yes</Num></BoQBkdn>
+      </BoQInfo>
+      <BoQBody>
+        <BoQCtgy ID="C1" RNoPart="01">
+          <LblTx><p><span>Erdarbeiten</span></p></LblTx>
+          <BoQBody>
+            <Itemlist>
+              <Item ID="I1" RNoPart="0010">
+                <Qty>12,5</Qty><QU>m3</QU>
+                <Description><CompleteText>
+                  <DetailTxt><Text><p><span>Boden lösen</span></p><p><span>und   laden</span></p></Text></DetailTxt>
+                  <OutlineText><OutlTxt><TextOutlTxt><p><span>Boden lösen</span></p></TextOutlTxt></OutlTxt></OutlineText>
+                </CompleteText></Description>
+              </Item>
+              <Item ID="I2" RNoPart="0020">
+                <Provis>WithoutTotal</Provis><Qty>5</Qty><QU>h</QU>
+                <Description><CompleteText><DetailTxt><Text><p>Stundenlohn<br/>Facharbeiter</p></Text></DetailTxt></CompleteText></Description>
+              </Item>
+              <Item ID="I3" RNoPart="0030"><ALNGroupNo>1</ALNGroupNo><ALNSerNo>0</ALNSerNo><Qty>1</Qty><QU>St</QU></Item>
+              <Item ID="I4" RNoPart="0040"><ALNGroupNo>1</ALNGroupNo><ALNSerNo>1</ALNSerNo><Qty>1</Qty><QU>St</QU></Item>
+            </Itemlist>
+          </BoQBody>
+        </BoQCtgy>
+      </BoQBody>
+    </BoQ>
+  </Award>
+</GAEB>`;
+
+// One fixed-width GAEB 90 record with the given texts at the given columns
+function d83(satzart: string, fields: Record<number, string>): string {
+  const chars = satzart.padEnd(80, " ").split("");
+  for (const [start, value] of Object.entries(fields)) {
+    value.split("").forEach((char, i) => (chars[Number(start) + i] = char));
+  }
+  return chars.join("");
+}
+
+const D83 = [
+  d83("00", { 10: "1122PPPPI" }),
+  d83("02", { 2: "Kanalsanierung Musterstadt" }),
+  d83("03", { 2: "Stadt Musterstadt" }),
+  d83("11", { 2: "01" }),
+  d83("12", { 2: "Erdarbeiten" }),
+  d83("11", { 2: "0102" }),
+  d83("12", { 2: "Aushub" }),
+  d83("21", { 2: "01020010", 23: "00000012500", 34: "m3" }),
+  d83("25", { 2: "Boden lösen" }),
+  d83("26", { 2: "Boden der Klasse 3-5 lösen" }),
+  d83("26", { 2: "und seitlich lagern" }),
+  d83("21", { 2: "01020020", 11: "A", 23: "00000001000", 34: "m3" }),
+  d83("25", { 2: "Boden abfahren" }),
+  d83("31", {}),
+  d83("31", {}),
+].join("\r\n");
+
+describe("parseGAEBXml", () => {
+  const result = parseGAEBXml(X83, "lv.x83");
+
+  it("reads the project and the breakdown", () => {
+    expect(result.format).toBe("X83");
+    expect(result.version).toBe("3.3");
+    expect(result.projektInfo).toEqual({
+      projektName: "Kanalsanierung Musterstadt",
+      auftraggeber: "Stadt Musterstadt",
+      projektNummer: "2026-017",
+      datum: "2026-02-10",
+    });
+    expect(result.lvStruktur).toMatchObject({
+      boqId: "BOQ1",
+      lvBezeichnung: "LV Kanal",
+      waehrung: "EUR",
+      gliederung: [
+        { typ: "BoQLevel", laenge: 2, numerisch: true },
+        { typ: "Item", laenge: 4, numerisch: true },
+      ],
+    });
+  });
+
+  it("flattens titles and items with their OZ and level", () => {
+    expect(result.positionen.map(p => [p.typ, p.oz, p.ebene])).toEqual([
+      ["titel", "01", 1],
+      ["position", "01.0010", 2],
+      ["position", "01.0020", 2],
+      ["position", "01.0030", 2],
+      ["position", "01.0040", 2],
+    ]);
+    expect(result.positionen[0].beschreibung).toBe("Erdarbeiten");
+  });
+
+  it("reads quantities and texts", () => {
+    expect(result.positionen[1]).toMatchObject({
+      menge: 12.5,
+      einheit: "m3",
+      kurztext: "Boden lösen",
+      langtext: "Boden lösen\nund laden",
+    });
+    // Without an outline text the first line of the long text is the short text
+    expect(result.positionen[2]).toMatchObject({ kurztext: "Stundenlohn", langtext: "Stundenlohn\nFacharbeiter" });
+  });
+
+  it("recognises the kind of position", () => {
+    expect(result.positionen.slice(2).map(p => [p.positionsart, p.ohneGesamtbetrag])).toEqual([
+      ["bedarf", true],
+      ["grund", false],
+      ["alternativ", true],
+    ]);
+  });
+
+  it("rejects files that are no GAEB DA XML", () => {
+    expect(() => parseGAEBXml("<GAEB>", "kaputt.x83")).toThrow("kein gültiges XML");
+    expect(() => parseGAEBXml("<Angebot/>", "fremd.xml")).toThrow("Wurzelelement GAEB fehlt");
+    expect(() => parseGAEBXml("<GAEB><Award/></GAEB>", "leer.x83")).toThrow("kein Leistungsverzeichnis");
+  });
+});
+
+describe("parseGAEB90", () => {
+  const result = parseGAEB90(D83, "lv.d83");
+
+  it("splits the OZ along the mask", () => {
+    expect(result.positionen.map(p => [p.typ, p.oz, p.ebene, p.beschreibung])).toEqual([
+      ["titel", "01", 1, "Erdarbeiten"],
+      ["titel", "01.02", 2, "Aushub"],
+      ["position", "01.02.0010", 3, "Boden lösen"],
+      ["position", "01.02.0020", 3, "Boden abfahren"],
+    ]);
+    expect(result.lvStruktur.gliederung.map(s => [s.typ, s.laenge])).toEqual([
+      ["BoQLevel", 2],
+      ["BoQLevel", 2],
+      ["Item", 4],
+      ["Index", 1],
+    ]);
+  });
+
+  it("reads quantities in thousandths and the texts", () => {
+    expect(result.projektInfo).toMatchObject({ projektName: "Kanalsanierung Musterstadt", auftraggeber: "Stadt Musterstadt" });
+    expect(result.positionen[2]).toMatchObject({
+      menge: 12.5,
+      einheit: "m3",
+      langtext: "Boden der Klasse 3-5 lösen\nund seitlich lagern",
+      positionsart: "normal",
+    });
+    expect(result.positionen[3]).toMatchObject({ menge: 1, positionsart: "alternativ", ohneGesamtbetrag: true });
+  });
+});
+
+describe("importGAEBFile", () => {
+  const file = (name: string, bytes: Uint8Array) =>
+    ({ name, arrayBuffer: async () => bytes.buffer }) as unknown as File;
+
+  it("decodes GAEB 90 files written in code page 437", async () => {
+    const bytes = Uint8Array.from(D83, char => (char === "ö" ? 0x94 : char.charCodeAt(0)));
+
+    const result = await importGAEBFile(file("LV.D83", bytes));
+
+    expect(result.format).toBe("D83");
+    expect(result.positionen[2].kurztext).toBe("Boden lösen");
+  });
+
+  it("detects XML regardless of the extension", async () => {
+    const result = await importGAEBFile(file("lv.xml", new TextEncoder().encode(`\uFEFF${X83}`)));
+
+    expect(result.positionen).toHaveLength(5);
+  });
+
+  it("rejects unknown formats", async () => {
+    await expect(importGAEBFile(file("lv.pdf", new TextEncoder().encode("%PDF-1.4")))).rejects.toThrow("Unbekanntes GAEB-Format");
+  });
+});
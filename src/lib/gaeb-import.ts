@@ -0,0 +1,458 @@
+export interface GAEBPosition {
+  id: number;
+  oz: string;
+  beschreibung: string;
+  menge: number;
+  einheit: string;
+  einzelpreis: number;
+  gesamtpreis: number;
+  typ: "titel" | "position" | "summe";
+  ebene: number;
+  bglCode?: string;
+  kurztext?: string;
+  langtext?: string;
+  positionsart?: GAEBPositionsart;
+  ohneGesamtbetrag?: boolean;
+  alnGruppe?: string;
+  alnNummer?: string;
+  gaebId?: string;
+  rNoPart?: string;
+  rNoIndex?: string;
+}
+
+export type GAEBPositionsart = "normal" | "grund" | "alternativ" | "bedarf" | "pauschal";
+
+export interface ProjektInfo {
+  projektName: string;
+  auftraggeber: string;
+  projektNummer: string;
+  datum: string;
+}
+
+export interface GAEBGliederungsstufe {
+  typ: "BoQLevel" | "Item" | "Index";
+  laenge: number;
+  numerisch: boolean;
+}
+
+export interface GAEBLVStruktur {
+  boqId?: string;
+  lvBezeichnung?: string;
+  gliederung: GAEBGliederungsstufe[];
+  waehrung: string;
+}
+
+export type GAEBFormat = "X83" | "X84" | "X86" | "X81" | "X82" | "X85" | "D83";
+
+export interface GAEBImportResult {
+  format: GAEBFormat;
+  version: string;
+  projektInfo: ProjektInfo;
+  positionen: GAEBPosition[];
+  lvStruktur: GAEBLVStruktur;
+  dateiname: string;
+}
+
+export const GAEB_FILE_ACCEPT = ".x81,.x82,.x83,.x84,.x85,.x86,.d83,.xml";
+
+export async function importGAEBFile(file: File): Promise<GAEBImportResult> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const extension = file.name.split(".").pop()?.toUpperCase() ?? "";
+
+  if (looksLikeXml(bytes)) {
+    return parseGAEBXml(decodeXml(bytes), file.name, extension);
+  }
+
+  if (/^D8\d$/.test(extension) || /^00/.test(decodeLegacy(bytes.subarray(0, 2)))) {
+    return parseGAEB90(decodeLegacy(bytes), file.name);
+  }
+
+  throw new Error(`Unbekanntes GAEB-Format: ${file.name}`);
+}
+
+function emptyProjektInfo(): ProjektInfo {
+  return {
+    projektName: "",
+    auftraggeber: "",
+    projektNummer: "",
+    datum: new Date().toISOString().split("T")[0],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GAEB DA XML 3.x
+
+export function parseGAEBXml(xml: string, dateiname: string, extension = ""): GAEBImportResult {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Die GAEB-Datei ist kein gültiges XML");
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== "GAEB") {
+    throw new Error("Die Datei enthält kein GAEB DA XML (Wurzelelement GAEB fehlt)");
+  }
+
+  const version = childText(child(root, "GAEBInfo"), "Version") || "3.2";
+  const award = child(root, "Award");
+  const dp = childText(award, "DP") || extension.replace(/^X/, "");
+  const format = (`X${dp}` as GAEBFormat);
+
+  const prjInfo = child(root, "PrjInfo");
+  const awardInfo = child(award, "AwardInfo");
+  const owner = child(award, "OWN");
+  const boq = child(award, "BoQ");
+  if (!boq) {
+    throw new Error("Die GAEB-Datei enthält kein Leistungsverzeichnis (BoQ)");
+  }
+
+  const boqInfo = child(boq, "BoQInfo");
+  const projektInfo: ProjektInfo = {
+    projektName: childText(prjInfo, "LblPrj") || childText(prjInfo, "NamePrj") || childText(boqInfo, "LblBoQ"),
+    auftraggeber: childText(child(owner, "Address"), "Name1") || childText(owner, "Name1"),
+    projektNummer: childText(prjInfo, "NamePrj") || childText(awardInfo, "Cat") || childText(boqInfo, "Name"),
+    datum: toIsoDate(childText(child(root, "GAEBInfo"), "Date")) || emptyProjektInfo().datum,
+  };
+
+  const lvStruktur: GAEBLVStruktur = {
+    boqId: boq.getAttribute("ID") ?? undefined,
+    lvBezeichnung: childText(boqInfo, "LblBoQ") || undefined,
+    gliederung: children(boqInfo, "BoQBkdn").map(bkdn => ({
+      typ: (childText(bkdn, "Type") as GAEBGliederungsstufe["typ"]) || "BoQLevel",
+      laenge: parseInt(childText(bkdn, "Length") || "2", 10),
+      numerisch: childText(bkdn, "Num") !== "No",
+    })),
+    waehrung: childText(awardInfo, "Cur") || childText(prjInfo, "Cur") || "EUR",
+  };
+
+  const positionen: GAEBPosition[] = [];
+  const body = child(boq, "BoQBody");
+  if (body) walkBoQBody(body, [], 1, positionen);
+
+  return { format, version, projektInfo, positionen, lvStruktur, dateiname };
+}
+
+function walkBoQBody(body: Element, ozParts: string[], ebene: number, out: GAEBPosition[]) {
+  for (const node of Array.from(body.children)) {
+    if (node.localName === "BoQCtgy") {
+      const rNoPart = node.getAttribute("RNoPart") ?? "";
+      const parts = [...ozParts, rNoPart];
+      out.push({
+        id: out.length + 1,
+        oz: parts.join("."),
+        beschreibung: formattedText(child(node, "LblTx")) || "Titel",
+        menge: 0,
+        einheit: "",
+        einzelpreis: 0,
+        gesamtpreis: 0,
+        typ: "titel",
+        ebene,
+        gaebId: node.getAttribute("ID") ?? undefined,
+        rNoPart,
+      });
+      const nested = child(node, "BoQBody");
+      if (nested) walkBoQBody(nested, parts, ebene + 1, out);
+    } else if (node.localName === "Itemlist") {
+      for (const item of children(node, "Item")) {
+        out.push(readItem(item, ozParts, ebene, out.length + 1));
+      }
+    }
+  }
+}
+
+function readItem(item: Element, ozParts: string[], ebene: number, id: number): GAEBPosition {
+  const rNoPart = item.getAttribute("RNoPart") ?? "";
+  const rNoIndex = item.getAttribute("RNoIndex") ?? undefined;
+
+  const completeText = child(child(item, "Description"), "CompleteText");
+  const langtext = formattedText(child(child(completeText, "DetailTxt"), "Text"));
+  const kurztext =
+    formattedText(child(child(child(completeText, "OutlineText"), "OutlTxt"), "TextOutlTxt")) ||
+    langtext.split("\n")[0] ||
+    "";
+
+  const menge = parseDecimal(childText(item, "Qty"));
+  const einzelpreis = parseDecimal(childText(item, "UP"));
+  const gesamtpreis = parseDecimal(childText(item, "IT")) || Math.round(menge * einzelpreis * 100) / 100;
+
+  const provis = childText(item, "Provis");
+  const alnGroup = childText(item, "ALNGroupNo");
+  const alnSerial = childText(item, "ALNSerNo");
+
+  let positionsart: GAEBPositionsart = "normal";
+  let ohneGesamtbetrag = false;
+  if (provis) {
+    positionsart = "bedarf";
+    ohneGesamtbetrag = provis === "WithoutTotal";
+  } else if (alnGroup && alnSerial && alnSerial !== "0") {
+    positionsart = "alternativ";
+    ohneGesamtbetrag = true;
+  } else if (alnGroup) {
+    positionsart = "grund";
+  } else if (childText(item, "LumpSumItem") === "Yes") {
+    positionsart = "pauschal";
+  }
+
+  return {
+    id,
+    oz: [...ozParts, rNoPart].join("."),
+    beschreibung: kurztext,
+    menge,
+    einheit: childText(item, "QU"),
+    einzelpreis,
+    gesamtpreis,
+    typ: "position",
+    ebene,
+    kurztext,
+    langtext,
+    positionsart,
+    ohneGesamtbetrag,
+    alnGruppe: alnGroup || undefined,
+    alnNummer: alnSerial || undefined,
+    gaebId: item.getAttribute("ID") ?? undefined,
+    rNoPart,
+    rNoIndex,
+  };
+}
+
+// GAEB text elements contain XHTML-like <p>/<span>/<br> markup
+function formattedText(element: Element | null): string {
+  if (!element) return "";
+  const lines: string[] = [];
+  let current = "";
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? "";
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const name = (node as Element).localName;
+    if (name === "br") {
+      lines.push(current);
+      current = "";
+      return;
+    }
+    node.childNodes.forEach(visit);
+    if (name === "p" || name === "div" || name === "tr") {
+      lines.push(current);
+      current = "";
+    } else if (name === "td") {
+      current += " ";
+    }
+  };
+
+  element.childNodes.forEach(visit);
+  lines.push(current);
+
+  return lines
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function children(parent: Element | null | undefined, name: string): Element[] {
+  if (!parent) return [];
+  return Array.from(parent.children).filter(el => el.localName === name);
+}
+
+function child(parent: Element | null | undefined, name: string): Element | null {
+  return children(parent, name)[0] ?? null;
+}
+
+function childText(parent: Element | null | undefined, name: string): string {
+  return child(parent, name)?.textContent?.trim() ?? "";
+}
+
+function parseDecimal(value: string): number {
+  if (!value) return 0;
+  const parsed = parseFloat(value.replace(",", "."));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function toIsoDate(value: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+}
+
+function looksLikeXml(bytes: Uint8Array): boolean {
+  let i = 0;
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) i = 3;
+  while (i < bytes.length && (bytes[i] === 0x20 || bytes[i] === 0x0a || bytes[i] === 0x0d || bytes[i] === 0x09)) i++;
+  return bytes[i] === 0x3c;
+}
+
+function decodeXml(bytes: Uint8Array): string {
+  const head = new TextDecoder("ascii").decode(bytes.subarray(0, 200));
+  const encoding = /encoding=["']([^"']+)["']/i.exec(head)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GAEB 90 (D83, fixed-width 80 character records)
+//
+// Columns 1-2 hold the record type, 75-80 the record number. Record types used:
+// 00 LV-Beginn (OZ-Maske), 02 Projekt, 03 Auftraggeber, 11/12 LV-Bereich und
+// Bezeichnung, 21 Position, 25 Kurztext, 26 Langtext, 31 Ende LV-Bereich.
+
+const D83_OZ = [2, 11] as const;
+const D83_POSITIONSART = 11;
+const D83_MENGE = [23, 34] as const;
+const D83_EINHEIT = [34, 38] as const;
+const D83_TEXT = [2, 74] as const;
+
+export function parseGAEB90(content: string, dateiname: string): GAEBImportResult {
+  const projektInfo = emptyProjektInfo();
+  const positionen: GAEBPosition[] = [];
+  const titelStack: GAEBPosition[] = [];
+  let ozMaske = "";
+  let current: GAEBPosition | null = null;
+
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+
+  for (const raw of lines) {
+    const line = raw.padEnd(80, " ");
+    const satzart = line.slice(0, 2);
+    const text = line.slice(D83_TEXT[0], D83_TEXT[1]).trim();
+
+    switch (satzart) {
+      case "00": {
+        const mask = /\b([1-9]{0,5}P{1,5}I?)\b/.exec(line.slice(2, 74));
+        if (mask) ozMaske = mask[1];
+        break;
+      }
+      case "02":
+        projektInfo.projektName = text;
+        break;
+      case "03":
+        projektInfo.auftraggeber = text;
+        break;
+      case "11": {
+        const oz = formatD83OZ(line.slice(D83_OZ[0], D83_OZ[1]), ozMaske);
+        const titel: GAEBPosition = {
+          id: positionen.length + 1,
+          oz,
+          beschreibung: "",
+          menge: 0,
+          einheit: "",
+          einzelpreis: 0,
+          gesamtpreis: 0,
+          typ: "titel",
+          ebene: titelStack.length + 1,
+          rNoPart: oz.split(".").pop(),
+        };
+        positionen.push(titel);
+        titelStack.push(titel);
+        current = titel;
+        break;
+      }
+      case "12":
+        if (current?.typ === "titel") {
+          current.beschreibung = [current.beschreibung, text].filter(Boolean).join(" ");
+        }
+        break;
+      case "21": {
+        const oz = formatD83OZ(line.slice(D83_OZ[0], D83_OZ[1]), ozMaske);
+        const mengeRaw = line.slice(D83_MENGE[0], D83_MENGE[1]).trim();
+        const art = line[D83_POSITIONSART];
+        const positionsart: GAEBPositionsart =
+          art === "G" ? "grund" : art === "A" ? "alternativ" : art === "E" || art === "B" ? "bedarf" : "normal";
+
+        current = {
+          id: positionen.length + 1,
+          oz,
+          beschreibung: "",
+          menge: /^\d+$/.test(mengeRaw) ? parseInt(mengeRaw, 10) / 1000 : parseDecimal(mengeRaw),
+          einheit: line.slice(D83_EINHEIT[0], D83_EINHEIT[1]).trim(),
+          einzelpreis: 0,
+          gesamtpreis: 0,
+          typ: "position",
+          ebene: titelStack.length + 1,
+          kurztext: "",
+          langtext: "",
+          positionsart,
+          ohneGesamtbetrag: positionsart === "alternativ" || positionsart === "bedarf",
+          rNoPart: oz.split(".").pop(),
+        };
+        positionen.push(current);
+        break;
+      }
+      case "25":
+        if (current?.typ === "position") {
+          current.kurztext = [current.kurztext, text].filter(Boolean).join(" ");
+          current.beschreibung = current.kurztext;
+        }
+        break;
+      case "26":
+        if (current?.typ === "position") {
+          current.langtext = [current.langtext, text].filter(Boolean).join("\n");
+          if (!current.beschreibung) current.beschreibung = text;
+        }
+        break;
+      case "31":
+        titelStack.pop();
+        current = null;
+        break;
+    }
+  }
+
+  return {
+    format: "D83",
+    version: "GAEB 90",
+    projektInfo,
+    positionen,
+    lvStruktur: { gliederung: gliederungFromMaske(ozMaske), waehrung: "EUR" },
+    dateiname,
+  };
+}
+
+// Splits the raw OZ field along the OZ mask, e.g. mask "1122PPPPI" and "01020010 " -> "01.02.0010"
+function formatD83OZ(raw: string, maske: string): string {
+  if (!maske) {
+    return raw.trim().split(/\s+/).join(".");
+  }
+
+  const parts: string[] = [];
+  let offset = 0;
+  for (const group of maske.match(/(.)\1*/g) ?? []) {
+    if (group[0] === "I") break;
+    const part = raw.slice(offset, offset + group.length).trim();
+    offset += group.length;
+    if (part) parts.push(part);
+  }
+  return parts.join(".");
+}
+
+function gliederungFromMaske(maske: string): GAEBGliederungsstufe[] {
+  return (maske.match(/(.)\1*/g) ?? []).map(group => ({
+    typ: group[0] === "P" ? "Item" : group[0] === "I" ? "Index" : "BoQLevel",
+    laenge: group.length,
+    numerisch: true,
+  }));
+}
+
+// GAEB 90 files are either ISO 8859-1 or DOS code page 437; the umlaut bytes tell them apart
+function decodeLegacy(bytes: Uint8Array): string {
+  const cp437Umlauts = new Set([0x81, 0x84, 0x8e, 0x94, 0x99, 0x9a, 0xe1]);
+  const latin1Umlauts = new Set([0xc4, 0xd6, 0xdc, 0xdf, 0xe4, 0xf6, 0xfc]);
+  let cp437 = 0;
+  let latin1 = 0;
+  for (const byte of bytes) {
+    if (cp437Umlauts.has(byte)) cp437++;
+    if (latin1Umlauts.has(byte)) latin1++;
+  }
+
+  if (cp437 > latin1) {
+    const map: Record<number, string> = { 0x81: "ü", 0x84: "ä", 0x8e: "Ä", 0x94: "ö", 0x99: "Ö", 0x9a: "Ü", 0xe1: "ß" };
+    let out = "";
+    for (const byte of bytes) out += map[byte] ?? String.fromCharCode(byte);
+    return out;
+  }
+
+  return new TextDecoder("iso-8859-1").decode(bytes);
+}
@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { GAEBLVStruktur, GAEBPosition, parseGAEBXml, ProjektInfo } from "./gaeb-import";
+import { buildGAEBX84 } from "./gaeb-xml-export";
+
+const projektInfo: ProjektInfo = {
+  projektName: "Kanalsanierung Musterstadt",
+  auftraggeber: "Stadt Musterstadt",
+  projektNummer: "2026-017",
+  datum: "2026-02-10",
+};
+
+const lvStruktur: GAEBLVStruktur = {
+  boqId: "BOQ1",
+  lvBezeichnung: "LV Kanal",
+  waehrung: "EUR",
+  gliederung: [
+    { typ: "BoQLevel", laenge: 2, numerisch: true },
+    { typ: "Item", laenge: 4, numerisch: true },
+  ],
+};
+
+function position(oz: string, overrides: Partial<GAEBPosition> = {}): GAEBPosition {
+  return {
+    id: 0,
+    oz,
+    beschreibung: `Position ${oz}`,
+    menge: 1,
+    einheit: "St",
+    einzelpreis: 0,
+    gesamtpreis: 0,
+    typ: "position",
+    ebene: 2,
+    ...overrides,
+  };
+}
+
+// Positions before the first title belong to no title
+const positionen: GAEBPosition[] = [
+  position("0050", { ebene: 1, positionsart: "pauschal", gesamtpreis: 20 }),
+  position("1", { typ: "titel", ebene: 1, beschreibung: "Erd- & Tiefbau" }),
+  position("1.10", {
+    beschreibung: "Boden lösen",
+    langtext: "Boden lösen\nund seitlich lagern",
+    menge: 12.5,
+    einheit: "m3",
+    einzelpreis: 4,
+    gesamtpreis: 50,
+  }),
+  position("1.20", { positionsart: "bedarf", ohneGesamtbetrag: true, gesamtpreis: 30 }),
+  position("1.30", { positionsart: "grund", alnGruppe: "1", alnNummer: "0", gesamtpreis: 40 }),
+  position("1.40", { positionsart: "alternativ", alnGruppe: "1", alnNummer: "1", ohneGesamtbetrag: true, gesamtpreis: 45 }),
+];
+
+describe("buildGAEBX84", () => {
+  const xml = buildGAEBX84(positionen, projektInfo, lvStruktur);
+
+  it("reads back through the importer", () => {
+    const result = parseGAEBXml(xml, "angebot.x84");
+
+    expect(result.format).toBe("X84");
+    // The importer takes the date of the file, not the one of the project
+    expect(result.projektInfo).toEqual({ ...projektInfo, datum: new Date().toISOString().split("T")[0] });
+    expect(result.lvStruktur).toMatchObject({ boqId: "BOQ1", lvBezeichnung: "LV Kanal", gliederung: lvStruktur.gliederung });
+    expect(result.positionen.map(p => [p.typ, p.oz, p.beschreibung, p.positionsart])).toEqual([
+      ["titel", "01", "Erd- & Tiefbau", undefined],
+      ["position", "01.0010", "Boden lösen", "normal"],
+      ["position", "01.0020", "Position 1.20", "bedarf"],
+      ["position", "01.0030", "Position 1.30", "grund"],
+      ["position", "01.0040", "Position 1.40", "alternativ"],
+      ["position", "0050", "Position 0050", "pauschal"],
+    ]);
+    expect(result.positionen[1]).toMatchObject({
+      menge: 12.5,
+      einheit: "m3",
+      einzelpreis: 4,
+      gesamtpreis: 50,
+      langtext: "Boden lösen\nund seitlich lagern",
+    });
+    expect(result.positionen[2].ohneGesamtbetrag).toBe(true);
+  });
+
+  it("only writes IDs that are valid xs:ID values", () => {
+    const ids = [...xml.matchAll(/ ID="([^"]*)"/g)].map(match => match[1]);
+
+    expect(ids.length).toBeGreaterThan(positionen.length);
+    for (const id of ids) expect(id).toMatch(/^[A-Za-z_]/);
+  });
+
+  it("leaves positions without a total out of the totals", () => {
+    const totals = [...xml.matchAll(/<Total>([\d.]+)<\/Total>/g)].map(match => match[1]);
+
+    expect(totals).toEqual(["110.00", "90.00"]);
+  });
+
+  it("keeps the OZ of positions outside any title when exported again", () => {
+    const imported = parseGAEBXml(xml, "angebot.x84");
+    const again = parseGAEBXml(buildGAEBX84(imported.positionen, imported.projektInfo, imported.lvStruktur), "angebot.x84");
+
+    expect(again.positionen.map(p => p.oz)).toEqual(imported.positionen.map(p => p.oz));
+    expect(again.positionen.filter(p => p.typ === "titel")).toHaveLength(1);
+  });
+
+  it("derives the breakdown from the OZ without an imported one", () => {
+    const result = parseGAEBXml(buildGAEBX84(positionen.slice(1, 3), projektInfo), "angebot.x84");
+
+    expect(result.lvStruktur.gliederung).toEqual([
+      { typ: "BoQLevel", laenge: 1, numerisch: true },
+      { typ: "Item", laenge: 2, numerisch: true },
+    ]);
+    expect(result.positionen.map(p => p.oz)).toEqual(["1", "1.10"]);
+  });
+});
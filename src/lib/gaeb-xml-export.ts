@@ -0,0 +1,256 @@
+import { GAEBGliederungsstufe, GAEBLVStruktur, GAEBPosition, ProjektInfo } from "./gaeb-import";
+
+const GAEB_NAMESPACE = "http://www.gaeb.de/GAEB_DA_XML/DA84/3.3";
+
+interface CtgyNode {
+  titel: GAEBPosition | null;
+  kategorien: CtgyNode[];
+  positionen: GAEBPosition[];
+}
+
+export function exportGAEBToX84(
+  positionen: GAEBPosition[],
+  projektInfo: ProjektInfo,
+  lvStruktur?: GAEBLVStruktur | null
+) {
+  const xml = buildGAEBX84(positionen, projektInfo, lvStruktur);
+  const blob = new Blob([xml], { type: "application/xml;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+
+  const fileBase = (projektInfo.projektNummer || projektInfo.projektName || "Angebot")
+    .replace(/[^a-zA-Z0-9äöüÄÖÜß_-]+/g, "_");
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileBase}_${projektInfo.datum || new Date().toISOString().split("T")[0]}.X84`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function buildGAEBX84(
+  positionen: GAEBPosition[],
+  projektInfo: ProjektInfo,
+  lvStruktur?: GAEBLVStruktur | null
+): string {
+  const root = buildTree(positionen);
+  const gliederung = lvStruktur?.gliederung.length ? lvStruktur.gliederung : deriveGliederung(root);
+  const waehrung = lvStruktur?.waehrung || "EUR";
+  const now = new Date();
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<GAEB xmlns="${GAEB_NAMESPACE}">`);
+
+  lines.push("  <GAEBInfo>");
+  lines.push("    <Version>3.3</Version>");
+  lines.push("    <VersDate>2021-05</VersDate>");
+  lines.push(`    <Date>${now.toISOString().split("T")[0]}</Date>`);
+  lines.push(`    <Time>${now.toTimeString().slice(0, 8)}</Time>`);
+  lines.push("    <ProgSystem>Reikan TenderAI</ProgSystem>");
+  lines.push("  </GAEBInfo>");
+
+  lines.push("  <PrjInfo>");
+  lines.push(`    <NamePrj>${escapeXml(projektInfo.projektNummer || projektInfo.projektName)}</NamePrj>`);
+  lines.push(`    <LblPrj>${escapeXml(projektInfo.projektName)}</LblPrj>`);
+  lines.push(`    <Cur>${waehrung}</Cur>`);
+  lines.push(`    <CurLbl>${waehrung === "EUR" ? "Euro" : waehrung}</CurLbl>`);
+  lines.push("  </PrjInfo>");
+
+  lines.push("  <Award>");
+  lines.push("    <DP>84</DP>");
+  lines.push("    <AwardInfo>");
+  lines.push(`      <Cur>${waehrung}</Cur>`);
+  lines.push(`      <CurLbl>${waehrung === "EUR" ? "Euro" : waehrung}</CurLbl>`);
+  lines.push("    </AwardInfo>");
+  if (projektInfo.auftraggeber) {
+    lines.push("    <OWN>");
+    lines.push("      <Address>");
+    lines.push(`        <Name1>${escapeXml(projektInfo.auftraggeber)}</Name1>`);
+    lines.push("      </Address>");
+    lines.push("    </OWN>");
+  }
+
+  lines.push(`    <BoQ ID="${escapeXml(lvStruktur?.boqId || newId())}">`);
+  lines.push("      <BoQInfo>");
+  lines.push(`        <Name>${escapeXml(projektInfo.projektNummer || "LV")}</Name>`);
+  lines.push(`        <LblBoQ>${escapeXml(lvStruktur?.lvBezeichnung || projektInfo.projektName)}</LblBoQ>`);
+  lines.push(`        <Date>${projektInfo.datum || now.toISOString().split("T")[0]}</Date>`);
+  for (const stufe of gliederung) {
+    lines.push("        <BoQBkdn>");
+    lines.push(`          <Type>${stufe.typ}</Type>`);
+    lines.push(`          <Length>${stufe.laenge}</Length>`);
+    lines.push(`          <Num>${stufe.numerisch ? "Yes" : "No"}</Num>`);
+    lines.push("        </BoQBkdn>");
+  }
+  lines.push("        <Totals>");
+  lines.push(`          <Total>${formatAmount(sumNode(root))}</Total>`);
+  lines.push("        </Totals>");
+  lines.push("      </BoQInfo>");
+  writeBody(root, gliederung, 0, "      ", lines);
+  lines.push("    </BoQ>");
+  lines.push("  </Award>");
+  lines.push("</GAEB>");
+
+  return lines.join("\n");
+}
+
+// Rebuilds the title hierarchy from the flat, ordered position list using the ebene field
+function buildTree(positionen: GAEBPosition[]): CtgyNode {
+  const root: CtgyNode = { titel: null, kategorien: [], positionen: [] };
+  const stack: { ebene: number; node: CtgyNode }[] = [{ ebene: 0, node: root }];
+
+  for (const pos of positionen) {
+    if (pos.typ === "summe") continue;
+
+    // A position sits one level below its title; a lower level closes the titles above it
+    while (stack.length > 1 && stack[stack.length - 1].ebene >= pos.ebene) stack.pop();
+
+    if (pos.typ === "titel") {
+      const node: CtgyNode = { titel: pos, kategorien: [], positionen: [] };
+      stack[stack.length - 1].node.kategorien.push(node);
+      stack.push({ ebene: pos.ebene, node });
+    } else {
+      stack[stack.length - 1].node.positionen.push(pos);
+    }
+  }
+
+  return root;
+}
+
+function writeBody(node: CtgyNode, gliederung: GAEBGliederungsstufe[], depth: number, indent: string, lines: string[]) {
+  lines.push(`${indent}<BoQBody>`);
+
+  for (const kategorie of node.kategorien) {
+    const titel = kategorie.titel!;
+    const rNoPart = formatRNoPart(titel.rNoPart ?? lastPart(titel.oz), gliederung[depth]);
+    lines.push(`${indent}  <BoQCtgy ID="${escapeXml(titel.gaebId || newId())}" RNoPart="${escapeXml(rNoPart)}">`);
+    lines.push(`${indent}    <LblTx>${formattedText(titel.beschreibung)}</LblTx>`);
+    writeBody(kategorie, gliederung, depth + 1, `${indent}    `, lines);
+    lines.push(`${indent}    <Totals>`);
+    lines.push(`${indent}      <Total>${formatAmount(sumNode(kategorie))}</Total>`);
+    lines.push(`${indent}    </Totals>`);
+    lines.push(`${indent}  </BoQCtgy>`);
+  }
+
+  // Items next to categories (e.g. before the first title) keep the OZ the
+  // awarding authority gave them, so they follow the categories in this body
+  if (node.kategorien.length === 0 || node.positionen.length > 0) {
+    const itemStufe = gliederung.find(stufe => stufe.typ === "Item");
+    lines.push(`${indent}  <Itemlist>`);
+    for (const pos of node.positionen) writeItem(pos, itemStufe, `${indent}    `, lines);
+    lines.push(`${indent}  </Itemlist>`);
+  }
+
+  lines.push(`${indent}</BoQBody>`);
+}
+
+function writeItem(pos: GAEBPosition, itemStufe: GAEBGliederungsstufe | undefined, indent: string, lines: string[]) {
+  const rNoPart = formatRNoPart(pos.rNoPart ?? lastPart(pos.oz), itemStufe);
+  const indexAttr = pos.rNoIndex ? ` RNoIndex="${escapeXml(pos.rNoIndex)}"` : "";
+  lines.push(`${indent}<Item ID="${escapeXml(pos.gaebId || newId())}" RNoPart="${escapeXml(rNoPart)}"${indexAttr}>`);
+
+  if (pos.positionsart === "bedarf") {
+    lines.push(`${indent}  <Provis>${pos.ohneGesamtbetrag ? "WithoutTotal" : "WithTotal"}</Provis>`);
+  }
+  if (pos.alnGruppe && (pos.positionsart === "grund" || pos.positionsart === "alternativ")) {
+    lines.push(`${indent}  <ALNGroupNo>${escapeXml(pos.alnGruppe)}</ALNGroupNo>`);
+    if (pos.alnNummer) lines.push(`${indent}  <ALNSerNo>${escapeXml(pos.alnNummer)}</ALNSerNo>`);
+  }
+  if (pos.positionsart === "pauschal") {
+    lines.push(`${indent}  <LumpSumItem>Yes</LumpSumItem>`);
+  }
+
+  lines.push(`${indent}  <Qty>${pos.menge.toFixed(3)}</Qty>`);
+  lines.push(`${indent}  <QU>${escapeXml(pos.einheit)}</QU>`);
+  lines.push(`${indent}  <UP>${formatAmount(pos.einzelpreis)}</UP>`);
+  lines.push(`${indent}  <IT>${formatAmount(pos.gesamtpreis)}</IT>`);
+
+  const kurztext = pos.beschreibung || pos.kurztext || "";
+  lines.push(`${indent}  <Description>`);
+  lines.push(`${indent}    <CompleteText>`);
+  if (pos.langtext) {
+    lines.push(`${indent}      <DetailTxt>`);
+    lines.push(`${indent}        <Text>${formattedText(pos.langtext)}</Text>`);
+    lines.push(`${indent}      </DetailTxt>`);
+  }
+  lines.push(`${indent}      <OutlineText>`);
+  lines.push(`${indent}        <OutlTxt>`);
+  lines.push(`${indent}          <TextOutlTxt>${formattedText(kurztext)}</TextOutlTxt>`);
+  lines.push(`${indent}        </OutlTxt>`);
+  lines.push(`${indent}      </OutlineText>`);
+  lines.push(`${indent}    </CompleteText>`);
+  lines.push(`${indent}  </Description>`);
+
+  lines.push(`${indent}</Item>`);
+}
+
+function sumNode(node: CtgyNode): number {
+  const own = node.positionen
+    .filter(pos => !pos.ohneGesamtbetrag)
+    .reduce((sum, pos) => sum + pos.gesamtpreis, 0);
+  return node.kategorien.reduce((sum, kategorie) => sum + sumNode(kategorie), own);
+}
+
+// Without an imported breakdown the OZ lengths are taken from the longest part per level
+function deriveGliederung(root: CtgyNode): GAEBGliederungsstufe[] {
+  const levelLengths: number[] = [];
+  let itemLength = 1;
+
+  const visit = (node: CtgyNode, depth: number) => {
+    for (const kategorie of node.kategorien) {
+      const part = kategorie.titel?.rNoPart ?? lastPart(kategorie.titel?.oz ?? "");
+      levelLengths[depth] = Math.max(levelLengths[depth] ?? 1, part.length);
+      visit(kategorie, depth + 1);
+    }
+    for (const pos of node.positionen) {
+      itemLength = Math.max(itemLength, (pos.rNoPart ?? lastPart(pos.oz)).length);
+    }
+  };
+  visit(root, 0);
+
+  return [
+    ...levelLengths.map(laenge => ({ typ: "BoQLevel" as const, laenge, numerisch: true })),
+    { typ: "Item" as const, laenge: itemLength, numerisch: true },
+  ];
+}
+
+function formatRNoPart(part: string, stufe: GAEBGliederungsstufe | undefined): string {
+  if (stufe?.numerisch && /^\d+$/.test(part) && part.length < stufe.laenge) {
+    return part.padStart(stufe.laenge, "0");
+  }
+  return part;
+}
+
+function lastPart(oz: string): string {
+  const parts = oz.split(".").filter(Boolean);
+  return parts[parts.length - 1] ?? "";
+}
+
+function formattedText(text: string): string {
+  return text
+    .split("\n")
+    .map(line => `<p><span>${escapeXml(line)}</span></p>`)
+    .join("");
+}
+
+function formatAmount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ID attributes are xs:ID values, which must not start with a digit
+function newId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return `ID_${crypto.randomUUID()}`;
+  }
+  return `ID_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -7,7 +7,7 @@ export interface HistoricalPrice {
   unit: string;
   unit_price: number;
   project_type: string;
-  region?: string;
+  region?: string | null;
   recorded_at: string;
 }
 
@@ -18,23 +18,23 @@ export interface StandardPosition {
   category: string;
   project_type: string;
   is_mandatory: boolean;
-  typical_unit?: string;
-  typical_quantity_min?: number;
-  typical_quantity_max?: number;
-  description?: string;
+  typical_unit?: string | null;
+  typical_quantity_min?: number | null;
+  typical_quantity_max?: number | null;
+  description?: string | null;
 }
 
 export interface ValidationIssue {
   id?: string;
-  tender_id?: string;
+  tender_id?: string | null;
   validation_type: 'price_deviation' | 'quantity_anomaly' | 'missing_position' | 'calculation_error';
   severity: 'error' | 'warning' | 'info';
-  position_code?: string;
-  position_name?: string;
+  position_code?: string | null;
+  position_name?: string | null;
   issue_description: string;
-  expected_value?: string;
-  actual_value?: string;
-  suggestion?: string;
+  expected_value?: string | null;
+  actual_value?: string | null;
+  suggestion?: string | null;
   resolved?: boolean;
 }
 
@@ -121,7 +121,7 @@ class PriceValidationService {
       return [];
     }
 
-    return data || [];
+    return (data || []) as ValidationIssue[];
   }
 
   async resolveValidationIssue(issueId: string): Promise<void> {
@@ -306,6 +306,28 @@ class PriceValidationService {
     return allIssues;
   }
 
+  // Deviation of the offer from the historical average unit prices in percent,
+  // weighted by the positions' totals; null when no position has a history
+  async averagePriceDeviation(positions: LVPosition[], projectType?: string, region?: string): Promise<number | null> {
+    let weightedDeviation = 0;
+    let weight = 0;
+
+    for (const position of positions) {
+      if (position.unit_price <= 0) continue;
+      const historicalPrices = await this.getHistoricalPrices(position.position_code, projectType, region);
+      if (historicalPrices.length === 0) continue;
+
+      const avgPrice =
+        historicalPrices.reduce((sum, hp) => sum + hp.unit_price, 0) / historicalPrices.length;
+      if (avgPrice <= 0) continue;
+      const positionWeight = position.total_price > 0 ? position.total_price : position.unit_price;
+      weightedDeviation += ((position.unit_price - avgPrice) / avgPrice) * 100 * positionWeight;
+      weight += positionWeight;
+    }
+
+    return weight > 0 ? Math.round((weightedDeviation / weight) * 100) / 100 : null;
+  }
+
   async recordHistoricalPrice(
     positionCode: string,
     positionName: string,
@@ -0,0 +1,82 @@
+import { apiRequest } from '@/lib/api-client';
+
+export interface SectionType {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface SegmentDetail {
+  segment_id: string;
+  content: string;
+  page_number: number | null;
+  confidence: number | null;
+  section_type_id: string | null;
+  // 'model', 'keywords' or 'user' (relabelled)
+  classifier: string | null;
+  heading_path: string[];
+  filename: string | null;
+  // Segment extracted in place of this near-duplicate copy
+  duplicate_of: string | null;
+}
+
+export interface CitedFact {
+  fact_id: string;
+  segment_id: string | null;
+  fact_type: string;
+  category: string;
+  value: Record<string, unknown>;
+  page_number: number | null;
+  section: string | null;
+  // 1-based document lines
+  line_start: number | null;
+  line_end: number | null;
+  snippet: string | null;
+}
+
+export interface PageSegment {
+  segment_id: string;
+  content: string;
+  first_line: number | null;
+  is_heading: boolean;
+  is_table: boolean;
+}
+
+export interface SegmentSource {
+  document: {
+    file_upload_id: string;
+    filename: string | null;
+    mime_type: string | null;
+    // Signed link to the original file, null when it is no longer stored
+    url: string | null;
+  };
+  segment_id: string;
+  page_number: number | null;
+  segments: PageSegment[];
+  facts: CitedFact[];
+}
+
+export const segmentService = {
+  async getSectionTypes(): Promise<SectionType[]> {
+    const body = await apiRequest<{ section_types: SectionType[] }>('/api/section-types');
+    return body.section_types;
+  },
+
+  async getSegment(segmentId: string): Promise<SegmentDetail> {
+    const body = await apiRequest<{ segment: SegmentDetail }>(`/api/segments/${segmentId}`);
+    return body.segment;
+  },
+
+  async getSegmentSource(segmentId: string): Promise<SegmentSource> {
+    return apiRequest<SegmentSource>(`/api/segments/${segmentId}/source`);
+  },
+
+  // The correction becomes training data for the segment classifier
+  async relabelSegment(segmentId: string, sectionTypeId: string, labelledBy?: string): Promise<void> {
+    await apiRequest(`/api/segments/${segmentId}/section-type`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ section_type_id: sectionTypeId, labelled_by: labelledBy || null })
+    });
+  }
+};
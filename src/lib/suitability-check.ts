@@ -0,0 +1,166 @@
+// Mindestanforderung an die Eignung as extracted by aggregate-tender-batch
+export interface SuitabilityRequirement {
+  art: 'umsatz' | 'referenzen' | 'versicherung' | 'personal' | 'zertifikat';
+  bezeichnung: string;
+  wert: number | null;
+  einheit: 'EUR' | 'Anzahl' | 'Personen' | null;
+  jahre: number | null;
+  auftragswert: number | null;
+  deckung: string | null;
+  norm: string | null;
+  version: string | null;
+  text: string;
+  source_document?: string;
+  source_chunk_id?: string | null;
+  page_number?: number | null;
+}
+
+export interface ReferenceProject {
+  title: string;
+  year: number;
+  // Contract value in EUR
+  value?: number;
+}
+
+// The parts of the company profile the thresholds are compared with
+export interface SuitabilityProfile {
+  // Average annual turnover in EUR
+  annualTurnover?: number;
+  employees?: number;
+  references?: ReferenceProject[];
+  // Free text such as "Betriebshaftpflicht 15 Mio. €"
+  insurance: string;
+  permits: string[];
+  certifications?: string;
+}
+
+export interface SuitabilityResult {
+  requirement: SuitabilityRequirement;
+  // null when the profile lacks the information
+  met: boolean | null;
+  // Short German explanation for the UI
+  reason: string;
+}
+
+const euro = (value: number) =>
+  value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+
+// Checks every threshold of the tender against the company profile
+export function checkSuitability(
+  requirements: SuitabilityRequirement[],
+  profile: SuitabilityProfile,
+  today = new Date()
+): SuitabilityResult[] {
+  return requirements.map(requirement => ({ requirement, ...checkRequirement(requirement, profile, today) }));
+}
+
+function checkRequirement(
+  requirement: SuitabilityRequirement,
+  profile: SuitabilityProfile,
+  today: Date
+): Omit<SuitabilityResult, 'requirement'> {
+  const required = requirement.wert ?? 0;
+
+  switch (requirement.art) {
+    case 'umsatz': {
+      if (profile.annualTurnover === undefined) return unknown('Jahresumsatz im Firmenprofil fehlt');
+      const met = profile.annualTurnover >= required;
+      return { met, reason: `${euro(profile.annualTurnover)} Jahresumsatz, gefordert ${euro(required)}` };
+    }
+
+    case 'personal': {
+      if (profile.employees === undefined) return unknown('Anzahl Beschäftigte im Firmenprofil fehlt');
+      const met = profile.employees >= required;
+      return { met, reason: `${profile.employees} Beschäftigte, gefordert ${required}` };
+    }
+
+    case 'referenzen': {
+      if (!profile.references || profile.references.length === 0) return unknown('Keine Referenzen im Firmenprofil');
+      const oldestYear = requirement.jahre ? today.getFullYear() - requirement.jahre : -Infinity;
+      const matching = profile.references.filter(reference =>
+        reference.year >= oldestYear &&
+        (requirement.auftragswert === null || (reference.value ?? 0) >= requirement.auftragswert)
+      );
+      const conditions = [
+        requirement.jahre ? `ab ${oldestYear}` : null,
+        requirement.auftragswert ? `ab ${euro(requirement.auftragswert)}` : null
+      ].filter(Boolean).join(', ');
+      return {
+        met: matching.length >= required,
+        reason: `${matching.length} passende Referenzen${conditions ? ` (${conditions})` : ''}, gefordert ${required}`
+      };
+    }
+
+    case 'versicherung': {
+      const sums = insuranceSums(profile.insurance, requirement.bezeichnung);
+      if (sums.length === 0) return unknown(`${requirement.bezeichnung} im Firmenprofil nicht angegeben`);
+      const covered = Math.max(...sums);
+      const cover = requirement.deckung ? ` für ${requirement.deckung}` : '';
+      return { met: covered >= required, reason: `Deckung ${euro(covered)}, gefordert ${euro(required)}${cover}` };
+    }
+
+    case 'zertifikat': {
+      const held = [...profile.permits, ...(profile.certifications || '').split(',')]
+        .map(entry => entry.trim())
+        .filter(entry => normalize(entry).includes(normalize(requirement.norm || requirement.bezeichnung)));
+      if (held.length === 0) return { met: false, reason: `${requirement.bezeichnung} nicht im Firmenprofil` };
+      if (!requirement.version) return { met: true, reason: held[0] };
+
+      // "ISO 9001:2008" does not satisfy a requirement for the 2015 revision
+      const versions = held.map(entry => entry.match(/:\s*(\d{4})/)?.[1]).filter((v): v is string => !!v);
+      if (versions.length === 0) return unknown(`${held[0]}: Version nicht angegeben, gefordert ${requirement.version}`);
+      const newest = versions.sort().reverse()[0];
+      return { met: newest >= requirement.version, reason: `Version ${newest}, gefordert ${requirement.version}` };
+    }
+  }
+}
+
+function unknown(reason: string): Omit<SuitabilityResult, 'requirement'> {
+  return { met: null, reason };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\b(din|en)\b/g, '').replace(/[^a-z0-9äöüß]/g, '');
+}
+
+// Sums named in the profile's insurance text for the kind of insurance, e.g.
+// "Betriebshaftpflicht 15 Mio. €"; any liability insurance counts for "Haftpflicht"
+function insuranceSums(insurance: string, kind: string): number[] {
+  const sums: number[] = [];
+  for (const part of insurance.split(/[|;\n]/)) {
+    const matchesKind = kind === 'Haftpflicht' ? /haftpflicht/i.test(part) : part.toLowerCase().includes(kind.toLowerCase());
+    if (!matchesKind) continue;
+
+    for (const match of part.matchAll(/(\d+(?:[.,]\d+)*)\s*(Mio\.?|Millionen|Mrd\.?|Tsd\.?)?\s*(?:€|EUR|Euro)/gi)) {
+      const digits = match[1];
+      const number = digits.includes(',')
+        ? parseFloat(digits.replace(/\./g, '').replace(',', '.'))
+        : parseFloat(/^\d{1,3}(\.\d{3})+$/.test(digits) ? digits.replace(/\./g, '') : digits);
+      const scale = match[2] || '';
+      const factor = /^(Mrd)/i.test(scale) ? 1e9 : /^(Mio|Millionen)/i.test(scale) ? 1e6 : /^Tsd/i.test(scale) ? 1e3 : 1;
+      if (Number.isFinite(number)) sums.push(number * factor);
+    }
+  }
+  return sums;
+}
+
+// Reference entered as one line, e.g. "Schulzentrum Nord, 2023, 450.000 €"
+export function parseReference(text: string): ReferenceProject | null {
+  const year = text.match(/\b(19|20)\d{2}\b/);
+  if (!year) return null;
+  const amount = text.match(/(\d{1,3}(?:\.\d{3})+|\d+(?:,\d+)?)\s*(Mio\.?|Tsd\.?)?\s*(?:€|EUR)/i);
+  const title = text.replace(year[0], '').replace(amount?.[0] || '', '').replace(/[,;\s]+$|^[,;\s]+/g, '').replace(/\s*,\s*,/g, ',');
+
+  let value: number | undefined;
+  if (amount) {
+    const number = parseFloat(amount[1].includes(',') ? amount[1].replace(/\./g, '').replace(',', '.') : amount[1].replace(/\./g, ''));
+    value = number * (/^Mio/i.test(amount[2] || '') ? 1e6 : /^Tsd/i.test(amount[2] || '') ? 1e3 : 1);
+  }
+  return { title: title || 'Referenz', year: Number(year[0]), ...(value !== undefined ? { value } : {}) };
+}
+
+export function formatReference(reference: ReferenceProject): string {
+  return [reference.title, reference.year, reference.value !== undefined ? euro(reference.value) : null]
+    .filter(part => part !== null)
+    .join(', ');
+}
@@ -20,6 +20,12 @@ const createDummyClient = () => {
   
   return {
     from: () => dummyQuery,
+    auth: {
+      getSession: () => Promise.resolve({ data: { session: null }, error: null }),
+      onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => {} } } }),
+      signInWithPassword: () => Promise.resolve({ data: { session: null }, error: new Error('Supabase not configured') }),
+      signOut: () => Promise.resolve({ error: null }),
+    },
     storage: {
       from: () => ({
         upload: () => Promise.reject(new Error('Supabase not configured')),
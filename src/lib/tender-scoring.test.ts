@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { logisticsScore, scoreTender, ScoringProfile } from './tender-scoring';
+import { SuitabilityRequirement } from './suitability-check';
+
+const TODAY = new Date('2026-03-01');
+
+const profile: ScoringProfile = {
+  annualTurnover: 5_000_000,
+  employees: 40,
+  references: [{ title: 'Kanalsanierung Musterstadt', year: 2024 }],
+  insurance: 'Betriebshaftpflicht 10 Mio. €',
+  permits: ['ISO 9001'],
+  fleet: 'Saugbagger, Depot Hamburg'
+};
+
+function requirement(overrides: Partial<SuitabilityRequirement>): SuitabilityRequirement {
+  return {
+    art: 'umsatz',
+    bezeichnung: 'Mindestumsatz',
+    wert: null,
+    einheit: null,
+    jahre: null,
+    auftragswert: null,
+    deckung: null,
+    norm: null,
+    version: null,
+    text: '',
+    ...overrides
+  };
+}
+
+describe('logisticsScore', () => {
+  it('stays between 0 and 100', () => {
+    expect(logisticsScore(0, 365, 'Depot Hamburg')).toBe(100);
+    expect(logisticsScore(1000, 0, '')).toBe(0);
+  });
+
+  it('drops with the distance beyond 50 km', () => {
+    expect(logisticsScore(150, 0, '')).toBeLessThan(logisticsScore(50, 0, ''));
+  });
+});
+
+describe('scoreTender', () => {
+  const nearby = { distanceKm: 30, projectDays: 90 };
+
+  it('gives the weight of parts without criteria to the others', () => {
+    const score = scoreTender({}, profile, nearby, undefined, TODAY);
+
+    expect(score.parts.map(p => p.category)).toEqual(['logistics']);
+    expect(score.parts[0].share).toBe(100);
+    expect(score.overall).toBe(score.logistics);
+    expect(score.decisionReasons).toContain('Keine Mindestanforderungen erkannt');
+  });
+
+  it('weights the parts by the configured weights', () => {
+    const score = scoreTender(
+      { suitability: [requirement({ art: 'umsatz', wert: 1_000_000 })], serviceTypes: ['Kanalsanierung', 'Asphaltbau'] },
+      profile,
+      nearby,
+      { must: 50, can: 25, logistics: 25 },
+      TODAY
+    );
+
+    expect(score.mustHits).toBe(1);
+    expect(score.canHits).toBe(1);
+    expect(score.canTotal).toBe(2);
+    expect(score.parts.map(p => p.share)).toEqual([50, 25, 25]);
+    expect(score.overall).toBe(Math.round(50 + 0.25 * 50 + 0.25 * score.logistics));
+  });
+
+  it('says NO-GO when too few Mindestanforderungen are met', () => {
+    const score = scoreTender(
+      {
+        suitability: [
+          requirement({ art: 'umsatz', wert: 1_000_000 }),
+          requirement({ art: 'personal', bezeichnung: 'Beschäftigte', wert: 100 })
+        ]
+      },
+      profile,
+      nearby,
+      undefined,
+      TODAY
+    );
+
+    expect(score.mustHits).toBe(1);
+    expect(score.decision).toBe('NO-GO');
+    expect(score.decisionReasons[1]).toMatch(/Nur 1 von 2 Mindestanforderungen/);
+  });
+
+  it('does not count a required certificate again as a Kann-Kriterium', () => {
+    const score = scoreTender(
+      {
+        suitability: [requirement({ art: 'zertifikat', bezeichnung: 'ISO 9001', norm: 'ISO 9001' })],
+        certifications: ['ISO 9001', 'ISO 14001']
+      },
+      profile,
+      nearby,
+      undefined,
+      TODAY
+    );
+
+    const canItems = score.items.filter(item => item.category === 'can');
+    expect(canItems.map(item => item.label)).toEqual(['ISO 14001']);
+    expect(canItems[0].met).toBe(false);
+  });
+
+  it('finds services in the fleet and the references', () => {
+    const score = scoreTender({ serviceTypes: ['Saugbaggerarbeiten', 'Kanalsanierung'] }, profile, nearby, undefined, TODAY);
+
+    expect(score.items.filter(item => item.category === 'can').map(item => item.reason)).toEqual([
+      'Im Fuhrpark vorhanden',
+      'Referenz: Kanalsanierung Musterstadt (2024)'
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+import { checkSuitability, SuitabilityProfile, SuitabilityRequirement } from '@/lib/suitability-check';
+
+export type ScoreCategory = 'must' | 'can' | 'logistics';
+
+// Weights of the three parts of the match score; they need not add up to 100
+export interface ScoringWeights {
+  must: number;
+  can: number;
+  logistics: number;
+}
+
+// The parts of a tender the score is computed from
+export interface ScoringTender {
+  suitability?: SuitabilityRequirement[];
+  certifications?: string[];
+  serviceTypes?: string[];
+}
+
+export interface ScoringProfile extends SuitabilityProfile {
+  fleet: string;
+}
+
+export interface LogisticsInput {
+  distanceKm: number;
+  projectDays: number;
+}
+
+// One checked criterion with the reason shown in the explanation
+export interface ScoreItem {
+  category: ScoreCategory;
+  label: string;
+  // null when the profile lacks the information
+  met: boolean | null;
+  reason: string;
+  // The sentence of the documents a Mindestanforderung was read from
+  text?: string;
+}
+
+export interface ScorePart {
+  category: ScoreCategory;
+  label: string;
+  // Configured weight and its share after leaving out parts without criteria
+  weight: number;
+  share: number;
+  percent: number;
+  points: number;
+}
+
+export interface TenderScore {
+  mustHits: number;
+  mustTotal: number;
+  canHits: number;
+  canTotal: number;
+  logistics: number;
+  overall: number;
+  parts: ScorePart[];
+  items: ScoreItem[];
+  decision: 'GO' | 'NO-GO';
+  // Why the decision came out as it did
+  decisionReasons: string[];
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = { must: 60, can: 30, logistics: 10 };
+
+// A GO needs both a good overall match and most of the Mindestanforderungen
+export const GO_MIN_SCORE = 70;
+export const GO_MIN_MUST_PERCENT = 80;
+
+const WEIGHTS_KEY = 'scoringWeights';
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  must: 'Muss-Kriterien',
+  can: 'Kann-Kriterien',
+  logistics: 'Logistik-Machbarkeit'
+};
+
+// Words that say nothing about which certificate or service is meant
+const STOPWORDS = new Set([
+  'nachweis', 'nachweise', 'zertifikat', 'zertifizierung', 'zertifiziert', 'gemäß', 'nach', 'oder', 'und',
+  'gleichwertig', 'vergleichbar', 'der', 'die', 'das', 'des', 'für', 'von', 'mit', 'inkl', 'bzw'
+]);
+
+export function loadScoringWeights(): ScoringWeights {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WEIGHTS_KEY) || 'null') as Partial<ScoringWeights> | null;
+    if (!stored) return DEFAULT_SCORING_WEIGHTS;
+    return {
+      must: validWeight(stored.must) ?? DEFAULT_SCORING_WEIGHTS.must,
+      can: validWeight(stored.can) ?? DEFAULT_SCORING_WEIGHTS.can,
+      logistics: validWeight(stored.logistics) ?? DEFAULT_SCORING_WEIGHTS.logistics
+    };
+  } catch {
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+}
+
+export function saveScoringWeights(weights: ScoringWeights): void {
+  localStorage.setItem(WEIGHTS_KEY, JSON.stringify(weights));
+}
+
+function validWeight(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+// Delivery distance and project length against the fleet's depots, 0..100
+export function logisticsScore(distanceKm: number, projectDays: number, fleet: string): number {
+  const regionalDepots = /Hamburg|Bremen|Hannover|Berlin|München|Köln|Stuttgart|Depot/i.test(fleet) ? 1 : 0;
+  const distancePenalty = Math.max(0, distanceKm - 50) * 0.4; // soft cap 50 km for equipment delivery
+  const durationBonus = Math.min(10, projectDays / 30 * 2); // longer projects = better logistics
+  const raw = 100 - distancePenalty + durationBonus + regionalDepots * 8;
+  return Math.max(0, Math.min(100, Math.round(raw)));
+}
+
+// Match score of a tender for the company, with every criterion it was computed from
+export function scoreTender(
+  tender: ScoringTender,
+  profile: ScoringProfile,
+  logistics: LogisticsInput,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+  today = new Date()
+): TenderScore {
+  const mustItems: ScoreItem[] = checkSuitability(tender.suitability || [], profile, today).map(result => ({
+    category: 'must',
+    label: result.requirement.norm && result.requirement.version
+      ? `${result.requirement.bezeichnung}:${result.requirement.version}`
+      : result.requirement.bezeichnung,
+    met: result.met,
+    reason: result.reason,
+    text: result.requirement.text
+  }));
+  const canItems = [...certificateItems(tender, profile), ...serviceItems(tender, profile)];
+
+  const logisticsPercent = logisticsScore(logistics.distanceKm, logistics.projectDays, profile.fleet);
+  const logisticsItem: ScoreItem = {
+    category: 'logistics',
+    label: 'Entfernung und Projektdauer',
+    met: logisticsPercent >= GO_MIN_SCORE,
+    reason: `${logistics.distanceKm} km Anfahrt, ${logistics.projectDays} Tage Laufzeit: ${logisticsPercent} % Machbarkeit`
+  };
+
+  const mustHits = mustItems.filter(item => item.met === true).length;
+  const canHits = canItems.filter(item => item.met === true).length;
+  const percents: Record<ScoreCategory, number | null> = {
+    must: mustItems.length > 0 ? percent(mustHits, mustItems.length) : null,
+    can: canItems.length > 0 ? percent(canHits, canItems.length) : null,
+    logistics: logisticsPercent
+  };
+
+  // Parts without criteria are left out and their weight goes to the others
+  const categories = (Object.keys(CATEGORY_LABELS) as ScoreCategory[]).filter(category => percents[category] !== null);
+  const totalWeight = categories.reduce((sum, category) => sum + weights[category], 0);
+  const parts: ScorePart[] = categories.map(category => {
+    const share = totalWeight > 0 ? weights[category] / totalWeight : 1 / categories.length;
+    return {
+      category,
+      label: CATEGORY_LABELS[category],
+      weight: weights[category],
+      share: Math.round(share * 1000) / 10,
+      percent: percents[category]!,
+      points: Math.round(share * percents[category]! * 10) / 10
+    };
+  });
+  const overall = Math.round(parts.reduce((sum, part) => sum + part.points, 0));
+
+  const decisionReasons: string[] = [];
+  decisionReasons.push(overall >= GO_MIN_SCORE
+    ? `Gesamtbewertung ${overall} % erreicht mindestens ${GO_MIN_SCORE} %`
+    : `Gesamtbewertung ${overall} % liegt unter ${GO_MIN_SCORE} %`);
+  if (mustItems.length === 0) {
+    decisionReasons.push('Keine Mindestanforderungen erkannt');
+  } else {
+    decisionReasons.push(percents.must! >= GO_MIN_MUST_PERCENT
+      ? `${mustHits} von ${mustItems.length} Mindestanforderungen erfüllt`
+      : `Nur ${mustHits} von ${mustItems.length} Mindestanforderungen erfüllt, nötig sind ${GO_MIN_MUST_PERCENT} %`);
+  }
+  const go = overall >= GO_MIN_SCORE && (mustItems.length === 0 || percents.must! >= GO_MIN_MUST_PERCENT);
+
+  return {
+    mustHits,
+    mustTotal: mustItems.length,
+    canHits,
+    canTotal: canItems.length,
+    logistics: logisticsPercent,
+    overall,
+    parts,
+    items: [...mustItems, ...canItems, logisticsItem],
+    decision: go ? 'GO' : 'NO-GO',
+    decisionReasons
+  };
+}
+
+// Certificates the documents mention beyond the Mindestanforderungen
+function certificateItems(tender: ScoringTender, profile: ScoringProfile): ScoreItem[] {
+  const required = (tender.suitability || []).filter(r => r.art === 'zertifikat').map(r => tokens(r.norm || r.bezeichnung));
+  const held = [...profile.permits, ...(profile.certifications || '').split(',')].map(entry => entry.trim()).filter(Boolean);
+
+  return unique(tender.certifications || [])
+    .filter(name => !required.some(norm => norm.length > 0 && norm.every(token => tokens(name).includes(token))))
+    .map(name => {
+      const match = held.find(entry => mentions(entry, name));
+      return {
+        category: 'can',
+        label: name,
+        met: !!match,
+        reason: match ? `Im Firmenprofil: ${match}` : 'Nicht im Firmenprofil'
+      };
+    });
+}
+
+// Services of the tender the company already offers, judged by its fleet and references
+function serviceItems(tender: ScoringTender, profile: ScoringProfile): ScoreItem[] {
+  const references = profile.references || [];
+
+  return unique(tender.serviceTypes || []).map(service => {
+    const reference = references.find(r => mentions(r.title, service));
+    if (reference) return { category: 'can', label: service, met: true, reason: `Referenz: ${reference.title} (${reference.year})` };
+    if (mentions(profile.fleet, service)) return { category: 'can', label: service, met: true, reason: 'Im Fuhrpark vorhanden' };
+    return { category: 'can', label: service, met: false, reason: 'Weder im Fuhrpark noch in den Referenzen' };
+  });
+}
+
+// Whether the text names the criterion: every number of it (e.g. "9001") and,
+// for criteria without numbers, one of its words by its stem
+function mentions(text: string, criterion: string): boolean {
+  const haystack = tokens(text);
+  const wanted = tokens(criterion);
+  if (wanted.length === 0) return false;
+  const numbers = wanted.filter(token => /^\d+$/.test(token));
+  if (numbers.length > 0) return numbers.every(number => haystack.includes(number));
+  return wanted.some(word => haystack.some(token => stem(token) === stem(word)));
+}
+
+function tokens(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^a-z0-9äöüß]+/)
+    .filter(token => token.length >= 3 && !STOPWORDS.has(token));
+}
+
+// German compounds and endings vary ("Baustelleneinrichtung", "Baustellen")
+function stem(word: string): string {
+  return word.substring(0, 6);
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function percent(hits: number, total: number): number {
+  return total === 0 ? 0 : Math.round((100 * hits) / total);
+}
@@ -0,0 +1,30 @@
+import type { Database } from './database.types';
+
+export type TenderWorkspace = Database['public']['Tables']['tender_workspaces']['Row'];
+export type WorkspaceStatus = TenderWorkspace['status'];
+// What the pipeline board shows of a workspace
+export type WorkspaceCard = Pick<
+  TenderWorkspace, 'id' | 'tender_key' | 'title' | 'buyer' | 'deadline' | 'status' | 'current_step' | 'last_editor' | 'updated_at'
+>;
+
+// Columns of the pipeline board, in the order a tender moves through them
+export const WORKSPACE_STATUSES: Array<{ status: WorkspaceStatus; label: string }> = [
+  { status: 'sichtung', label: 'Sichtung' },
+  { status: 'in_bearbeitung', label: 'In Bearbeitung' },
+  { status: 'freigabe', label: 'Freigabe' },
+  { status: 'abgegeben', label: 'Abgegeben' },
+  { status: 'zuschlag', label: 'Zuschlag' },
+  { status: 'absage', label: 'Absage' }
+];
+
+// Set by hand or by saving the submission and its outcome, never by the wizard
+const FINAL_STATUSES: WorkspaceStatus[] = ['abgegeben', 'zuschlag', 'absage'];
+
+// The status the wizard's progress implies; it only ever moves a tender forward
+export function progressStatus(current: WorkspaceStatus, step: number, bidApproved: boolean): WorkspaceStatus {
+  if (FINAL_STATUSES.includes(current)) return current;
+
+  const reached: WorkspaceStatus = step >= 9 ? 'freigabe' : bidApproved && step >= 3 ? 'in_bearbeitung' : 'sichtung';
+  const order = WORKSPACE_STATUSES.map(s => s.status);
+  return order.indexOf(reached) > order.indexOf(current) ? reached : current;
+}
@@ -0,0 +1,68 @@
+import { apiRequest } from '@/lib/api-client';
+
+// One field that differs from the version the amendment replaces
+export interface ProfileChange {
+  batch_id: string;
+  field_name: string;
+  field_label: string | null;
+  change_type: 'added' | 'removed' | 'changed';
+  old_value: string | null;
+  new_value: string | null;
+  summary: string;
+  affected_steps: number[];
+  affected_step_labels: string[];
+}
+
+export interface TenderVersion {
+  batch_id: string;
+  version: number;
+  amends_batch_id: string | null;
+  status: string;
+  created_at: string;
+  completed_at: string | null;
+  changes: ProfileChange[];
+}
+
+// Raised when an amendment touches a step the team already worked on
+export interface TenderNotification {
+  id: string;
+  root_batch_id: string;
+  batch_id: string;
+  kind: 'amendment';
+  title: string;
+  message: string;
+  affected_steps: number[];
+  affected_step_labels: string[];
+  created_at: string;
+  read_at: string | null;
+  read_by: string | null;
+}
+
+export interface TenderVersions {
+  root_batch_id: string;
+  versions: TenderVersion[];
+  notifications: TenderNotification[];
+}
+
+export const versionService = {
+  // All versions of the tender the batch belongs to, oldest first
+  async getVersions(batchId: string): Promise<TenderVersions> {
+    const body = await apiRequest<TenderVersions>(`/api/batches/${batchId}/versions`);
+    return { root_batch_id: body.root_batch_id, versions: body.versions, notifications: body.notifications };
+  },
+
+  // Unread notifications of all tenders
+  async getNotifications(): Promise<TenderNotification[]> {
+    const body = await apiRequest<{ notifications: TenderNotification[] }>('/api/notifications');
+    return body.notifications;
+  },
+
+  async markNotificationRead(notificationId: string, readBy?: string): Promise<TenderNotification> {
+    const body = await apiRequest<{ notification: TenderNotification }>(`/api/notifications/${notificationId}/read`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ read_by: readBy || null })
+    });
+    return body.notification;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_OUTCOMES, OutcomeSample, predictWin, priceWeightOf, trainWinModel } from './win-model';
+
+// Higher match scores win, lower ones lose
+function samples(count: number): OutcomeSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    score: 40 + (i % 10) * 6,
+    priceDeltaPct: null,
+    distanceKm: 50,
+    buyer: `Stadt ${i % 3}`,
+    priceWeight: 60,
+    won: i % 10 >= 5
+  }));
+}
+
+describe('trainWinModel', () => {
+  it('needs enough outcomes of both kinds', () => {
+    expect(trainWinModel(samples(MIN_OUTCOMES - 1))).toBeNull();
+    expect(trainWinModel(samples(20).map(s => ({ ...s, won: true })))).toBeNull();
+  });
+
+  it('learns that a higher match score wins more often', () => {
+    const model = trainWinModel(samples(40))!;
+
+    expect(model.samples).toBe(40);
+    expect(model.wins).toBe(20);
+    expect(model.coefficients[0]).toBeGreaterThan(0);
+    expect(model.brier).toBeLessThan(0.25);
+  });
+});
+
+describe('predictWin', () => {
+  const model = trainWinModel(samples(40))!;
+  const features = { priceDeltaPct: null, distanceKm: 50, buyer: 'Stadt 1', priceWeight: 60 };
+
+  it('ranks a strong match above a weak one', () => {
+    const strong = predictWin(model, { ...features, score: 95 });
+    const weak = predictWin(model, { ...features, score: 40 });
+
+    expect(strong.probability).toBeGreaterThan(weak.probability);
+    expect(strong.probability).toBeLessThanOrEqual(99);
+    expect(weak.probability).toBeGreaterThanOrEqual(1);
+  });
+
+  it('names the match score as the main driver', () => {
+    const { drivers } = predictWin(model, { ...features, score: 95 });
+
+    expect(drivers[0].label).toBe('Match-Score');
+    expect(drivers[0].effect).toBeGreaterThan(0);
+    expect(drivers.length).toBeLessThanOrEqual(3);
+  });
+
+  it('treats unknown values as average', () => {
+    const { drivers } = predictWin(model, { ...features, score: 95, distanceKm: null });
+
+    expect(drivers.find(d => d.label === 'Entfernung')).toBeUndefined();
+  });
+});
+
+describe('priceWeightOf', () => {
+  it('sums the weights of the price criteria', () => {
+    expect(priceWeightOf([
+      { text: 'Preis', weight: 50 },
+      { text: 'Lebenszykluskosten', weight: 10 },
+      { text: 'Qualität', weight: 40 }
+    ])).toBe(60);
+  });
+
+  it('is null without any weights', () => {
+    expect(priceWeightOf([{ text: 'Preis', weight: null }])).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+// What a submission looked like when it went out; stored with the submission
+// so that recorded outcomes can be learned from later
+export interface WinFeatures {
+  // Match score against the company profile, 0..100
+  score: number;
+  // Deviation of the offer's unit prices from the historical average in percent
+  priceDeltaPct: number | null;
+  distanceKm: number | null;
+  buyer: string;
+  // Share of the price in the Zuschlagskriterien in percent
+  priceWeight: number | null;
+}
+
+export interface OutcomeSample extends WinFeatures {
+  won: boolean;
+}
+
+export interface WinDriver {
+  label: string;
+  // Change of the log-odds against an average past submission
+  effect: number;
+  text: string;
+}
+
+export interface WinModel {
+  samples: number;
+  wins: number;
+  intercept: number;
+  coefficients: number[];
+  means: number[];
+  stds: number[];
+  // Platt scaling of the logits, fitted on out-of-fold predictions
+  calibration: { a: number; b: number };
+  // Out-of-fold Brier score; 0.25 is no better than guessing 50 %
+  brier: number;
+  buyers: Record<string, { wins: number; total: number }>;
+}
+
+export interface WinPrediction {
+  // Probability in percent
+  probability: number;
+  drivers: WinDriver[];
+}
+
+// Below this many recorded outcomes the fitted weights are mostly noise
+export const MIN_OUTCOMES = 10;
+
+const FOLDS = 5;
+const ITERATIONS = 1500;
+const LEARNING_RATE = 0.1;
+const L2 = 0.1;
+// Past submissions to the same buyer count as much as this many average ones
+const BUYER_PRIOR = 2;
+
+interface FeatureDef {
+  label: string;
+  value: (features: WinFeatures, buyerRate: number) => number | null;
+  describe: (features: WinFeatures, buyerRate: number, mean: number) => string;
+}
+
+const FEATURES: FeatureDef[] = [
+  {
+    label: 'Match-Score',
+    value: f => f.score,
+    describe: (f, _, mean) => `${Math.round(f.score)} % (Ø ${Math.round(mean)} %)`
+  },
+  {
+    label: 'Preis ggü. historischem Durchschnitt',
+    value: f => f.priceDeltaPct,
+    describe: f => f.priceDeltaPct === null
+      ? 'unbekannt'
+      : `${f.priceDeltaPct > 0 ? '+' : ''}${f.priceDeltaPct.toLocaleString('de-DE', { maximumFractionDigits: 1 })} %`
+  },
+  {
+    label: 'Entfernung',
+    value: f => f.distanceKm,
+    describe: (f, _, mean) => f.distanceKm === null ? 'unbekannt' : `${Math.round(f.distanceKm)} km (Ø ${Math.round(mean)} km)`
+  },
+  {
+    label: 'Bisherige Zuschläge beim Auftraggeber',
+    value: (_, buyerRate) => buyerRate * 100,
+    describe: (_, buyerRate) => `${Math.round(buyerRate * 100)} % geschätzte Zuschlagsquote`
+  },
+  {
+    label: 'Gewichtung des Preises',
+    value: f => f.priceWeight,
+    describe: (f, _, mean) => f.priceWeight === null ? 'unbekannt' : `${Math.round(f.priceWeight)} % (Ø ${Math.round(mean)} %)`
+  }
+];
+
+// Logistic regression on the recorded outcomes; null while there are too few
+// or all of them went the same way
+export function trainWinModel(samples: OutcomeSample[]): WinModel | null {
+  const wins = samples.filter(s => s.won).length;
+  if (samples.length < MIN_OUTCOMES || wins === 0 || wins === samples.length) return null;
+
+  const fitted = fit(samples);
+
+  // Calibrate on predictions for submissions the model did not see
+  const logits: number[] = [];
+  const labels: number[] = [];
+  for (let fold = 0; fold < FOLDS; fold++) {
+    const train = samples.filter((_, i) => i % FOLDS !== fold);
+    const test = samples.filter((_, i) => i % FOLDS === fold);
+    if (test.length === 0 || !train.some(s => s.won) || train.every(s => s.won)) continue;
+    const model = fit(train);
+    for (const sample of test) {
+      logits.push(logit(model, sample));
+      labels.push(sample.won ? 1 : 0);
+    }
+  }
+  const calibration = plattScaling(logits, labels);
+  const brier = logits.length === 0
+    ? 0.25
+    : logits.reduce((sum, z, i) => sum + (sigmoid(calibration.a * z + calibration.b) - labels[i]) ** 2, 0) / logits.length;
+
+  return { ...fitted, calibration, brier };
+}
+
+export function predictWin(model: WinModel, features: WinFeatures): WinPrediction {
+  const z = logit(model, features);
+  const probability = sigmoid(model.calibration.a * z + model.calibration.b);
+  const buyerRate = buyerWinRate(model.buyers, model.wins / model.samples, features.buyer);
+
+  const drivers = FEATURES.map((def, i) => {
+    const value = def.value(features, buyerRate);
+    const standardized = value === null ? 0 : (value - model.means[i]) / model.stds[i];
+    return {
+      label: def.label,
+      effect: model.calibration.a * model.coefficients[i] * standardized,
+      text: def.describe(features, buyerRate, model.means[i])
+    };
+  })
+    .filter(driver => Math.abs(driver.effect) > 0.01)
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+    .slice(0, 3);
+
+  return { probability: Math.max(1, Math.min(99, Math.round(probability * 100))), drivers };
+}
+
+type FittedModel = Omit<WinModel, 'calibration' | 'brier'>;
+
+function fit(samples: OutcomeSample[]): FittedModel {
+  const baseRate = samples.filter(s => s.won).length / samples.length;
+  const buyers: Record<string, { wins: number; total: number }> = {};
+  for (const sample of samples) {
+    const key = buyerKey(sample.buyer);
+    buyers[key] = buyers[key] || { wins: 0, total: 0 };
+    buyers[key].total++;
+    if (sample.won) buyers[key].wins++;
+  }
+
+  // A submission's own outcome must not tell the model how its buyer decides
+  const rows = samples.map(sample => {
+    const own = buyers[buyerKey(sample.buyer)];
+    const others = { wins: own.wins - (sample.won ? 1 : 0), total: own.total - 1 };
+    const buyerRate = (others.wins + BUYER_PRIOR * baseRate) / (others.total + BUYER_PRIOR);
+    return FEATURES.map(def => def.value(sample, buyerRate));
+  });
+
+  const means = FEATURES.map((_, i) => mean(rows.map(row => row[i]).filter((v): v is number => v !== null)));
+  const stds = FEATURES.map((_, i) => {
+    const values = rows.map(row => row[i]).filter((v): v is number => v !== null);
+    const std = Math.sqrt(mean(values.map(v => (v - means[i]) ** 2)));
+    return std > 1e-9 ? std : 1;
+  });
+  // Missing values count as average
+  const x = rows.map(row => row.map((v, i) => v === null ? 0 : (v - means[i]) / stds[i]));
+  const y = samples.map(s => s.won ? 1 : 0);
+
+  let intercept = Math.log(baseRate / (1 - baseRate));
+  const coefficients = FEATURES.map(() => 0);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let gradIntercept = 0;
+    const grad = coefficients.map(() => 0);
+    for (let n = 0; n < x.length; n++) {
+      const error = sigmoid(intercept + dot(coefficients, x[n])) - y[n];
+      gradIntercept += error;
+      for (let i = 0; i < grad.length; i++) grad[i] += error * x[n][i];
+    }
+    intercept -= LEARNING_RATE * gradIntercept / x.length;
+    for (let i = 0; i < coefficients.length; i++) {
+      coefficients[i] -= LEARNING_RATE * (grad[i] / x.length + L2 * coefficients[i]);
+    }
+  }
+
+  return { samples: samples.length, wins: y.filter(Boolean).length, intercept, coefficients, means, stds, buyers };
+}
+
+function logit(model: FittedModel, features: WinFeatures): number {
+  const buyerRate = buyerWinRate(model.buyers, model.wins / model.samples, features.buyer);
+  const x = FEATURES.map((def, i) => {
+    const value = def.value(features, buyerRate);
+    return value === null ? 0 : (value - model.means[i]) / model.stds[i];
+  });
+  return model.intercept + dot(model.coefficients, x);
+}
+
+// Fits p = sigmoid(a * z + b); pulled towards the identity because the folds are small
+function plattScaling(logits: number[], labels: number[]): { a: number; b: number } {
+  let a = 1;
+  let b = 0;
+  if (logits.length === 0) return { a, b };
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let gradA = 0;
+    let gradB = 0;
+    for (let n = 0; n < logits.length; n++) {
+      const error = sigmoid(a * logits[n] + b) - labels[n];
+      gradA += error * logits[n];
+      gradB += error;
+    }
+    a -= LEARNING_RATE * (gradA / logits.length + L2 * (a - 1));
+    b -= LEARNING_RATE * (gradB / logits.length + L2 * b);
+  }
+  return { a, b };
+}
+
+function buyerWinRate(buyers: Record<string, { wins: number; total: number }>, baseRate: number, buyer: string): number {
+  const history = buyers[buyerKey(buyer)] || { wins: 0, total: 0 };
+  return (history.wins + BUYER_PRIOR * baseRate) / (history.total + BUYER_PRIOR);
+}
+
+function buyerKey(buyer: string): string {
+  return buyer.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// The share of the price criteria among the Hauptkriterien, null when no weights are known
+export function priceWeightOf(criteria: Array<{ text: string; weight: number | null }>): number | null {
+  const weighted = criteria.filter(c => c.weight !== null);
+  if (weighted.length === 0) return null;
+  return weighted
+    .filter(c => /preis|kosten|wirtschaftlich|angebotssumme/i.test(c.text))
+    .reduce((sum, c) => sum + c.weight!, 0);
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,139 @@
+// Stores the documents of an expanded archive as tender_file_uploads rows.
+//
+// Each document becomes its own row with its folder path and content hash.
+// Documents whose content is already in the batch get a 'duplicate' row that
+// points to the first copy instead of being uploaded and processed again.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { ExpandedArchive } from "./archive.ts";
+
+export interface StoredUpload {
+  id: string;
+  file_path: string;
+  mime_type: string;
+  original_filename: string;
+}
+
+export interface ArchiveStorageResult {
+  // Rows waiting for process-tender-documents
+  pending: StoredUpload[];
+  duplicates: number;
+  failed: string[];
+}
+
+export async function storeArchiveDocuments(
+  supabase: SupabaseClient,
+  batchId: string,
+  archive: ExpandedArchive,
+  parentUploadId: string | null
+): Promise<ArchiveStorageResult> {
+  const result: ArchiveStorageResult = { pending: [], duplicates: 0, failed: [] };
+
+  // Earlier uploads of the same batch count as originals too
+  const { data: existing } = await supabase
+    .from("tender_file_uploads")
+    .select("id, file_path, content_hash")
+    .eq("upload_batch_id", batchId)
+    .is("duplicate_of", null)
+    .not("content_hash", "is", null);
+
+  const originals = new Map<string, { id: string; file_path: string }>();
+  for (const row of existing || []) {
+    originals.set(row.content_hash, { id: row.id, file_path: row.file_path });
+  }
+
+  // The batch total must cover the new rows before they are inserted, otherwise
+  // the progress rollup could mark the batch completed halfway through. The
+  // archive itself stops counting as a file once it has been expanded.
+  await adjustBatchTotal(supabase, batchId, archive.documents.length - (parentUploadId ? 1 : 0));
+
+  for (const document of archive.documents) {
+    const original = originals.get(document.hash);
+
+    try {
+      if (original) {
+        const { error } = await supabase
+          .from("tender_file_uploads")
+          .insert({
+            upload_batch_id: batchId,
+            parent_upload_id: parentUploadId,
+            original_filename: document.name,
+            relative_path: document.folder,
+            file_path: original.file_path,
+            file_size: document.bytes.length,
+            mime_type: document.mimeType,
+            content_hash: document.hash,
+            duplicate_of: original.id,
+            processing_status: "duplicate",
+            processed_at: new Date().toISOString()
+          });
+
+        if (error) throw error;
+        result.duplicates++;
+        continue;
+      }
+
+      const storagePath = `${batchId}/${Date.now()}-${sanitizeFileName(document.path)}`;
+      const { data: uploadData, error: uploadError } = await supabase.storage
+        .from("tender-documents")
+        .upload(storagePath, document.bytes, {
+          contentType: document.mimeType,
+          cacheControl: "3600",
+          upsert: false
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data: row, error: recordError } = await supabase
+        .from("tender_file_uploads")
+        .insert({
+          upload_batch_id: batchId,
+          parent_upload_id: parentUploadId,
+          original_filename: document.name,
+          relative_path: document.folder,
+          file_path: uploadData.path,
+          file_size: document.bytes.length,
+          mime_type: document.mimeType,
+          content_hash: document.hash,
+          processing_status: "pending"
+        })
+        .select("id, file_path, mime_type, original_filename")
+        .single();
+
+      if (recordError) throw recordError;
+
+      originals.set(document.hash, { id: row.id, file_path: row.file_path });
+      result.pending.push(row);
+    } catch (error) {
+      console.error(`Failed to store ${document.path}:`, error);
+      result.failed.push(document.path);
+    }
+  }
+
+  // When nothing could be stored the archive keeps counting as the one (failed) file
+  const nothingStored = result.pending.length === 0 && result.duplicates === 0;
+  await adjustBatchTotal(supabase, batchId, -result.failed.length + (parentUploadId && nothingStored ? 1 : 0));
+
+  return result;
+}
+
+async function adjustBatchTotal(supabase: SupabaseClient, batchId: string, delta: number) {
+  if (delta === 0) return;
+
+  const { error } = await supabase.rpc("adjust_batch_total", {
+    batch_id_param: batchId,
+    delta
+  });
+
+  if (error) {
+    throw new Error(`Failed to update batch total: ${error.message}`);
+  }
+}
+
+// Storage keys must be ASCII; the readable path lives in relative_path/original_filename
+function sanitizeFileName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9._-]/g, "_");
+}
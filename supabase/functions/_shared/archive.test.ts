@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { expandArchive, isJunkEntry, MAX_DOCUMENT_SIZE } from './archive.ts';
+import { zip } from './zip-fixture.ts';
+
+describe('isJunkEntry', () => {
+  it('drops what Finder, Explorer and Office leave behind', () => {
+    expect(isJunkEntry('__MACOSX/Unterlagen/._LV.pdf')).toBe(true);
+    expect(isJunkEntry('Unterlagen/.DS_Store')).toBe(true);
+    expect(isJunkEntry('Unterlagen/Thumbs.db')).toBe(true);
+    expect(isJunkEntry('Unterlagen/~$Angebot.docx')).toBe(true);
+    expect(isJunkEntry('Unterlagen/Angebot.docx')).toBe(false);
+  });
+});
+
+describe('expandArchive', () => {
+  it('keeps folders, drops junk and flags duplicates', async () => {
+    const bytes = await zip([
+      { name: 'Vergabeunterlagen/LV.pdf', data: '%PDF-1.4 LV' },
+      { name: 'Vergabeunterlagen/Kopie/LV.pdf', data: '%PDF-1.4 LV' },
+      { name: '__MACOSX/Vergabeunterlagen/._LV.pdf', data: 'x' },
+      { name: 'Vergabeunterlagen/Plan.dwg', data: 'x' }
+    ]);
+
+    const { documents, skipped } = await expandArchive(bytes);
+
+    expect(documents.map(d => [d.folder, d.name, d.mimeType])).toEqual([
+      ['Vergabeunterlagen/', 'LV.pdf', 'application/pdf'],
+      ['Vergabeunterlagen/Kopie/', 'LV.pdf', 'application/pdf']
+    ]);
+    expect(documents[1].duplicateOf).toBe('Vergabeunterlagen/LV.pdf');
+    expect(skipped).toEqual([
+      { path: '__MACOSX/Vergabeunterlagen/._LV.pdf', reason: 'junk' },
+      { path: 'Vergabeunterlagen/Plan.dwg', reason: 'unsupported' }
+    ]);
+  });
+
+  it('expands nested archives into a folder of their name', async () => {
+    const inner = await zip([{ name: 'Formblatt 124.pdf', data: '%PDF-1.4 FB' }]);
+    const bytes = await zip([{ name: 'Unterlagen/Anlagen.zip', data: inner, deflate: true }]);
+
+    const { documents } = await expandArchive(bytes);
+
+    expect(documents.map(d => d.path)).toEqual(['Unterlagen/Anlagen/Formblatt 124.pdf']);
+  });
+
+  it('skips documents larger than the document limit', async () => {
+    const bytes = await zip([{ name: 'riesig.pdf', data: '%PDF', declaredSize: MAX_DOCUMENT_SIZE + 1 }]);
+
+    expect((await expandArchive(bytes)).skipped).toEqual([{ path: 'riesig.pdf', reason: 'too_large' }]);
+  });
+
+  it('counts nested archives toward the cap of the whole archive', async () => {
+    const inner = await zip([
+      { name: 'a.txt', data: 'a'.repeat(4000), deflate: true },
+      { name: 'b.txt', data: 'b'.repeat(4000), deflate: true }
+    ]);
+    const bytes = await zip([{ name: 'Anlagen.zip', data: inner, deflate: true }]);
+
+    const { documents, skipped } = await expandArchive(bytes, inner.length + 5000);
+
+    expect(documents.map(d => d.path)).toEqual(['Anlagen/a.txt']);
+    expect(skipped).toEqual([{ path: 'Anlagen/b.txt', reason: 'too_large' }]);
+  });
+});
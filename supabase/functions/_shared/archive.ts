@@ -0,0 +1,157 @@
+// Expands uploaded ZIP archives into the documents the pipeline can process.
+//
+// Tender packages are usually ZIPs exported from a Vergabeplattform, often with
+// nested folders (Vergabeunterlagen/Formblätter/...) and sometimes ZIPs inside
+// ZIPs. Every document keeps its folder path, OS junk is dropped, nested
+// archives are expanded in place and byte-identical files are flagged so they
+// are only processed once. Everything read from the archive, nested archives
+// included, counts toward one cap on inflated bytes.
+
+import { isZip, listZipEntries, MAX_INFLATED_SIZE, readZipEntry, ZipSizeError } from "./zip.ts";
+
+// Document types the storage bucket and process-tender-documents accept
+export const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  doc: "application/msword",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  txt: "text/plain",
+};
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+const MAX_NESTING_DEPTH = 3;
+
+export interface ArchiveDocument {
+  // Full path inside the archive, nested archives contribute their name as a folder
+  path: string;
+  name: string;
+  folder: string;
+  mimeType: string;
+  bytes: Uint8Array;
+  hash: string;
+  // Path of the first document with identical content
+  duplicateOf?: string;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: "junk" | "unsupported" | "too_large" | "corrupt" | "nesting_depth";
+}
+
+export interface ExpandedArchive {
+  documents: ArchiveDocument[];
+  skipped: SkippedEntry[];
+}
+
+interface InflateBudget {
+  // Bytes the rest of the archive may still inflate to
+  remaining: number;
+}
+
+export function documentMimeType(name: string): string | null {
+  const extension = name.split(".").pop()?.toLowerCase() || "";
+  return DOCUMENT_MIME_TYPES[extension] || null;
+}
+
+// Finder, Explorer and Office leave these behind; none of them are tender documents
+export function isJunkEntry(path: string): boolean {
+  const parts = path.split("/").filter(Boolean);
+  const name = parts[parts.length - 1] || "";
+
+  if (parts.some(part => part === "__MACOSX" || part === ".git" || part === ".svn")) return true;
+  if (name.startsWith("._") || name.startsWith("~$") || name.startsWith(".~lock.")) return true;
+
+  return [".ds_store", "thumbs.db", "desktop.ini", ".localized"].includes(name.toLowerCase())
+    || /\.(tmp|bak)$/i.test(name);
+}
+
+export async function expandArchive(bytes: Uint8Array, maxInflatedSize = MAX_INFLATED_SIZE): Promise<ExpandedArchive> {
+  const result: ExpandedArchive = { documents: [], skipped: [] };
+  const seen = new Map<string, string>();
+  await expandInto(bytes, "", 0, result, seen, { remaining: maxInflatedSize });
+  return result;
+}
+
+async function expandInto(
+  bytes: Uint8Array,
+  prefix: string,
+  depth: number,
+  result: ExpandedArchive,
+  seen: Map<string, string>,
+  budget: InflateBudget
+): Promise<void> {
+  for (const entry of listZipEntries(bytes)) {
+    if (entry.isDirectory) continue;
+
+    const path = prefix + entry.name;
+    if (isJunkEntry(path)) {
+      result.skipped.push({ path, reason: "junk" });
+      continue;
+    }
+
+    const isNestedZip = /\.zip$/i.test(entry.name);
+    const mimeType = documentMimeType(entry.name);
+    if (!isNestedZip && !mimeType) {
+      result.skipped.push({ path, reason: "unsupported" });
+      continue;
+    }
+    // Nested archives are only bounded by what is left of the budget
+    const limit = isNestedZip ? budget.remaining : Math.min(MAX_DOCUMENT_SIZE, budget.remaining);
+    if (entry.size > limit) {
+      result.skipped.push({ path, reason: "too_large" });
+      continue;
+    }
+
+    let content: Uint8Array;
+    try {
+      content = await readZipEntry(bytes, entry, limit);
+    } catch (error) {
+      console.error(`Failed to read ${path}:`, error);
+      result.skipped.push({ path, reason: error instanceof ZipSizeError ? "too_large" : "corrupt" });
+      continue;
+    }
+    budget.remaining -= content.length;
+
+    if (isNestedZip) {
+      if (depth >= MAX_NESTING_DEPTH) {
+        result.skipped.push({ path, reason: "nesting_depth" });
+      } else if (!isZip(content)) {
+        result.skipped.push({ path, reason: "corrupt" });
+      } else {
+        try {
+          // "Anlagen.zip" becomes the folder "Anlagen/" for its contents
+          await expandInto(content, `${path.replace(/\.zip$/i, "")}/`, depth + 1, result, seen, budget);
+        } catch (error) {
+          console.error(`Failed to expand ${path}:`, error);
+          result.skipped.push({ path, reason: "corrupt" });
+        }
+      }
+      continue;
+    }
+
+    const hash = await sha256Hex(content);
+    const slash = path.lastIndexOf("/");
+    const document: ArchiveDocument = {
+      path,
+      name: path.slice(slash + 1),
+      folder: path.slice(0, slash + 1),
+      mimeType: mimeType!,
+      bytes: content,
+      hash,
+    };
+
+    const firstPath = seen.get(hash);
+    if (firstPath) {
+      document.duplicateOf = firstPath;
+    } else {
+      seen.set(hash, path);
+    }
+    result.documents.push(document);
+  }
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,148 @@
+// Multinomial naive Bayes over segment text for the section-type classifier.
+//
+// train-segment-classifier fits the model on the labelled corpus
+// (segment_labels) and stores it as JSON in classifier_models;
+// process-tender-documents loads the active model and only falls back to
+// keyword matching when there is no model or the model is unsure.
+
+export const MODEL_TYPE = "multinomial_nb";
+
+// Below this many labels, or with a single section type, keywords do better
+export const MIN_TRAINING_SAMPLES = 20;
+
+const MAX_VOCABULARY = 5000;
+const SMOOTHING = 1;
+
+export interface TrainingSample {
+  text: string;
+  label: string;
+}
+
+export interface NaiveBayesModel {
+  // Section type ids, in the order of all per-class arrays
+  classes: string[];
+  log_priors: number[];
+  // token -> log P(token | class) per class
+  log_likelihoods: Record<string, number[]>;
+}
+
+export interface Prediction {
+  label: string;
+  probability: number;
+  // Tokens of the text the model knows; predictions from a handful are unreliable
+  known_tokens: number;
+}
+
+const STOPWORDS = new Set([
+  "und", "oder", "der", "die", "das", "den", "dem", "des", "ein", "eine", "einer", "eines", "einem", "einen",
+  "ist", "sind", "wird", "werden", "wurde", "sein", "hat", "haben", "mit", "von", "vom", "für", "auf", "aus",
+  "bei", "nach", "als", "auch", "sich", "nicht", "zur", "zum", "im", "in", "an", "am", "es", "sie", "wir",
+  "ihr", "dass", "über", "unter", "sowie", "durch", "bis", "kann", "können", "muss", "müssen", "soll",
+  "sollen", "diese", "dieser", "dieses", "jeweils", "gemäß", "bzw", "the", "and", "for"
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3 && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+    // Light suffix stripping so "Referenzen" and "Referenz" share a feature
+    .map(token => token.length > 5 ? token.replace(/(en|er|es|e|n|s)$/, "") : token);
+}
+
+// Sublinear term frequency, so a keyword repeated in a table does not dominate
+function termWeights(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) counts.set(token, (counts.get(token) || 0) + 1);
+  for (const [token, count] of counts) counts.set(token, 1 + Math.log(count));
+  return counts;
+}
+
+export function trainNaiveBayes(samples: TrainingSample[]): NaiveBayesModel {
+  const classes = [...new Set(samples.map(s => s.label))].sort();
+  const classIndex = new Map(classes.map((label, index) => [label, index]));
+  const documents = samples.map(s => ({ weights: termWeights(s.text), label: classIndex.get(s.label)! }));
+
+  // Vocabulary: the most widespread tokens
+  const documentFrequency = new Map<string, number>();
+  for (const { weights } of documents) {
+    for (const token of weights.keys()) documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+  }
+  const minFrequency = samples.length >= 50 ? 2 : 1;
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, frequency]) => frequency >= minFrequency)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_VOCABULARY)
+    .map(([token]) => token);
+  const tokenIndex = new Map(vocabulary.map((token, index) => [token, index]));
+
+  const classCounts = classes.map(() => 0);
+  const tokenWeights = classes.map(() => new Float64Array(vocabulary.length));
+  const totalWeights = classes.map(() => 0);
+
+  for (const { weights, label } of documents) {
+    classCounts[label]++;
+    for (const [token, weight] of weights) {
+      const index = tokenIndex.get(token);
+      if (index === undefined) continue;
+      tokenWeights[label][index] += weight;
+      totalWeights[label] += weight;
+    }
+  }
+
+  const logLikelihoods: Record<string, number[]> = {};
+  vocabulary.forEach((token, index) => {
+    logLikelihoods[token] = classes.map((_, c) => {
+      const probability = (tokenWeights[c][index] + SMOOTHING) / (totalWeights[c] + SMOOTHING * vocabulary.length);
+      return round(Math.log(probability));
+    });
+  });
+
+  return {
+    classes,
+    log_priors: classCounts.map(count => round(Math.log(count / samples.length))),
+    log_likelihoods: logLikelihoods
+  };
+}
+
+export function predict(model: NaiveBayesModel, text: string): Prediction | null {
+  if (model.classes.length === 0) return null;
+
+  const scores = [...model.log_priors];
+  let knownTokens = 0;
+
+  for (const [token, weight] of termWeights(text)) {
+    // The model is plain JSON, so guard against tokens like "constructor"
+    if (!Object.hasOwn(model.log_likelihoods, token)) continue;
+    const likelihoods = model.log_likelihoods[token];
+    knownTokens++;
+    for (let c = 0; c < scores.length; c++) scores[c] += weight * likelihoods[c];
+  }
+
+  // Softmax over the log scores
+  const max = Math.max(...scores);
+  const exp = scores.map(score => Math.exp(score - max));
+  const sum = exp.reduce((total, value) => total + value, 0);
+  const best = exp.indexOf(Math.max(...exp));
+
+  return {
+    label: model.classes[best],
+    probability: exp[best] / sum,
+    known_tokens: knownTokens
+  };
+}
+
+// Accuracy on every fifth sample with a model trained on the rest
+export function holdOutAccuracy(samples: TrainingSample[]): number | null {
+  const test = samples.filter((_, index) => index % 5 === 4);
+  const train = samples.filter((_, index) => index % 5 !== 4);
+  if (test.length === 0 || new Set(train.map(s => s.label)).size < 2) return null;
+
+  const model = trainNaiveBayes(train);
+  const correct = test.filter(sample => predict(model, sample.text)?.label === sample.label).length;
+  return round(correct / test.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
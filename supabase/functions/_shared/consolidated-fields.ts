@@ -0,0 +1,110 @@
+// Field names of tender_profiles.consolidated_data as used by document_conflicts.
+//
+// aggregate-tender-batch names each conflict by the field it concerns
+// ("meta_info.auftraggeber", "key_dates.angebotsfrist",
+// "zuschlagskriterien.<criterion>"). tender-api writes the value a user picks
+// back into the consolidated data under that name, and the aggregation applies
+// it again after every re-extraction.
+
+import { formatGermanDate, parseGermanDates } from "./german-dates.ts";
+import { parseGermanNumber } from "./tables.ts";
+import { NormalizedCriteria, normalizeCriteria } from "./evaluation-criteria.ts";
+
+interface KeyDateEntry {
+  type: string;
+  description?: string;
+  date?: string | null;
+  time?: string | null;
+  timestamp?: string | null;
+  duration?: unknown;
+  text?: string;
+}
+
+interface FristEntry {
+  bezeichnung: string;
+  datum: string;
+  uhrzeit?: string | null;
+  zeitpunkt?: string | null;
+}
+
+// The parts of consolidated_data a resolution can touch beyond plain paths
+export interface ConsolidatedFields {
+  key_dates?: KeyDateEntry[];
+  fristen?: { fristen?: FristEntry[] };
+  zuschlagskriterien?: Partial<NormalizedCriteria>;
+  resolutions?: Record<string, FieldResolution>;
+}
+
+export interface FieldResolution {
+  value: string;
+  label: string | null;
+  resolved_by: string | null;
+  resolved_at: string;
+}
+
+// Lower case words without punctuation
+export function looseText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9äöüß]+/g, ' ').trim();
+}
+
+// Criteria are told apart by name, whatever its spelling in a document
+export function criterionField(name: string): string {
+  return `zuschlagskriterien.${looseText(name)}`;
+}
+
+// Writes the chosen value and who chose it into the consolidated data.
+// False when the value does not fit the field, e.g. a date that cannot be read.
+export function applyResolution(data: ConsolidatedFields, field: string, resolution: FieldResolution): boolean {
+  if (!applyFieldValue(data, field, resolution.value, resolution.label)) return false;
+  data.resolutions = { ...(data.resolutions || {}), [field]: resolution };
+  return true;
+}
+
+function applyFieldValue(data: ConsolidatedFields, field: string, value: string, label: string | null): boolean {
+  const [section, ...rest] = field.split('.');
+  const key = rest.join('.');
+  if (!key) return false;
+
+  if (section === 'key_dates') {
+    const start = parseGermanDates(value).find(mention => mention.start)?.start;
+    if (!start) return false;
+
+    const keyDates = data.key_dates || (data.key_dates = []);
+    let entry = keyDates.find(keyDate => keyDate.type === key);
+    if (!entry) {
+      entry = { type: key, description: label || key };
+      keyDates.push(entry);
+    }
+    Object.assign(entry, { date: start.date, time: start.time, timestamp: start.timestamp, duration: null, text: value });
+
+    // The deadline list shows the same date under the key date's name
+    const frist = data.fristen?.fristen?.find(f => f.bezeichnung === entry!.description);
+    if (frist) {
+      Object.assign(frist, { datum: formatGermanDate(start.date), uhrzeit: start.time, zeitpunkt: start.timestamp });
+    }
+    return true;
+  }
+
+  if (section === 'zuschlagskriterien') {
+    const weight = parseGermanNumber(value);
+    const kriterien = data.zuschlagskriterien?.kriterien || [];
+    const criterion = kriterien.find(k => looseText(k.bezeichnung) === key);
+    if (weight === null || !criterion) return false;
+
+    criterion.gewichtung = weight;
+    criterion.einheit = /punkt|pkt/i.test(value) ? 'Punkte' : '%';
+    // Shares and weight checks follow the corrected weight
+    Object.assign(data.zuschlagskriterien!, normalizeCriteria(kriterien, data.zuschlagskriterien!.preisformel ?? null));
+    return true;
+  }
+
+  // Plain paths such as meta_info.kontakt.email
+  let target = data as unknown as Record<string, unknown>;
+  const path = field.split('.');
+  for (const part of path.slice(0, -1)) {
+    if (typeof target[part] !== 'object' || target[part] === null) target[part] = {};
+    target = target[part] as Record<string, unknown>;
+  }
+  target[path[path.length - 1]] = value;
+  return true;
+}
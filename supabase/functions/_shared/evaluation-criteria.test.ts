@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { detectPriceFormula, normalizeCriteria, Zuschlagskriterium } from './evaluation-criteria.ts';
+
+function criterion(bezeichnung: string, gewichtung: number | null, extra: Partial<Zuschlagskriterium> = {}): Zuschlagskriterium {
+  return { bezeichnung, gewichtung, beschreibung: null, ...extra };
+}
+
+describe('normalizeCriteria', () => {
+  it('works out the share of Unterkriterien from their Hauptkriterium', () => {
+    const result = normalizeCriteria([
+      criterion('Preis', 60),
+      criterion('Qualität', 40),
+      criterion('Konzept', 50, { oberkriterium: 'Qualität' }),
+      criterion('Personal', 50, { oberkriterium: 'Qualität' })
+    ]);
+
+    expect(result.kriterien.map(k => k.anteil_gesamt)).toEqual([60, 40, 20, 20]);
+    expect(result.gewichtung_gesamt).toBe(100);
+    expect(result.pruefung.every(check => check.ok)).toBe(true);
+  });
+
+  it('accepts Unterkriterien given as shares of the total score', () => {
+    const result = normalizeCriteria([
+      criterion('Preis', 70),
+      criterion('Qualität', 30),
+      criterion('Konzept', 20, { oberkriterium: 'Qualität' }),
+      criterion('Personal', 10, { oberkriterium: 'Qualität' })
+    ]);
+
+    expect(result.kriterien.map(k => k.anteil_gesamt)).toEqual([70, 30, 20, 10]);
+    expect(result.pruefung[1]).toMatchObject({ oberkriterium: 'Qualität', erwartet: 30, ok: true });
+  });
+
+  it('flags Hauptkriterien that do not add up to 100 %', () => {
+    const result = normalizeCriteria([criterion('Preis', 60), criterion('Qualität', 30)]);
+
+    expect(result.pruefung).toEqual([
+      expect.objectContaining({ oberkriterium: null, summe: 90, ok: false, hinweis: 'Hauptkriterien ergeben 90 % statt 100 %.' })
+    ]);
+    expect(result.kriterien[0].anteil_gesamt).toBeCloseTo(66.67);
+  });
+
+  it('converts points into shares without a warning', () => {
+    const result = normalizeCriteria([
+      criterion('Preis', 600, { einheit: 'Punkte' }),
+      criterion('Qualität', 400, { einheit: 'Punkte' }),
+      criterion('Konzept', 250, { einheit: 'Punkte', oberkriterium: 'Qualität' }),
+      criterion('Personal', 150, { einheit: 'Punkte', oberkriterium: 'Qualität' })
+    ]);
+
+    expect(result.kriterien.map(k => k.anteil_gesamt)).toEqual([60, 40, 25, 15]);
+    expect(result.pruefung.every(check => check.ok)).toBe(true);
+  });
+
+  it('flags Unterkriterien whose points differ from their Hauptkriterium', () => {
+    const result = normalizeCriteria([
+      criterion('Qualität', 400, { einheit: 'Punkte' }),
+      criterion('Konzept', 300, { einheit: 'Punkte', oberkriterium: 'Qualität' })
+    ]);
+
+    expect(result.pruefung[1]).toMatchObject({ ok: false, erwartet: 400 });
+  });
+
+  it('treats an Unterkriterium of an unknown Hauptkriterium as a Hauptkriterium', () => {
+    const result = normalizeCriteria([criterion('Preis', 50), criterion('Konzept', 50, { oberkriterium: 'Qualität' })]);
+
+    expect(result.kriterien[1].oberkriterium).toBeNull();
+    expect(result.gewichtung_gesamt).toBe(100);
+  });
+
+  it('attaches the price formula to the price criterion', () => {
+    const formula = detectPriceFormula('Der Preis wird durch lineare Interpolation in Punkte umgerechnet.');
+    const result = normalizeCriteria([criterion('Preis', 60), criterion('Qualität', 40)], formula);
+
+    expect(result.kriterien[0].preisformel?.methode).toBe('linear');
+    expect(result.kriterien[1].preisformel).toBeUndefined();
+  });
+});
+
+describe('detectPriceFormula', () => {
+  it('prefers the named UfAB method', () => {
+    const formula = detectPriceFormula('Wertung nach der erweiterten Richtwertmethode. Die Punkte werden linear interpoliert.');
+
+    expect(formula).toMatchObject({
+      methode: 'ufab_erweiterte_richtwertmethode',
+      text: 'Wertung nach der erweiterten Richtwertmethode.'
+    });
+  });
+
+  it('recognises the ratio to the lowest price', () => {
+    expect(detectPriceFormula('Punkte = niedrigster Angebotspreis / Angebotspreis x 100')?.methode).toBe('verhaeltnis');
+  });
+
+  it('is null without a known formula', () => {
+    expect(detectPriceFormula('Der Preis wird gewertet.')).toBeNull();
+  });
+});
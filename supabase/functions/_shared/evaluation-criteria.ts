@@ -0,0 +1,206 @@
+// Zuschlagskriterien as a hierarchy: Hauptkriterien with their Unterkriterien,
+// weighted in percent or points, and the formula that turns prices into points.
+//
+// aggregate-tender-batch extracts the criteria as a flat list in which every
+// Unterkriterium names its Hauptkriterium. normalizeCriteria works out each
+// criterion's share of the total score and checks the weights of every level;
+// consolidated-fields runs it again when a user corrects a weight.
+
+export type WeightUnit = '%' | 'Punkte';
+
+export interface Zuschlagskriterium {
+  bezeichnung: string;
+  gewichtung: number | null;
+  einheit?: WeightUnit;
+  beschreibung: string | null;
+  // Numbering in the documents, e.g. "2.1"
+  nummer?: string | null;
+  // Hauptkriterium of an Unterkriterium, null for Hauptkriterien
+  oberkriterium?: string | null;
+  // Share of the total score in percent, from the weights of all levels
+  anteil_gesamt?: number | null;
+  preisformel?: PriceFormula | null;
+}
+
+export type PriceMethod =
+  | 'linear'
+  | 'verhaeltnis'
+  | 'ufab_einfache_richtwertmethode'
+  | 'ufab_erweiterte_richtwertmethode'
+  | 'ufab_referenzwertmethode'
+  | 'ufab_medianmethode';
+
+export interface PriceFormula {
+  methode: PriceMethod;
+  bezeichnung: string;
+  // The sentence describing the formula
+  text: string;
+}
+
+// Result of checking the weights of one level
+export interface WeightCheck {
+  // null for the Hauptkriterien, else the Hauptkriterium whose Unterkriterien were checked
+  oberkriterium: string | null;
+  summe: number;
+  einheit: WeightUnit;
+  // What the weights should add up to
+  erwartet: number | null;
+  ok: boolean;
+  hinweis: string;
+}
+
+export interface NormalizedCriteria {
+  kriterien: Zuschlagskriterium[];
+  anzahl: number;
+  // Sum of the Hauptkriterien in percent; 100 for a consistent matrix
+  gewichtung_gesamt: number;
+  pruefung: WeightCheck[];
+  preisformel: PriceFormula | null;
+}
+
+// Rounding in the documents ("33,3 %") is no inconsistency
+const TOLERANCE = 0.5;
+
+const PRICE_CRITERION = /preis|kosten|wirtschaftlich|angebotssumme/i;
+
+// Specific names first: a UfAB method may also mention interpolation
+const PRICE_METHODS: Array<{ methode: PriceMethod; bezeichnung: string; pattern: RegExp }> = [
+  { methode: 'ufab_einfache_richtwertmethode', bezeichnung: 'Einfache Richtwertmethode (UfAB)', pattern: /einfache\w*\s+Richtwertmethode/i },
+  { methode: 'ufab_erweiterte_richtwertmethode', bezeichnung: 'Erweiterte Richtwertmethode (UfAB)', pattern: /erweiterte\w*\s+Richtwertmethode/i },
+  { methode: 'ufab_referenzwertmethode', bezeichnung: 'Referenzwertmethode (UfAB)', pattern: /Referenzwertmethode/i },
+  { methode: 'ufab_medianmethode', bezeichnung: 'Medianmethode (UfAB)', pattern: /Medianmethode/i },
+  { methode: 'linear', bezeichnung: 'Lineare Interpolation', pattern: /linear\w*\s+(?:Interpolation|Umrechnung|Abstufung|Punkteverteilung)|interpoliert/i },
+  {
+    methode: 'verhaeltnis',
+    bezeichnung: 'Verhältnis zum niedrigsten Preis',
+    pattern: /(?:niedrigste|günstigste)\w*\s+(?:Angebots)?(?:preis|Angebot)\w*\s*(?:\/|geteilt durch|dividiert durch)|Preis des (?:niedrigsten|günstigsten) Angebots\s*(?:\/|geteilt durch|dividiert durch)/i
+  }
+];
+
+// The formula the documents name for scoring prices, null if none is recognised
+export function detectPriceFormula(text: string): PriceFormula | null {
+  for (const { methode, bezeichnung, pattern } of PRICE_METHODS) {
+    const match = pattern.exec(text);
+    if (match) return { methode, bezeichnung, text: sentenceAround(text, match.index) };
+  }
+  return null;
+}
+
+export function isPriceCriterion(name: string): boolean {
+  return PRICE_CRITERION.test(name);
+}
+
+// Shares of the total score and the weight checks for a flat list of criteria
+export function normalizeCriteria(kriterien: Zuschlagskriterium[], preisformel: PriceFormula | null = null): NormalizedCriteria {
+  const key = (name: string) => name.toLowerCase().trim();
+  const names = new Set(kriterien.map(k => key(k.bezeichnung)));
+
+  // An Unterkriterium whose Hauptkriterium is missing counts as a Hauptkriterium
+  const isTop = (k: Zuschlagskriterium) => !k.oberkriterium || !names.has(key(k.oberkriterium));
+  const top = kriterien.filter(isTop);
+  const pruefung: WeightCheck[] = [];
+
+  const topShares = shares(top, null, null, pruefung);
+  top.forEach((k, index) => {
+    k.oberkriterium = null;
+    k.anteil_gesamt = topShares[index];
+  });
+
+  for (const parent of top) {
+    const children = kriterien.filter(k => !isTop(k) && key(k.oberkriterium!) === key(parent.bezeichnung));
+    if (children.length === 0) continue;
+    // Without the Hauptkriterium's share only the check is of use
+    const childShares = shares(children, parent, parent.anteil_gesamt ?? null, pruefung);
+    children.forEach((k, index) => {
+      k.anteil_gesamt = parent.anteil_gesamt == null ? null : childShares[index];
+    });
+  }
+
+  if (preisformel) {
+    for (const k of top.filter(k => isPriceCriterion(k.bezeichnung))) k.preisformel = preisformel;
+  }
+
+  return {
+    kriterien,
+    anzahl: kriterien.length,
+    gewichtung_gesamt: round(top.filter(k => unitOf(k) === '%').reduce((sum, k) => sum + (k.gewichtung || 0), 0)),
+    pruefung,
+    preisformel
+  };
+}
+
+// Share of the total score for each criterion of one level; parentShare is
+// the share of their Hauptkriterium (null for the Hauptkriterien themselves)
+function shares(
+  level: Zuschlagskriterium[],
+  parent: Zuschlagskriterium | null,
+  parentShare: number | null,
+  pruefung: WeightCheck[]
+): Array<number | null> {
+  const weighted = level.filter(k => typeof k.gewichtung === 'number' && Number.isFinite(k.gewichtung));
+  if (weighted.length === 0) return level.map(() => null);
+
+  const units = new Set(weighted.map(unitOf));
+  const einheit: WeightUnit = units.has('%') ? '%' : 'Punkte';
+  const summe = round(weighted.reduce((sum, k) => sum + k.gewichtung!, 0));
+  const whole = parentShare ?? 100;
+  const check = (ok: boolean, erwartet: number | null, hinweis: string) =>
+    pruefung.push({ oberkriterium: parent?.bezeichnung ?? null, summe, einheit, erwartet, ok, hinweis });
+  const proportional = () => level.map(k => k.gewichtung === null || summe === 0 ? null : round(k.gewichtung / summe * whole));
+
+  const unweighted = level.filter(k => !weighted.includes(k)).map(k => k.bezeichnung);
+  const missing = unweighted.length > 0 ? ` Ohne Gewichtung: ${unweighted.join(', ')}.` : '';
+  const where = parent ? `Unterkriterien von „${parent.bezeichnung}“` : 'Hauptkriterien';
+
+  if (units.size > 1) {
+    check(false, null, `${where} mischen Prozent und Punkte.${missing}`);
+    return proportional();
+  }
+
+  // Points only weigh the criteria against each other, unless they have to
+  // add up to the points of their Hauptkriterium
+  if (einheit === 'Punkte') {
+    if (parent && unitOf(parent) === 'Punkte' && parent.gewichtung !== null &&
+        Math.abs(summe - parent.gewichtung) > TOLERANCE) {
+      check(false, parent.gewichtung, `${where} ergeben ${format(summe)} statt ${format(parent.gewichtung)} Punkte.${missing}`);
+    } else {
+      check(unweighted.length === 0, parent?.gewichtung ?? null, `${where}: ${format(summe)} Punkte, in Prozent umgerechnet.${missing}`);
+    }
+    return proportional();
+  }
+
+  if (Math.abs(summe - 100) <= TOLERANCE) {
+    check(unweighted.length === 0, 100, `${where} ergeben 100 %.${missing}`);
+    return level.map(k => k.gewichtung === null ? null : round(k.gewichtung / 100 * whole));
+  }
+
+  // Unterkriterien given as shares of the total score add up to their Hauptkriterium
+  if (parent && unitOf(parent) === '%' && parent.gewichtung !== null && Math.abs(summe - parent.gewichtung) <= TOLERANCE) {
+    check(unweighted.length === 0, parent.gewichtung, `${where} ergeben ${format(summe)} % der Gesamtwertung.${missing}`);
+    return level.map(k => k.gewichtung === null || parent.gewichtung === 0 ? null : round(k.gewichtung / parent.gewichtung! * whole));
+  }
+
+  check(false, 100, `${where} ergeben ${format(summe)} % statt 100 %.${missing}`);
+  return proportional();
+}
+
+function unitOf(k: Zuschlagskriterium): WeightUnit {
+  return k.einheit === 'Punkte' ? 'Punkte' : '%';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function format(value: number): string {
+  return value.toLocaleString('de-DE', { maximumFractionDigits: 2 });
+}
+
+function sentenceAround(text: string, index: number): string {
+  const start = Math.max(text.lastIndexOf('.', index - 1), text.lastIndexOf('\n', index - 1)) + 1;
+  const endDot = text.indexOf('. ', index);
+  const endLine = text.indexOf('\n', index);
+  const ends = [endDot === -1 ? -1 : endDot + 1, endLine].filter(end => end !== -1);
+  const end = ends.length > 0 ? Math.min(...ends) : text.length;
+  return text.substring(start, end).trim().substring(0, 400);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { addDuration, berlinTimestamp, formatGermanDate, parseGermanDates } from './german-dates.ts';
+
+const day = (date: string, time: string | null = null) => ({ date, time, timestamp: berlinTimestamp(date, time) });
+
+describe('parseGermanDates', () => {
+  it('reads numeric and ISO dates with their time', () => {
+    const mentions = parseGermanDates('Angebotsfrist: 14.03.2026, 10:00 Uhr; Bindefrist bis 2026-06-30.');
+
+    expect(mentions.map(m => [m.kind, m.start, m.text])).toEqual([
+      ['date', { date: '2026-03-14', time: '10:00', timestamp: '2026-03-14T10:00:00+01:00' }, '14.03.2026, 10:00 Uhr'],
+      ['date', day('2026-06-30'), '2026-06-30']
+    ]);
+  });
+
+  it('reads German month names, abbreviated or not', () => {
+    const mentions = parseGermanDates('Ortstermin am 14. März 2026, Submission 3. Juni 2026 um 10 Uhr, Zuschlag bis 1. Okt. 2026');
+
+    expect(mentions.map(m => m.start)).toEqual([
+      day('2026-03-14'),
+      { date: '2026-06-03', time: '10:00', timestamp: '2026-06-03T10:00:00+02:00' },
+      day('2026-10-01')
+    ]);
+  });
+
+  it('spans whole months and calendar weeks', () => {
+    const mentions = parseGermanDates('Ausführung im Mai 2026, Baubeginn KW 12/2026, Montage Kalenderwoche 12 bis 14', { referenceYear: 2026 });
+
+    expect(mentions.map(m => [m.kind, m.start?.date, m.end?.date])).toEqual([
+      ['month', '2026-05-01', '2026-05-31'],
+      ['week', '2026-03-16', '2026-03-22'],
+      ['week', '2026-03-16', '2026-04-05']
+    ]);
+  });
+
+  it('joins days, dates and times into ranges', () => {
+    const ranges = [
+      '14.–16.03.2026',
+      '14. bis 16. April 2026',
+      'vom 14.03. bis zum 18.03.2026',
+      '14.03.2026, 8:00 Uhr – 18.03.2026, 12:00 Uhr',
+      '20.03.2026, 10:00 – 12:00 Uhr'
+    ].map(text => parseGermanDates(text)[0]);
+
+    expect(ranges.map(m => [m.kind, m.start, m.end])).toEqual([
+      ['range', day('2026-03-14'), day('2026-03-16')],
+      ['range', day('2026-04-14'), day('2026-04-16')],
+      ['range', day('2026-03-14'), day('2026-03-18')],
+      ['range', day('2026-03-14', '08:00'), day('2026-03-18', '12:00')],
+      ['range', day('2026-03-20', '10:00'), day('2026-03-20', '12:00')]
+    ]);
+    expect(ranges[2].text).toBe('14.03. bis zum 18.03.2026');
+  });
+
+  it('reads periods relative to another date', () => {
+    const mentions = parseGermanDates(
+      'Bindefrist 30 Kalendertage nach Ablauf der Angebotsfrist. Bemusterung zwei Wochen vor Baubeginn; Mängelbeseitigung innerhalb von 12 Werktagen'
+    );
+
+    expect(mentions.map(m => m.duration)).toEqual([
+      { amount: 30, unit: 'kalendertage', direction: 'after', reference: 'Ablauf der Angebotsfrist' },
+      { amount: 2, unit: 'wochen', direction: 'before', reference: 'Baubeginn' },
+      { amount: 12, unit: 'werktage', direction: 'after', reference: null }
+    ]);
+  });
+
+  it('needs a time or a range for dates without a year', () => {
+    expect(parseGermanDates('1.2. Allgemeines')).toEqual([]);
+    expect(parseGermanDates('Eröffnung 14.03., 10:00 Uhr', { referenceYear: 2027 })[0].start).toEqual(day('2027-03-14', '10:00'));
+  });
+});
+
+describe('addDuration', () => {
+  const friday = day('2026-03-13', '10:00');
+
+  it('counts Arbeitstage without weekends and Werktage without Sundays', () => {
+    expect(addDuration(friday, { amount: 5, unit: 'arbeitstage', direction: 'after', reference: null })).toEqual(day('2026-03-20', '10:00'));
+    expect(addDuration(friday, { amount: 5, unit: 'werktage', direction: 'after', reference: null })).toEqual(day('2026-03-19', '10:00'));
+  });
+
+  it('counts back and clamps months to their last day', () => {
+    expect(addDuration(friday, { amount: 30, unit: 'kalendertage', direction: 'before', reference: null }).date).toBe('2026-02-11');
+    expect(addDuration(day('2026-01-31'), { amount: 1, unit: 'monate', direction: 'after', reference: null }).date).toBe('2026-02-28');
+    expect(addDuration(day('2028-02-29'), { amount: 1, unit: 'jahre', direction: 'after', reference: null }).date).toBe('2029-02-28');
+  });
+});
+
+describe('berlinTimestamp', () => {
+  it('uses the offset of the day across the daylight saving switch', () => {
+    expect(berlinTimestamp('2026-03-29', '01:00')).toBe('2026-03-29T01:00:00+01:00');
+    expect(berlinTimestamp('2026-03-29', '03:00')).toBe('2026-03-29T03:00:00+02:00');
+    expect(berlinTimestamp('2026-10-25', '12:00')).toBe('2026-10-25T12:00:00+01:00');
+    expect(berlinTimestamp('2026-07-01', null)).toBe('2026-07-01T00:00:00+02:00');
+  });
+});
+
+describe('formatGermanDate', () => {
+  it('writes dates the German way', () => {
+    expect(formatGermanDate('2026-03-04')).toBe('04.03.2026');
+  });
+});
@@ -0,0 +1,362 @@
+// German date, time and period parsing for tender deadlines.
+//
+// Tender documents write dates as "14.03.2026", "2026-03-14", "14. März 2026",
+// "KW 12/2026" or ranges like "14.–16.03.2026", usually with a time
+// ("10:00 Uhr", "10.00 Uhr") and sometimes only as a period relative to another
+// date ("30 Kalendertage nach Ablauf der Angebotsfrist"). Deadlines apply in
+// German local time, so timestamps carry the Europe/Berlin offset of their day.
+
+export interface GermanDate {
+  // yyyy-mm-dd
+  date: string;
+  // HH:MM, null when only the day is given
+  time: string | null;
+  // ISO 8601 in Europe/Berlin, midnight for day-only dates
+  timestamp: string;
+}
+
+export type DurationUnit = 'kalendertage' | 'werktage' | 'arbeitstage' | 'wochen' | 'monate' | 'jahre';
+
+export interface GermanDuration {
+  amount: number;
+  unit: DurationUnit;
+  direction: 'after' | 'before';
+  // What the period counts from, e.g. "Ablauf der Angebotsfrist"; null if not stated
+  reference: string | null;
+}
+
+export interface DateMention {
+  // 'week' and 'month' span the whole calendar week or month
+  kind: 'date' | 'range' | 'week' | 'month' | 'duration';
+  start: GermanDate | null;
+  // Last day (or end time) of ranges, weeks and months
+  end: GermanDate | null;
+  duration: GermanDuration | null;
+  text: string;
+  index: number;
+}
+
+export interface ParseOptions {
+  // Year for dates written without one ("14.03., 10:00 Uhr"); defaults to the current year
+  referenceYear?: number;
+}
+
+const MONTHS: Array<[RegExp, number]> = [
+  [/^jan/i, 1], [/^feb/i, 2], [/^(mär|mae|mar)/i, 3], [/^apr/i, 4], [/^mai/i, 5], [/^jun/i, 6],
+  [/^jul/i, 7], [/^aug/i, 8], [/^sep/i, 9], [/^okt/i, 10], [/^nov/i, 11], [/^dez/i, 12]
+];
+const MONTH_NAME = '(?:Januar|Jan\\.?|Februar|Feb\\.?|März|Maerz|Mär\\.?|April|Apr\\.?|Mai|Juni|Jun\\.?|Juli|Jul\\.?|August|Aug\\.?|September|Sept?\\.?|Oktober|Okt\\.?|November|Nov\\.?|Dezember|Dez\\.?)';
+
+const NUMERIC_DATE = /(?<![\d.])(\d{1,2})\.\s?(\d{1,2})\.(?:\s?(\d{4}|\d{2})(?![\d.]))?/g;
+const ISO_DATE = /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g;
+const WRITTEN_DATE = new RegExp(`(?<![\\d.])(\\d{1,2})\\.?\\s*(${MONTH_NAME})(?:\\s*(\\d{4}))?(?![\\wäöü])`, 'gi');
+const MONTH_ONLY = new RegExp(`(?<![\\d.]\\s?)(${MONTH_NAME})\\s+(\\d{4})(?!\\d)`, 'gi');
+// "14.–16.03.2026", "14. bis 16. März 2026"
+const DAY_RANGE = new RegExp(`(?<![\\d.])(\\d{1,2})\\.?\\s*(?:[-–]|bis)\\s*(\\d{1,2})\\.\\s?(?:(\\d{1,2})\\.|(${MONTH_NAME}))\\s?(\\d{4})(?!\\d)`, 'gi');
+// "KW 12/2026", "Kalenderwoche 12 bis 14", "12. KW 2026"
+const WEEK = /(?:\b(?:KW|Kalenderwoche)\s*(\d{1,2})(?:\s*(?:[-–]|bis)\s*(?:KW\s*)?(\d{1,2}))?|(?<![\d.])(\d{1,2})\.\s*(?:KW|Kalenderwoche))(?:\s*[/.]?\s*(\d{4})(?!\d))?/gi;
+const DURATION = /(?<![\d.,])(\d{1,3}|eine[nm]?|zwei|drei|vier|fünf|sechs|sieben|acht|neun|zehn|zwölf)\s+(Kalendertage?n?|Werktage?n?|Arbeitstage?n?|Tage?n?|Wochen?|Monate?n?|Jahre?n?)\b(?:\s+(nach|vor|ab|seit)\s+([^.;\n]{3,80}?)(?=[.;,\n)]|$|\s+(?:und|oder|bzw)\b))?/gi;
+
+// Time right after a date: ", 10:00 Uhr", " um 10 Uhr", " / 10.00 – 12.00 Uhr".
+// Minutes followed by a dot are the month of a date: "bis 18.03.2026"
+const TIME_AFTER = /^[\s,;/]*(?:(?:um|ab|von|bis|spätestens|zum)\s+)*(\d{1,2})(?:[:.](\d{2})(?![.\d]))?(\s*(?:Uhr|h)\b)?/i;
+const TIME_UNTIL = /^\s*(?:[-–]|bis)\s*(\d{1,2})(?:[:.](\d{2})(?![.\d]))?(\s*(?:Uhr|h)\b)?/i;
+// Joins two dates into a range: "14.03. – 18.03.2026", "vom 14.03. bis zum 18.03.2026"
+const RANGE_JOINER = /^\s*(?:[-–]|bis(?:\s+(?:zum|einschließlich))?)\s*$/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1, eine: 1, einen: 1, einem: 1, zwei: 2, drei: 3, vier: 4, 'fünf': 5, sechs: 6,
+  sieben: 7, acht: 8, neun: 9, zehn: 10, 'zwölf': 12
+};
+
+const BERLIN_PARTS = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Europe/Berlin',
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+interface DayToken {
+  index: number;
+  end: number;
+  year: number | null;
+  month: number;
+  day: number;
+}
+
+// All dates, ranges, calendar weeks and periods in the text, in text order
+export function parseGermanDates(text: string, options: ParseOptions = {}): DateMention[] {
+  const referenceYear = options.referenceYear ?? new Date().getFullYear();
+  const mentions: DateMention[] = [];
+  const taken: Array<[number, number]> = [];
+  const isFree = (index: number, end: number) => !taken.some(([from, to]) => index < to && end > from);
+  const add = (mention: DateMention, end: number) => {
+    if (!isFree(mention.index, end)) return;
+    taken.push([mention.index, end]);
+    mentions.push({ ...mention, text: text.slice(mention.index, end).trim() });
+  };
+
+  for (const match of text.matchAll(DAY_RANGE)) {
+    const year = Number(match[5]);
+    const month = match[3] ? Number(match[3]) : monthNumber(match[4]);
+    const first = makeDate(year, month, Number(match[1]));
+    const last = makeDate(year, month, Number(match[2]));
+    if (!first || !last) continue;
+    const time = readTime(text, match.index! + match[0].length);
+    add({
+      kind: 'range',
+      start: withTime(first, time?.start ?? null),
+      end: withTime(last, time?.end ?? null),
+      duration: null,
+      text: '',
+      index: match.index!
+    }, time ? time.end_index : match.index! + match[0].length);
+  }
+
+  for (const match of text.matchAll(WEEK)) {
+    const firstWeek = Number(match[1] ?? match[3]);
+    const lastWeek = match[2] ? Number(match[2]) : firstWeek;
+    const year = match[4] ? Number(match[4]) : referenceYear;
+    const monday = isoWeekMonday(year, firstWeek);
+    const lastMonday = isoWeekMonday(year, lastWeek);
+    if (!monday || !lastMonday || lastWeek < firstWeek) continue;
+    add({
+      kind: 'week',
+      start: withTime(monday, null),
+      end: withTime(shiftDays(lastMonday, 6), null),
+      duration: null,
+      text: '',
+      index: match.index!
+    }, match.index! + match[0].length);
+  }
+
+  for (const match of text.matchAll(DURATION)) {
+    const amount = /^\d/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1].toLowerCase()];
+    if (!amount) continue;
+    add({
+      kind: 'duration',
+      start: null,
+      end: null,
+      duration: {
+        amount,
+        unit: durationUnit(match[2]),
+        direction: match[3]?.toLowerCase() === 'vor' ? 'before' : 'after',
+        reference: match[4]?.trim() || null
+      },
+      text: '',
+      index: match.index!
+    }, match.index! + match[0].length);
+  }
+
+  // Single days, joined into a range where two follow each other:
+  // "14.03. bis 18.03.2026", "14.03.2026, 8:00 Uhr – 18.03.2026, 12:00 Uhr"
+  const days = dayTokens(text).filter(token => isFree(token.index, token.end));
+  for (let i = 0; i < days.length; i++) {
+    const token = days[i];
+    const next = days[i + 1];
+    const firstTime = readTime(text, token.end);
+    const joinFrom = firstTime && !firstTime.end ? firstTime.end_index : token.end;
+    const last = next && RANGE_JOINER.test(text.slice(joinFrom, next.index)) ? next : null;
+    const lastTime = last ? readTime(text, last.end) : null;
+
+    const year = token.year ?? last?.year ?? null;
+    const startDay = makeDate(year ?? referenceYear, token.month, token.day);
+    const endDay = last ? makeDate(last.year ?? year ?? referenceYear, last.month, last.day) : null;
+    if (!startDay || (last && !endDay)) continue;
+
+    // "1.2." is more often a section number than a date, so a missing year needs a time or a range
+    if (year === null && !firstTime && !last) continue;
+
+    if (last) i++;
+    const time = last ? lastTime : firstTime;
+    add({
+      kind: last || firstTime?.end ? 'range' : 'date',
+      start: withTime(startDay, last && firstTime?.end ? null : firstTime?.start ?? null),
+      end: last
+        ? withTime(endDay!, lastTime?.end ?? lastTime?.start ?? null)
+        : firstTime?.end ? withTime(startDay, firstTime.end) : null,
+      duration: null,
+      text: '',
+      index: token.index
+    }, time ? time.end_index : (last || token).end);
+  }
+
+  for (const match of text.matchAll(MONTH_ONLY)) {
+    const year = Number(match[2]);
+    const month = monthNumber(match[1]);
+    const first = makeDate(year, month, 1);
+    if (!first) continue;
+    add({
+      kind: 'month',
+      start: withTime(first, null),
+      end: withTime(makeDate(year, month, daysInMonth(year, month))!, null),
+      duration: null,
+      text: '',
+      index: match.index!
+    }, match.index! + match[0].length);
+  }
+
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+// The date a period ends on when counted from the given date;
+// Werktage are Monday to Saturday, Arbeitstage Monday to Friday
+export function addDuration(from: GermanDate, duration: GermanDuration): GermanDate {
+  const sign = duration.direction === 'before' ? -1 : 1;
+  const [year, month, day] = from.date.split('-').map(Number);
+  let date: string;
+
+  switch (duration.unit) {
+    case 'kalendertage':
+      date = shiftDays(from.date, sign * duration.amount);
+      break;
+    case 'wochen':
+      date = shiftDays(from.date, sign * duration.amount * 7);
+      break;
+    case 'werktage':
+    case 'arbeitstage': {
+      const skipped = duration.unit === 'werktage' ? [0] : [0, 6];
+      date = from.date;
+      for (let counted = 0; counted < duration.amount;) {
+        date = shiftDays(date, sign);
+        if (!skipped.includes(weekday(date))) counted++;
+      }
+      break;
+    }
+    case 'monate':
+    case 'jahre': {
+      const months = (duration.unit === 'jahre' ? 12 : 1) * duration.amount * sign;
+      const target = new Date(Date.UTC(year, month - 1 + months, 1));
+      const targetYear = target.getUTCFullYear();
+      const targetMonth = target.getUTCMonth() + 1;
+      date = makeDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)))!;
+      break;
+    }
+  }
+
+  return withTime(date, from.time);
+}
+
+// "2026-03-14" + "10:00" as "2026-03-14T10:00:00+01:00"
+export function berlinTimestamp(date: string, time: string | null): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = (time || '00:00').split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the instant itself decides; guess from an hour earlier for the DST switch
+  let offset = berlinOffsetMinutes(wallClock - 60 * 60 * 1000);
+  offset = berlinOffsetMinutes(wallClock - offset * 60 * 1000);
+
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${date}T${time || '00:00'}:00${sign}${hours}:${minutes}`;
+}
+
+// "2026-03-14" as "14.03.2026"
+export function formatGermanDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}.${month}.${year}`;
+}
+
+function dayTokens(text: string): DayToken[] {
+  const tokens: DayToken[] = [];
+  const push = (index: number, length: number, year: number | null, month: number, day: number) => {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return;
+    if (tokens.some(token => index < token.end && index + length > token.index)) return;
+    tokens.push({ index, end: index + length, year, month, day });
+  };
+
+  for (const match of text.matchAll(ISO_DATE)) {
+    push(match.index!, match[0].length, Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  for (const match of text.matchAll(WRITTEN_DATE)) {
+    push(match.index!, match[0].length, match[3] ? Number(match[3]) : null, monthNumber(match[2]), Number(match[1]));
+  }
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : null;
+    push(match.index!, match[0].length, year, Number(match[2]), Number(match[1]));
+  }
+
+  return tokens.sort((a, b) => a.index - b.index);
+}
+
+function readTime(text: string, from: number): { start: string; end: string | null; end_index: number } | null {
+  const first = text.slice(from).match(TIME_AFTER);
+  if (!first) return null;
+  const until = text.slice(from + first[0].length).match(TIME_UNTIL);
+
+  // A bare number is not a time: "14.03.2026 12 Monate"
+  if (!first[2] && !first[3] && !until?.[3]) return null;
+  const start = formatTime(first[1], first[2]);
+  if (!start) return null;
+
+  const end = until && (until[2] || until[3]) ? formatTime(until[1], until[2]) : null;
+  return { start, end, end_index: from + first[0].length + (end ? until![0].length : 0) };
+}
+
+function formatTime(hour: string, minute: string | undefined): string | null {
+  const h = Number(hour);
+  const m = minute ? Number(minute) : 0;
+  if (h > 24 || m > 59) return null;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function withTime(date: string, time: string | null): GermanDate {
+  return { date, time, timestamp: berlinTimestamp(date, time) };
+}
+
+function makeDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.find(([pattern]) => pattern.test(name))?.[1] ?? 0;
+}
+
+function durationUnit(word: string): DurationUnit {
+  const lower = word.toLowerCase();
+  if (lower.startsWith('werk')) return 'werktage';
+  if (lower.startsWith('arbeit')) return 'arbeitstage';
+  if (lower.startsWith('woche')) return 'wochen';
+  if (lower.startsWith('monat')) return 'monate';
+  if (lower.startsWith('jahr')) return 'jahre';
+  return 'kalendertage';
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function shiftDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// 0 = Sunday
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Monday of ISO week 1 is the Monday of the week containing 4 January
+function isoWeekMonday(year: number, week: number): string | null {
+  if (week < 1 || week > 53) return null;
+  const january4 = `${year}-01-04`;
+  const mondayWeek1 = shiftDays(january4, -((weekday(january4) + 6) % 7));
+  return shiftDays(mondayWeek1, (week - 1) * 7);
+}
+
+function berlinOffsetMinutes(instant: number): number {
+  const parts = Object.fromEntries(
+    BERLIN_PARTS.formatToParts(new Date(instant)).map(part => [part.type, part.value])
+  );
+  const local = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute)
+  );
+  return Math.round((local - Math.floor(instant / 60000) * 60000) / 60000);
+}
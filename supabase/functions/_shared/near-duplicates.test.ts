@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THRESHOLD, findNearDuplicates, MIN_TEXT_LENGTH } from './near-duplicates.ts';
+
+// 40 distinct words, so a text has 38 shingles and changing one word away
+// from the ends changes three of them
+function passage(changed: Record<number, string> = {}): string {
+  return Array.from({ length: 40 }, (_, i) => changed[i] ?? `abschnitt${i}`).join(' ');
+}
+
+describe('findNearDuplicates', () => {
+  it('clusters identical and re-issued passages under the first one', () => {
+    const clusters = findNearDuplicates([
+      { id: 'a', text: passage() },
+      { id: 'b', text: passage() },
+      // 35 of 41 shingles shared
+      { id: 'c', text: passage({ 20: 'stand2026' }) },
+      { id: 'd', text: 'Ein ganz anderer Absatz über die Baustelleneinrichtung und die Zufahrt zum Gelände.' }
+    ]);
+
+    expect(clusters).toEqual([
+      { canonical: 'a', duplicates: [{ id: 'b', similarity: 1 }, { id: 'c', similarity: 0.854 }] }
+    ]);
+  });
+
+  it('keeps passages apart below the threshold', () => {
+    // 32 of 44 shingles shared
+    const candidates = [
+      { id: 'a', text: passage() },
+      { id: 'b', text: passage({ 10: 'neu', 30: 'geändert' }) }
+    ];
+
+    expect(DEFAULT_THRESHOLD).toBe(0.8);
+    expect(findNearDuplicates(candidates)).toEqual([]);
+    expect(findNearDuplicates(candidates, 0.7)).toEqual([{ canonical: 'a', duplicates: [{ id: 'b', similarity: 0.727 }] }]);
+  });
+
+  it('applies a stricter threshold', () => {
+    const candidates = [
+      { id: 'a', text: passage() },
+      { id: 'b', text: passage({ 20: 'stand2026' }) }
+    ];
+
+    expect(findNearDuplicates(candidates, 0.9)).toEqual([]);
+  });
+
+  it('only adds copies that are similar to the kept text itself', () => {
+    const clusters = findNearDuplicates([
+      { id: 'a', text: passage() },
+      { id: 'b', text: passage({ 10: 'neu' }) },
+      // Close to b, but not to a
+      { id: 'c', text: passage({ 10: 'neu', 30: 'geändert' }) }
+    ]);
+
+    expect(clusters).toEqual([{ canonical: 'a', duplicates: [{ id: 'b', similarity: 0.854 }] }]);
+  });
+
+  it('ignores short texts that repeat legitimately', () => {
+    const footer = 'Seite 3 von 12 – Vergabeunterlagen';
+
+    expect(footer.length).toBeLessThan(MIN_TEXT_LENGTH);
+    expect(findNearDuplicates([{ id: 'a', text: footer }, { id: 'b', text: footer }])).toEqual([]);
+  });
+});
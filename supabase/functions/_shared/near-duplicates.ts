@@ -0,0 +1,150 @@
+// Near-duplicate detection over segment text with MinHash.
+//
+// Re-issued documents repeat whole passages with a changed date or page
+// header, so an exact comparison misses them. Each text is cut into word
+// shingles and reduced to a MinHash signature. Texts that agree on a band of
+// their signature become candidates, and candidates are compared by the
+// Jaccard similarity of their shingles. aggregate-tender-batch uses this to
+// keep one copy of each passage before extracting.
+
+// Share of shared shingles from which two texts count as the same passage
+export const DEFAULT_THRESHOLD = 0.8;
+
+// Shorter texts (headings, "Seite 3 von 12") repeat legitimately
+export const MIN_TEXT_LENGTH = 50;
+
+// Short shingles: one changed date in a paragraph only changes three of them
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 128;
+// 32 bands of 4 rows: pairs from about 0.5 similarity on are compared
+const BANDS = 32;
+const ROWS = NUM_HASHES / BANDS;
+
+export interface DuplicateCandidate {
+  id: string;
+  text: string;
+}
+
+// The kept text and the copies of it. Every copy is at least as similar as
+// the threshold to the canonical text itself, not just to another copy.
+export interface DuplicateCluster {
+  canonical: string;
+  duplicates: Array<{ id: string; similarity: number }>;
+}
+
+interface Fingerprint {
+  id: string;
+  shingles: Set<number>;
+  signature: Uint32Array;
+}
+
+// Seeds of the hash functions; fixed so signatures are stable across runs
+const SEEDS = (() => {
+  const seeds = new Uint32Array(NUM_HASHES);
+  let state = 0x9e3779b9;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    seeds[i] = state;
+  }
+  return seeds;
+})();
+
+// Groups near-identical texts. Candidates are taken in order of preference:
+// the first text of a cluster is the one kept.
+export function findNearDuplicates(candidates: DuplicateCandidate[], threshold = DEFAULT_THRESHOLD): DuplicateCluster[] {
+  const fingerprints = candidates
+    .filter(candidate => candidate.text.trim().length >= MIN_TEXT_LENGTH)
+    .map(candidate => fingerprint(candidate.id, candidate.text))
+    .filter(print => print.shingles.size > 0);
+
+  // Texts sharing a band of their signature, by position in fingerprints
+  const neighbours = fingerprints.map(() => new Set<number>());
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    fingerprints.forEach((print, index) => {
+      const key = print.signature.slice(band * ROWS, (band + 1) * ROWS).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+    for (const bucket of buckets.values()) {
+      for (const a of bucket) {
+        for (const b of bucket) {
+          if (a !== b) neighbours[a].add(b);
+        }
+      }
+    }
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  const assigned = new Set<number>();
+
+  fingerprints.forEach((print, index) => {
+    if (assigned.has(index)) return;
+
+    const duplicates: DuplicateCluster['duplicates'] = [];
+    for (const other of [...neighbours[index]].sort((a, b) => a - b)) {
+      if (other < index || assigned.has(other)) continue;
+      const similarity = jaccard(print.shingles, fingerprints[other].shingles);
+      if (similarity >= threshold) {
+        assigned.add(other);
+        duplicates.push({ id: fingerprints[other].id, similarity: Math.round(similarity * 1000) / 1000 });
+      }
+    }
+
+    if (duplicates.length > 0) {
+      clusters.push({ canonical: print.id, duplicates });
+    }
+  });
+
+  return clusters;
+}
+
+function fingerprint(id: string, text: string): Fingerprint {
+  const words = text.toLowerCase().match(/[a-z0-9äöüß]+/g) || [];
+  const shingles = new Set<number>();
+  // A text shorter than one shingle is a single shingle
+  const last = Math.max(words.length - SHINGLE_SIZE, 0);
+  for (let i = 0; i <= last && words.length > 0; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = mix(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return { id, shingles, signature };
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  let shared = 0;
+  for (const value of a) {
+    if (b.has(value)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// FNV-1a, 32 bit
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer; with a different seed each it acts as an independent hash
+function mix(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
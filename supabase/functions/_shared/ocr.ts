@@ -0,0 +1,106 @@
+// OCR fallback for scanned PDF pages.
+//
+// Runs Tesseract (WebAssembly build, CPU only) with the German model on the
+// page images that extractPdfPageImages returns. The traineddata is fetched
+// from OCR_LANG_PATH, or from the tesseract.js CDN when that is not set.
+
+import { Buffer } from "node:buffer";
+import { createWorker, OEM, Worker } from "npm:tesseract.js@5.1.1";
+import { extractPdfPageImages } from "./pdf-text.ts";
+
+// Pages below this mean confidence are flagged for a manual check
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Bounds the runtime of a single document; later pages are flagged instead
+const MAX_OCR_PAGES = 40;
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrPage {
+  page_number: number;
+  lines: OcrLine[];
+  // Mean confidence 0..1, null when the page could not be recognised at all
+  confidence: number | null;
+  issue?: 'low_confidence' | 'no_image' | 'unsupported_image' | 'page_limit' | 'ocr_failed';
+  detail?: string;
+}
+
+export async function ocrPdfPages(bytes: Uint8Array, pageNumbers: number[]): Promise<OcrPage[]> {
+  const results: OcrPage[] = [];
+  const toRecognize = pageNumbers.slice(0, MAX_OCR_PAGES);
+
+  for (const pageNumber of pageNumbers.slice(MAX_OCR_PAGES)) {
+    results.push({ page_number: pageNumber, lines: [], confidence: null, issue: 'page_limit' });
+  }
+
+  const images = await extractPdfPageImages(bytes, toRecognize);
+  const imagesByPage = new Map(images.map(image => [image.page_number, image]));
+
+  // The worker holds the model in memory, so it only lives for one document
+  let worker: Worker | null = null;
+
+  try {
+    for (const pageNumber of toRecognize) {
+      const image = imagesByPage.get(pageNumber);
+
+      if (!image) {
+        results.push({ page_number: pageNumber, lines: [], confidence: null, issue: 'no_image' });
+        continue;
+      }
+      if (image.format === 'unsupported' || !image.data) {
+        results.push({
+          page_number: pageNumber,
+          lines: [],
+          confidence: null,
+          issue: 'unsupported_image',
+          detail: image.encoding
+        });
+        continue;
+      }
+
+      try {
+        if (!worker) {
+          const langPath = Deno.env.get("OCR_LANG_PATH");
+          worker = await createWorker("deu", OEM.LSTM_ONLY, langPath ? { langPath } : {});
+        }
+        const { data } = await worker.recognize(Buffer.from(image.data));
+
+        const lines = data.lines
+          .map(line => ({ text: line.text.trim(), confidence: line.confidence / 100 }))
+          .filter(line => line.text.length > 0);
+        const confidence = meanConfidence(lines);
+
+        results.push({
+          page_number: pageNumber,
+          lines,
+          confidence,
+          issue: confidence < LOW_CONFIDENCE_THRESHOLD ? 'low_confidence' : undefined
+        });
+      } catch (error) {
+        console.error(`OCR failed on page ${pageNumber}:`, error);
+        results.push({
+          page_number: pageNumber,
+          lines: [],
+          confidence: null,
+          issue: 'ocr_failed',
+          detail: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  } finally {
+    if (worker) await worker.terminate();
+  }
+
+  return results.sort((a, b) => a.page_number - b.page_number);
+}
+
+// Weighted by line length so a garbled stamp does not outweigh a paragraph
+export function meanConfidence(lines: OcrLine[]): number {
+  const totalLength = lines.reduce((sum, line) => sum + line.text.length, 0);
+  if (totalLength === 0) return 0;
+  const weighted = lines.reduce((sum, line) => sum + line.confidence * line.text.length, 0);
+  return Math.round((weighted / totalLength) * 100) / 100;
+}
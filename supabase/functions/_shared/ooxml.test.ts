@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { extractOoxml, ooxmlBlocksToText } from './ooxml.ts';
+import { zip } from './zip-fixture.ts';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const paragraph = (text: string, properties = '') => `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const numbered = (text: string, level: number) => paragraph(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+
+const STYLES = `<w:styles ${W}>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="Überschrift 2"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Kapitel"><w:name w:val="Kapitel"/><w:basedOn w:val="Heading1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Aufzaehlung"><w:name w:val="Aufzählung"/>
+    <w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr></w:style>
+</w:styles>`;
+
+const NUMBERING = `<w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="%1.%2)"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+async function docx(body: string): Promise<Uint8Array> {
+  return zip([
+    { name: 'word/document.xml', data: `<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`, deflate: true },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/numbering.xml', data: NUMBERING }
+  ]);
+}
+
+describe('extractOoxml with DOCX', () => {
+  it('takes heading levels from styles, their base styles and outline levels', async () => {
+    const result = await extractOoxml(await docx([
+      paragraph('Vergabeunterlagen', '<w:pStyle w:val="Heading1"/>'),
+      paragraph('Leistungsbeschreibung', '<w:pStyle w:val="berschrift2"/>'),
+      paragraph('Anlagen', '<w:pStyle w:val="Kapitel"/>'),
+      paragraph('Fristen', '<w:outlineLvl w:val="2"/>'),
+      paragraph('Fließtext', '<w:outlineLvl w:val="9"/>')
+    ].join('')));
+
+    expect(result?.kind).toBe('docx');
+    expect(result?.blocks.map(block => block.type === 'paragraph' && [block.text, block.heading_level, block.style])).toEqual([
+      ['Vergabeunterlagen', 1, 'heading 1'],
+      ['Leistungsbeschreibung', 2, 'Überschrift 2'],
+      ['Anlagen', 1, 'Kapitel'],
+      ['Fristen', 3, undefined],
+      ['Fließtext', undefined, undefined]
+    ]);
+  });
+
+  it('numbers list paragraphs and restarts deeper levels', async () => {
+    const result = await extractOoxml(await docx([
+      numbered('Allgemeines', 0),
+      numbered('Umfang', 1),
+      numbered('Ort', 1),
+      numbered('Fristen', 0),
+      numbered('Angebotsfrist', 1),
+      paragraph('Eignung', '<w:pStyle w:val="Aufzaehlung"/>')
+    ].join('')));
+
+    expect(result?.blocks.map(block => block.type === 'paragraph' && block.text)).toEqual([
+      '1. Allgemeines',
+      '1.a) Umfang',
+      '1.b) Ort',
+      '2. Fristen',
+      '2.a) Angebotsfrist',
+      '3. Eignung'
+    ]);
+  });
+
+  it('keeps tables, merged cells and content controls', async () => {
+    const cell = (text: string, span = 1) =>
+      `<w:tc>${span > 1 ? `<w:tcPr><w:gridSpan w:val="${span}"/></w:tcPr>` : ''}${paragraph(text)}</w:tc>`;
+    const result = await extractOoxml(await docx([
+      `<w:tbl><w:tr>${cell('Pos.')}${cell('Bezeichnung')}${cell('Menge')}</w:tr><w:tr>${cell('Summe', 2)}${cell('12')}</w:tr></w:tbl>`,
+      `<w:sdt><w:sdtContent>${paragraph('Bieter: Muster GmbH')}</w:sdtContent></w:sdt>`
+    ].join('')));
+
+    expect(result?.blocks).toEqual([
+      { type: 'table', rows: [['Pos.', 'Bezeichnung', 'Menge'], ['Summe', '', '12']] },
+      { type: 'paragraph', text: 'Bieter: Muster GmbH' }
+    ]);
+  });
+
+  it('skips deleted text and keeps tabs and breaks', async () => {
+    const result = await extractOoxml(await docx(
+      '<w:p><w:r><w:t>Frist:</w:t><w:tab/><w:t>01.03.2026</w:t></w:r>' +
+      '<w:del><w:r><w:delText>28.02.2026</w:delText></w:r></w:del>' +
+      '<w:r><w:br/><w:t>12:00 Uhr</w:t></w:r></w:p>'
+    ));
+
+    expect(result?.blocks).toEqual([{ type: 'paragraph', text: 'Frist:\t01.03.2026\n12:00 Uhr' }]);
+  });
+});
+
+describe('extractOoxml with XLSX', () => {
+  const workbook = `<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>
+    <sheet name="LV" sheetId="1" r:id="rId1"/><sheet name="Leer" sheetId="2" r:id="rId2"/>
+  </sheets></workbook>`;
+  const rels = `<Relationships>
+    <Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+  </Relationships>`;
+  const styles = `<styleSheet>
+    <numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy\\ hh:mm"/><numFmt numFmtId="165" formatCode="#,##0.00 &quot;€&quot;"/></numFmts>
+    <cellXfs><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs>
+  </styleSheet>`;
+  const sharedStrings = '<sst><si><t>Pos.</t></si><si><r><t>Bezeich</t></r><r><t>nung</t></r><rPh><t>x</t></rPh></si></sst>';
+  const sheet = `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+    <row r="2"><c r="A2"><v>1.1</v></c><c r="B2" t="inlineStr"><is><t>Aushub</t></is></c>
+      <c r="D2" s="1"><v>46082</v></c><c r="E2" s="2"><v>46082.5</v></c><c r="F2" s="3"><v>1250</v></c><c r="G2" t="b"><v>1</v></c></row>
+    <row r="5"><c r="B5" t="str"><v>Summe</v></c><c r="C5"/></row>
+  </sheetData></worksheet>`;
+
+  it('reads the cell grid of every sheet with dates formatted', async () => {
+    const result = await extractOoxml(await zip([
+      { name: 'xl/workbook.xml', data: workbook },
+      { name: 'xl/_rels/workbook.xml.rels', data: rels },
+      { name: 'xl/styles.xml', data: styles },
+      { name: 'xl/sharedStrings.xml', data: sharedStrings },
+      { name: 'xl/worksheets/sheet1.xml', data: sheet, deflate: true },
+      { name: 'xl/worksheets/sheet2.xml', data: '<worksheet><sheetData/></worksheet>' }
+    ]));
+
+    expect(result).toEqual({
+      kind: 'xlsx',
+      blocks: [
+        { type: 'paragraph', text: 'LV', heading_level: 1, style: 'Sheet' },
+        {
+          type: 'table',
+          sheet: 'LV',
+          rows: [
+            ['Pos.', 'Bezeichnung'],
+            ['1.1', 'Aushub', '', '01.03.2026', '01.03.2026 12:00', '1250', 'WAHR'],
+            [],
+            ['', 'Summe']
+          ]
+        }
+      ]
+    });
+  });
+});
+
+describe('extractOoxml', () => {
+  it('returns null for files that are no Office documents', async () => {
+    expect(await extractOoxml(new TextEncoder().encode('%PDF-1.4'))).toBeNull();
+    expect(await extractOoxml(await zip([{ name: 'LV.txt', data: 'x' }]))).toBeNull();
+  });
+});
+
+describe('ooxmlBlocksToText', () => {
+  it('writes table rows as cells separated by bars', () => {
+    expect(ooxmlBlocksToText([
+      { type: 'paragraph', text: 'Preisblatt' },
+      { type: 'table', rows: [['Pos.', 'Preis'], ['1', '12,50']] },
+      { type: 'paragraph', text: 'Ende' }
+    ])).toBe('Preisblatt\nPos. | Preis\n1 | 12,50\n\nEnde');
+  });
+});
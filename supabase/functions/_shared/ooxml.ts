@@ -0,0 +1,552 @@
+// Native DOCX / XLSX text extraction from Office Open XML packages.
+//
+// DOCX: reads word/document.xml together with styles.xml and numbering.xml so
+// paragraphs keep their heading level and list numbering, and tables keep
+// their row/cell structure.
+// XLSX: resolves shared strings, walks every worksheet in workbook order and
+// keeps the row/column grid (date-formatted cells are rendered as dd.mm.yyyy).
+
+import { isZip, unzip } from "./zip.ts";
+import { attr, childElements, findAll, findFirst, firstChild, localName, parseXml, textContent, XmlElement } from "./xml.ts";
+
+export interface OoxmlParagraph {
+  type: 'paragraph';
+  text: string;
+  heading_level?: number;
+  style?: string;
+}
+
+export interface OoxmlTable {
+  type: 'table';
+  rows: string[][];
+  sheet?: string;
+}
+
+export type OoxmlBlock = OoxmlParagraph | OoxmlTable;
+
+export type OoxmlKind = 'docx' | 'xlsx';
+
+export interface OoxmlDocument {
+  kind: OoxmlKind;
+  blocks: OoxmlBlock[];
+}
+
+export async function extractOoxml(bytes: Uint8Array): Promise<OoxmlDocument | null> {
+  if (!isZip(bytes)) return null;
+
+  const files = await unzip(bytes);
+  if (files.has('word/document.xml')) {
+    return { kind: 'docx', blocks: extractDocx(files) };
+  }
+  if (files.has('xl/workbook.xml')) {
+    return { kind: 'xlsx', blocks: extractXlsx(files) };
+  }
+  return null;
+}
+
+// Renders blocks as plain text lines, tables as " | " separated cells
+export function ooxmlBlocksToText(blocks: OoxmlBlock[]): string {
+  const lines: string[] = [];
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      lines.push(block.text);
+    } else {
+      for (const row of block.rows) lines.push(row.join(' | '));
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+function readXml(files: Map<string, Uint8Array>, path: string): XmlElement | null {
+  const data = files.get(path);
+  if (!data) return null;
+  return parseXml(new TextDecoder('utf-8').decode(data));
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+
+interface WordStyle {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numId?: string;
+  numLevel?: number;
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+interface Numbering {
+  // numId -> abstract numbering levels
+  levels: Map<string, Map<number, NumberingLevel>>;
+  counters: Map<string, number[]>;
+}
+
+function extractDocx(files: Map<string, Uint8Array>): OoxmlBlock[] {
+  const document = readXml(files, 'word/document.xml');
+  const body = document ? findFirst(document, 'w:body') : undefined;
+  if (!body) return [];
+
+  const styles = parseWordStyles(readXml(files, 'word/styles.xml'));
+  const numbering = parseNumbering(readXml(files, 'word/numbering.xml'));
+  const blocks: OoxmlBlock[] = [];
+
+  walkBody(body, styles, numbering, blocks);
+  return blocks;
+}
+
+function walkBody(container: XmlElement, styles: Map<string, WordStyle>, numbering: Numbering, blocks: OoxmlBlock[]): void {
+  for (const child of childElements(container)) {
+    switch (child.name) {
+      case 'w:p':
+        blocks.push(readParagraph(child, styles, numbering));
+        break;
+      case 'w:tbl':
+        blocks.push({ type: 'table', rows: readTable(child, styles, numbering) });
+        break;
+      case 'w:sdt': {
+        const content = firstChild(child, 'w:sdtContent');
+        if (content) walkBody(content, styles, numbering, blocks);
+        break;
+      }
+      case 'w:customXml':
+      case 'w:ins':
+        walkBody(child, styles, numbering, blocks);
+        break;
+    }
+  }
+}
+
+function readParagraph(paragraph: XmlElement, styles: Map<string, WordStyle>, numbering: Numbering): OoxmlParagraph {
+  const properties = firstChild(paragraph, 'w:pPr');
+  const styleId = attr(properties && firstChild(properties, 'w:pStyle'), 'w:val');
+  const style = styleId ? styles.get(styleId) : undefined;
+
+  const headingLevel = resolveHeadingLevel(properties, styleId, styles);
+
+  // Explicit numbering on the paragraph wins over numbering inherited from its style
+  const numPr = properties && firstChild(properties, 'w:numPr');
+  const styleNumbering = resolveStyleNumbering(styleId, styles);
+  let numId = attr(numPr && firstChild(numPr, 'w:numId'), 'w:val') ?? styleNumbering?.numId;
+  const levelValue = attr(numPr && firstChild(numPr, 'w:ilvl'), 'w:val');
+  const numLevel = levelValue !== undefined ? parseInt(levelValue, 10) : styleNumbering?.numLevel ?? 0;
+  if (numId === '0') numId = undefined;
+
+  const text = collectRunText(paragraph).replace(/[ \t]+$/g, '');
+  const label = numId && text.trim() ? nextNumberLabel(numbering, numId, numLevel) : '';
+
+  const paragraphBlock: OoxmlParagraph = {
+    type: 'paragraph',
+    text: label ? `${label} ${text.trimStart()}` : text,
+  };
+  if (headingLevel !== undefined) paragraphBlock.heading_level = headingLevel;
+  if (style?.name) paragraphBlock.style = style.name;
+  return paragraphBlock;
+}
+
+function collectRunText(element: XmlElement): string {
+  let out = '';
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    switch (child.name) {
+      case 'w:t':
+        out += textContent(child);
+        break;
+      case 'w:tab':
+        out += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        out += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        out += '-';
+        break;
+      case 'w:sym': {
+        const code = attr(child, 'w:char');
+        if (code) out += String.fromCharCode(parseInt(code, 16) & 0xffff);
+        break;
+      }
+      // Deleted revisions, field codes and drawings carry no visible text
+      case 'w:del':
+      case 'w:instrText':
+      case 'w:drawing':
+      case 'w:pPr':
+      case 'w:rPr':
+        break;
+      default:
+        out += collectRunText(child);
+    }
+  }
+  return out;
+}
+
+function readTable(table: XmlElement, styles: Map<string, WordStyle>, numbering: Numbering): string[][] {
+  const rows: string[][] = [];
+  for (const row of childElements(table, 'w:tr')) {
+    const cells: string[] = [];
+    for (const cell of childElements(row, 'w:tc')) {
+      const cellBlocks: OoxmlBlock[] = [];
+      walkBody(cell, styles, numbering, cellBlocks);
+      const text = ooxmlBlocksToText(cellBlocks).replace(/\s+/g, ' ').trim();
+
+      // Horizontally merged cells keep their grid position by repeating empty cells
+      const cellProperties = firstChild(cell, 'w:tcPr');
+      const span = parseInt(attr(cellProperties && firstChild(cellProperties, 'w:gridSpan'), 'w:val') ?? '1', 10);
+      cells.push(text);
+      for (let i = 1; i < span; i++) cells.push('');
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function parseWordStyles(root: XmlElement | null): Map<string, WordStyle> {
+  const styles = new Map<string, WordStyle>();
+  if (!root) return styles;
+
+  for (const style of findAll(root, 'w:style')) {
+    const id = attr(style, 'w:styleId');
+    if (!id) continue;
+
+    const properties = firstChild(style, 'w:pPr');
+    const outline = attr(properties && firstChild(properties, 'w:outlineLvl'), 'w:val');
+    const numPr = properties && firstChild(properties, 'w:numPr');
+    const numLevel = attr(numPr && firstChild(numPr, 'w:ilvl'), 'w:val');
+
+    styles.set(id, {
+      name: attr(firstChild(style, 'w:name'), 'w:val') ?? id,
+      basedOn: attr(firstChild(style, 'w:basedOn'), 'w:val'),
+      outlineLevel: outline !== undefined ? parseInt(outline, 10) : undefined,
+      numId: attr(numPr && firstChild(numPr, 'w:numId'), 'w:val'),
+      numLevel: numLevel !== undefined ? parseInt(numLevel, 10) : undefined,
+    });
+  }
+
+  return styles;
+}
+
+function resolveHeadingLevel(
+  properties: XmlElement | undefined,
+  styleId: string | undefined,
+  styles: Map<string, WordStyle>
+): number | undefined {
+  // Direct outline level on the paragraph (0-based, 9 = body text)
+  const outline = attr(properties && firstChild(properties, 'w:outlineLvl'), 'w:val');
+  if (outline !== undefined) {
+    const level = parseInt(outline, 10);
+    return level >= 0 && level < 9 ? level + 1 : undefined;
+  }
+
+  let current = styleId;
+  for (let depth = 0; current && depth < 10; depth++) {
+    const style = styles.get(current);
+    const name = (style?.name ?? current).toLowerCase();
+
+    const named = /^(heading|überschrift|berschrift)\s*(\d)$/.exec(name.replace(/\s+/g, ' '))
+      ?? /^(heading|überschrift|berschrift)(\d)$/.exec(current.toLowerCase());
+    if (named) return parseInt(named[2], 10);
+    if (name === 'title' || name === 'titel') return 1;
+
+    if (style?.outlineLevel !== undefined) {
+      return style.outlineLevel >= 0 && style.outlineLevel < 9 ? style.outlineLevel + 1 : undefined;
+    }
+    current = style?.basedOn;
+  }
+
+  return undefined;
+}
+
+function resolveStyleNumbering(styleId: string | undefined, styles: Map<string, WordStyle>): WordStyle | undefined {
+  let current = styleId;
+  for (let depth = 0; current && depth < 10; depth++) {
+    const style = styles.get(current);
+    if (style?.numId) return style;
+    current = style?.basedOn;
+  }
+  return undefined;
+}
+
+function parseNumbering(root: XmlElement | null): Numbering {
+  const numbering: Numbering = { levels: new Map(), counters: new Map() };
+  if (!root) return numbering;
+
+  const abstracts = new Map<string, Map<number, NumberingLevel>>();
+  for (const abstract of findAll(root, 'w:abstractNum')) {
+    const id = attr(abstract, 'w:abstractNumId');
+    if (id === undefined) continue;
+    abstracts.set(id, readNumberingLevels(abstract));
+  }
+
+  for (const num of findAll(root, 'w:num')) {
+    const numId = attr(num, 'w:numId');
+    const abstractId = attr(firstChild(num, 'w:abstractNumId'), 'w:val');
+    if (numId === undefined || abstractId === undefined) continue;
+
+    const levels = new Map(abstracts.get(abstractId) ?? []);
+
+    // Level overrides may restart numbering or replace a level definition
+    for (const override of childElements(num, 'w:lvlOverride')) {
+      const ilvl = parseInt(attr(override, 'w:ilvl') ?? '0', 10);
+      const replaced = firstChild(override, 'w:lvl');
+      const base = replaced ? readNumberingLevels({ name: 'w:abstractNum', attributes: {}, children: [replaced] }).get(ilvl) : levels.get(ilvl);
+      const startOverride = attr(firstChild(override, 'w:startOverride'), 'w:val');
+      if (base) {
+        levels.set(ilvl, startOverride !== undefined ? { ...base, start: parseInt(startOverride, 10) } : base);
+      }
+    }
+
+    numbering.levels.set(numId, levels);
+  }
+
+  return numbering;
+}
+
+function readNumberingLevels(abstract: XmlElement): Map<number, NumberingLevel> {
+  const levels = new Map<number, NumberingLevel>();
+  for (const level of childElements(abstract, 'w:lvl')) {
+    const ilvl = parseInt(attr(level, 'w:ilvl') ?? '0', 10);
+    levels.set(ilvl, {
+      format: attr(firstChild(level, 'w:numFmt'), 'w:val') ?? 'decimal',
+      text: attr(firstChild(level, 'w:lvlText'), 'w:val') ?? '',
+      start: parseInt(attr(firstChild(level, 'w:start'), 'w:val') ?? '1', 10),
+    });
+  }
+  return levels;
+}
+
+function nextNumberLabel(numbering: Numbering, numId: string, level: number): string {
+  const levels = numbering.levels.get(numId);
+  const definition = levels?.get(level);
+  if (!levels || !definition) return '';
+
+  const counters = numbering.counters.get(numId) ?? [];
+  for (let i = 0; i < level; i++) {
+    if (counters[i] === undefined) counters[i] = levels.get(i)?.start ?? 1;
+  }
+  counters[level] = counters[level] === undefined ? definition.start : counters[level] + 1;
+  counters.length = level + 1; // deeper levels restart
+  numbering.counters.set(numId, counters);
+
+  if (definition.format === 'bullet') return '•';
+  if (definition.format === 'none') return '';
+
+  return definition.text.replace(/%(\d)/g, (_, index: string) => {
+    const i = parseInt(index, 10) - 1;
+    const format = levels.get(i)?.format ?? 'decimal';
+    return formatNumber(counters[i] ?? 1, format);
+  });
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value).toLowerCase();
+    case 'upperLetter': return toLetters(value);
+    case 'lowerRoman': return toRoman(value).toLowerCase();
+    case 'upperRoman': return toRoman(value);
+    case 'decimalZero': return value < 10 ? `0${value}` : String(value);
+    default: return String(value);
+  }
+}
+
+function toLetters(value: number): string {
+  let out = '';
+  let n = value;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    out = String.fromCharCode(65 + rem) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ];
+  let out = '';
+  let n = value;
+  for (const [amount, numeral] of numerals) {
+    while (n >= amount) {
+      out += numeral;
+      n -= amount;
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+
+function extractXlsx(files: Map<string, Uint8Array>): OoxmlBlock[] {
+  const workbook = readXml(files, 'xl/workbook.xml');
+  if (!workbook) return [];
+
+  const sharedStrings = parseSharedStrings(readXml(files, 'xl/sharedStrings.xml'));
+  const dateStyles = parseDateStyles(readXml(files, 'xl/styles.xml'));
+  const relationships = parseRelationships(readXml(files, 'xl/_rels/workbook.xml.rels'));
+  const blocks: OoxmlBlock[] = [];
+
+  for (const sheet of findAll(workbook, 'sheet')) {
+    const name = attr(sheet, 'name') ?? 'Tabelle';
+    const relId = attr(sheet, 'r:id') ?? attr(sheet, 'id');
+    const target = relId ? relationships.get(relId) : undefined;
+    if (!target) continue;
+
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    const sheetXml = readXml(files, path);
+    if (!sheetXml) continue;
+
+    const rows = readSheetRows(sheetXml, sharedStrings, dateStyles);
+    if (rows.length === 0) continue;
+
+    blocks.push({ type: 'paragraph', text: name, heading_level: 1, style: 'Sheet' });
+    blocks.push({ type: 'table', rows, sheet: name });
+  }
+
+  return blocks;
+}
+
+function parseSharedStrings(root: XmlElement | null): string[] {
+  if (!root) return [];
+  return findAll(root, 'si').map(item => {
+    // Rich text runs (r/t) plus plain t; phonetic runs (rPh) are skipped
+    let text = '';
+    for (const child of childElements(item)) {
+      const name = localName(child.name);
+      if (name === 't') text += textContent(child);
+      if (name === 'r') text += childElements(child, 't').map(textContent).join('');
+    }
+    return text;
+  });
+}
+
+function parseRelationships(root: XmlElement | null): Map<string, string> {
+  const relationships = new Map<string, string>();
+  if (!root) return relationships;
+  for (const rel of findAll(root, 'Relationship')) {
+    const id = attr(rel, 'Id');
+    const target = attr(rel, 'Target');
+    if (id && target) relationships.set(id, target);
+  }
+  return relationships;
+}
+
+// Returns the indices of cellXfs entries whose number format is a date
+function parseDateStyles(root: XmlElement | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!root) return dateStyles;
+
+  const customFormats = new Map<number, string>();
+  for (const format of findAll(root, 'numFmt')) {
+    const id = parseInt(attr(format, 'numFmtId') ?? '', 10);
+    const code = attr(format, 'formatCode') ?? '';
+    if (!isNaN(id)) customFormats.set(id, code);
+  }
+
+  const cellXfs = findFirst(root, 'cellXfs');
+  if (!cellXfs) return dateStyles;
+
+  childElements(cellXfs, 'xf').forEach((xf, index) => {
+    const formatId = parseInt(attr(xf, 'numFmtId') ?? '0', 10);
+    const custom = customFormats.get(formatId);
+    const isBuiltinDate = (formatId >= 14 && formatId <= 22) || (formatId >= 45 && formatId <= 47);
+    // Strip quoted literals and colour/locale sections before looking for date tokens
+    const isCustomDate = custom !== undefined && /[dmyjt]/i.test(custom.replace(/"[^"]*"|\[[^\]]*\]/g, ''));
+    if (isBuiltinDate || isCustomDate) dateStyles.add(index);
+  });
+
+  return dateStyles;
+}
+
+function readSheetRows(sheet: XmlElement, sharedStrings: string[], dateStyles: Set<number>): string[][] {
+  const sheetData = findFirst(sheet, 'sheetData');
+  if (!sheetData) return [];
+
+  const rows: string[][] = [];
+  let nextRowIndex = 0;
+  let lastDataRow = -1;
+
+  for (const row of childElements(sheetData, 'row')) {
+    const rowNumber = parseInt(attr(row, 'r') ?? '', 10);
+    const rowIndex = isNaN(rowNumber) ? nextRowIndex : rowNumber - 1;
+    nextRowIndex = rowIndex + 1;
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+
+    for (const cell of childElements(row, 'c')) {
+      const ref = attr(cell, 'r');
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+
+      const value = readCellValue(cell, sharedStrings, dateStyles);
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    while (cells.length > 0 && !cells[cells.length - 1].trim()) cells.pop();
+    if (cells.length === 0) continue;
+
+    // A gap in the row numbers becomes one empty row so blocks of data stay apart
+    if (lastDataRow !== -1 && rowIndex > lastDataRow + 1) rows.push([]);
+    rows.push(cells);
+    lastDataRow = rowIndex;
+  }
+
+  return rows;
+}
+
+function readCellValue(cell: XmlElement, sharedStrings: string[], dateStyles: Set<number>): string {
+  const type = attr(cell, 't') ?? 'n';
+  const raw = textContent(firstChild(cell, 'v') ?? { name: 'v', attributes: {}, children: [] });
+
+  switch (type) {
+    case 's':
+      return sharedStrings[parseInt(raw, 10)] ?? '';
+    case 'inlineStr': {
+      const inline = firstChild(cell, 'is');
+      return inline ? findAll(inline, 't').map(textContent).join('') : '';
+    }
+    case 'b':
+      return raw === '1' ? 'WAHR' : 'FALSCH';
+    case 'str':
+    case 'e':
+      return raw;
+    default: {
+      const styleIndex = parseInt(attr(cell, 's') ?? '-1', 10);
+      const number = parseFloat(raw);
+      if (raw && !isNaN(number) && dateStyles.has(styleIndex)) {
+        return formatExcelDate(number);
+      }
+      return raw;
+    }
+  }
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const char of letters) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Excel serial dates count days since 1899-12-30 (including the 1900 leap year bug)
+function formatExcelDate(serial: number): string {
+  const millis = Math.round((serial - 25569) * 86400 * 1000);
+  const date = new Date(millis);
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const base = `${dd}.${mm}.${date.getUTCFullYear()}`;
+
+  const hours = date.getUTCHours();
+  const minutes = date.getUTCMinutes();
+  if (hours === 0 && minutes === 0) return base;
+  return `${base} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { extractPdfPageImages, extractPdfPages } from './pdf-text.ts';
+
+type FixtureObject = string | { dict: string; data: Uint8Array | string };
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+async function deflate(data: Uint8Array | string): Promise<Uint8Array> {
+  const bytes = typeof data === 'string' ? latin1(data) : data;
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const hex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('') + '>';
+
+// A PDF with objects numbered from 1; without xref the file has neither a
+// cross-reference table nor a trailer
+function pdf(objects: FixtureObject[], { xref = true, trailer = '/Root 1 0 R' } = {}): Uint8Array {
+  const parts: Uint8Array[] = [latin1('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const body = typeof object === 'string'
+      ? [latin1(`${index + 1} 0 obj\n${object}\nendobj\n`)]
+      : [
+        latin1(`${index + 1} 0 obj\n<< /Length ${object.data.length} ${object.dict} >>\nstream\n`),
+        typeof object.data === 'string' ? latin1(object.data) : object.data,
+        latin1('\nendstream\nendobj\n')
+      ];
+    for (const part of body) {
+      parts.push(part);
+      length += part.length;
+    }
+  });
+
+  if (xref) {
+    const rows = offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    parts.push(latin1(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${rows}` +
+      `trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${length}\n%%EOF\n`
+    ));
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+const HELVETICA = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+// Catalog, page tree with the font as inherited resource, one page, font, content
+function onePage(content: { dict: string; data: Uint8Array | string }, font = HELVETICA): FixtureObject[] {
+  return [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 4 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 5 0 R >>',
+    font,
+    content
+  ];
+}
+
+const LINES = 'BT /F1 12 Tf 72 720 Td (Leistungsverzeichnis) Tj 0 -14 Td (Pos. 1 Baustelleneinrichtung) Tj ET';
+
+describe('extractPdfPages', () => {
+  it('reads the lines of an uncompressed page', async () => {
+    const pages = await extractPdfPages(pdf(onePage({ dict: '', data: LINES })));
+
+    expect(pages).toEqual([{ page_number: 1, text: 'Leistungsverzeichnis\nPos. 1 Baustelleneinrichtung' }]);
+  });
+
+  it('inflates FlateDecode content streams', async () => {
+    const pages = await extractPdfPages(pdf(onePage({ dict: '/Filter /FlateDecode', data: await deflate(LINES) })));
+
+    expect(pages[0].text).toBe('Leistungsverzeichnis\nPos. 1 Baustelleneinrichtung');
+  });
+
+  it('decodes ASCIIHex streams and filter chains', async () => {
+    const plain = await extractPdfPages(pdf(onePage({ dict: '/Filter /ASCIIHexDecode', data: hex(latin1(LINES)) })));
+    const chained = await extractPdfPages(pdf(onePage({
+      dict: '/Filter [/ASCIIHexDecode /FlateDecode]',
+      data: hex(await deflate(LINES))
+    })));
+
+    expect(plain[0].text).toBe('Leistungsverzeichnis\nPos. 1 Baustelleneinrichtung');
+    expect(chained[0].text).toBe(plain[0].text);
+  });
+
+  it('finds the pages without cross-reference table and trailer', async () => {
+    const pages = await extractPdfPages(pdf(onePage({ dict: '', data: LINES }), { xref: false }));
+
+    expect(pages[0].text).toMatch(/^Leistungsverzeichnis/);
+  });
+
+  it('falls back to the page objects when there is no page tree', async () => {
+    const pages = await extractPdfPages(pdf([
+      '<< /Type /Catalog >>',
+      '<< /Type /Page /Resources << /Font << /F1 3 0 R >> >> /Contents 4 0 R >>',
+      HELVETICA,
+      { dict: '', data: 'BT /F1 12 Tf 72 720 Td (Anschreiben) Tj ET' }
+    ], { xref: false }));
+
+    expect(pages).toEqual([{ page_number: 1, text: 'Anschreiben' }]);
+  });
+
+  it('maps umlauts through WinAnsi and /Differences', async () => {
+    const winAnsi = await extractPdfPages(pdf(onePage({ dict: '', data: 'BT /F1 12 Tf 72 720 Td (Gr\\374nfl\\344che Stra\\337e) Tj ET' })));
+    const differences = await extractPdfPages(pdf(onePage(
+      { dict: '', data: 'BT /F1 12 Tf 72 720 Td (Pr\\201fung) Tj ET' },
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Custom /Encoding << /Differences [129 /udieresis] >> >>'
+    )));
+
+    expect(winAnsi[0].text).toBe('Grünfläche Straße');
+    expect(differences[0].text).toBe('Prüfung');
+  });
+
+  it('maps two-byte codes through the ToUnicode CMap', async () => {
+    const cmap = [
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0056> <0002> <00DF> endbfchar',
+      '1 beginbfrange <0003> <0004> <0065> endbfrange',
+      'endcmap'
+    ].join('\n');
+    const pages = await extractPdfPages(pdf([
+      ...onePage(
+        { dict: '', data: 'BT /F1 12 Tf 72 720 Td <0001000300020004> Tj ET' },
+        '<< /Type /Font /Subtype /Type0 /BaseFont /Arial /Encoding /Identity-H /ToUnicode 6 0 R >>'
+      ),
+      { dict: '', data: cmap }
+    ]));
+
+    expect(pages[0].text).toBe('Veßf');
+  });
+
+  it('separates table cells by wide gaps on one baseline', async () => {
+    const pages = await extractPdfPages(pdf(onePage({
+      dict: '',
+      data: 'BT /F1 10 Tf 72 720 Td (Pos.) Tj 200 0 Td (Preis) Tj ET BT /F1 10 Tf 72 700 Td [(1.1) -3000 (120,00)] TJ ET'
+    })));
+
+    expect(pages[0].text).toBe('Pos.\tPreis\n1.1\t120,00');
+  });
+
+  it('reads pages from compressed object streams', async () => {
+    const objects = '3 0 << /Type /Page /Parent 2 0 R /Contents 5 0 R >>';
+    const pages = await extractPdfPages(pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 4 0 R >> >> >>',
+      { dict: `/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode`, data: await deflate(objects) },
+      HELVETICA,
+      { dict: '', data: LINES }
+    ]));
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0].text).toMatch(/^Leistungsverzeichnis/);
+  });
+
+  it('returns nothing for encrypted files', async () => {
+    const pages = await extractPdfPages(pdf(onePage({ dict: '', data: LINES }), { trailer: '/Root 1 0 R /Encrypt 6 0 R' }));
+
+    expect(pages).toEqual([]);
+  });
+});
+
+describe('extractPdfPageImages', () => {
+  it('returns the largest image of a scanned page', async () => {
+    const pages = await extractPdfPageImages(pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /XObject << /Im1 4 0 R /Im2 5 0 R >> >> /Contents 6 0 R >>',
+      { dict: '/Type /XObject /Subtype /Image /Width 2 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8', data: '\x00\xff' },
+      { dict: '/Type /XObject /Subtype /Image /Width 100 /Height 100 /Filter /DCTDecode', data: '\xff\xd8\xff\xd9' },
+      { dict: '', data: 'q 595 0 0 842 0 0 cm /Im2 Do Q' }
+    ]), [1, 2]);
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toMatchObject({ page_number: 1, width: 100, height: 100, format: 'jpeg' });
+  });
+});
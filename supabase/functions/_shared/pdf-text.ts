@@ -0,0 +1,1443 @@
+// PDF text extraction for the document pipeline.
+//
+// Parses the object structure of a PDF (including compressed object streams),
+// inflates FlateDecode content streams, walks the page tree and interprets the
+// text operators of every page. Glyph codes are mapped to Unicode through the
+// font's ToUnicode CMap, its /Differences array or the standard WinAnsi /
+// MacRoman encodings, so German umlauts and ß survive extraction.
+//
+// Text runs on the same baseline that are separated by a wide horizontal gap
+// (measured with the font's glyph widths) are joined with a tab, so table
+// cells of price sheets and criteria matrices stay apart.
+//
+// Scanned pages have no text layer; extractPdfPageImages returns their page
+// image (JPEG as-is, raw samples as PNM) for the OCR stage.
+
+export interface PdfPage {
+  page_number: number;
+  text: string;
+}
+
+export interface PdfPageImage {
+  page_number: number;
+  width: number;
+  height: number;
+  // 'unsupported' for codecs the OCR engine cannot read (CCITT, JBIG2, JPEG 2000)
+  format: 'jpeg' | 'pnm' | 'unsupported';
+  encoding: string;
+  data: Uint8Array | null;
+}
+
+class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+interface PdfStream {
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | string // raw byte string (literal or hex), one char per byte
+  | PdfName
+  | PdfRef
+  | PdfOperator
+  | PdfValue[]
+  | PdfDict
+  | PdfStream;
+
+class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+const MAX_XOBJECT_DEPTH = 5;
+
+// ---------------------------------------------------------------------------
+// Public API
+
+export async function extractPdfPages(bytes: Uint8Array): Promise<PdfPage[]> {
+  const doc = await PdfDocument.load(bytes);
+
+  if (doc.isEncrypted) {
+    console.warn('PDF is encrypted, text layer cannot be decoded');
+    return [];
+  }
+
+  const pages: PdfPage[] = [];
+  const pageDicts = doc.getPages();
+
+  for (let i = 0; i < pageDicts.length; i++) {
+    let text = '';
+    try {
+      text = await doc.extractPageText(pageDicts[i]);
+    } catch (error) {
+      console.error(`Failed to extract text from page ${i + 1}:`, error);
+    }
+    pages.push({ page_number: i + 1, text });
+  }
+
+  return pages;
+}
+
+// Largest image of each requested page; pages without any image are left out
+export async function extractPdfPageImages(bytes: Uint8Array, pageNumbers: number[]): Promise<PdfPageImage[]> {
+  const doc = await PdfDocument.load(bytes);
+  if (doc.isEncrypted) return [];
+
+  const pageDicts = doc.getPages();
+  const images: PdfPageImage[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const page = pageDicts[pageNumber - 1];
+    const stream = page ? doc.findPageImage(page) : null;
+    if (!stream) continue;
+
+    try {
+      const image = await decodeImage(stream, doc);
+      if (image) images.push({ page_number: pageNumber, ...image });
+    } catch (error) {
+      console.error(`Failed to decode image on page ${pageNumber}:`, error);
+    }
+  }
+
+  return images;
+}
+
+// ---------------------------------------------------------------------------
+// Document model
+
+class PdfDocument {
+  private objects = new Map<number, PdfValue>();
+  private trailer: PdfDict = new Map();
+  private fontCache = new Map<PdfDict, FontDecoder>();
+  decodedCache = new Map<PdfStream, Uint8Array | null>();
+
+  private constructor(private readonly raw: string, private readonly bytes: Uint8Array) {}
+
+  static async load(bytes: Uint8Array): Promise<PdfDocument> {
+    const doc = new PdfDocument(bytesToLatin1(bytes), bytes);
+    await doc.parseObjects();
+    doc.parseTrailer();
+    return doc;
+  }
+
+  get isEncrypted(): boolean {
+    return this.trailer.has('Encrypt');
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value;
+    let guard = 0;
+    while (current instanceof PdfRef && guard++ < 32) {
+      current = this.objects.get(current.num);
+    }
+    return current;
+  }
+
+  private dictOf(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    if (resolved instanceof Map) return resolved;
+    if (isStream(resolved)) return resolved.dict;
+    return null;
+  }
+
+  private async parseObjects(): Promise<void> {
+    const objPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objPattern.exec(this.raw)) !== null) {
+      const num = parseInt(match[1], 10);
+      const bodyStart = match.index + match[0].length;
+      const parser = new PdfParser(this.raw, bodyStart);
+
+      let value: PdfValue;
+      try {
+        value = parser.parseObject();
+      } catch {
+        continue;
+      }
+
+      if (value instanceof Map) {
+        const streamStart = parser.findStreamStart();
+        if (streamStart !== -1) {
+          const data = this.readStreamData(value, streamStart);
+          const stream: PdfStream = { dict: value, data: data.bytes };
+          this.objects.set(num, stream);
+          objPattern.lastIndex = data.end;
+
+          if (nameOf(value.get('Type')) === 'ObjStm') {
+            await this.expandObjectStream(stream);
+          }
+          continue;
+        }
+      }
+
+      this.objects.set(num, value);
+      objPattern.lastIndex = parser.pos;
+    }
+  }
+
+  private readStreamData(dict: PdfDict, start: number): { bytes: Uint8Array; end: number } {
+    const declaredLength = dict.get('Length');
+    if (typeof declaredLength === 'number' && declaredLength >= 0) {
+      const end = start + declaredLength;
+      const tail = this.raw.slice(end, end + 32);
+      if (/^\s*endstream/.test(tail)) {
+        return { bytes: this.bytes.subarray(start, end), end };
+      }
+    }
+
+    // Indirect or wrong /Length: fall back to scanning for the end marker
+    const endMarker = this.raw.indexOf('endstream', start);
+    let end = endMarker === -1 ? this.raw.length : endMarker;
+    if (this.raw[end - 1] === '\n') end--;
+    if (this.raw[end - 1] === '\r') end--;
+    return { bytes: this.bytes.subarray(start, Math.max(start, end)), end: Math.max(start, end) };
+  }
+
+  private async expandObjectStream(stream: PdfStream): Promise<void> {
+    const decoded = await decodeStream(stream, this);
+    if (!decoded) return;
+
+    const content = bytesToLatin1(decoded);
+    const count = numberOf(stream.dict.get('N'));
+    const first = numberOf(stream.dict.get('First'));
+    const header = new PdfParser(content, 0);
+    const entries: Array<{ num: number; offset: number }> = [];
+
+    for (let i = 0; i < count; i++) {
+      const num = header.parseObject();
+      const offset = header.parseObject();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      entries.push({ num, offset });
+    }
+
+    for (const entry of entries) {
+      try {
+        const parser = new PdfParser(content, first + entry.offset);
+        this.objects.set(entry.num, parser.parseObject());
+      } catch {
+        // Skip unparsable entries, the rest of the stream is still usable
+      }
+    }
+  }
+
+  private parseTrailer(): void {
+    // Classic trailers; the last one wins for incrementally updated files
+    const trailerPattern = /trailer\s*<</g;
+    let match: RegExpExecArray | null;
+    while ((match = trailerPattern.exec(this.raw)) !== null) {
+      try {
+        const parser = new PdfParser(this.raw, match.index + 'trailer'.length);
+        const dict = parser.parseObject();
+        if (dict instanceof Map) {
+          for (const [key, value] of dict) this.trailer.set(key, value);
+        }
+      } catch {
+        // ignore broken trailer
+      }
+    }
+
+    // Cross-reference streams (PDF 1.5+) carry the trailer keys in their dictionary
+    for (const value of this.objects.values()) {
+      if (isStream(value) && nameOf(value.dict.get('Type')) === 'XRef') {
+        for (const key of ['Root', 'Encrypt', 'Info']) {
+          const entry = value.dict.get(key);
+          if (entry !== undefined && !this.trailer.has(key)) this.trailer.set(key, entry);
+        }
+      }
+    }
+  }
+
+  getPages(): PdfDict[] {
+    const pages: PdfDict[] = [];
+    const root = this.dictOf(this.trailer.get('Root')) ?? this.findCatalog();
+    const pagesRoot = root ? this.dictOf(root.get('Pages')) : null;
+
+    if (pagesRoot) {
+      this.collectPages(pagesRoot, new Map(), pages, new Set());
+    }
+
+    if (pages.length > 0) return pages;
+
+    // No usable page tree: fall back to every page object in object order
+    const numbers = [...this.objects.keys()].sort((a, b) => a - b);
+    for (const num of numbers) {
+      const dict = this.dictOf(this.objects.get(num));
+      if (dict && nameOf(dict.get('Type')) === 'Page') pages.push(dict);
+    }
+    return pages;
+  }
+
+  private findCatalog(): PdfDict | null {
+    for (const value of this.objects.values()) {
+      if (value instanceof Map && nameOf(value.get('Type')) === 'Catalog') return value;
+    }
+    return null;
+  }
+
+  private collectPages(node: PdfDict, inherited: PdfDict, out: PdfDict[], seen: Set<PdfDict>): void {
+    if (seen.has(node)) return;
+    seen.add(node);
+
+    const attributes = new Map(inherited);
+    for (const key of ['Resources', 'MediaBox', 'Rotate']) {
+      if (node.has(key)) attributes.set(key, node.get(key)!);
+    }
+
+    const kids = this.resolve(node.get('Kids'));
+    if (nameOf(node.get('Type')) === 'Page' || !Array.isArray(kids)) {
+      const page = new Map(node);
+      for (const [key, value] of attributes) {
+        if (!page.has(key)) page.set(key, value);
+      }
+      out.push(page);
+      return;
+    }
+
+    for (const kid of kids) {
+      const kidDict = this.dictOf(kid);
+      if (kidDict) this.collectPages(kidDict, attributes, out, seen);
+    }
+  }
+
+  async extractPageText(page: PdfDict): Promise<string> {
+    const contents = this.resolve(page.get('Contents'));
+    const streams: PdfStream[] = [];
+
+    if (isStream(contents)) {
+      streams.push(contents);
+    } else if (Array.isArray(contents)) {
+      for (const part of contents) {
+        const resolved = this.resolve(part);
+        if (isStream(resolved)) streams.push(resolved);
+      }
+    }
+
+    // Content streams of one page may split operators across parts, so join first
+    const chunks: Uint8Array[] = [];
+    for (const stream of streams) {
+      const decoded = await decodeStream(stream, this);
+      if (decoded) chunks.push(decoded, new Uint8Array([0x0a]));
+    }
+
+    const content = bytesToLatin1(concatBytes(chunks));
+    const resources = this.dictOf(page.get('Resources')) ?? new Map();
+    const writer = new TextWriter();
+    await this.interpret(content, resources, writer, 0);
+    return writer.toString();
+  }
+
+  private async interpret(content: string, resources: PdfDict, writer: TextWriter, depth: number): Promise<void> {
+    const parser = new PdfParser(content, 0);
+    const operands: PdfValue[] = [];
+    let font: FontDecoder | null = null;
+    let fontSize = 0;
+    let leading = 0;
+    // Origin of the text line matrix in user space and its horizontal scale
+    let lineX = 0;
+    let lineY = 0;
+    let scale = 1;
+
+    const emSize = () => Math.abs(fontSize * scale) || 1;
+    const show = (value: PdfValue | undefined) => {
+      writer.write(decodeText(value, font), textWidth(value, font) / 1000 * emSize());
+    };
+
+    while (true) {
+      let token: PdfValue | undefined;
+      try {
+        token = parser.parseContentToken();
+      } catch {
+        // Malformed content: keep what has been extracted so far
+        break;
+      }
+      if (token === undefined) break;
+
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      const op = token.op;
+      switch (op) {
+        case 'BT':
+          // BT resets the text matrix; the output line continues until the baseline changes
+          lineX = 0;
+          lineY = 0;
+          scale = 1;
+          break;
+        case 'ET':
+          writer.space();
+          break;
+        case 'Tf': {
+          const fontName = nameOf(operands[0]);
+          font = fontName ? await this.getFont(resources, fontName) : null;
+          fontSize = numberOf(operands[1]);
+          break;
+        }
+        case 'TL':
+          leading = numberOf(operands[0]);
+          break;
+        case 'Td':
+        case 'TD': {
+          const tx = numberOf(operands[0]);
+          const ty = numberOf(operands[1]);
+          if (op === 'TD') leading = -ty;
+          lineX += tx * scale;
+          lineY += ty * scale;
+          writer.moveTo(lineX, lineY, emSize());
+          break;
+        }
+        case 'Tm':
+          scale = numberOf(operands[0]) || 1;
+          lineX = numberOf(operands[4]);
+          lineY = numberOf(operands[5]);
+          writer.moveTo(lineX, lineY, emSize());
+          break;
+        case 'T*':
+          lineY -= leading * scale;
+          writer.newline(lineX, lineY);
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case "'":
+          lineY -= leading * scale;
+          writer.newline(lineX, lineY);
+          show(operands[0]);
+          break;
+        case '"':
+          lineY -= leading * scale;
+          writer.newline(lineX, lineY);
+          show(operands[2]);
+          break;
+        case 'TJ': {
+          const parts = operands[0];
+          if (Array.isArray(parts)) {
+            for (const part of parts) {
+              if (typeof part === 'number') {
+                writer.advance(-part / 1000 * emSize());
+                // Very large gaps are tab stops, large negative kerning is how many generators encode word gaps
+                if (part < -COLUMN_GAP_EM * 1000) writer.cell();
+                else if (part < -180) writer.space();
+              } else {
+                show(part);
+              }
+            }
+          }
+          break;
+        }
+        case 'Do': {
+          if (depth >= MAX_XOBJECT_DEPTH) break;
+          const name = nameOf(operands[0]);
+          const xobjects = this.dictOf(resources.get('XObject'));
+          const xobject = name && xobjects ? this.resolve(xobjects.get(name)) : undefined;
+          if (isStream(xobject) && nameOf(xobject.dict.get('Subtype')) === 'Form') {
+            const decoded = await decodeStream(xobject, this);
+            if (decoded) {
+              const formResources = this.dictOf(xobject.dict.get('Resources')) ?? resources;
+              await this.interpret(bytesToLatin1(decoded), formResources, writer, depth + 1);
+            }
+          }
+          break;
+        }
+      }
+
+      operands.length = 0;
+    }
+  }
+
+  // Scanned pages are a single full-page image, possibly wrapped in a form XObject
+  findPageImage(page: PdfDict): PdfStream | null {
+    let best = null as PdfStream | null;
+    let bestArea = 0;
+
+    const visit = (resources: PdfDict | null, depth: number) => {
+      const xobjects = this.dictOf(resources?.get('XObject'));
+      if (!xobjects) return;
+
+      for (const value of xobjects.values()) {
+        const xobject = this.resolve(value);
+        if (!isStream(xobject)) continue;
+
+        const subtype = nameOf(xobject.dict.get('Subtype'));
+        if (subtype === 'Image') {
+          const area = numberOf(this.resolve(xobject.dict.get('Width'))) * numberOf(this.resolve(xobject.dict.get('Height')));
+          if (area > bestArea) {
+            best = xobject;
+            bestArea = area;
+          }
+        } else if (subtype === 'Form' && depth < MAX_XOBJECT_DEPTH) {
+          visit(this.dictOf(xobject.dict.get('Resources')), depth + 1);
+        }
+      }
+    };
+
+    visit(this.dictOf(page.get('Resources')), 0);
+    return best;
+  }
+
+  private async getFont(resources: PdfDict, name: string): Promise<FontDecoder | null> {
+    const fonts = this.dictOf(resources.get('Font'));
+    const fontDict = fonts ? this.dictOf(fonts.get(name)) : null;
+    if (!fontDict) return null;
+
+    let decoder = this.fontCache.get(fontDict);
+    if (!decoder) {
+      decoder = await FontDecoder.create(fontDict, this);
+      this.fontCache.set(fontDict, decoder);
+    }
+    return decoder;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Text output
+
+// Horizontal gap between two runs on one baseline that separates table cells
+const COLUMN_GAP_EM = 1.5;
+
+class TextWriter {
+  private lines: string[] = [];
+  private current = '';
+  // Baseline of the current line and the estimated pen position after the last run
+  private y: number | null = null;
+  private x = 0;
+
+  write(text: string, width: number): void {
+    if (!text) return;
+    this.current += text;
+    this.x += width;
+  }
+
+  advance(width: number): void {
+    this.x += width;
+  }
+
+  space(): void {
+    if (this.current && !/[ \t]$/.test(this.current)) this.current += ' ';
+  }
+
+  cell(): void {
+    if (!this.current) return;
+    this.current = this.current.replace(/ +$/, '') + '\t';
+  }
+
+  // Runs on the same baseline continue the line; a wide gap starts a new cell
+  moveTo(x: number, y: number, emSize: number): void {
+    if (this.y === null || Math.abs(y - this.y) > 0.5) {
+      this.newline(x, y);
+      return;
+    }
+    if (x - this.x > COLUMN_GAP_EM * emSize) {
+      this.cell();
+    } else {
+      this.space();
+    }
+    this.x = x;
+  }
+
+  newline(x = 0, y: number | null = null): void {
+    if (this.current || this.lines.length > 0) this.lines.push(this.current);
+    this.current = '';
+    this.x = x;
+    this.y = y;
+  }
+
+  toString(): string {
+    this.newline();
+    return this.lines
+      .map(line => line.replace(/ +/g, ' ').replace(/ ?\t ?/g, '\t').replace(/\t+/g, '\t').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fonts and encodings
+
+// Advance of glyphs without a /Widths entry, in thousandths of an em
+const DEFAULT_GLYPH_WIDTH = 500;
+
+class FontDecoder {
+  private constructor(
+    private readonly codeBytes: number,
+    private readonly toUnicode: Map<number, string> | null,
+    private readonly encoding: Map<number, string>,
+    private readonly widths: Map<number, number>,
+    private readonly defaultWidth: number
+  ) {}
+
+  static async create(font: PdfDict, doc: PdfDocument): Promise<FontDecoder> {
+    const subtype = nameOf(font.get('Subtype'));
+    const isComposite = subtype === 'Type0';
+
+    let toUnicode: Map<number, string> | null = null;
+    let codeBytes = isComposite ? 2 : 1;
+    const toUnicodeStream = doc.resolve(font.get('ToUnicode'));
+    if (isStream(toUnicodeStream)) {
+      const decoded = await decodeStream(toUnicodeStream, doc);
+      if (decoded) {
+        const cmap = parseCMap(bytesToLatin1(decoded));
+        toUnicode = cmap.map;
+        if (cmap.codeBytes) codeBytes = cmap.codeBytes;
+      }
+    }
+
+    const encoding = isComposite ? new Map<number, string>() : buildSimpleEncoding(font, doc);
+    const { widths, defaultWidth } = isComposite ? readCompositeWidths(font, doc) : readSimpleWidths(font, doc);
+    return new FontDecoder(codeBytes, toUnicode, encoding, widths, defaultWidth);
+  }
+
+  // Advance of a byte string in thousandths of an em
+  width(bytes: string): number {
+    let total = 0;
+    for (let i = 0; i < bytes.length; i += this.codeBytes) {
+      let code = 0;
+      for (let b = 0; b < this.codeBytes && i + b < bytes.length; b++) {
+        code = (code << 8) | bytes.charCodeAt(i + b);
+      }
+      total += this.widths.get(code) ?? this.defaultWidth;
+    }
+    return total;
+  }
+
+  decode(bytes: string): string {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += this.codeBytes) {
+      let code = 0;
+      for (let b = 0; b < this.codeBytes && i + b < bytes.length; b++) {
+        code = (code << 8) | bytes.charCodeAt(i + b);
+      }
+
+      const mapped = this.toUnicode?.get(code) ?? this.encoding.get(code);
+      if (mapped !== undefined) {
+        out += mapped;
+      } else if (this.codeBytes === 1) {
+        out += String.fromCharCode(code);
+      }
+    }
+    return stripControlChars(out);
+  }
+}
+
+// /FirstChar + /Widths of simple fonts; the standard 14 fonts usually have neither
+function readSimpleWidths(font: PdfDict, doc: PdfDocument): { widths: Map<number, number>; defaultWidth: number } {
+  const widths = new Map<number, number>();
+  const firstChar = numberOf(doc.resolve(font.get('FirstChar')));
+  const list = doc.resolve(font.get('Widths'));
+  if (Array.isArray(list)) {
+    list.forEach((value, index) => widths.set(firstChar + index, numberOf(doc.resolve(value))));
+  }
+
+  const descriptor = doc.resolve(font.get('FontDescriptor'));
+  const missing = descriptor instanceof Map ? numberOf(doc.resolve(descriptor.get('MissingWidth'))) : 0;
+  return { widths, defaultWidth: missing || DEFAULT_GLYPH_WIDTH };
+}
+
+// /W array of the CID font: "c [w1 w2 ...]" or "cFirst cLast w"
+function readCompositeWidths(font: PdfDict, doc: PdfDocument): { widths: Map<number, number>; defaultWidth: number } {
+  const widths = new Map<number, number>();
+  const descendants = doc.resolve(font.get('DescendantFonts'));
+  const cidFont = Array.isArray(descendants) ? doc.resolve(descendants[0]) : undefined;
+  if (!(cidFont instanceof Map)) return { widths, defaultWidth: 1000 };
+
+  const list = doc.resolve(cidFont.get('W'));
+  if (Array.isArray(list)) {
+    let i = 0;
+    while (i < list.length) {
+      const first = numberOf(doc.resolve(list[i]));
+      const next = doc.resolve(list[i + 1]);
+      if (Array.isArray(next)) {
+        next.forEach((value, index) => widths.set(first + index, numberOf(doc.resolve(value))));
+        i += 2;
+      } else {
+        const last = numberOf(next);
+        const width = numberOf(doc.resolve(list[i + 2]));
+        // Guard against absurd ranges in broken files
+        for (let code = first; code <= last && code - first < 65536; code++) widths.set(code, width);
+        i += 3;
+      }
+    }
+  }
+
+  const dw = doc.resolve(cidFont.get('DW'));
+  return { widths, defaultWidth: typeof dw === 'number' ? dw : 1000 };
+}
+
+function textWidth(value: PdfValue | undefined, font: FontDecoder | null): number {
+  if (typeof value !== 'string') return 0;
+  return font ? font.width(value) : value.length * DEFAULT_GLYPH_WIDTH;
+}
+
+function decodeText(value: PdfValue | undefined, font: FontDecoder | null): string {
+  if (typeof value !== 'string') return '';
+  if (font) return font.decode(value);
+  return decodeWithTable(value, WIN_ANSI_HIGH);
+}
+
+function decodeWithTable(bytes: string, high: string): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes.charCodeAt(i);
+    out += code >= 0x80 ? high[code - 0x80] : bytes[i];
+  }
+  return out;
+}
+
+function buildSimpleEncoding(font: PdfDict, doc: PdfDocument): Map<number, string> {
+  const map = new Map<number, string>();
+  const encodingValue = doc.resolve(font.get('Encoding'));
+
+  let baseName = nameOf(encodingValue);
+  let differences: PdfValue[] = [];
+  if (encodingValue instanceof Map) {
+    baseName = nameOf(encodingValue.get('BaseEncoding'));
+    const diff = doc.resolve(encodingValue.get('Differences'));
+    if (Array.isArray(diff)) differences = diff;
+  }
+
+  const high = baseName === 'MacRomanEncoding' ? MAC_ROMAN_HIGH : WIN_ANSI_HIGH;
+  for (let code = 0; code < 256; code++) {
+    map.set(code, code >= 0x80 ? high[code - 0x80] : String.fromCharCode(code));
+  }
+  if (baseName === 'StandardEncoding') {
+    map.set(0x27, '’');
+    map.set(0x60, '‘');
+    map.set(0xfb, 'ß');
+  }
+
+  let code = 0;
+  for (const entry of differences) {
+    if (typeof entry === 'number') {
+      code = entry;
+    } else if (entry instanceof PdfName) {
+      const unicode = glyphToUnicode(entry.name);
+      if (unicode !== null) map.set(code, unicode);
+      code++;
+    }
+  }
+
+  return map;
+}
+
+function glyphToUnicode(glyph: string): string | null {
+  if (GLYPH_NAMES[glyph] !== undefined) return GLYPH_NAMES[glyph];
+
+  const uni = /^uni([0-9A-Fa-f]{4})/.exec(glyph);
+  if (uni) return String.fromCharCode(parseInt(uni[1], 16));
+
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(glyph);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+
+  if (glyph.length === 1) return glyph;
+  return null;
+}
+
+interface ParsedCMap {
+  map: Map<number, string>;
+  codeBytes: number | null;
+}
+
+function parseCMap(content: string): ParsedCMap {
+  const map = new Map<number, string>();
+  let codeBytes: number | null = null;
+
+  const codespace = /begincodespacerange([\s\S]*?)endcodespacerange/.exec(content);
+  if (codespace) {
+    const first = /<([0-9A-Fa-f]+)>/.exec(codespace[1]);
+    if (first) codeBytes = Math.max(1, first[1].length / 2);
+  }
+
+  const charBlocks = content.matchAll(/beginbfchar([\s\S]*?)endbfchar/g);
+  for (const block of charBlocks) {
+    const pairs = block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g);
+    for (const pair of pairs) {
+      map.set(parseInt(pair[1], 16), utf16HexToString(pair[2]));
+    }
+  }
+
+  const rangeBlocks = content.matchAll(/beginbfrange([\s\S]*?)endbfrange/g);
+  for (const block of rangeBlocks) {
+    const ranges = block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g);
+    for (const range of ranges) {
+      const start = parseInt(range[1], 16);
+      const end = parseInt(range[2], 16);
+      const target = range[3];
+
+      if (target.startsWith('[')) {
+        const items = [...target.matchAll(/<([0-9A-Fa-f]*)>/g)];
+        items.forEach((item, offset) => {
+          if (start + offset <= end) map.set(start + offset, utf16HexToString(item[1]));
+        });
+      } else {
+        const hex = target.slice(1, -1);
+        const base = utf16HexToString(hex);
+        if (!base) continue;
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + (code - start)));
+        }
+      }
+    }
+  }
+
+  return { map, codeBytes };
+}
+
+function utf16HexToString(hex: string): string {
+  let out = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  if (hex.length === 2) out = String.fromCharCode(parseInt(hex, 16));
+  return out;
+}
+
+// Code points 0x80-0xFF of WinAnsiEncoding (Windows-1252); undefined slots map to U+FFFD
+const WIN_ANSI_HIGH =
+  '€�‚ƒ„…†‡ˆ‰Š‹Œ�Ž�' +
+  '�‘’“”•–—˜™š›œ�žŸ' +
+  Array.from({ length: 0x60 }, (_, i) => String.fromCharCode(0xa0 + i)).join('');
+
+// Code points 0x80-0xFF of MacRomanEncoding
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü' +
+  '†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»… ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ' +
+  '‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+// Adobe glyph names that commonly appear in /Differences arrays of German documents
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", quoteright: '’', quoteleft: '‘',
+  parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  underscore: '_', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+  eight: '8', nine: '9',
+  Adieresis: 'Ä', Odieresis: 'Ö', Udieresis: 'Ü', adieresis: 'ä', odieresis: 'ö',
+  udieresis: 'ü', germandbls: 'ß', eacute: 'é', egrave: 'è', ecircumflex: 'ê',
+  Eacute: 'É', agrave: 'à', aacute: 'á', acircumflex: 'â', ccedilla: 'ç', Ccedilla: 'Ç',
+  oacute: 'ó', ocircumflex: 'ô', uacute: 'ú', ucircumflex: 'û', iacute: 'í', ntilde: 'ñ',
+  section: '§', paragraph: '¶', degree: '°', copyright: '©', registered: '®',
+  trademark: '™', Euro: '€', euro: '€', sterling: '£', yen: '¥', cent: '¢',
+  endash: '–', emdash: '—', bullet: '•', ellipsis: '…', periodcentered: '·',
+  quotedblleft: '“', quotedblright: '”', quotedblbase: '„',
+  quotesinglbase: '‚', guillemotleft: '«', guillemotright: '»',
+  guilsinglleft: '‹', guilsinglright: '›', multiply: '×', divide: '÷',
+  plusminus: '±', mu: 'µ', twosuperior: '²', threesuperior: '³', onehalf: '½',
+  onequarter: '¼', threequarters: '¾', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  nbspace: ' ', minus: '−', dagger: '†', daggerdbl: '‡', perthousand: '‰',
+};
+
+// ---------------------------------------------------------------------------
+// Stream decoding
+
+async function decodeStream(stream: PdfStream, doc: PdfDocument): Promise<Uint8Array | null> {
+  const cached = doc.decodedCache.get(stream);
+  if (cached !== undefined) return cached;
+
+  const { filters, parmsList } = streamFilters(stream, doc);
+
+  let data: Uint8Array | null = stream.data;
+  for (let i = 0; i < filters.length && data; i++) {
+    data = await applyFilter(data, filters[i], parmsList[i]);
+  }
+
+  doc.decodedCache.set(stream, data);
+  return data;
+}
+
+function streamFilters(stream: PdfStream, doc: PdfDocument): { filters: (string | null)[]; parmsList: (PdfValue | undefined)[] } {
+  const filterValue = doc.resolve(stream.dict.get('Filter'));
+  const filters = Array.isArray(filterValue)
+    ? filterValue.map(f => nameOf(doc.resolve(f)))
+    : filterValue ? [nameOf(filterValue)] : [];
+
+  const parmsValue = doc.resolve(stream.dict.get('DecodeParms'));
+  const parmsList = Array.isArray(parmsValue) ? parmsValue.map(p => doc.resolve(p)) : [parmsValue];
+
+  return { filters, parmsList };
+}
+
+async function applyFilter(data: Uint8Array, filter: string | null, parms: PdfValue | undefined): Promise<Uint8Array | null> {
+  switch (filter) {
+    case 'FlateDecode':
+    case 'Fl': {
+      const inflated = await inflate(data);
+      return inflated && parms instanceof Map ? applyPredictor(inflated, parms) : inflated;
+    }
+    case 'ASCIIHexDecode':
+    case 'AHx':
+      return decodeAsciiHex(data);
+    case 'ASCII85Decode':
+    case 'A85':
+      return decodeAscii85(data);
+    default:
+      // Image codecs (DCT, JBIG2, CCITT) and LZW carry no text for us
+      return null;
+  }
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  // Some producers write raw deflate data without the zlib header
+  const hasZlibHeader = data.length > 2 && (data[0] & 0x0f) === 8 && ((data[0] << 8) | data[1]) % 31 === 0;
+  const formats: CompressionFormat[] = hasZlibHeader ? ['deflate', 'deflate-raw'] : ['deflate-raw', 'deflate'];
+
+  for (const format of formats) {
+    const result = await inflateWith(data, format);
+    if (result && result.length > 0) return result;
+  }
+  return null;
+}
+
+async function inflateWith(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array | null> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Truncated or slightly corrupt streams: keep the data inflated so far
+    if (chunks.length === 0) return null;
+  }
+
+  return concatBytes(chunks);
+}
+
+function applyPredictor(data: Uint8Array, parms: PdfDict): Uint8Array {
+  const predictor = numberOf(parms.get('Predictor')) || 1;
+  if (predictor < 10) return data;
+
+  const colors = numberOf(parms.get('Colors')) || 1;
+  const bitsPerComponent = numberOf(parms.get('BitsPerComponent')) || 8;
+  const columns = numberOf(parms.get('Columns')) || 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  let previous = new Uint8Array(rowLength);
+
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowLength + 1)];
+    const row = data.subarray(r * (rowLength + 1) + 1, (r + 1) * (rowLength + 1));
+    const current = new Uint8Array(rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let value = row[i];
+
+      switch (type) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += Math.floor((left + up) / 2); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      current[i] = value & 0xff;
+    }
+
+    out.set(current, r * rowLength);
+    previous = current;
+  }
+
+  return out;
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data).replace(/[^0-9A-Fa-f>]/g, '');
+  const hex = text.split('>')[0];
+  const padded = hex.length % 2 === 1 ? hex + '0' : hex;
+  const out = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data).replace(/\s/g, '').replace(/^<~/, '').split('~>')[0];
+  const out: number[] = [];
+  let group: number[] = [];
+
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      let value = 0;
+      for (const digit of group) value = value * 85 + digit;
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+
+  if (group.length > 0) {
+    const missing = 5 - group.length;
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, 4 - missing));
+  }
+
+  return new Uint8Array(out);
+}
+
+// ---------------------------------------------------------------------------
+// Object syntax
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r', '\f', '\0']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+class PdfParser {
+  constructor(private readonly src: string, public pos: number) {}
+
+  private skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos];
+      if (WHITESPACE.has(char)) {
+        this.pos++;
+      } else if (char === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  findStreamStart(): number {
+    this.skipWhitespace();
+    if (!this.src.startsWith('stream', this.pos)) return -1;
+    let start = this.pos + 'stream'.length;
+    if (this.src[start] === '\r') start++;
+    if (this.src[start] === '\n') start++;
+    return start;
+  }
+
+  parseObject(): PdfValue {
+    const token = this.nextToken();
+    if (token === undefined) throw new Error('Unexpected end of PDF data');
+    if (token instanceof PdfOperator) {
+      switch (token.op) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'null': return null;
+        default: return token;
+      }
+    }
+    return token;
+  }
+
+  // Content streams contain inline images whose binary payload must be skipped
+  parseContentToken(): PdfValue | undefined {
+    const token = this.nextToken();
+    if (token instanceof PdfOperator && token.op === 'BI') {
+      const end = this.src.indexOf('EI', this.src.indexOf('ID', this.pos));
+      this.pos = end === -1 ? this.src.length : end + 2;
+      return this.parseContentToken();
+    }
+    return token;
+  }
+
+  private nextToken(): PdfValue | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.src.length) return undefined;
+
+    const char = this.src[this.pos];
+
+    if (char === '/') return this.readName();
+    if (char === '(') return this.readLiteralString();
+    if (char === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      while (true) {
+        this.skipWhitespace();
+        if (this.pos >= this.src.length) break;
+        if (this.src[this.pos] === ']') {
+          this.pos++;
+          break;
+        }
+        items.push(this.parseObject());
+        this.collapseReference(items);
+      }
+      return items;
+    }
+    if (char === '<') {
+      if (this.src[this.pos + 1] === '<') return this.readDictionary();
+      return this.readHexString();
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      this.pos++;
+      return this.nextToken();
+    }
+
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) {
+      this.pos++;
+    }
+    const word = this.src.slice(start, this.pos);
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return parseFloat(word);
+    return new PdfOperator(word);
+  }
+
+  // "12 0 R" is parsed as number, number, operator R; fold it into a reference
+  private collapseReference(items: PdfValue[]): void {
+    const last = items[items.length - 1];
+    if (last instanceof PdfOperator && last.op === 'R' && items.length >= 3) {
+      const gen = items[items.length - 2];
+      const num = items[items.length - 3];
+      if (typeof num === 'number' && typeof gen === 'number') {
+        items.splice(items.length - 3, 3, new PdfRef(num, gen));
+      }
+    }
+  }
+
+  private readDictionary(): PdfDict {
+    this.pos += 2;
+    const dict: PdfDict = new Map();
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) break;
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+
+      const key = this.nextToken();
+      if (!(key instanceof PdfName)) continue;
+
+      const values: PdfValue[] = [this.parseObject()];
+      // Look ahead for "num gen R"
+      const save = this.pos;
+      if (typeof values[0] === 'number') {
+        try {
+          const gen = this.parseObject();
+          const r = this.parseObject();
+          if (typeof gen === 'number' && r instanceof PdfOperator && r.op === 'R') {
+            values[0] = new PdfRef(values[0], gen);
+          } else {
+            this.pos = save;
+          }
+        } catch {
+          this.pos = save;
+        }
+      }
+      dict.set(key.name, values[0]);
+    }
+
+    return dict;
+  }
+
+  private readName(): PdfName {
+    this.pos++;
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) {
+      this.pos++;
+    }
+    const raw = this.src.slice(start, this.pos);
+    return new PdfName(raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readHexString(): string {
+    this.pos++;
+    const end = this.src.indexOf('>', this.pos);
+    const hex = this.src.slice(this.pos, end === -1 ? undefined : end).replace(/[^0-9A-Fa-f]/g, '');
+    this.pos = end === -1 ? this.src.length : end + 1;
+
+    const padded = hex.length % 2 === 1 ? hex + '0' : hex;
+    let out = '';
+    for (let i = 0; i < padded.length; i += 2) {
+      out += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+    }
+    return out;
+  }
+
+  private readLiteralString(): string {
+    this.pos++;
+    let depth = 1;
+    let out = '';
+
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos++];
+
+      if (char === '\\') {
+        const next = this.src[this.pos++];
+        switch (next) {
+          case 'n': out += '\n'; break;
+          case 'r': out += '\r'; break;
+          case 't': out += '\t'; break;
+          case 'b': out += '\b'; break;
+          case 'f': out += '\f'; break;
+          case '\r':
+            if (this.src[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+                octal += this.src[this.pos++];
+              }
+              out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else {
+              out += next;
+            }
+        }
+        continue;
+      }
+
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) break;
+      }
+      out += char;
+    }
+
+    return out;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Images
+
+const IMAGE_CODECS = new Set(['DCTDecode', 'DCT', 'CCITTFaxDecode', 'CCF', 'JBIG2Decode', 'JPXDecode']);
+
+async function decodeImage(stream: PdfStream, doc: PdfDocument): Promise<Omit<PdfPageImage, 'page_number'> | null> {
+  const dict = stream.dict;
+  const width = numberOf(doc.resolve(dict.get('Width')));
+  const height = numberOf(doc.resolve(dict.get('Height')));
+  if (width <= 0 || height <= 0) return null;
+
+  const { filters, parmsList } = streamFilters(stream, doc);
+  let data: Uint8Array | null = stream.data;
+
+  for (let i = 0; i < filters.length && data; i++) {
+    const filter = filters[i];
+    if (filter && IMAGE_CODECS.has(filter)) {
+      // JPEG data goes to the OCR engine unchanged
+      if (filter === 'DCTDecode' || filter === 'DCT') {
+        return { width, height, format: 'jpeg', encoding: 'DCTDecode', data };
+      }
+      return { width, height, format: 'unsupported', encoding: filter, data: null };
+    }
+    data = await applyFilter(data, filter, parmsList[i]);
+  }
+
+  if (!data) return null;
+  const pnm = samplesToPnm(dict, data, width, height, doc);
+  return pnm
+    ? { width, height, format: 'pnm', encoding: filters[filters.length - 1] || 'none', data: pnm }
+    : { width, height, format: 'unsupported', encoding: 'colorspace', data: null };
+}
+
+// Converts raw image samples to PBM (1 bit gray), PGM (gray) or PPM (colour)
+function samplesToPnm(dict: PdfDict, data: Uint8Array, width: number, height: number, doc: PdfDocument): Uint8Array | null {
+  const isMask = doc.resolve(dict.get('ImageMask')) === true;
+  const bpc = isMask ? 1 : numberOf(doc.resolve(dict.get('BitsPerComponent'))) || 8;
+  const decode = doc.resolve(dict.get('Decode'));
+  const inverted = Array.isArray(decode) && numberOf(decode[0]) === 1 && numberOf(decode[1]) === 0;
+
+  const colorSpace = isMask ? { components: 1, palette: null } : describeColorSpace(doc.resolve(dict.get('ColorSpace')), doc);
+  if (!colorSpace) return null;
+
+  if (bpc === 1 && colorSpace.components === 1 && !colorSpace.palette) {
+    // PDF uses 1 for white (and 0 for the painted mask area), PBM uses 1 for black
+    const rowBytes = Math.ceil(width / 8);
+    const pixels = data.subarray(0, rowBytes * height);
+    const body = inverted ? pixels : pixels.map(byte => byte ^ 0xff);
+    return withPnmHeader(`P4\n${width} ${height}\n`, body);
+  }
+
+  const samples = readSamples(data, width, height, colorSpace.components, bpc);
+  const maxSample = (1 << bpc) - 1;
+
+  if (colorSpace.palette) {
+    const { palette, base } = colorSpace.palette;
+    const out = new Uint8Array(width * height * base);
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < base; c++) out[i * base + c] = palette[samples[i] * base + c] ?? 0;
+    }
+    return base === 1
+      ? withPnmHeader(`P5\n${width} ${height}\n255\n`, out)
+      : withPnmHeader(`P6\n${width} ${height}\n255\n`, toRgb(out, base));
+  }
+
+  const scaled = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const value = bpc === 16 ? samples[i] >> 8 : Math.round((samples[i] * 255) / maxSample);
+    scaled[i] = inverted ? 255 - value : value;
+  }
+
+  return colorSpace.components === 1
+    ? withPnmHeader(`P5\n${width} ${height}\n255\n`, scaled)
+    : withPnmHeader(`P6\n${width} ${height}\n255\n`, toRgb(scaled, colorSpace.components));
+}
+
+interface ColorSpaceInfo {
+  components: number;
+  palette: { palette: Uint8Array; base: number } | null;
+}
+
+function describeColorSpace(value: PdfValue | undefined, doc: PdfDocument): ColorSpaceInfo | null {
+  const name = nameOf(value) ?? (Array.isArray(value) ? nameOf(doc.resolve(value[0])) : null);
+
+  switch (name) {
+    case 'DeviceGray':
+    case 'CalGray':
+    case 'G':
+      return { components: 1, palette: null };
+    case 'DeviceRGB':
+    case 'CalRGB':
+    case 'Lab':
+    case 'RGB':
+      return { components: 3, palette: null };
+    case 'DeviceCMYK':
+    case 'CMYK':
+      return { components: 4, palette: null };
+    case 'ICCBased': {
+      const profile = Array.isArray(value) ? doc.resolve(value[1]) : undefined;
+      const n = isStream(profile) ? numberOf(doc.resolve(profile.dict.get('N'))) : 0;
+      return n === 1 || n === 3 || n === 4 ? { components: n, palette: null } : null;
+    }
+    case 'Indexed':
+    case 'I': {
+      if (!Array.isArray(value)) return null;
+      const base = describeColorSpace(doc.resolve(value[1]), doc);
+      const lookup = doc.resolve(value[3]);
+      const table = typeof lookup === 'string'
+        ? Uint8Array.from(lookup, char => char.charCodeAt(0))
+        : isStream(lookup) ? lookup.data : null;
+      if (!base || base.palette || !table) return null;
+      return { components: 1, palette: { palette: table, base: base.components } };
+    }
+    default:
+      return null;
+  }
+}
+
+// Unpacks samples of 1, 2, 4, 8 or 16 bits; rows start on a byte boundary
+function readSamples(data: Uint8Array, width: number, height: number, components: number, bpc: number): Uint16Array {
+  const perRow = width * components;
+  const rowBytes = Math.ceil((perRow * bpc) / 8);
+  const out = new Uint16Array(perRow * height);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowBytes;
+    for (let x = 0; x < perRow; x++) {
+      let value: number;
+      if (bpc === 8) {
+        value = data[rowStart + x] ?? 0;
+      } else if (bpc === 16) {
+        value = ((data[rowStart + x * 2] ?? 0) << 8) | (data[rowStart + x * 2 + 1] ?? 0);
+      } else {
+        const bit = x * bpc;
+        const byte = data[rowStart + (bit >> 3)] ?? 0;
+        value = (byte >> (8 - bpc - (bit & 7))) & ((1 << bpc) - 1);
+      }
+      out[y * perRow + x] = value;
+    }
+  }
+
+  return out;
+}
+
+function toRgb(samples: Uint8Array, components: number): Uint8Array {
+  if (components === 3) return samples;
+
+  const pixels = samples.length / components;
+  const out = new Uint8Array(pixels * 3);
+  for (let i = 0; i < pixels; i++) {
+    if (components === 4) {
+      // Naive CMYK conversion is good enough for black text on paper
+      const k = samples[i * 4 + 3];
+      out[i * 3] = 255 - Math.min(255, samples[i * 4] + k);
+      out[i * 3 + 1] = 255 - Math.min(255, samples[i * 4 + 1] + k);
+      out[i * 3 + 2] = 255 - Math.min(255, samples[i * 4 + 2] + k);
+    } else {
+      out[i * 3] = out[i * 3 + 1] = out[i * 3 + 2] = samples[i];
+    }
+  }
+  return out;
+}
+
+function withPnmHeader(header: string, body: Uint8Array): Uint8Array {
+  return concatBytes([new TextEncoder().encode(header), body]);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+function isStream(value: PdfValue | undefined): value is PdfStream {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Map) && 'dict' in value && 'data' in value;
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return value instanceof PdfName ? value.name : null;
+}
+
+function numberOf(value: PdfValue | undefined): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function stripControlChars(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 || code === 0x09) out += char;
+  }
+  return out;
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let out = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    out += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return out;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
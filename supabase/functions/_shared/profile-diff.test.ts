@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { diffProfiles, stepLabels, VersionedProfile } from './profile-diff.ts';
+
+const previous: VersionedProfile = {
+  meta_info: { auftraggeber: 'Stadt Musterstadt', vergabenummer: 'V-2026-017', kontakt: { email: 'vergabe@musterstadt.de' } },
+  leistungsumfang: { beschreibung: 'Sanierung des Kanals  in der Hauptstraße', leistungsort: 'Musterstadt' },
+  key_dates: [
+    { type: 'angebotsfrist', description: 'Angebotsfrist', date: '2026-03-12', time: '10:00' },
+    { type: 'ortstermin', description: 'Ortstermin', date: '2026-02-20', time: null }
+  ],
+  zuschlagskriterien: {
+    kriterien: [
+      { bezeichnung: 'Preis', gewichtung: 70, einheit: '%' },
+      { bezeichnung: 'Qualität', gewichtung: 30, einheit: '%' }
+    ]
+  },
+  pflichtnachweise: { liste: [{ bezeichnung: 'Handelsregisterauszug' }] },
+  preisblatt: { positionen: [{ position: '01.0010', bezeichnung: 'Boden lösen', menge: 120, einheit: 'm3' }] },
+  technische_spezifikationen: { normen: ['DIN 18300'] }
+};
+
+describe('diffProfiles', () => {
+  it('finds nothing between equal versions, whatever the spelling', () => {
+    const current: VersionedProfile = {
+      ...previous,
+      meta_info: { ...previous.meta_info, auftraggeber: 'STADT MUSTERSTADT' },
+      leistungsumfang: { ...previous.leistungsumfang, beschreibung: 'Sanierung des Kanals in der Hauptstraße ' },
+      zuschlagskriterien: { kriterien: [{ bezeichnung: 'preis', gewichtung: 70, einheit: '%' }, { bezeichnung: 'Qualität', gewichtung: 30 }] }
+    };
+
+    expect(diffProfiles(previous, current)).toEqual([]);
+  });
+
+  it('records moved deadlines with the steps that build on them', () => {
+    const changes = diffProfiles(previous, {
+      ...previous,
+      key_dates: [
+        { type: 'angebotsfrist', description: 'Angebotsfrist', date: '2026-03-19', time: '10:00' },
+        { type: 'bindefrist', description: 'Bindefrist', date: null, text: '30 Kalendertage nach Ablauf der Angebotsfrist' }
+      ]
+    });
+
+    expect(changes).toEqual([
+      {
+        field_name: 'key_dates.angebotsfrist',
+        field_label: 'Angebotsfrist',
+        change_type: 'changed',
+        old_value: '12.03.2026 10:00 Uhr',
+        new_value: '19.03.2026 10:00 Uhr',
+        summary: 'Angebotsfrist verschoben: 12.03.2026 10:00 Uhr → 19.03.2026 10:00 Uhr',
+        affected_steps: [9]
+      },
+      {
+        field_name: 'key_dates.bindefrist',
+        field_label: 'Bindefrist',
+        change_type: 'added',
+        old_value: null,
+        new_value: '30 Kalendertage nach Ablauf der Angebotsfrist',
+        summary: 'Bindefrist neu: 30 Kalendertage nach Ablauf der Angebotsfrist',
+        affected_steps: [9]
+      },
+      {
+        field_name: 'key_dates.ortstermin',
+        field_label: 'Ortstermin',
+        change_type: 'removed',
+        old_value: '20.02.2026',
+        new_value: null,
+        summary: 'Ortstermin entfällt (bisher 20.02.2026)',
+        affected_steps: [4]
+      }
+    ]);
+  });
+
+  it('records changed fields, criteria, evidence, positions and standards', () => {
+    const changes = diffProfiles(previous, {
+      meta_info: { ...previous.meta_info, vergabenummer: 'V-2026-017a', kontakt: {} },
+      leistungsumfang: { beschreibung: 'Sanierung des Kanals in der Hauptstraße und Nebenstraße', leistungsort: 'Musterstadt' },
+      key_dates: previous.key_dates,
+      zuschlagskriterien: {
+        kriterien: [
+          { bezeichnung: 'Preis', gewichtung: 60, einheit: '%' },
+          { bezeichnung: 'Qualität', gewichtung: 30, einheit: '%' },
+          { bezeichnung: 'Ausführungsfrist', gewichtung: 10, einheit: '%' }
+        ]
+      },
+      pflichtnachweise: { liste: [{ bezeichnung: 'Handelsregisterauszug' }, { bezeichnung: 'Referenzliste' }] },
+      preisblatt: { positionen: [{ position: '01.0010', bezeichnung: 'Boden lösen', menge: 150, einheit: 'm3' }] },
+      technische_spezifikationen: { normen: [] }
+    });
+
+    expect(changes.map(c => [c.field_name, c.change_type, c.summary, c.affected_steps])).toEqual([
+      ['meta_info.vergabenummer', 'changed', 'Vergabenummer geändert: V-2026-017 → V-2026-017a', [7]],
+      ['meta_info.kontakt.email', 'removed', 'E-Mail der Vergabestelle entfällt (bisher vergabe@musterstadt.de)', [4]],
+      ['leistungsumfang.beschreibung', 'changed', 'Leistungsbeschreibung geändert', [6, 7]],
+      ['zuschlagskriterien.preis', 'changed', 'Zuschlagskriterium „Preis“ neu gewichtet: 70 % → 60 %', [9]],
+      ['zuschlagskriterien.ausführungsfrist', 'added', 'Neues Zuschlagskriterium „Ausführungsfrist“ (10 %)', [9]],
+      ['pflichtnachweise.referenzliste', 'added', 'Neuer Nachweis gefordert: Referenzliste', [5]],
+      ['preisblatt.01.0010', 'changed', 'LV-Position 01.0010 geändert: Boden lösen (120 m3) → Boden lösen (150 m3)', [6]],
+      ['technische_spezifikationen.normen.din 18300', 'removed', 'Norm entfällt: DIN 18300', [5]]
+    ]);
+  });
+});
+
+describe('stepLabels', () => {
+  it('names each step once, in wizard order', () => {
+    expect(stepLabels([9, 4, 6, 4, 12])).toEqual(['Fragen', 'Kalkulation', 'Abgabe', 'Schritt 12']);
+  });
+});
@@ -0,0 +1,217 @@
+// Field-level differences between two versions of a tender profile.
+//
+// Änderungsbekanntmachungen and Bieterinformationen are uploaded as a new batch
+// of the same tender. aggregate-tender-batch compares the new consolidated data
+// with the previous version's, records every change and the wizard steps that
+// build on the changed field, so work already done there can be checked again.
+
+import { formatGermanDate } from "./german-dates.ts";
+import { criterionField, looseText } from "./consolidated-fields.ts";
+
+export type ChangeType = 'added' | 'removed' | 'changed';
+
+// Wizard steps of the frontend that use extracted data
+export const WIZARD_STEPS: Record<number, string> = {
+  4: 'Fragen',
+  5: 'Dokumente',
+  6: 'Kalkulation',
+  7: 'Bearbeitung',
+  9: 'Abgabe'
+};
+
+export interface ProfileChange {
+  // Same naming as document_conflicts.field_name
+  field_name: string;
+  field_label: string;
+  change_type: ChangeType;
+  old_value: string | null;
+  new_value: string | null;
+  // "Angebotsfrist verschoben: 12.03.2026 10:00 Uhr → 19.03.2026 10:00 Uhr"
+  summary: string;
+  affected_steps: number[];
+}
+
+interface KeyDateValue {
+  type: string;
+  description?: string;
+  date?: string | null;
+  time?: string | null;
+  text?: string;
+}
+
+// The parts of consolidated_data that are compared
+export interface VersionedProfile {
+  meta_info?: {
+    auftraggeber?: string | null;
+    vergabestelle?: string | null;
+    vergabenummer?: string | null;
+    verfahrensart?: string | null;
+    kontakt?: { email?: string | null; telefon?: string | null };
+  };
+  leistungsumfang?: { beschreibung?: string; leistungsort?: string | null; leistungszeitraum?: string | null };
+  key_dates?: KeyDateValue[];
+  zuschlagskriterien?: { kriterien?: Array<{ bezeichnung: string; gewichtung: number | null; einheit?: string }> };
+  pflichtnachweise?: { liste?: Array<{ bezeichnung: string }> };
+  preisblatt?: {
+    positionen?: Array<{ position: string; bezeichnung: string; menge: number | null; einheit: string | null }>;
+  };
+  technische_spezifikationen?: { normen?: string[] };
+}
+
+const TEXT_FIELDS: Array<{ field: string; label: string; steps: number[]; read: (p: VersionedProfile) => string | null | undefined }> = [
+  { field: 'meta_info.auftraggeber', label: 'Auftraggeber', steps: [7], read: p => p.meta_info?.auftraggeber },
+  { field: 'meta_info.vergabenummer', label: 'Vergabenummer', steps: [7], read: p => p.meta_info?.vergabenummer },
+  { field: 'meta_info.verfahrensart', label: 'Verfahrensart', steps: [7], read: p => p.meta_info?.verfahrensart },
+  { field: 'meta_info.kontakt.email', label: 'E-Mail der Vergabestelle', steps: [4], read: p => p.meta_info?.kontakt?.email },
+  { field: 'leistungsumfang.leistungsort', label: 'Leistungsort', steps: [6], read: p => p.leistungsumfang?.leistungsort },
+  {
+    field: 'leistungsumfang.leistungszeitraum',
+    label: 'Leistungszeitraum',
+    steps: [6],
+    read: p => p.leistungsumfang?.leistungszeitraum
+  }
+];
+
+// Questions are due before the Bieterfragen-Frist, the offer before the Angebotsfrist
+const KEY_DATE_STEPS: Record<string, number[]> = {
+  angebotsfrist: [9],
+  bindefrist: [9],
+  bieterfragen_frist: [4],
+  ortstermin: [4],
+  ausfuehrungsbeginn: [6]
+};
+
+export function diffProfiles(previous: VersionedProfile, current: VersionedProfile): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+
+  for (const definition of TEXT_FIELDS) {
+    const before = definition.read(previous) || null;
+    const after = definition.read(current) || null;
+    if (sameText(before, after)) continue;
+    changes.push(change(definition.field, definition.label, before, after, definition.steps,
+      `${definition.label} ${describe(before, after)}`));
+  }
+
+  // The description is too long to show; that it changed is what matters
+  const description = (profile: VersionedProfile) => (profile.leistungsumfang?.beschreibung || '').replace(/\s+/g, ' ').trim();
+  if (description(previous) !== description(current)) {
+    changes.push(change('leistungsumfang.beschreibung', 'Leistungsbeschreibung', null, null, [6, 7],
+      'Leistungsbeschreibung geändert'));
+  }
+
+  compareLists(previous.key_dates || [], current.key_dates || [], k => k.type, (before, after) => {
+    const keyDate = (after || before)!;
+    const label = keyDate.description || keyDate.type;
+    const old = before ? keyDateValue(before) : null;
+    const value = after ? keyDateValue(after) : null;
+    if (old === value) return;
+    const summary = before && after
+      ? `${label} verschoben: ${old} → ${value}`
+      : after ? `${label} neu: ${value}` : `${label} entfällt (bisher ${old})`;
+    changes.push(change(`key_dates.${keyDate.type}`, label, old, value, KEY_DATE_STEPS[keyDate.type] || [9], summary));
+  });
+
+  compareLists(previous.zuschlagskriterien?.kriterien || [], current.zuschlagskriterien?.kriterien || [],
+    k => looseText(k.bezeichnung), (before, after) => {
+      const name = (after || before)!.bezeichnung;
+      const old = before ? weightValue(before) : null;
+      const value = after ? weightValue(after) : null;
+      if (before && after && old === value) return;
+      const summary = before && after
+        ? `Zuschlagskriterium „${name}“ neu gewichtet: ${old} → ${value}`
+        : after ? `Neues Zuschlagskriterium „${name}“ (${value})` : `Zuschlagskriterium „${name}“ entfällt`;
+      changes.push(change(criterionField(name), `Zuschlagskriterium ${name}`, old, value, [9], summary));
+    });
+
+  compareLists(previous.pflichtnachweise?.liste || [], current.pflichtnachweise?.liste || [],
+    n => looseText(n.bezeichnung), (before, after) => {
+      if (before && after) return;
+      const name = (after || before)!.bezeichnung;
+      changes.push(change(`pflichtnachweise.${looseText(name)}`, name, before ? name : null, after ? name : null, [5],
+        after ? `Neuer Nachweis gefordert: ${name}` : `Nachweis entfällt: ${name}`));
+    });
+
+  compareLists(previous.preisblatt?.positionen || [], current.preisblatt?.positionen || [],
+    p => p.position, (before, after) => {
+      const position = (after || before)!;
+      const old = before ? positionValue(before) : null;
+      const value = after ? positionValue(after) : null;
+      if (old === value) return;
+      const summary = before && after
+        ? `LV-Position ${position.position} geändert: ${old} → ${value}`
+        : after ? `Neue LV-Position ${position.position}: ${value}` : `LV-Position ${position.position} entfällt`;
+      changes.push(change(`preisblatt.${position.position}`, `LV-Position ${position.position}`, old, value, [6], summary));
+    });
+
+  compareLists(previous.technische_spezifikationen?.normen || [], current.technische_spezifikationen?.normen || [],
+    norm => looseText(norm), (before, after) => {
+      if (before && after) return;
+      const norm = (after || before)!;
+      changes.push(change(`technische_spezifikationen.normen.${looseText(norm)}`, norm, before || null, after || null, [5],
+        after ? `Neue Norm gefordert: ${norm}` : `Norm entfällt: ${norm}`));
+    });
+
+  return changes;
+}
+
+// Labels of the given steps, in wizard order
+export function stepLabels(steps: number[]): string[] {
+  return [...new Set(steps)].sort((a, b) => a - b).map(step => WIZARD_STEPS[step] || `Schritt ${step}`);
+}
+
+function change(
+  fieldName: string,
+  label: string,
+  oldValue: string | null,
+  newValue: string | null,
+  steps: number[],
+  summary: string
+): ProfileChange {
+  return {
+    field_name: fieldName,
+    field_label: label,
+    change_type: oldValue === null && newValue !== null ? 'added' : newValue === null && oldValue !== null ? 'removed' : 'changed',
+    old_value: oldValue,
+    new_value: newValue,
+    summary,
+    affected_steps: steps
+  };
+}
+
+// Calls back once per key with the entry of each version (or undefined)
+function compareLists<T>(previous: T[], current: T[], key: (item: T) => string, compare: (before?: T, after?: T) => void) {
+  const before = new Map<string, T>();
+  for (const item of previous) if (!before.has(key(item))) before.set(key(item), item);
+  const after = new Map<string, T>();
+  for (const item of current) if (!after.has(key(item))) after.set(key(item), item);
+
+  for (const [itemKey, item] of after) compare(before.get(itemKey), item);
+  for (const [itemKey, item] of before) {
+    if (!after.has(itemKey)) compare(item, undefined);
+  }
+}
+
+function sameText(a: string | null, b: string | null): boolean {
+  return looseText(a || '') === looseText(b || '');
+}
+
+function describe(before: string | null, after: string | null): string {
+  if (!before) return `neu: ${after}`;
+  if (!after) return `entfällt (bisher ${before})`;
+  return `geändert: ${before} → ${after}`;
+}
+
+function keyDateValue(keyDate: KeyDateValue): string | null {
+  if (!keyDate.date) return keyDate.text || null;
+  return `${formatGermanDate(keyDate.date)}${keyDate.time ? ` ${keyDate.time} Uhr` : ''}`;
+}
+
+function weightValue(criterion: { gewichtung: number | null; einheit?: string }): string {
+  if (criterion.gewichtung === null || !Number.isFinite(criterion.gewichtung)) return 'ohne Gewichtung';
+  return `${criterion.gewichtung} ${criterion.einheit === 'Punkte' ? 'Punkte' : '%'}`;
+}
+
+function positionValue(position: { bezeichnung: string; menge: number | null; einheit: string | null }): string {
+  const quantity = position.menge !== null ? ` (${position.menge}${position.einheit ? ` ${position.einheit}` : ''})` : '';
+  return `${position.bezeichnung}${quantity}`;
+}
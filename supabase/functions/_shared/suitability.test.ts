@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { extractSuitability } from './suitability.ts';
+
+const EIGNUNG = [
+  'Der Bieter muss einen Mindestjahresumsatz von 2,5 Mio. € in den letzten drei Geschäftsjahren nachweisen.',
+  'Es sind mindestens drei vergleichbare Referenzen mit einem Auftragswert von jeweils 500.000 EUR vorzulegen, nicht älter als 5 Jahre.',
+  'Nachweis einer Betriebshaftpflichtversicherung mit einer Deckungssumme von 3 Mio. € für Personenschäden und 1.000.000 € für Sachschäden.',
+  'Das Unternehmen beschäftigt durchschnittlich 25 gewerbliche Mitarbeiter.',
+  'Zertifizierung nach DIN EN ISO 9001:2015 sowie SCC** Version 2011.'
+].join('\n');
+
+describe('extractSuitability', () => {
+  const requirements = extractSuitability(EIGNUNG).map(match => match.requirement);
+
+  it('reads each kind of threshold as a typed requirement', () => {
+    expect(requirements.map(r => [r.art, r.bezeichnung, r.wert, r.einheit])).toEqual([
+      ['umsatz', 'Mindestjahresumsatz', 2500000, 'EUR'],
+      ['referenzen', 'Referenzen', 3, 'Anzahl'],
+      ['versicherung', 'Betriebshaftpflicht', 3000000, 'EUR'],
+      ['versicherung', 'Betriebshaftpflicht', 1000000, 'EUR'],
+      ['personal', 'Mindestanzahl Beschäftigte', 25, 'Personen'],
+      ['zertifikat', 'ISO 9001', null, null],
+      ['zertifikat', 'SCC', null, null]
+    ]);
+  });
+
+  it('keeps the period, contract value, cover and version of a requirement', () => {
+    expect(requirements[0].jahre).toBe(3);
+    expect(requirements[1]).toMatchObject({ jahre: 5, auftragswert: 500000 });
+    expect(requirements.slice(2, 4).map(r => r.deckung)).toEqual(['Personenschäden', 'Sachschäden']);
+    expect(requirements.slice(5).map(r => [r.norm, r.version])).toEqual([['ISO 9001', '2015'], ['SCC', '2011']]);
+  });
+
+  it('points at the sentence each requirement was read from', () => {
+    const matches = extractSuitability(EIGNUNG);
+    const turnover = matches[0];
+    const staff = matches[4];
+
+    expect(EIGNUNG.slice(turnover.index, turnover.index + turnover.length)).toBe(turnover.requirement.text);
+    expect(staff.requirement.text).toBe('Das Unternehmen beschäftigt durchschnittlich 25 gewerbliche Mitarbeiter.');
+  });
+
+  it('only reads turnover given as a minimum', () => {
+    expect(extractSuitability('Angaben zum Umsatz der letzten drei Jahre, z. B. 1,2 Mio. €.')).toEqual([]);
+  });
+
+  it('asks for each certificate once', () => {
+    const certificates = extractSuitability('Zertifikat nach ISO 9001 ist vorzulegen. Die ISO 9001 muss gültig sein.');
+
+    expect(certificates).toHaveLength(1);
+    expect(certificates[0].requirement).toMatchObject({ norm: 'ISO 9001', version: null });
+  });
+});
@@ -0,0 +1,188 @@
+// Mindestanforderungen an die Eignung: the thresholds a bidder has to meet.
+//
+// aggregate-tender-batch reads them from the Eignung and Nachweise sections as
+// typed requirements (minimum turnover over N years, number and age of
+// references, insurance sums, staff counts, certificates with their version).
+// The frontend compares them with the company profile to count the
+// Muss-Kriterien a bidder fulfils.
+
+import { parseGermanNumber } from "./tables.ts";
+
+export type SuitabilityKind = 'umsatz' | 'referenzen' | 'versicherung' | 'personal' | 'zertifikat';
+
+export interface SuitabilityRequirement {
+  art: SuitabilityKind;
+  bezeichnung: string;
+  // Amount in EUR, number of references or employees; null for certificates
+  wert: number | null;
+  einheit: 'EUR' | 'Anzahl' | 'Personen' | null;
+  // Turnover and staff: averaged over the last N years; references: at most N years old
+  jahre: number | null;
+  // References: minimum contract value in EUR
+  auftragswert: number | null;
+  // Insurance: what the sum covers, e.g. "Personenschäden"
+  deckung: string | null;
+  // Certificates: standard and required version, e.g. "ISO 9001" and "2015"
+  norm: string | null;
+  version: string | null;
+  // The sentence the requirement was read from
+  text: string;
+}
+
+// A requirement with its position in the searched text
+export interface SuitabilityMatch {
+  requirement: SuitabilityRequirement;
+  index: number;
+  length: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1, eine: 1, einer: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10
+};
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const MONEY = /(\d{1,3}(?:\.\d{3})+(?:,\d+)?|\d+(?:,\d+)?)\s*(Mio\.?|Millionen|Mrd\.?|Milliarden|Tsd\.?|T)?\s*(?:€|EUR\b|Euro\b)/gi;
+const MINIMUM = /mindestens|mind\.|wenigstens|nicht weniger als|mindest/i;
+const YEARS = new RegExp(`(?:letzten|vergangenen|zurückliegenden)\\s+${COUNT}\\s*(?:\\(\\d+\\)\\s*)?(?:abgeschlossenen\\s+)?(?:Geschäfts|Kalender)?jahr`, 'i');
+const MAX_AGE = new RegExp(`nicht\\s+älter\\s+als\\s+${COUNT}\\s+Jahr|aus\\s+den\\s+(?:letzten|vergangenen)\\s+${COUNT}\\s+Jahr`, 'i');
+
+// Management system standards and other certificates asked for in tenders
+const CERTIFICATES: Array<{ norm: string; pattern: RegExp }> = [
+  { norm: 'ISO 9001', pattern: /(?:DIN\s+)?(?:EN\s+)?ISO\s*9001(?:\s*:\s*(\d{4}))?/i },
+  { norm: 'ISO 14001', pattern: /(?:DIN\s+)?(?:EN\s+)?ISO\s*14001(?:\s*:\s*(\d{4}))?/i },
+  { norm: 'ISO 45001', pattern: /(?:DIN\s+)?(?:EN\s+)?ISO\s*45001(?:\s*:\s*(\d{4}))?/i },
+  { norm: 'ISO 50001', pattern: /(?:DIN\s+)?(?:EN\s+)?ISO\s*50001(?:\s*:\s*(\d{4}))?/i },
+  { norm: 'ISO 27001', pattern: /(?:DIN\s+)?(?:EN\s+)?ISO(?:\/IEC)?\s*27001(?:\s*:\s*(\d{4}))?/i },
+  { norm: 'SCC', pattern: /\bSCC(?:P|\*{1,2})?(?!\w)(?:\s+(?:Version|Vers\.)\s*(\d{4}))?/ },
+  { norm: 'Entsorgungsfachbetrieb', pattern: /Entsorgungsfachbetrieb/i }
+];
+
+// Typed thresholds in the text, in document order
+export function extractSuitability(text: string): SuitabilityMatch[] {
+  const matches: SuitabilityMatch[] = [];
+  const certificates = new Set<string>();
+
+  for (const { sentence, index } of sentences(text)) {
+    const found: SuitabilityRequirement[] = [];
+
+    if (/umsatz/i.test(sentence) && MINIMUM.test(sentence)) {
+      const amount = firstMoney(sentence);
+      if (amount !== null) {
+        found.push(requirement('umsatz', 'Mindestjahresumsatz', sentence, {
+          wert: amount, einheit: 'EUR', jahre: countIn(sentence, YEARS)
+        }));
+      }
+    }
+
+    if (/referenz/i.test(sentence)) {
+      const count = sentence.match(new RegExp(`(?:mindestens|mind\\.|wenigstens)\\s+${COUNT}\\s*(?:\\(\\d+\\)\\s*)?(?:\\w+\\s+){0,3}?Referenz`, 'i'));
+      if (count) {
+        const amounts = moneyIn(sentence);
+        found.push(requirement('referenzen', 'Referenzen', sentence, {
+          wert: toCount(count[1]), einheit: 'Anzahl', jahre: countIn(sentence, MAX_AGE),
+          auftragswert: amounts.length > 0 ? amounts[0].value : null
+        }));
+      }
+    }
+
+    const insurance = sentence.match(/(Betriebs|Berufs|Umwelt|Produkt|Vermögensschaden)?haftpflicht/i);
+    if (insurance && /deckung|versicher/i.test(sentence)) {
+      const kind = insurance[1] ? `${capitalize(insurance[1])}haftpflicht` : 'Haftpflicht';
+      for (const { value, end } of moneyIn(sentence)) {
+        const cover = sentence.substring(end).match(/^\s*(?:je\s+Schadensfall\s+)?(?:für|pro|bei)\s+([A-ZÄÖÜ][\wäöüß-]*(?:\s+(?:und|bzw\.|oder)\s+[A-ZÄÖÜ][\wäöüß-]*)*)/);
+        found.push(requirement('versicherung', kind, sentence, {
+          wert: value, einheit: 'EUR', deckung: cover ? cover[1] : null
+        }));
+      }
+    }
+
+    const staff = sentence.match(/(?:mindestens|mind\.|wenigstens|durchschnittlich)\s+(\d+)\s+(?:\w+\s+){0,2}?(?:Mitarbeiter|Beschäftigte|Arbeitnehmer|Fachkräfte|Personen)/i);
+    if (staff) {
+      found.push(requirement('personal', 'Mindestanzahl Beschäftigte', sentence, {
+        wert: Number(staff[1]), einheit: 'Personen', jahre: countIn(sentence, YEARS)
+      }));
+    }
+
+    for (const { norm, pattern } of CERTIFICATES) {
+      const certificate = sentence.match(pattern);
+      if (!certificate || certificates.has(norm)) continue;
+      certificates.add(norm);
+      found.push(requirement('zertifikat', norm, sentence, { norm, version: certificate[1] || null }));
+    }
+
+    for (const item of found) matches.push({ requirement: item, index, length: sentence.length });
+  }
+
+  return matches;
+}
+
+function requirement(
+  art: SuitabilityKind,
+  bezeichnung: string,
+  text: string,
+  values: Partial<SuitabilityRequirement>
+): SuitabilityRequirement {
+  return {
+    art,
+    bezeichnung,
+    wert: null,
+    einheit: null,
+    jahre: null,
+    auftragswert: null,
+    deckung: null,
+    norm: null,
+    version: null,
+    ...values,
+    text: text.trim().substring(0, 300)
+  };
+}
+
+// Sentences and list items with their offset; abbreviations such as "Mio." do not end a sentence
+function sentences(text: string): Array<{ sentence: string; index: number }> {
+  const result: Array<{ sentence: string; index: number }> = [];
+  const boundary = /(?<!\b(?:Mio|Mrd|Tsd|ca|Nr|bzw|inkl|max|mind|gem|vgl|z\.\s?B|u\.\s?a|Abs|Ziff|S|Art|Pkt))[.;]\s+(?=[A-ZÄÖÜ(])|\n+/g;
+  let start = 0;
+  for (const match of text.matchAll(boundary)) {
+    const end = match.index! + 1;
+    if (end > start) result.push({ sentence: text.substring(start, end), index: start });
+    start = match.index! + match[0].length;
+  }
+  if (start < text.length) result.push({ sentence: text.substring(start), index: start });
+  return result.filter(part => part.sentence.trim().length > 0);
+}
+
+function moneyIn(sentence: string): Array<{ value: number; end: number }> {
+  const amounts: Array<{ value: number; end: number }> = [];
+  for (const match of sentence.matchAll(MONEY)) {
+    const base = parseGermanNumber(match[1]);
+    if (base === null) continue;
+    const scale = match[2] || '';
+    const factor = /^(Mrd|Milliarden)/i.test(scale) ? 1e9 : /^(Mio|Millionen)/i.test(scale) ? 1e6 : /^T/i.test(scale) ? 1e3 : 1;
+    amounts.push({ value: Math.round(base * factor), end: match.index! + match[0].length });
+  }
+  return amounts;
+}
+
+function firstMoney(sentence: string): number | null {
+  const amounts = moneyIn(sentence);
+  return amounts.length > 0 ? amounts[0].value : null;
+}
+
+// The first number the pattern captures, as digits or as a word
+function countIn(sentence: string, pattern: RegExp): number | null {
+  const match = sentence.match(pattern);
+  if (!match) return null;
+  const captured = match.slice(1).find(group => group !== undefined);
+  return captured ? toCount(captured) : null;
+}
+
+function toCount(value: string): number | null {
+  const lower = value.toLowerCase();
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower];
+  const number = Number(lower);
+  return Number.isFinite(number) ? number : null;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
@@ -0,0 +1,123 @@
+// Table structure for the document pipeline.
+//
+// process-tender-documents detects tables during normalization and stores them
+// as segments with their rows and cells in metadata.table. aggregate-tender-batch
+// reads criteria weights, price-sheet positions and deadlines from those cells.
+// Cells come from DOCX/XLSX tables directly, from tab-separated PDF runs
+// (see pdf-text.ts) or from aligned columns in plain text.
+
+export interface TableData {
+  // Title rows above the header, e.g. "Preisblatt Los 1" in the first sheet row
+  caption?: string;
+  // Row that labels the columns, null for headerless tables
+  header: string[] | null;
+  rows: string[][];
+}
+
+// Column labels of German tender tables; a first row made of these is a header
+const HEADER_PATTERN = /^(pos|position|oz|ordnungszahl|nr|lfd|kriteri|zuschlagskriteri|unterkriteri|gewicht|wichtung|punkte|anteil|bezeichnung|beschreibung|leistung|kurztext|menge|anzahl|einheit|me\b|ep\b|gp\b|preis|gesamt|frist|termin|datum|uhrzeit|ereignis|vorgang|erläuterung|hinweis)/i;
+
+const DATE_PATTERN = /\b(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4}|\d{2})\b/;
+const TIME_PATTERN = /\b(\d{1,2})[:.](\d{2})\s*Uhr\b/i;
+
+// Splits a text line into cells: tabs from PDF column gaps, pipes, or runs of spaces
+export function splitCells(text: string): string[] | null {
+  let cells: string[];
+  if (text.includes('\t')) {
+    cells = text.split('\t');
+  } else if (/\s\|\s/.test(text)) {
+    cells = text.replace(/^\s*\||\|\s*$/g, '').split('|');
+  } else if (/\S {3,}\S/.test(text)) {
+    cells = text.split(/ {3,}/);
+  } else {
+    return null;
+  }
+
+  cells = cells.map(cell => cell.trim()).filter(cell => cell.length > 0);
+  return cells.length >= 2 ? cells : null;
+}
+
+// Spreadsheets often start with a few title rows before the column labels
+const MAX_CAPTION_ROWS = 4;
+
+export function buildTable(rows: string[][]): TableData {
+  for (let index = 0; index <= MAX_CAPTION_ROWS && index < rows.length - 1; index++) {
+    const filled = rows[index].filter(cell => cell.trim().length > 0);
+    if (filled.length < 2) continue;
+    if (!isHeaderRow(rows[index], rows.slice(index + 1))) break;
+
+    const caption = rows.slice(0, index).map(row => row.filter(Boolean).join(' ')).join(' ').trim();
+    return {
+      ...(caption ? { caption } : {}),
+      header: rows[index],
+      rows: rows.slice(index + 1)
+    };
+  }
+  return { header: null, rows };
+}
+
+function isHeaderRow(first: string[], rest: string[][]): boolean {
+  return looksLikeHeader(first) || (
+    first.some(cell => cell.trim()) &&
+    !first.some(isNumericCell) &&
+    rest.some(row => row.some(isNumericCell))
+  );
+}
+
+// Column labels only, e.g. "Pos. | Bezeichnung | Menge"
+export function looksLikeHeader(cells: string[]): boolean {
+  const labels = cells.filter(cell => cell.trim().length > 0);
+  return labels.length > 0 &&
+    !labels.some(isNumericCell) &&
+    labels.some(cell => HEADER_PATTERN.test(cell.trim()));
+}
+
+export function isNumericCell(text: string): boolean {
+  return /\d/.test(text) && /^[\d.,\s%€+-]+(eur|euro)?$/i.test(text.trim());
+}
+
+export function tableToText(table: TableData): string {
+  return [...(table.caption ? [[table.caption]] : []), ...(table.header ? [table.header] : []), ...table.rows]
+    .map(row => row.join(' | '))
+    .join('\n');
+}
+
+// Index of the first header cell matching the pattern, -1 if none
+export function findColumn(header: string[] | null, pattern: RegExp, exclude: number[] = []): number {
+  if (!header) return -1;
+  return header.findIndex((cell, index) => !exclude.includes(index) && pattern.test(cell.trim()));
+}
+
+// German number formats: "1.234,56 €", "60 %", "1,5", "1.250" (thousands)
+export function parseGermanNumber(text: string | undefined): number | null {
+  if (!text) return null;
+  const cleaned = text.replace(/[€%]|eur(o)?|punkte?|pkt\.?/gi, '').replace(/\s/g, '');
+  if (!/^[+-]?[\d.,]+$/.test(cleaned)) return null;
+
+  let normalized = cleaned;
+  if (cleaned.includes(',')) {
+    normalized = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    normalized = cleaned.replace(/\./g, '');
+  }
+
+  const value = parseFloat(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function findDate(text: string): { datum: string; uhrzeit: string | null } | null {
+  const date = text.match(DATE_PATTERN);
+  if (!date) return null;
+
+  const year = date[3].length === 2 ? `20${date[3]}` : date[3];
+  return {
+    datum: `${date[1].padStart(2, '0')}.${date[2].padStart(2, '0')}.${year}`,
+    uhrzeit: findTime(text)
+  };
+}
+
+// "10:00 Uhr" / "10.00 Uhr" as HH:MM
+export function findTime(text: string): string | null {
+  const time = text.match(TIME_PATTERN);
+  return time ? `${time[1].padStart(2, '0')}:${time[2]}` : null;
+}
@@ -0,0 +1,121 @@
+// Who may work on which batch.
+//
+// The worker functions use the service role and bypass row level security, so
+// requests from the app are checked here against the caller's membership in
+// the organization of the batch, or the one named in the request. Requests
+// with the service role key come from other functions and are let through.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type OrgRole = "admin" | "kalkulator" | "bid_manager" | "viewer";
+
+// Viewers may read tenders but not change them
+export const EDITOR_ROLES: OrgRole[] = ["admin", "bid_manager", "kalkulator"];
+
+export class AccessError extends Error {
+  constructor(public status: 401 | 403 | 404, message: string) {
+    super(message);
+  }
+}
+
+export function bearerToken(req: Request): string {
+  return (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
+}
+
+// The signed-in user behind the request, null for the service role
+export async function requireUser(supabase: SupabaseClient, req: Request, serviceKey: string): Promise<string | null> {
+  const token = bearerToken(req);
+  if (token === serviceKey) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new AccessError(401, "Sign in required");
+  }
+  return data.user.id;
+}
+
+export async function assertBatchAccess(
+  supabase: SupabaseClient,
+  req: Request,
+  serviceKey: string,
+  batchId: string | undefined,
+  roles: OrgRole[] = EDITOR_ROLES
+): Promise<void> {
+  const userId = await requireUser(supabase, req, serviceKey);
+  // Missing ids are reported by the function's own validation
+  if (userId === null || !batchId) return;
+
+  const { data: batch } = await supabase
+    .from("tender_upload_batches")
+    .select("org_id")
+    .eq("id", batchId)
+    .maybeSingle();
+
+  // Batches of other organizations do not exist for the caller
+  await assertMembership(supabase, userId, batch?.org_id, roles, `Batch ${batchId} not found`);
+}
+
+export async function assertOrgAccess(
+  supabase: SupabaseClient,
+  req: Request,
+  serviceKey: string,
+  orgId: string | undefined,
+  roles: OrgRole[] = EDITOR_ROLES
+): Promise<void> {
+  const userId = await requireUser(supabase, req, serviceKey);
+  if (userId === null || !orgId) return;
+
+  await assertMembership(supabase, userId, orgId, roles, `Organization ${orgId} not found`);
+}
+
+async function assertMembership(
+  supabase: SupabaseClient,
+  userId: string,
+  orgId: string | undefined,
+  roles: OrgRole[],
+  notFound: string
+): Promise<void> {
+  const { data: membership } = orgId
+    ? await supabase
+      .from("memberships")
+      .select("role")
+      .eq("org_id", orgId)
+      .eq("user_id", userId)
+      .maybeSingle()
+    : { data: null };
+
+  if (!membership) {
+    throw new AccessError(404, notFound);
+  }
+  if (!roles.includes(membership.role as OrgRole)) {
+    throw new AccessError(403, "Your role may not change this tender");
+  }
+}
+
+export interface BatchUpload {
+  file_path: string;
+  mime_type: string;
+  original_filename: string;
+}
+
+// The upload row of a file in the batch. Path and type are read from it rather
+// than taken from the request, so a caller cannot point a worker at a file or
+// row of another batch.
+export async function loadBatchUpload(
+  supabase: SupabaseClient,
+  batchId: string,
+  fileId: string
+): Promise<BatchUpload> {
+  const { data, error } = await supabase
+    .from("tender_file_uploads")
+    .select("file_path, mime_type, original_filename")
+    .eq("id", fileId)
+    .eq("upload_batch_id", batchId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new AccessError(404, `File ${fileId} not found in batch ${batchId}`);
+  }
+  return data as BatchUpload;
+}
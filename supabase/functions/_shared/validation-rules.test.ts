@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { BASELINE_RULES, resolvePath, ruleDefinitionError, runValidationRules, ValidationRule } from './validation-rules.ts';
+import { normalizeCriteria } from './evaluation-criteria.ts';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function rule(overrides: Partial<ValidationRule>): ValidationRule {
+  return {
+    name: 'Regel',
+    field_path: 'meta_info.auftraggeber',
+    rule_type: 'required',
+    params: {},
+    severity: 'error',
+    procurement_types: [],
+    message: 'Regel verletzt',
+    ...overrides
+  };
+}
+
+describe('resolvePath', () => {
+  const data = {
+    key_dates: [
+      { type: 'angebotsfrist', date: '2026-04-01' },
+      { type: 'bindefrist', date: '2026-06-30' }
+    ]
+  };
+
+  it('fans out over arrays and filters by field', () => {
+    expect(resolvePath(data, 'key_dates[].type')).toEqual(['angebotsfrist', 'bindefrist']);
+    expect(resolvePath(data, 'key_dates[type=bindefrist].date')).toEqual(['2026-06-30']);
+  });
+
+  it('returns undefined for missing fields and nothing for missing arrays', () => {
+    expect(resolvePath(data, 'meta_info.auftraggeber')).toEqual([]);
+    expect(resolvePath({ meta_info: {} }, 'meta_info.auftraggeber')).toEqual([undefined]);
+    expect(resolvePath({}, 'pflichtnachweise.liste[].bezeichnung')).toEqual([]);
+  });
+});
+
+describe('runValidationRules', () => {
+  it('reports a missing required field', () => {
+    const [result] = runValidationRules({ meta_info: { auftraggeber: ' ' } }, [rule({})], null, NOW);
+
+    expect(result).toMatchObject({ field_path: 'meta_info.auftraggeber', is_valid: false, actual_value: null, severity: 'error' });
+  });
+
+  it('only runs rules of the tender’s Vergabeordnung', () => {
+    const vobRule = rule({ procurement_types: ['VOB/A'] });
+
+    expect(runValidationRules({}, [vobRule], 'VOB/A', NOW)).toHaveLength(1);
+    expect(runValidationRules({}, [vobRule], 'UVgO', NOW)).toHaveLength(0);
+    expect(runValidationRules({}, [vobRule], null, NOW)).toHaveLength(0);
+  });
+
+  it('checks regex, enum and minimum length against the values that are there', () => {
+    const data = {
+      meta_info: { kontakt: { email: 'vergabe@stadt' }, verfahrensart: 'Offenes Verfahren' },
+      leistungsumfang: { beschreibung: 'Kurz' }
+    };
+    const rules = [
+      rule({ field_path: 'meta_info.kontakt.email', rule_type: 'regex', params: { pattern: '^[^@\\s]+@[^@\\s]+\\.[a-z]{2,}$', flags: 'i' } }),
+      rule({ field_path: 'meta_info.verfahrensart', rule_type: 'enum', params: { values: ['offenes Verfahren'] } }),
+      rule({ field_path: 'leistungsumfang.beschreibung', rule_type: 'min_length', params: { min: 50 } }),
+      rule({ field_path: 'meta_info.vergabenummer', rule_type: 'regex', params: { pattern: '^\\d+$' } })
+    ];
+
+    expect(runValidationRules(data, rules, null, NOW).map(r => r.actual_value)).toEqual(['vergabe@stadt', 'Kurz']);
+  });
+
+  it('flags dates that have passed, German dates included', () => {
+    const data = { key_dates: [{ type: 'angebotsfrist', date: '15.02.2026' }, { type: 'bindefrist', date: '2026-06-30' }] };
+    const results = runValidationRules(data, [rule({ field_path: 'key_dates[].date', rule_type: 'date_in_future' })], null, NOW);
+
+    expect(results.map(r => r.actual_value)).toEqual(['15.02.2026']);
+  });
+
+  it('compares sums with a tolerance', () => {
+    const sumRule = rule({ field_path: 'kriterien[].gewichtung', rule_type: 'sum_equals_100' });
+
+    expect(runValidationRules({ kriterien: [{ gewichtung: 33.3 }, { gewichtung: 66.9 }] }, [sumRule], null, NOW)).toHaveLength(0);
+    expect(runValidationRules({ kriterien: [{ gewichtung: 60 }, { gewichtung: 30 }] }, [sumRule], null, NOW)[0].actual_value).toBe('90');
+  });
+
+  it('checks the weights per level through the criteria check', () => {
+    const weightRule = rule({ field_path: 'zuschlagskriterien.pruefung[].ok', rule_type: 'enum', params: { values: ['true'] }, severity: 'warning' });
+    const points = normalizeCriteria([
+      { bezeichnung: 'Preis', gewichtung: 600, einheit: 'Punkte', beschreibung: null },
+      { bezeichnung: 'Qualität', gewichtung: 400, einheit: 'Punkte', beschreibung: null },
+      { bezeichnung: 'Konzept', gewichtung: 400, einheit: 'Punkte', beschreibung: null, oberkriterium: 'Qualität' }
+    ]);
+    const percent = normalizeCriteria([
+      { bezeichnung: 'Preis', gewichtung: 60, beschreibung: null },
+      { bezeichnung: 'Qualität', gewichtung: 30, beschreibung: null }
+    ]);
+
+    expect(runValidationRules({ zuschlagskriterien: points }, [weightRule], null, NOW)).toHaveLength(0);
+    expect(runValidationRules({ zuschlagskriterien: percent }, [weightRule], null, NOW)).toHaveLength(1);
+  });
+
+  it('passes a complete profile through the baseline rules', () => {
+    const data = {
+      meta_info: { auftraggeber: 'Stadt Musterstadt', kontakt: { email: 'vergabe@musterstadt.de' } },
+      leistungsumfang: { beschreibung: 'Sanierung der Kanalisation im Stadtgebiet, Haltungslänge rund 2,4 km, DN 300 bis DN 800.' },
+      pflichtnachweise: { liste: [{ bezeichnung: 'Handelsregisterauszug' }] }
+    };
+
+    expect(runValidationRules(data, BASELINE_RULES, null, NOW)).toEqual([]);
+    expect(runValidationRules({}, BASELINE_RULES, null, NOW)).toHaveLength(BASELINE_RULES.length);
+  });
+});
+
+describe('ruleDefinitionError', () => {
+  it('accepts the baseline rules', () => {
+    expect(BASELINE_RULES.map(ruleDefinitionError)).toEqual(BASELINE_RULES.map(() => null));
+  });
+
+  it('rejects rules that cannot be run', () => {
+    expect(ruleDefinitionError(rule({ field_path: 'meta_info..auftraggeber' }))).toMatch(/field_path/);
+    expect(ruleDefinitionError(rule({ rule_type: 'regex', params: { pattern: '(' } }))).toMatch(/Invalid pattern/);
+    expect(ruleDefinitionError(rule({ rule_type: 'enum', params: {} }))).toBe('enum rules need params.values');
+    expect(ruleDefinitionError(rule({ rule_type: 'min_length', params: { min: -1 } }))).toMatch(/min_length/);
+    expect(ruleDefinitionError({ ...rule({}), procurement_types: ['EU' as never] })).toMatch(/procurement_types/);
+  });
+});
@@ -0,0 +1,265 @@
+// Declarative validation rules for consolidated tender profiles.
+//
+// Rules live in the validation_rules table so admins can add them per
+// Vergabeordnung (VOB/A, UVgO, VgV) without a deploy. aggregate-tender-batch
+// runs the active rules against consolidated_data and writes every failed
+// rule to extraction_validations; tender-api checks rule definitions before
+// storing them.
+//
+// Field paths are dotted paths into consolidated_data. "liste[]" stands for
+// every element of an array, "key_dates[type=angebotsfrist]" for the elements
+// whose field has the given value.
+
+import { parseGermanDates } from "./german-dates.ts";
+
+export const RULE_TYPES = ['required', 'regex', 'min_length', 'date_in_future', 'sum_equals_100', 'enum'] as const;
+export type RuleType = typeof RULE_TYPES[number];
+
+export const SEVERITIES = ['error', 'warning', 'info'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export const PROCUREMENT_TYPES = ['VOB/A', 'UVgO', 'VgV'] as const;
+export type ProcurementType = typeof PROCUREMENT_TYPES[number];
+
+export interface RuleParams {
+  // regex
+  pattern?: string;
+  flags?: string;
+  // min_length: characters of a text, elements of a list
+  min?: number;
+  // enum, compared without regard to case
+  values?: string[];
+  // sum_equals_100: allowed deviation, default 0.5
+  tolerance?: number;
+}
+
+export interface ValidationRule {
+  id?: string;
+  name: string;
+  field_path: string;
+  rule_type: RuleType;
+  params: RuleParams;
+  severity: Severity;
+  // Empty: applies to every tender
+  procurement_types: ProcurementType[];
+  message: string;
+}
+
+// Row of extraction_validations
+export interface ValidationResult {
+  rule_id: string | null;
+  field_path: string;
+  field_type: string;
+  is_required: boolean;
+  is_valid: boolean;
+  validation_rule: RuleType;
+  severity: Severity;
+  error_message: string;
+  actual_value: string | null;
+}
+
+// Used when the rule table cannot be read: the checks the pipeline always made
+export const BASELINE_RULES: ValidationRule[] = [
+  {
+    name: 'Auftraggeber vorhanden',
+    field_path: 'meta_info.auftraggeber',
+    rule_type: 'required',
+    params: {},
+    severity: 'error',
+    procurement_types: [],
+    message: 'Auftraggeber nicht gefunden'
+  },
+  {
+    name: 'Kontakt vorhanden',
+    field_path: 'meta_info.kontakt',
+    rule_type: 'required',
+    params: {},
+    severity: 'warning',
+    procurement_types: [],
+    message: 'Keine Kontaktinformationen gefunden'
+  },
+  {
+    name: 'Leistungsbeschreibung vorhanden',
+    field_path: 'leistungsumfang.beschreibung',
+    rule_type: 'min_length',
+    params: { min: 50 },
+    severity: 'error',
+    procurement_types: [],
+    message: 'Leistungsbeschreibung zu kurz oder nicht vorhanden'
+  },
+  {
+    name: 'Pflichtnachweise erkannt',
+    field_path: 'pflichtnachweise.liste',
+    rule_type: 'min_length',
+    params: { min: 1 },
+    severity: 'warning',
+    procurement_types: [],
+    message: 'Keine Pflichtnachweise identifiziert'
+  }
+];
+
+const FIELD_TYPES: Record<RuleType, string> = {
+  required: 'any',
+  regex: 'string',
+  min_length: 'string',
+  date_in_future: 'date',
+  sum_equals_100: 'number',
+  enum: 'string'
+};
+
+// Runs the rules that apply to the tender's Vergabeordnung; returns the failed ones
+export function runValidationRules(
+  data: unknown,
+  rules: ValidationRule[],
+  procurementType: string | null,
+  now = new Date()
+): ValidationResult[] {
+  const results: ValidationResult[] = [];
+
+  for (const rule of rules) {
+    const applies = rule.procurement_types.length === 0 ||
+      (procurementType !== null && rule.procurement_types.includes(procurementType as ProcurementType));
+    if (!applies) continue;
+
+    const values = resolvePath(data, rule.field_path);
+    const failed = failingValue(rule, values, now);
+    if (failed === undefined) continue;
+
+    results.push({
+      rule_id: rule.id || null,
+      field_path: rule.field_path,
+      field_type: Array.isArray(values[0]) ? 'array' : FIELD_TYPES[rule.rule_type],
+      is_required: rule.rule_type === 'required' || rule.severity === 'error',
+      is_valid: false,
+      validation_rule: rule.rule_type,
+      severity: rule.severity,
+      error_message: rule.message,
+      actual_value: failed === null ? null : String(failed).substring(0, 200)
+    });
+  }
+
+  return results;
+}
+
+// What is wrong with a rule definition, null if it can be run
+export function ruleDefinitionError(rule: Partial<ValidationRule>): string | null {
+  if (!rule.name?.trim()) return 'name is required';
+  if (!rule.field_path || !rule.field_path.split('.').every(part => /^\w+(\[[^\]]*\])?$/.test(part))) {
+    return 'field_path must be a dotted path such as meta_info.auftraggeber or key_dates[type=angebotsfrist].date';
+  }
+  if (!rule.rule_type || !RULE_TYPES.includes(rule.rule_type)) return `rule_type must be one of ${RULE_TYPES.join(', ')}`;
+  if (!rule.severity || !SEVERITIES.includes(rule.severity)) return `severity must be one of ${SEVERITIES.join(', ')}`;
+  if (!rule.message?.trim()) return 'message is required';
+  if ((rule.procurement_types || []).some(type => !PROCUREMENT_TYPES.includes(type))) {
+    return `procurement_types may contain ${PROCUREMENT_TYPES.join(', ')}`;
+  }
+
+  const params = rule.params || {};
+  if (rule.rule_type === 'regex') {
+    if (!params.pattern) return 'regex rules need params.pattern';
+    try {
+      new RegExp(params.pattern, params.flags);
+    } catch (error) {
+      return `Invalid pattern: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+  if (rule.rule_type === 'min_length' && !(typeof params.min === 'number' && params.min >= 0)) {
+    return 'min_length rules need a non-negative params.min';
+  }
+  if (rule.rule_type === 'enum' && !(Array.isArray(params.values) && params.values.length > 0)) {
+    return 'enum rules need params.values';
+  }
+  return null;
+}
+
+// The offending value, null when the field is missing, undefined when the rule holds.
+// Only 'required' and 'min_length' fail on a missing field; the others check what is there.
+function failingValue(rule: ValidationRule, values: unknown[], now: Date): unknown {
+  const present = values.filter(value => !isEmpty(value));
+
+  switch (rule.rule_type) {
+    case 'required':
+      return present.length > 0 ? undefined : null;
+
+    case 'min_length': {
+      const min = rule.params.min ?? 1;
+      if (present.length === 0) return min > 0 ? null : undefined;
+      return present.find(value => lengthOf(value) < min);
+    }
+
+    case 'regex': {
+      const pattern = new RegExp(rule.params.pattern || '', rule.params.flags);
+      return present.find(value => !pattern.test(String(value)));
+    }
+
+    case 'enum': {
+      const allowed = (rule.params.values || []).map(value => value.toLowerCase());
+      return present.find(value => !allowed.includes(String(value).toLowerCase()));
+    }
+
+    case 'date_in_future':
+      return present.find(value => {
+        const time = toTime(value);
+        return time !== null && time <= now.getTime();
+      });
+
+    case 'sum_equals_100': {
+      const numbers = present.map(Number).filter(Number.isFinite);
+      if (numbers.length === 0) return undefined;
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return Math.abs(sum - 100) <= (rule.params.tolerance ?? 0.5) ? undefined : Math.round(sum * 100) / 100;
+    }
+  }
+}
+
+// Values at the path; arrays selected with [] or [field=value] fan out
+export function resolvePath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const part of path.split('.')) {
+    const match = part.match(/^(\w+)(?:\[([^\]]*)\])?$/);
+    if (!match) return [];
+    const [, key, selector] = match;
+
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      const child = (value as Record<string, unknown>)[key];
+      if (selector === undefined) {
+        next.push(child);
+      } else if (Array.isArray(child)) {
+        const [field, expected] = selector.split('=');
+        next.push(...(selector === ''
+          ? child
+          : child.filter(item => item && String((item as Record<string, unknown>)[field]) === expected)));
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value as Record<string, unknown>).every(isEmpty);
+  return false;
+}
+
+function lengthOf(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  return String(value).trim().length;
+}
+
+// ISO timestamps and dates as well as German dates
+function toTime(value: unknown): number | null {
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? null : time;
+  }
+  const start = parseGermanDates(text).find(mention => mention.start)?.start;
+  return start ? Date.parse(start.timestamp) : null;
+}
@@ -0,0 +1,179 @@
+// Small non-validating XML parser for the edge runtime, which ships no DOMParser.
+//
+// Produces a plain element tree with namespace prefixes kept in the names
+// (e.g. "w:p"). Good enough for machine-generated XML such as OOXML parts.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const tagStart = source.indexOf('<', pos);
+    const textEnd = tagStart === -1 ? source.length : tagStart;
+
+    if (textEnd > pos) {
+      const text = source.slice(pos, textEnd);
+      if (stack.length > 1) stack[stack.length - 1].children.push(decodeEntities(text));
+    }
+    if (tagStart === -1) break;
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart + 9);
+      const text = source.slice(tagStart + 9, end === -1 ? source.length : end);
+      stack[stack.length - 1].children.push(text);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    if (source[tagStart + 1] === '?' || source[tagStart + 1] === '!') {
+      const end = source.indexOf('>', tagStart);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(source, tagStart);
+    const tag = source.slice(tagStart + 1, tagEnd);
+    pos = tagEnd + 1;
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      // Pop to the matching element; tolerate unbalanced markup
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+    if (!nameMatch) continue;
+
+    const element: XmlElement = {
+      name: nameMatch[1],
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+}
+
+// Attribute values may contain '>' so the end of a tag is found quote-aware
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return entity.startsWith('#x')
+          ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+          : String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+// Query helpers
+
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  const result: XmlElement[] = [];
+  for (const child of element.children) {
+    if (typeof child !== 'string' && (!name || child.name === name || localName(child.name) === name)) {
+      result.push(child);
+    }
+  }
+  return result;
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name || localName(child.name) === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+export function findAll(element: XmlElement, name: string, out: XmlElement[] = []): XmlElement[] {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name || localName(child.name) === name) out.push(child);
+    findAll(child, name, out);
+  }
+  return out;
+}
+
+export function textContent(element: XmlElement): string {
+  let out = '';
+  for (const child of element.children) {
+    out += typeof child === 'string' ? child : textContent(child);
+  }
+  return out;
+}
+
+export function attr(element: XmlElement | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  if (element.attributes[name] !== undefined) return element.attributes[name];
+  for (const key of Object.keys(element.attributes)) {
+    if (localName(key) === name) return element.attributes[key];
+  }
+  return undefined;
+}
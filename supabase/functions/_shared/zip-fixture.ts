@@ -0,0 +1,80 @@
+// Builds ZIP archives for the tests of the ZIP, archive and OOXML readers.
+
+export interface FixtureEntry {
+  name: string;
+  data: Uint8Array | string;
+  deflate?: boolean;
+  // Size written to the headers instead of the real one
+  declaredSize?: number;
+  // Name bytes as CP437 instead of UTF-8
+  cp437?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A ZIP archive with one local header and central directory record per entry; CRCs are not checked
+export async function zip(entries: FixtureEntry[], comment = ''): Promise<Uint8Array> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const stored = entry.deflate ? await deflateRaw(raw) : raw;
+    const name = entry.cp437 ? Uint8Array.from(entry.name, c => (c === 'ä' ? 0x84 : c.charCodeAt(0))) : encoder.encode(entry.name);
+    const flags = entry.cp437 ? 0 : 0x0800;
+    const method = entry.deflate ? 8 : 0;
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = new Uint8Array(30 + name.length + stored.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, stored.length, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(stored, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, stored.length, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const commentBytes = encoder.encode(comment);
+  const eocd = new Uint8Array(22 + commentBytes.length);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  ev.setUint16(20, commentBytes.length, true);
+  eocd.set(commentBytes, 22);
+
+  const out = new Uint8Array(offset + centralSize + eocd.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
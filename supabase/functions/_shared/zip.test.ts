@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { isZip, listZipEntries, readZipEntry, unzip, ZipSizeError } from './zip.ts';
+import { zip } from './zip-fixture.ts';
+
+const encoder = new TextEncoder();
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('isZip', () => {
+  it('looks at the local header signature', async () => {
+    expect(isZip(await zip([{ name: 'a.txt', data: 'a' }]))).toBe(true);
+    expect(isZip(encoder.encode('%PDF-1.4'))).toBe(false);
+    expect(isZip(new Uint8Array([0x50, 0x4b]))).toBe(false);
+  });
+});
+
+describe('zip reader', () => {
+  it('reads stored and deflated entries', async () => {
+    const bytes = await zip([
+      { name: 'Leistungsverzeichnis.txt', data: 'Pos. 1 Baustelleneinrichtung' },
+      { name: 'Vergabeunterlagen/Anschreiben.txt', data: 'Sehr geehrte Damen und Herren '.repeat(20), deflate: true }
+    ]);
+
+    const files = await unzip(bytes);
+    expect([...files.keys()]).toEqual(['Leistungsverzeichnis.txt', 'Vergabeunterlagen/Anschreiben.txt']);
+    expect(decode(files.get('Vergabeunterlagen/Anschreiben.txt')!)).toBe('Sehr geehrte Damen und Herren '.repeat(20));
+  });
+
+  it('decodes legacy entry names as CP437', async () => {
+    const bytes = await zip([{ name: 'Formblätter/LV.txt', data: 'x', cp437: true }]);
+
+    expect(listZipEntries(bytes)[0].name).toBe('Formblätter/LV.txt');
+  });
+
+  it('rejects entries declared larger than the limit', async () => {
+    const bytes = await zip([{ name: 'gross.txt', data: 'x'.repeat(100) }]);
+    const [entry] = listZipEntries(bytes);
+
+    await expect(readZipEntry(bytes, entry, 50)).rejects.toBeInstanceOf(ZipSizeError);
+  });
+
+  it('stops inflating once the output passes the declared size', async () => {
+    const bytes = await zip([{ name: 'bombe.txt', data: new Uint8Array(1024 * 1024), deflate: true, declaredSize: 1000 }]);
+    const [entry] = listZipEntries(bytes);
+
+    expect(entry.compressedSize).toBeLessThan(5000);
+    await expect(readZipEntry(bytes, entry)).rejects.toBeInstanceOf(ZipSizeError);
+  });
+
+  it('caps the inflated bytes of the whole archive', async () => {
+    const bytes = await zip([
+      { name: 'a.txt', data: 'a'.repeat(600), deflate: true },
+      { name: 'b.txt', data: 'b'.repeat(600), deflate: true }
+    ]);
+
+    await expect(unzip(bytes, 1000)).rejects.toBeInstanceOf(ZipSizeError);
+  });
+
+  it('finds the central directory behind an archive comment', async () => {
+    const bytes = await zip([{ name: 'LV.txt', data: 'x' }], 'Erstellt mit der Vergabeplattform');
+
+    expect(listZipEntries(bytes).map(entry => entry.name)).toEqual(['LV.txt']);
+  });
+
+  it('skips directories', async () => {
+    const bytes = await zip([{ name: 'Vergabeunterlagen/', data: '' }, { name: 'Vergabeunterlagen/LV.txt', data: 'x' }]);
+
+    expect(listZipEntries(bytes)[0].isDirectory).toBe(true);
+    expect([...(await unzip(bytes)).keys()]).toEqual(['Vergabeunterlagen/LV.txt']);
+  });
+
+  it('fails on data that is not a ZIP archive', () => {
+    expect(() => listZipEntries(encoder.encode('kein Archiv'))).toThrow(/end of central directory/);
+  });
+});
@@ -0,0 +1,174 @@
+// Minimal ZIP reader based on the central directory.
+//
+// Supports stored and deflated entries, which covers OOXML containers and the
+// ZIP archives produced by Windows Explorer, macOS Finder and 7-Zip. Entry
+// names are decoded as UTF-8 when the archive says so and as CP437 otherwise,
+// so German umlauts in folder names survive.
+//
+// Inflated data is capped: an entry may not grow past its declared size nor
+// past the caller's limit, so a small ZIP bomb cannot exhaust memory.
+
+export interface ZipEntry {
+  name: string;
+  isDirectory: boolean;
+  method: number;
+  compressedSize: number;
+  size: number;
+  crc32: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Inflated bytes one archive may yield in total, nested archives included
+export const MAX_INFLATED_SIZE = 100 * 1024 * 1024;
+
+export class ZipSizeError extends Error {}
+
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+export function listZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd === -1) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const crc32 = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = (flags & 0x0800) ? new TextDecoder('utf-8').decode(nameBytes) : decodeCp437(nameBytes);
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      method,
+      compressedSize,
+      size,
+      crc32,
+      localHeaderOffset,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export async function readZipEntry(bytes: Uint8Array, entry: ZipEntry, maxSize = MAX_INFLATED_SIZE): Promise<Uint8Array> {
+  if (entry.size > maxSize) {
+    throw new ZipSizeError(`${entry.name} is larger than ${maxSize} bytes`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+
+  if (view.getUint32(header, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`Invalid ZIP archive: bad local header for ${entry.name}`);
+  }
+
+  const nameLength = view.getUint16(header + 26, true);
+  const extraLength = view.getUint16(header + 28, true);
+  const dataStart = header + 30 + nameLength + extraLength;
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    if (data.length > entry.size) {
+      throw new ZipSizeError(`${entry.name} is larger than its declared size`);
+    }
+    return data;
+  }
+
+  if (entry.method === METHOD_DEFLATED) {
+    return await inflateRaw(data, entry.size, entry.name);
+  }
+
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+}
+
+// Reads all entries into a name -> bytes map, skipping directories
+export async function unzip(bytes: Uint8Array, maxTotalSize = MAX_INFLATED_SIZE): Promise<Map<string, Uint8Array>> {
+  const files = new Map<string, Uint8Array>();
+  let remaining = maxTotalSize;
+  for (const entry of listZipEntries(bytes)) {
+    if (entry.isDirectory) continue;
+    const content = await readZipEntry(bytes, entry, remaining);
+    remaining -= content.length;
+    files.set(entry.name, content);
+  }
+  return files;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The EOCD record is at the end, followed by an optional comment of up to 64 KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  return -1;
+}
+
+// Stops as soon as the output grows past the size the archive declared
+async function inflateRaw(data: Uint8Array, maxSize: number, name: string): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new ZipSizeError(`${name} inflates past its declared size of ${maxSize} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// Code page 437 upper half, used by legacy ZIP tools for entry names
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+  'áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+  '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+  'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ';
+
+function decodeCp437(bytes: Uint8Array): string {
+  let out = '';
+  for (const byte of bytes) {
+    out += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80];
+  }
+  return out;
+}
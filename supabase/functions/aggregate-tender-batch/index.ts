@@ -1,5 +1,29 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { AccessError, assertBatchAccess } from "../_shared/tenancy.ts";
+import { findColumn, findTime, isNumericCell, parseGermanNumber, TableData } from "../_shared/tables.ts";
+import {
+  addDuration,
+  berlinTimestamp,
+  DateMention,
+  formatGermanDate,
+  GermanDate,
+  GermanDuration,
+  parseGermanDates
+} from "../_shared/german-dates.ts";
+import { applyResolution, ConsolidatedFields, criterionField, looseText } from "../_shared/consolidated-fields.ts";
+import { DEFAULT_THRESHOLD, DuplicateCluster, findNearDuplicates } from "../_shared/near-duplicates.ts";
+import { diffProfiles, ProfileChange, stepLabels, VersionedProfile } from "../_shared/profile-diff.ts";
+import { detectPriceFormula, normalizeCriteria, Zuschlagskriterium } from "../_shared/evaluation-criteria.ts";
+import { extractSuitability, SuitabilityKind } from "../_shared/suitability.ts";
+import {
+  BASELINE_RULES,
+  ProcurementType,
+  ruleDefinitionError,
+  runValidationRules,
+  ValidationResult,
+  ValidationRule
+} from "../_shared/validation-rules.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,6 +33,8 @@ const corsHeaders = {
 
 interface AggregateRequest {
   batchId: string;
+  // Similarity (0-1) from which segments count as copies of each other
+  duplicateThreshold?: number;
 }
 
 interface DocumentSegment {
@@ -17,11 +43,18 @@ interface DocumentSegment {
   section_type_id: string;
   content: string;
   normalized_content: string;
+  page_number: number | null;
+  sequence_number: number;
   confidence_score: number;
   metadata: any;
   section_type?: {
     name: string;
   };
+  file?: {
+    original_filename: string;
+    relative_path: string | null;
+    created_at: string;
+  };
 }
 
 interface SectionGroup {
@@ -29,6 +62,189 @@ interface SectionGroup {
   segments: DocumentSegment[];
 }
 
+interface Frist {
+  bezeichnung: string;
+  datum: string;
+  uhrzeit?: string | null;
+  // ISO timestamp in Europe/Berlin
+  zeitpunkt?: string | null;
+  kontext: string;
+}
+
+type KeyDateType = 'angebotsfrist' | 'bieterfragen_frist' | 'bindefrist' | 'ortstermin' | 'ausfuehrungsbeginn';
+
+// Entry of tenders.key_dates
+interface KeyDate {
+  type: KeyDateType;
+  description: string;
+  // yyyy-mm-dd / HH:MM; null for periods that cannot be counted from a known date
+  date: string | null;
+  time: string | null;
+  // ISO 8601 in Europe/Berlin
+  timestamp: string | null;
+  // Last day of a range or calendar week, end time of an Ortstermin
+  end_timestamp: string | null;
+  // Periods such as "30 Kalendertage nach Ablauf der Angebotsfrist"
+  duration: GermanDuration | null;
+  text: string;
+}
+
+const KEY_DATE_TYPES: Array<{ type: KeyDateType; label: string; pattern: RegExp }> = [
+  {
+    type: 'angebotsfrist',
+    label: 'Angebotsfrist',
+    pattern: /angebotsfrist|abgabefrist|einreichungsfrist|schlusstermin für (den )?eingang der angebote|frist für den eingang der angebote|angebotsabgabe/i
+  },
+  {
+    type: 'bieterfragen_frist',
+    label: 'Bieterfragen-Frist',
+    pattern: /bieterfragen|rückfragefrist|rückfragen|fragen zu den vergabeunterlagen|auskünfte zu den vergabeunterlagen/i
+  },
+  { type: 'bindefrist', label: 'Bindefrist', pattern: /bindefrist|zuschlagsfrist|an (sein|das) angebot gebunden/i },
+  { type: 'ortstermin', label: 'Ortstermin', pattern: /ortstermin|ortsbesichtigung|besichtigungstermin|begehung/i },
+  {
+    type: 'ausfuehrungsbeginn',
+    label: 'Ausführungsbeginn',
+    pattern: /ausführungsbeginn|leistungsbeginn|vertragsbeginn|baubeginn|beginn der (ausführung|arbeiten|leistung)/i
+  }
+];
+
+// How far after its name a key date is looked for
+const KEY_DATE_WINDOW = 200;
+
+// "nach Ablauf der Angebotsfrist" names the Angebotsfrist as the start of another period
+const REFERENCE_BEFORE = /\b(nach|vor|ab|seit|mit)\s+(dem\s+|der\s+|des\s+)?((ablauf|ende)\s+(der|des)\s+)?$/i;
+
+interface Preisposition {
+  position: string;
+  bezeichnung: string;
+  menge: number | null;
+  einheit: string | null;
+  einheitspreis: number | null;
+  gesamtpreis: number | null;
+  file_upload_id: string;
+  page_number: number | null;
+}
+
+// Where in the documents an extracted value was found
+interface FactSource {
+  segment: DocumentSegment;
+  // 1-based line numbers within the document
+  line_start: number | null;
+  line_end: number | null;
+  snippet: string;
+}
+
+// One row of extracted_facts
+interface ExtractedFact {
+  fact_type: string;
+  fact_category: string;
+  fact_value: Record<string, unknown>;
+  confidence: number;
+  source: FactSource;
+}
+
+// Segment texts joined the way an extractor searches them, with the offset of
+// each segment so a match position leads back to its segment and lines
+interface JoinedText {
+  text: string;
+  parts: Array<{ segment: DocumentSegment; start: number }>;
+}
+
+// How far a fact can be trusted by extraction method, before the segment's own confidence
+const METHOD_CONFIDENCE = {
+  table: 0.9,
+  pattern: 0.8,
+  keyword: 0.5
+};
+
+type ExtractionMethod = keyof typeof METHOD_CONFIDENCE;
+
+const SNIPPET_LENGTH = 200;
+const FACT_INSERT_CHUNK = 500;
+const DUPLICATE_UPDATE_CHUNK = 200;
+
+type Comparison = 'text' | 'value' | 'code';
+
+// Consolidated field compared across source files, read from the facts a file yields.
+// Free text may differ in spelling, dates and weights by a missing time or unit,
+// codes only in case and separators.
+interface ConflictField {
+  factType: string;
+  comparison: Comparison;
+  // Deadlines and criteria name one field per entry
+  field: (value: Record<string, unknown>) => string | null;
+  label: (value: Record<string, unknown>) => string;
+  read: (value: Record<string, unknown>) => string | null;
+}
+
+interface StatedValue {
+  value: string;
+  label: string;
+  comparison: Comparison;
+  fact: ExtractedFact;
+}
+
+// One of the differing values with the files stating it
+interface ConflictValue {
+  value: string;
+  sources: Array<{ file_upload_id: string; source_document: string; page_number: number | null; segment_id: string }>;
+}
+
+// Row of document_conflicts without its profile
+interface DocumentConflict {
+  field_name: string;
+  field_label: string;
+  conflict_type: 'contradiction' | 'inconsistency' | 'missing';
+  source_segments: string[];
+  conflicting_values: ConflictValue[];
+  resolution_status: 'pending';
+  resolution_note: string;
+}
+
+const CONFLICT_FIELDS: ConflictField[] = [
+  metaField('tender_number', 'meta_info.vergabenummer', 'Vergabenummer', 'code'),
+  metaField('contracting_authority', 'meta_info.auftraggeber', 'Auftraggeber', 'text'),
+  metaField('contact_email', 'meta_info.kontakt.email', 'E-Mail', 'code'),
+  metaField('contact_phone', 'meta_info.kontakt.telefon', 'Telefon', 'code'),
+  metaField('procedure_type', 'meta_info.verfahrensart', 'Verfahrensart', 'text'),
+  metaField('place_of_performance', 'leistungsumfang.leistungsort', 'Leistungsort', 'text'),
+  metaField('performance_period', 'leistungsumfang.leistungszeitraum', 'Leistungszeitraum', 'text'),
+  {
+    factType: 'key_date',
+    comparison: 'value',
+    field: value => `key_dates.${value.typ}`,
+    label: value => String(value.bezeichnung),
+    read: value => value.datum ? [value.datum, value.uhrzeit].filter(Boolean).join(' ') : null
+  },
+  {
+    factType: 'evaluation_criteria',
+    comparison: 'value',
+    field: value => criterionField(String(value.bezeichnung)),
+    label: value => `Zuschlagskriterium „${value.bezeichnung}“`,
+    read: value => typeof value.gewichtung === 'number' && Number.isFinite(value.gewichtung)
+      ? `${value.gewichtung} ${value.einheit || '%'}`
+      : null
+  }
+];
+
+// Without these a tender cannot be assessed, so not finding them is a conflict too
+const REQUIRED_FIELDS = [
+  { field: 'meta_info.auftraggeber', label: 'Auftraggeber' },
+  { field: 'meta_info.vergabenummer', label: 'Vergabenummer' },
+  { field: 'key_dates.angebotsfrist', label: 'Angebotsfrist' }
+];
+
+const TEXT_SIMILARITY = 0.8;
+
+// A table segment with the header it is read with
+interface SegmentTable {
+  segment: DocumentSegment;
+  section: string;
+  header: string[] | null;
+  rows: string[][];
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -48,15 +264,25 @@ Deno.serve(async (req: Request) => {
     if (!batchId) {
       throw new Error('Missing batchId');
     }
+    await assertBatchAccess(supabase, req, supabaseServiceKey, batchId);
+
+    const duplicateThreshold = requestData.duplicateThreshold
+      ?? Number(Deno.env.get("DUPLICATE_SIMILARITY_THRESHOLD") || DEFAULT_THRESHOLD);
+    if (!(duplicateThreshold > 0 && duplicateThreshold <= 1)) {
+      throw new Error(`Invalid duplicate threshold: ${duplicateThreshold}`);
+    }
 
     console.log('Aggregating batch:', batchId);
 
     await updatePipelineStage(supabase, batchId, 'validation', 'processing');
 
+    // Copies marked by an earlier run are compared again
+    await clearDuplicateMarks(supabase, batchId);
+
     // Load all segments for this batch
-    const { data: segments, error: segmentError } = await supabase
+    const { data: loadedSegments, error: segmentError } = await supabase
       .from('document_segments')
-      .select('*, section_type:section_types(name)')
+      .select('*, section_type:section_types(name), file:tender_file_uploads(original_filename, relative_path, created_at)')
       .eq('batch_id', batchId)
       .eq('is_relevant', true)
       .order('file_upload_id', { ascending: true })
@@ -66,48 +292,52 @@ Deno.serve(async (req: Request) => {
       throw new Error(`Failed to load segments: ${segmentError.message}`);
     }
 
-    console.log(`Loaded ${segments?.length || 0} segments`);
+    console.log(`Loaded ${loadedSegments?.length || 0} segments`);
+
+    // PHASE 1: Near-duplicate segments
+    // Only one copy of a repeated passage is extracted from, so requirement
+    // lists of re-issued documents are not counted twice
+    const duplicateClusters = findNearDuplicates(
+      byDuplicatePreference(loadedSegments || []).map(segment => ({ id: segment.id, text: segment.normalized_content })),
+      duplicateThreshold
+    );
+    await markDuplicates(supabase, duplicateClusters);
+
+    const redundant = new Set(duplicateClusters.flatMap(cluster => cluster.duplicates.map(d => d.id)));
+    const segments = (loadedSegments || []).filter(segment => !redundant.has(segment.id));
+    console.log(`Found ${redundant.size} near-duplicate segments in ${duplicateClusters.length} clusters`);
 
     // Group segments by section type
-    const groupedSegments = groupBySection(segments || []);
+    const groupedSegments = groupBySection(segments);
+    const tables = collectTables(segments);
+
+    // PHASE 2: Extract structured data from each section
+    // Every extractor also records where it found each value
+    const facts: ExtractedFact[] = [];
+    const {
+      metaInfo,
+      leistungsumfang,
+      pflichtnachweise,
+      zuschlagskriterien,
+      technischeSpezifikationen,
+      fristen,
+      keyDates,
+      preisblatt,
+      rechtliches,
+      sicherheit
+    } = extractSections(groupedSegments, segments, tables, facts);
 
-    // PHASE 1: Extract structured data from each section
-    const metaInfo = extractMetaInfo(groupedSegments.meta || []);
-    const leistungsumfang = extractLeistungsumfang(groupedSegments.leistungsbeschreibung || []);
-    const pflichtnachweise = extractPflichtnachweise([
-      ...(groupedSegments.nachweise || []),
-      ...(groupedSegments.eignungskriterien || [])
-    ]);
-    const zuschlagskriterien = extractZuschlagskriterien(groupedSegments.zuschlagskriterien || []);
-    const technischeSpezifikationen = extractTechnicalSpecs(groupedSegments.technische_spezifikationen || []);
-    const fristen = extractFristen(groupedSegments.fristen || []);
-    const rechtliches = extractRechtliches(groupedSegments.rechtliches || []);
-    const sicherheit = extractSicherheit(groupedSegments.sicherheit || []);
-
-    // PHASE 2: Detect duplicates
-    const duplicates = detectDuplicates(segments || []);
-    console.log(`Found ${duplicates.length} potential duplicates`);
-
-    // PHASE 3: Detect conflicts
-    const conflicts = detectConflicts(metaInfo, fristen);
+    // PHASE 3: Detect conflicts between the source files
+    // Each file is compared as it was issued, including the passages it shares
+    // with another file: a re-issue differing only in a date is a conflict
+    const conflicts = detectConflicts(loadedSegments || [], collectTables(loadedSegments || []));
     console.log(`Found ${conflicts.length} conflicts`);
 
     // PHASE 4: Calculate average confidence
-    const avgConfidence = segments && segments.length > 0
+    const avgConfidence = segments.length > 0
       ? segments.reduce((sum, seg) => sum + (seg.confidence_score || 0), 0) / segments.length
       : 0;
 
-    // PHASE 5: Validation
-    const validationErrors = validateExtractedData({
-      meta_info: metaInfo,
-      leistungsumfang,
-      pflichtnachweise,
-      zuschlagskriterien
-    });
-
-    const validationStatus = validationErrors.length === 0 ? 'valid' :
-                             validationErrors.length < 5 ? 'partial' : 'invalid';
-
     // Create or update tender profile
     const consolidatedData = {
       meta_info: metaInfo,
@@ -116,15 +346,35 @@ Deno.serve(async (req: Request) => {
       zuschlagskriterien,
       technische_spezifikationen: technischeSpezifikationen,
       fristen,
+      key_dates: keyDates,
+      preisblatt,
       rechtliches,
       sicherheit,
       statistics: {
-        total_segments: segments?.length || 0,
+        total_segments: segments.length,
+        duplicate_segments: redundant.size,
+        duplicate_clusters: duplicateClusters.length,
+        table_segments: tables.length,
+        extracted_facts: facts.length,
         segment_types: Object.keys(groupedSegments).length,
         avg_confidence: Math.round(avgConfidence * 100) / 100
       }
     };
 
+    await applyResolutions(supabase, batchId, consolidatedData);
+
+    // PHASE 5: Validation against the rules for the tender's Vergabeordnung
+    const validationErrors = runValidationRules(
+      consolidatedData,
+      await loadValidationRules(supabase, batchId),
+      metaInfo.vergabeordnung
+    );
+
+    // Notes ('info') do not make a profile incomplete
+    const failedChecks = validationErrors.filter(v => v.severity !== 'info').length;
+    const validationStatus = failedChecks === 0 ? 'valid' :
+                             failedChecks < 5 ? 'partial' : 'invalid';
+
     const { data: profile, error: profileError } = await supabase
       .from('tender_profiles')
       .upsert({
@@ -150,25 +400,15 @@ Deno.serve(async (req: Request) => {
 
     console.log('Created tender profile:', profile.id);
 
-    // Save conflicts
-    if (conflicts.length > 0) {
-      await supabase
-        .from('document_conflicts')
-        .insert(conflicts.map(c => ({
-          tender_profile_id: profile.id,
-          ...c
-        })));
-    }
+    await saveFacts(supabase, batchId, facts);
+    await syncTenderKeyDates(supabase, batchId, keyDates);
 
-    // Save validations
-    if (validationErrors.length > 0) {
-      await supabase
-        .from('extraction_validations')
-        .insert(validationErrors.map(v => ({
-          tender_profile_id: profile.id,
-          ...v
-        })));
-    }
+    await saveConflicts(supabase, profile.id, conflicts);
+
+    // Amendments: what changed against the previous version of the tender
+    const changes = await recordAmendment(supabase, batchId, consolidatedData);
+
+    await saveValidations(supabase, profile.id, validationErrors);
 
     await updatePipelineStage(supabase, batchId, 'validation', 'completed');
     await updatePipelineStage(supabase, batchId, 'aggregation', 'processing');
@@ -181,7 +421,9 @@ Deno.serve(async (req: Request) => {
         profile_id: profile.id,
         validation_status: validationStatus,
         conflicts_count: conflicts.length,
-        duplicates_count: duplicates.length,
+        changes_count: changes.length,
+        duplicates_count: redundant.size,
+        facts_count: facts.length,
         validation_errors_count: validationErrors.length,
         data: consolidatedData
       }),
@@ -201,7 +443,7 @@ Deno.serve(async (req: Request) => {
         error: error.message || "Unknown error"
       }),
       {
-        status: 500,
+        status: error instanceof AccessError ? error.status : 500,
         headers: {
           ...corsHeaders,
           "Content-Type": "application/json",
@@ -242,16 +484,409 @@ function groupBySection(segments: DocumentSegment[]): Record<string, DocumentSeg
   return grouped;
 }
 
-function extractMetaInfo(segments: DocumentSegment[]): any {
+// Copies of the newest upload are kept: a re-issued document supersedes the
+// one it replaces. Within a file the first occurrence is kept.
+function byDuplicatePreference(segments: DocumentSegment[]): DocumentSegment[] {
+  return [...segments].sort((a, b) =>
+    (b.file?.created_at || '').localeCompare(a.file?.created_at || '') ||
+    a.file_upload_id.localeCompare(b.file_upload_id) ||
+    a.sequence_number - b.sequence_number
+  );
+}
+
+// duplicate_similarity also marks copies whose canonical segment was deleted
+async function clearDuplicateMarks(supabase: SupabaseClient, batchId: string) {
+  const { error } = await supabase
+    .from('document_segments')
+    .update({ is_relevant: true, duplicate_of: null, duplicate_similarity: null })
+    .eq('batch_id', batchId)
+    .not('duplicate_similarity', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to clear duplicate marks: ${error.message}`);
+  }
+}
+
+// Copies stay in document_segments for the source viewer, pointing at the
+// segment that is extracted in their place
+async function markDuplicates(supabase: SupabaseClient, clusters: DuplicateCluster[]) {
+  for (const cluster of clusters) {
+    // Copies with the same similarity are updated together
+    const bySimilarity = new Map<number, string[]>();
+    for (const duplicate of cluster.duplicates) {
+      bySimilarity.set(duplicate.similarity, [...(bySimilarity.get(duplicate.similarity) || []), duplicate.id]);
+    }
+
+    for (const [similarity, ids] of bySimilarity) {
+      for (let start = 0; start < ids.length; start += DUPLICATE_UPDATE_CHUNK) {
+        const { error } = await supabase
+          .from('document_segments')
+          .update({ is_relevant: false, duplicate_of: cluster.canonical, duplicate_similarity: similarity })
+          .in('id', ids.slice(start, start + DUPLICATE_UPDATE_CHUNK));
+
+        if (error) {
+          throw new Error(`Failed to mark duplicate segments: ${error.message}`);
+        }
+      }
+    }
+  }
+}
+
+// Runs every section extractor over the given segments. Used for the whole
+// batch and, for conflict detection, for each source file on its own.
+function extractSections(
+  groupedSegments: Record<string, DocumentSegment[]>,
+  segments: DocumentSegment[],
+  tables: SegmentTable[],
+  facts: ExtractedFact[]
+) {
+  return {
+    metaInfo: extractMetaInfo(groupedSegments.meta || [], facts),
+    leistungsumfang: extractLeistungsumfang(groupedSegments.leistungsbeschreibung || [], facts),
+    pflichtnachweise: extractPflichtnachweise([
+      ...(groupedSegments.nachweise || []),
+      ...(groupedSegments.eignungskriterien || [])
+    ], facts),
+    zuschlagskriterien: extractZuschlagskriterien(groupedSegments.zuschlagskriterien || [], segments, tables, facts),
+    technischeSpezifikationen: extractTechnicalSpecs(groupedSegments.technische_spezifikationen || [], facts),
+    fristen: extractFristen(groupedSegments.fristen || [], tables, facts),
+    keyDates: extractKeyDates(segments, tables, facts),
+    preisblatt: extractPreisblatt(tables, facts),
+    rechtliches: extractRechtliches(groupedSegments.rechtliches || [], facts),
+    sicherheit: extractSicherheit(groupedSegments.sicherheit || [], facts)
+  };
+}
+
+// Facts are rewritten on every aggregation so a re-run does not duplicate them
+async function saveFacts(supabase: SupabaseClient, batchId: string, facts: ExtractedFact[]) {
+  const { error: deleteError } = await supabase
+    .from('extracted_facts')
+    .delete()
+    .eq('batch_id', batchId);
+
+  if (deleteError) {
+    console.error('Failed to clear extracted facts:', deleteError);
+    return;
+  }
+
+  const rows = facts.map(fact => ({
+    batch_id: batchId,
+    file_upload_id: fact.source.segment.file_upload_id,
+    segment_id: fact.source.segment.id,
+    fact_type: fact.fact_type,
+    fact_category: fact.fact_category,
+    fact_value: fact.fact_value,
+    confidence_score: fact.confidence,
+    source_document: fileName(fact.source.segment),
+    source_page: fact.source.segment.page_number,
+    source_section: sectionName(fact.source.segment),
+    source_line_start: fact.source.line_start,
+    source_line_end: fact.source.line_end,
+    context_snippet: fact.source.snippet
+  }));
+
+  // Long price sheets yield thousands of positions
+  for (let start = 0; start < rows.length; start += FACT_INSERT_CHUNK) {
+    const { error } = await supabase
+      .from('extracted_facts')
+      .insert(rows.slice(start, start + FACT_INSERT_CHUNK));
+
+    if (error) {
+      console.error('Failed to save extracted facts:', error);
+      return;
+    }
+  }
+
+  console.log(`Saved ${rows.length} extracted facts`);
+}
+
+// Values users chose when resolving conflicts win over the re-extracted ones
+async function applyResolutions(supabase: SupabaseClient, batchId: string, data: ConsolidatedFields) {
+  const { data: profile } = await supabase
+    .from('tender_profiles')
+    .select('id')
+    .eq('batch_id', batchId)
+    .maybeSingle();
+
+  if (!profile) return;
+
+  const { data: resolved, error } = await supabase
+    .from('document_conflicts')
+    .select('field_name, field_label, resolved_value, resolved_by, resolved_at')
+    .eq('tender_profile_id', profile.id)
+    .eq('resolution_status', 'resolved')
+    .not('resolved_value', 'is', null)
+    .order('resolved_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load conflict resolutions:', error);
+    return;
+  }
+
+  for (const row of resolved || []) {
+    applyResolution(data, row.field_name, {
+      value: row.resolved_value,
+      label: row.field_label,
+      resolved_by: row.resolved_by,
+      resolved_at: row.resolved_at
+    });
+  }
+}
+
+// Pending conflicts are detected anew on every aggregation; fields someone
+// already resolved or ignored are not raised again
+async function saveConflicts(supabase: SupabaseClient, profileId: string, conflicts: DocumentConflict[]) {
+  const { error: deleteError } = await supabase
+    .from('document_conflicts')
+    .delete()
+    .eq('tender_profile_id', profileId)
+    .eq('resolution_status', 'pending');
+
+  if (deleteError) {
+    console.error('Failed to clear pending conflicts:', deleteError);
+    return;
+  }
+
+  const { data: settled } = await supabase
+    .from('document_conflicts')
+    .select('field_name')
+    .eq('tender_profile_id', profileId);
+
+  const settledFields = new Set((settled || []).map(row => row.field_name));
+  const rows = conflicts
+    .filter(conflict => !settledFields.has(conflict.field_name))
+    .map(conflict => ({ tender_profile_id: profileId, ...conflict }));
+
+  // tender_profiles.conflict_count follows by trigger
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from('document_conflicts')
+    .insert(rows);
+
+  if (error) {
+    console.error('Failed to save conflicts:', error);
+  }
+}
+
+// A batch amending an earlier version is compared with that version's profile.
+// When a change touches a wizard step the team already worked on (saved
+// answers, documents, pricing, the submission or a workspace that got that
+// far), the team is notified.
+async function recordAmendment(supabase: SupabaseClient, batchId: string, data: VersionedProfile): Promise<ProfileChange[]> {
+  const { data: batch } = await supabase
+    .from('tender_upload_batches')
+    .select('id, root_batch_id, amends_batch_id, version')
+    .eq('id', batchId)
+    .single();
+
+  if (!batch?.amends_batch_id) return [];
+
+  const { data: previous } = await supabase
+    .from('tender_profiles')
+    .select('consolidated_data')
+    .eq('batch_id', batch.amends_batch_id)
+    .maybeSingle();
+
+  if (!previous) {
+    console.warn(`Amended batch ${batch.amends_batch_id} has no tender profile`);
+    return [];
+  }
+
+  const changes = diffProfiles(previous.consolidated_data || {}, data);
+  console.log(`Version ${batch.version} changes ${changes.length} fields`);
+
+  await supabase.from('tender_profile_changes').delete().eq('batch_id', batchId);
+  await supabase.from('tender_notifications').delete().eq('batch_id', batchId).eq('kind', 'amendment');
+
+  if (changes.length > 0) {
+    const { error } = await supabase
+      .from('tender_profile_changes')
+      .insert(changes.map(change => ({ batch_id: batchId, previous_batch_id: batch.amends_batch_id, ...change })));
+
+    if (error) {
+      console.error('Failed to save profile changes:', error);
+    }
+  }
+
+  const rootBatchId = batch.root_batch_id || batch.amends_batch_id;
+  const doneSteps = await stepsWithWork(supabase, rootBatchId);
+  const affecting = changes.filter(change => change.affected_steps.some(step => doneSteps.has(step)));
+  if (affecting.length === 0) return changes;
+
+  const steps = affecting.flatMap(change => change.affected_steps).filter(step => doneSteps.has(step));
+  const { error } = await supabase
+    .from('tender_notifications')
+    .insert({
+      root_batch_id: rootBatchId,
+      batch_id: batchId,
+      kind: 'amendment',
+      title: `Version ${batch.version}: ${affecting.length} Änderungen betreffen bereits bearbeitete Schritte`,
+      message: affecting.map(change => change.summary).join('\n'),
+      affected_steps: [...new Set(steps)].sort((a, b) => a - b)
+    });
+
+  if (error) {
+    console.error('Failed to save amendment notification:', error);
+  } else {
+    console.log(`Notified team: ${stepLabels(steps).join(', ')} affected`);
+  }
+
+  return changes;
+}
+
+// Wizard steps with saved work for any version of the tender. The frontend
+// saves workspaces and submissions under the tender id it shows, which is a batch id.
+async function stepsWithWork(supabase: SupabaseClient, rootBatchId: string): Promise<Set<number>> {
+  const { data: versions } = await supabase
+    .from('tender_upload_batches')
+    .select('id, tender_id')
+    .or(`id.eq.${rootBatchId},root_batch_id.eq.${rootBatchId}`);
+
+  const tenderIds = [...new Set((versions || []).flatMap(v => [v.id, v.tender_id]).filter(Boolean))];
+  const [{ data: workspaces }, { data: submissions }] = await Promise.all([
+    supabase.from('tender_workspaces').select('current_step, state').in('tender_key', tenderIds),
+    supabase.from('tender_submissions').select('id').in('tender_id', tenderIds)
+  ]);
+
+  const steps = new Set<number>();
+  // The wizard reached the workspace's step, so every step up to it was worked on;
+  // answers may also be saved after going back
+  for (const workspace of workspaces || []) {
+    for (let step = 1; step <= workspace.current_step; step++) steps.add(step);
+    const answers = Object.values(workspace.state?.answers || {}) as unknown[];
+    if (answers.some(answer => typeof answer === 'string' && answer.trim())) steps.add(4);
+  }
+
+  const submissionIds = (submissions || []).map(s => s.id);
+  if (submissionIds.length === 0) return steps;
+
+  // A saved submission means the offer was put together up to the hand-in
+  steps.add(7);
+  steps.add(9);
+
+  const [{ data: answers }, { data: documents }, { data: pricing }] = await Promise.all([
+    supabase.from('qa_responses').select('answer').in('submission_id', submissionIds),
+    supabase.from('documents').select('status').in('submission_id', submissionIds),
+    supabase.from('pricing_data').select('id').in('submission_id', submissionIds).limit(1)
+  ]);
+
+  if ((answers || []).some(a => a.answer?.trim())) steps.add(4);
+  if ((documents || []).some(d => d.status !== 'missing')) steps.add(5);
+  if ((pricing || []).length > 0) steps.add(6);
+
+  return steps;
+}
+
+function fileName(segment: DocumentSegment): string {
+  return segment.file
+    ? `${segment.file.relative_path || ''}${segment.file.original_filename}`
+    : 'Unbekannt';
+}
+
+// Nearest heading, else the section type
+function sectionName(segment: DocumentSegment): string | null {
+  const path: string[] = segment.metadata?.heading_path || [];
+  return path[path.length - 1] || segment.metadata?.heading || segment.section_type?.name || null;
+}
+
+function joinSegments(segments: DocumentSegment[], separator = '\n'): JoinedText {
+  const parts: JoinedText['parts'] = [];
+  let text = '';
+
+  segments.forEach((segment, index) => {
+    if (index > 0) text += separator;
+    parts.push({ segment, start: text.length });
+    text += segment.content;
+  });
+
+  return { text, parts };
+}
+
+// Source of the text at [index, index + length) of the joined text
+function sourceAt(joined: JoinedText, index: number, length: number): FactSource | null {
+  if (index < 0) return null;
+  let part: JoinedText['parts'][number] | undefined;
+  for (const candidate of joined.parts) {
+    if (candidate.start > index) break;
+    part = candidate;
+  }
+  return part ? sourceInSegment(part.segment, index - part.start, length) : null;
+}
+
+// Lines of a match within a segment; table rows are merged during
+// normalization, so facts from tables span the whole table
+function sourceInSegment(segment: DocumentSegment, offset = 0, length = segment.content.length, snippet?: string): FactSource {
+  const content = segment.content;
+  const start = Math.min(Math.max(offset, 0), content.length);
+  const end = Math.min(content.length, start + Math.max(length, 1));
+  const firstLine: number | undefined = segment.metadata?.line_start;
+  const lastLine: number | undefined = segment.metadata?.line_end;
+  const linesBefore = (text: string) => text.split('\n').length - 1;
+
+  let lineStart: number | null = null;
+  let lineEnd: number | null = null;
+  if (typeof firstLine === 'number') {
+    if (segment.metadata?.is_table) {
+      lineStart = firstLine + 1;
+      lineEnd = (lastLine ?? firstLine) + 1;
+    } else {
+      lineStart = firstLine + linesBefore(content.slice(0, start)) + 1;
+      lineEnd = firstLine + linesBefore(content.slice(0, end)) + 1;
+    }
+  }
+
+  // Context from the start of the matched line
+  const contextStart = content.lastIndexOf('\n', start - 1) + 1;
+  return {
+    segment,
+    line_start: lineStart,
+    line_end: lineEnd,
+    snippet: (snippet ?? content.slice(contextStart, contextStart + SNIPPET_LENGTH)).replace(/\s+/g, ' ').trim()
+  };
+}
+
+function tableRowSource(table: SegmentTable, row: string[]): FactSource {
+  return sourceInSegment(table.segment, 0, table.segment.content.length, row.join(' | '));
+}
+
+function addFact(
+  facts: ExtractedFact[],
+  factType: string,
+  category: string,
+  value: Record<string, unknown>,
+  source: FactSource | null,
+  method: ExtractionMethod
+) {
+  if (!source) return;
+  const segmentConfidence = Number(source.segment.confidence_score ?? 0.5);
+  facts.push({
+    fact_type: factType,
+    fact_category: category,
+    fact_value: value,
+    confidence: Math.round(METHOD_CONFIDENCE[method] * segmentConfidence * 100) / 100,
+    source
+  });
+}
+
+// Vergabeordnungen rules can be restricted to; "VOL/A" is the UVgO's predecessor
+const PROCUREMENT_REGULATIONS: Array<{ type: ProcurementType; pattern: RegExp }> = [
+  { type: 'VOB/A', pattern: /\bVOB\s*\/\s*A\b/g },
+  { type: 'UVgO', pattern: /\b(?:UVgO|Unterschwellenvergabeordnung|VOL\s*\/\s*A)\b/g },
+  { type: 'VgV', pattern: /\b(?:VgV|Vergabeverordnung)\b/g }
+];
+
+function extractMetaInfo(segments: DocumentSegment[], facts: ExtractedFact[]): any {
   const info: any = {
     vergabestelle: null,
     auftraggeber: null,
     kontakt: { email: null, telefon: null, ansprechpartner: null },
     vergabenummer: null,
-    verfahrensart: null
+    verfahrensart: null,
+    vergabeordnung: null
   };
 
-  const allText = segments.map(s => s.content).join('\n');
+  const joined = joinSegments(segments);
+  const allText = joined.text;
 
   // Extract Vergabestelle/Auftraggeber
   const buyerPatterns = [
@@ -262,6 +897,8 @@ function extractMetaInfo(segments: DocumentSegment[]): any {
     if (match && match[1]) {
       info.auftraggeber = match[1].trim();
       info.vergabestelle = match[1].trim();
+      addFact(facts, 'contracting_authority', 'meta', { value: info.auftraggeber },
+        sourceAt(joined, match.index!, match[0].length), 'pattern');
       break;
     }
   }
@@ -270,51 +907,86 @@ function extractMetaInfo(segments: DocumentSegment[]): any {
   const emailMatch = allText.match(/[\w.-]+@[\w.-]+\.\w+/);
   if (emailMatch) {
     info.kontakt.email = emailMatch[0];
+    addFact(facts, 'contact_email', 'meta', { value: emailMatch[0] },
+      sourceAt(joined, emailMatch.index!, emailMatch[0].length), 'pattern');
   }
 
   // Extract phone
   const phoneMatch = allText.match(/(?:\+49|0)[\s]?[\d]{2,4}[\s]?[\d]{3,10}/);
   if (phoneMatch) {
     info.kontakt.telefon = phoneMatch[0];
+    addFact(facts, 'contact_phone', 'meta', { value: phoneMatch[0] },
+      sourceAt(joined, phoneMatch.index!, phoneMatch[0].length), 'pattern');
   }
 
   // Extract Vergabenummer
   const vergabeMatch = allText.match(/(?:Vergabenummer|Ausschreibungsnummer|Referenznummer)[\s:]+([A-Z0-9-\/]+)/i);
   if (vergabeMatch) {
     info.vergabenummer = vergabeMatch[1];
+    addFact(facts, 'tender_number', 'meta', { value: vergabeMatch[1] },
+      sourceAt(joined, vergabeMatch.index!, vergabeMatch[0].length), 'pattern');
   }
 
-  // Extract Verfahrensart
-  const verfahrenKeywords = ['offenes Verfahren', 'nicht offenes Verfahren', 'Verhandlungsverfahren', 'wettbewerblicher Dialog'];
+  // Extract Verfahrensart; "nicht offenes Verfahren" contains "offenes Verfahren", so it goes first
+  const verfahrenKeywords = [
+    'nicht offenes Verfahren', 'offenes Verfahren', 'Verhandlungsverfahren', 'wettbewerblicher Dialog',
+    'Innovationspartnerschaft', 'Öffentliche Ausschreibung', 'Beschränkte Ausschreibung',
+    'Freihändige Vergabe', 'Verhandlungsvergabe'
+  ];
+  const lowerText = allText.toLowerCase();
   for (const keyword of verfahrenKeywords) {
-    if (allText.toLowerCase().includes(keyword.toLowerCase())) {
+    const index = lowerText.indexOf(keyword.toLowerCase());
+    if (index !== -1) {
       info.verfahrensart = keyword;
+      addFact(facts, 'procedure_type', 'meta', { value: keyword }, sourceAt(joined, index, keyword.length), 'keyword');
       break;
     }
   }
 
+  // Extract Vergabeordnung: the one the documents cite most often
+  const cited = PROCUREMENT_REGULATIONS
+    .map(({ type, pattern }) => ({ type, matches: [...allText.matchAll(pattern)] }))
+    .filter(regulation => regulation.matches.length > 0)
+    .sort((a, b) => b.matches.length - a.matches.length)[0];
+  if (cited) {
+    const first = cited.matches[0];
+    info.vergabeordnung = cited.type;
+    addFact(facts, 'procurement_regulation', 'meta', { value: cited.type },
+      sourceAt(joined, first.index!, first[0].length), 'keyword');
+  }
+
   return info;
 }
 
-function extractLeistungsumfang(segments: DocumentSegment[]): any {
+function extractLeistungsumfang(segments: DocumentSegment[], facts: ExtractedFact[]): any {
+  // The description starts with its first paragraph, not with a heading
+  const firstText = segments.find(s => !s.metadata?.is_heading) || segments[0];
+  if (firstText) {
+    addFact(facts, 'scope_of_work', 'scope', { value: firstText.content.substring(0, 200) },
+      sourceInSegment(firstText), 'keyword');
+  }
+
   return {
     beschreibung: segments.map(s => s.content).join('\n\n'),
     umfang: segments.length > 0 ? 'Siehe Beschreibung' : 'Nicht angegeben',
-    leistungsort: extractLocation(segments),
-    leistungszeitraum: extractTimeframe(segments)
+    leistungsort: extractLocation(segments, facts),
+    leistungszeitraum: extractTimeframe(segments, facts)
   };
 }
 
-function extractLocation(segments: DocumentSegment[]): string | null {
-  const allText = segments.map(s => s.content).join('\n');
+function extractLocation(segments: DocumentSegment[], facts: ExtractedFact[]): string | null {
+  const joined = joinSegments(segments);
+  const allText = joined.text;
   const locationPatterns = [
     /(?:Leistungsort|Ausführungsort)[\s:]+([^\n]{5,100})/i,
-    /(?:PLZ|Postleitzahl)[\s:]+({5})/i
+    /(?:PLZ|Postleitzahl)[\s:]+(\d{5})/i
   ];
 
   for (const pattern of locationPatterns) {
     const match = allText.match(pattern);
     if (match && match[1]) {
+      addFact(facts, 'place_of_performance', 'scope', { value: match[1].trim() },
+        sourceAt(joined, match.index!, match[0].length), 'pattern');
       return match[1].trim();
     }
   }
@@ -322,8 +994,9 @@ function extractLocation(segments: DocumentSegment[]): string | null {
   return null;
 }
 
-function extractTimeframe(segments: DocumentSegment[]): string | null {
-  const allText = segments.map(s => s.content).join('\n');
+function extractTimeframe(segments: DocumentSegment[], facts: ExtractedFact[]): string | null {
+  const joined = joinSegments(segments);
+  const allText = joined.text;
   const timeframePatterns = [
     /(?:Leistungszeitraum|Vertragslaufzeit|Ausführungszeitraum)[\s:]+([^\n]{5,100})/i,
   ];
@@ -331,6 +1004,8 @@ function extractTimeframe(segments: DocumentSegment[]): string | null {
   for (const pattern of timeframePatterns) {
     const match = allText.match(pattern);
     if (match && match[1]) {
+      addFact(facts, 'performance_period', 'scope', { value: match[1].trim() },
+        sourceAt(joined, match.index!, match[0].length), 'pattern');
       return match[1].trim();
     }
   }
@@ -338,9 +1013,18 @@ function extractTimeframe(segments: DocumentSegment[]): string | null {
   return null;
 }
 
-function extractPflichtnachweise(segments: DocumentSegment[]): any {
+// Proofs whose threshold extractSuitability reads, by keyword
+const REQUIREMENT_KINDS: Record<string, SuitabilityKind> = {
+  umsatz: 'umsatz',
+  referenz: 'referenzen',
+  betriebshaftpflicht: 'versicherung',
+  berufshaftpflicht: 'versicherung'
+};
+
+function extractPflichtnachweise(segments: DocumentSegment[], facts: ExtractedFact[]): any {
   const nachweise: any[] = [];
-  const allText = segments.map(s => s.content).join('\n').toLowerCase();
+  const joined = joinSegments(segments);
+  const allText = joined.text.toLowerCase();
 
   // Common required documents
   const requiredDocs = [
@@ -360,81 +1044,280 @@ function extractPflichtnachweise(segments: DocumentSegment[]): any {
     { keyword: 'mindestlohn', name: 'Mindestlohn-Erklärung', category: 'Rechtsform' }
   ];
 
+  // Mindestanforderungen with their thresholds, e.g. "Mindestjahresumsatz von 1,5 Mio. EUR"
+  const mindestanforderungen = extractSuitability(joined.text).map(({ requirement, index, length }) => {
+    addFact(facts, 'suitability_threshold', 'requirements', { ...requirement }, sourceAt(joined, index, length), 'pattern');
+    return requirement;
+  });
+
   for (const doc of requiredDocs) {
-    if (allText.includes(doc.keyword)) {
+    const index = allText.indexOf(doc.keyword);
+    if (index !== -1) {
+      // The proof names its threshold where the documents give one
+      const threshold = mindestanforderungen.find(m => REQUIREMENT_KINDS[doc.keyword] === m.art);
       nachweise.push({
         bezeichnung: doc.name,
         kategorie: doc.category,
         pflicht: true,
-        hinweise: `Wird in den Unterlagen erwähnt`
+        hinweise: threshold ? threshold.text : `Wird in den Unterlagen erwähnt`
       });
+      addFact(facts, doc.category === 'Zertifikat' ? 'certification' : 'must_criteria', 'requirements',
+        { bezeichnung: doc.name, kategorie: doc.category }, sourceAt(joined, index, doc.keyword.length), 'keyword');
     }
   }
 
   return {
     liste: nachweise,
     anzahl: nachweise.length,
-    kategorien: [...new Set(nachweise.map(n => n.kategorie))]
+    kategorien: [...new Set(nachweise.map(n => n.kategorie))],
+    mindestanforderungen
   };
 }
 
-function extractZuschlagskriterien(segments: DocumentSegment[]): any {
-  const kriterien: any[] = [];
-  const allText = segments.map(s => s.content).join('\n');
-
-  // Try to extract weighted criteria
-  const weightPatterns = [
-    /([^:\n]{10,80})[\s:]+(\d{1,3})\s*%/g,
-    /(\d{1,3})\s*%[\s:-]+([^:\n]{10,80})/g
-  ];
+// Tables in document order. A headerless table right after another one of the
+// same file with as many columns continues it (price sheet on the next page).
+function collectTables(segments: DocumentSegment[]): SegmentTable[] {
+  const tables: SegmentTable[] = [];
 
-  for (const pattern of weightPatterns) {
-    let match;
-    while ((match = pattern.exec(allText)) !== null) {
-      kriterien.push({
-        bezeichnung: (match[1] || match[2]).trim(),
-        gewichtung: parseInt(match[2] || match[1]),
-        beschreibung: null
-      });
+  for (const segment of segments) {
+    const table: TableData | undefined = segment.metadata?.table;
+    if (!segment.metadata?.is_table || !table) continue;
+
+    let header = table.header;
+    const previous = tables[tables.length - 1];
+    if (!header && previous?.header &&
+        previous.segment.file_upload_id === segment.file_upload_id &&
+        previous.segment.sequence_number === segment.sequence_number - 1 &&
+        table.rows.every(row => row.length <= previous.header!.length)) {
+      header = previous.header;
     }
+
+    tables.push({
+      segment,
+      section: segment.section_type?.name || 'unknown',
+      header,
+      rows: table.rows
+    });
   }
 
-  // Fallback: common criteria
+  return tables;
+}
+
+const TOTAL_ROW = /^(summe|gesamt|zwischensumme|übertrag|total)\b/i;
+
+// A criterion line: optional numbering ("2.1", "b)") or level word, name, weight.
+// The name must not end in a digit so "Los 2: 40 %" is not read as weight 240.
+const CRITERION_LINE = /^[ \t]*(?:(\d{1,2}(?:\.\d{1,2})*)\.?|([a-z])\))?[ \t]*(?:(Haupt|Unter)kriterium\b[ \t:.-]*)?([^\n:]*?[a-zäöüß)][^\n:\d]*?)[ \t]*[:–-]?[ \t]*(\d{1,3}(?:,\d{1,2})?)[ \t]*(%|Prozent|Punkte|Pkt\.?)(?![a-z])/gim;
+
+function extractZuschlagskriterien(
+  segments: DocumentSegment[],
+  allSegments: DocumentSegment[],
+  tables: SegmentTable[],
+  facts: ExtractedFact[]
+) {
+  let kriterien: Zuschlagskriterium[] = criteriaFromTables(tables, facts);
+  const joined = joinSegments(segments.filter(s => !s.metadata?.is_table));
+
+  // Criteria given as running text, one per line, e.g. "2.1 Konzept: 20 Punkte"
   if (kriterien.length === 0) {
-    const commonCriteria = [
-      { keyword: 'preis', name: 'Preis', default_weight: 60 },
-      { keyword: 'qualität', name: 'Qualität', default_weight: 40 },
-      { keyword: 'referenz', name: 'Referenzen', default_weight: 10 },
-      { keyword: 'umwelt', name: 'Umweltaspekte', default_weight: 10 }
-    ];
-
-    for (const criterion of commonCriteria) {
-      if (allText.toLowerCase().includes(criterion.keyword)) {
-        kriterien.push({
-          bezeichnung: criterion.name,
-          gewichtung: null,
-          beschreibung: `Wird erwähnt in Zuschlagskriterien`
-        });
+    let hauptkriterium: Zuschlagskriterium | null = null;
+    const numbered = new Map<string, Zuschlagskriterium>();
+
+    for (const match of joined.text.matchAll(CRITERION_LINE)) {
+      const [line, nummer, letter, level, rawName, weight, unit] = match;
+      const name = rawName.replace(/[\s.–-]+$/, '').trim();
+      if (name.length < 3 || name.length > 80 || TOTAL_ROW.test(name)) continue;
+
+      const kriterium: Zuschlagskriterium = {
+        bezeichnung: name,
+        gewichtung: parseGermanNumber(weight),
+        einheit: /^p/i.test(unit) ? 'Punkte' : '%',
+        beschreibung: null,
+        nummer: nummer || letter || null,
+        oberkriterium: null
+      };
+
+      // "2.1" belongs to "2"; "Unterkriterium" to the Hauptkriterium above, and so
+      // does "b)" below a numbered one (a list of lettered criteria is one level)
+      const parentNumber = nummer?.includes('.') ? nummer.substring(0, nummer.lastIndexOf('.')) : null;
+      const underNumbered = letter && /^\d/.test(hauptkriterium?.nummer || '');
+      if (parentNumber && numbered.has(parentNumber)) {
+        kriterium.oberkriterium = numbered.get(parentNumber)!.bezeichnung;
+      } else if ((underNumbered || level?.toLowerCase() === 'unter') && hauptkriterium) {
+        kriterium.oberkriterium = hauptkriterium.bezeichnung;
+      } else {
+        hauptkriterium = kriterium;
       }
+      if (nummer) numbered.set(nummer, kriterium);
+
+      kriterien.push(kriterium);
+      addFact(facts, 'evaluation_criteria', 'evaluation', { ...kriterium },
+        sourceAt(joined, match.index!, line.length), 'pattern');
+    }
+  }
+
+  // The same matrix often appears in several documents of a batch
+  const seen = new Set<string>();
+  kriterien = kriterien.filter(k => {
+    const key = `${k.oberkriterium || ''}|${k.bezeichnung}`.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // The formula is usually explained next to the matrix, sometimes in the Bewerbungsbedingungen
+  const preisformel = detectPriceFormula(joined.text) ||
+    detectPriceFormula(joinSegments(allSegments.filter(s => !s.metadata?.is_table)).text);
+
+  return normalizeCriteria(kriterien, preisformel);
+}
+
+// Criteria matrices: a criterion column and a weight column in % or points.
+// Headerless tables only count inside a Zuschlagskriterien section. Matrices
+// with a Hauptkriterium and an Unterkriterium column, or numbered criteria
+// ("2.1"), give the hierarchy.
+function criteriaFromTables(tables: SegmentTable[], facts: ExtractedFact[]): Zuschlagskriterium[] {
+  const kriterien: Zuschlagskriterium[] = [];
+
+  for (const table of tables) {
+    let weightColumn = findColumn(table.header, /gewicht|wichtung|anteil|prozent|%|punkte|max\.?\s*pkt/i);
+    if (weightColumn === -1 && !table.header && table.section === 'zuschlagskriterien') {
+      weightColumn = mostlyColumn(table.rows, cell => /%/.test(cell) && parseGermanNumber(cell) !== null);
+    }
+    if (weightColumn === -1) continue;
+
+    const mainColumn = findColumn(table.header, /hauptkriter/i, [weightColumn]);
+    const subColumn = findColumn(table.header, /unterkriter/i, [weightColumn, mainColumn]);
+    let nameColumn = subColumn !== -1 && mainColumn !== -1
+      ? mainColumn
+      : findColumn(table.header, /kriteri|bezeichnung|merkmal|wertungs/i, [weightColumn]);
+    if (nameColumn === -1) {
+      nameColumn = mostlyColumn(table.rows, cell => cell.length > 2 && !isNumericCell(cell), [weightColumn]);
+    }
+    if (nameColumn === -1) continue;
+
+    const numberColumn = findColumn(table.header, /^(nr|lfd|pos)/i, [weightColumn, nameColumn, subColumn]);
+    const descriptionColumn = findColumn(table.header, /erläuterung|beschreibung|hinweis|bewertung/i,
+      [weightColumn, nameColumn, subColumn]);
+    const inPoints = /punkt|pkt/i.test(table.header?.[weightColumn] || '');
+    const numbered = new Map<string, string>();
+    // Merged cells: the Hauptkriterium is only written in its first row
+    let hauptkriterium: string | null = null;
+
+    for (const row of table.rows) {
+      const mainCell = row[nameColumn]?.trim() || '';
+      const subCell = subColumn !== -1 ? row[subColumn]?.trim() || '' : '';
+      if (mainCell) hauptkriterium = mainCell;
+
+      const numberedName = (subCell || mainCell).match(/^(\d{1,2}(?:\.\d{1,2})*)\.?\s+(.+)$/);
+      const nummer = (numberColumn !== -1 ? row[numberColumn]?.trim().replace(/\.$/, '') : '') || numberedName?.[1] || null;
+      const name = numberedName?.[2].trim() || subCell || mainCell;
+      if (!name || TOTAL_ROW.test(name)) continue;
+
+      const weight = parseGermanNumber(row[weightColumn]);
+      if (weight === null) continue;
+
+      let oberkriterium: string | null = null;
+      const parentNumber = nummer?.includes('.') ? nummer.substring(0, nummer.lastIndexOf('.')) : null;
+      if (parentNumber && numbered.has(parentNumber)) {
+        oberkriterium = numbered.get(parentNumber)!;
+      } else if (subCell && hauptkriterium && hauptkriterium !== subCell) {
+        oberkriterium = hauptkriterium;
+      }
+      if (nummer) numbered.set(nummer, name);
+
+      const kriterium: Zuschlagskriterium = {
+        bezeichnung: name,
+        gewichtung: weight,
+        einheit: inPoints || /punkt|pkt/i.test(row[weightColumn]) ? 'Punkte' : '%',
+        beschreibung: descriptionColumn !== -1 ? row[descriptionColumn] || null : null,
+        nummer,
+        oberkriterium
+      };
+      kriterien.push(kriterium);
+      addFact(facts, 'evaluation_criteria', 'evaluation', { ...kriterium }, tableRowSource(table, row), 'table');
+    }
+  }
+
+  return kriterien;
+}
+
+// Column where most rows satisfy the test, -1 if none does
+function mostlyColumn(rows: string[][], test: (cell: string) => boolean, exclude: number[] = []): number {
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  for (let column = 0; column < columns; column++) {
+    if (exclude.includes(column)) continue;
+    const hits = rows.filter(row => row[column] && test(row[column])).length;
+    if (hits > 0 && hits >= rows.length / 2) return column;
+  }
+  return -1;
+}
+
+// Price sheets (Preisblatt/LV excerpts): position number plus quantity, unit or price columns
+function extractPreisblatt(tables: SegmentTable[], facts: ExtractedFact[]) {
+  const positionen: Preisposition[] = [];
+
+  for (const table of tables) {
+    const positionColumn = findColumn(table.header, /^(pos|oz\b|ordnungsz|lfd)/i);
+    const quantityColumn = findColumn(table.header, /^(menge|anzahl)/i);
+    const unitColumn = findColumn(table.header, /^(einheit|me|eh|mengeneinheit)\.?$/i);
+    const unitPriceColumn = findColumn(table.header, /einheitspreis|^ep\b|preis je|preis\s*\/\s*einheit/i);
+    const totalColumn = findColumn(table.header, /gesamt|^gp\b|betrag/i, [unitPriceColumn]);
+    if (positionColumn === -1 || [quantityColumn, unitColumn, unitPriceColumn, totalColumn].every(c => c === -1)) continue;
+
+    const used = [positionColumn, quantityColumn, unitColumn, unitPriceColumn, totalColumn];
+    let textColumn = findColumn(table.header, /bezeichnung|leistung|beschreibung|kurztext|text/i, used);
+    if (textColumn === -1) {
+      textColumn = mostlyColumn(table.rows, cell => !isNumericCell(cell), used);
+    }
+
+    for (const row of table.rows) {
+      const position = row[positionColumn]?.trim() || '';
+      const text = textColumn !== -1 ? row[textColumn]?.trim() || '' : '';
+      if (!position && !text) continue;
+      if (TOTAL_ROW.test(position) || TOTAL_ROW.test(text)) continue;
+
+      const preisposition: Preisposition = {
+        position,
+        bezeichnung: text,
+        menge: quantityColumn !== -1 ? parseGermanNumber(row[quantityColumn]) : null,
+        einheit: unitColumn !== -1 ? row[unitColumn] || null : null,
+        einheitspreis: unitPriceColumn !== -1 ? parseGermanNumber(row[unitPriceColumn]) : null,
+        gesamtpreis: totalColumn !== -1 ? parseGermanNumber(row[totalColumn]) : null,
+        file_upload_id: table.segment.file_upload_id,
+        page_number: table.segment.page_number
+      };
+      positionen.push(preisposition);
+
+      addFact(facts, 'price_position', 'pricing', {
+        position,
+        bezeichnung: text,
+        menge: preisposition.menge,
+        einheit: preisposition.einheit,
+        einheitspreis: preisposition.einheitspreis,
+        gesamtpreis: preisposition.gesamtpreis
+      }, tableRowSource(table, row), 'table');
     }
   }
 
+  const priced = positionen.filter(p => p.gesamtpreis !== null);
   return {
-    kriterien,
-    anzahl: kriterien.length,
-    gewichtung_gesamt: kriterien.reduce((sum, k) => sum + (k.gewichtung || 0), 0)
+    positionen,
+    anzahl: positionen.length,
+    summe: priced.length > 0 ? priced.reduce((sum, p) => sum + p.gesamtpreis!, 0) : null
   };
 }
 
-function extractTechnicalSpecs(segments: DocumentSegment[]): any {
+function extractTechnicalSpecs(segments: DocumentSegment[], facts: ExtractedFact[]): any {
   return {
     spezifikationen: segments.map(s => s.content).join('\n\n'),
-    normen: extractNorms(segments)
+    normen: extractNorms(segments, facts)
   };
 }
 
-function extractNorms(segments: DocumentSegment[]): string[] {
-  const allText = segments.map(s => s.content).join('\n');
+function extractNorms(segments: DocumentSegment[], facts: ExtractedFact[]): string[] {
+  const joined = joinSegments(segments);
+  const allText = joined.text;
   const norms: string[] = [];
 
   const normPatterns = [
@@ -445,24 +1328,20 @@ function extractNorms(segments: DocumentSegment[]): string[] {
   ];
 
   for (const pattern of normPatterns) {
-    const matches = allText.match(pattern);
-    if (matches) {
-      norms.push(...matches);
+    for (const match of allText.matchAll(pattern)) {
+      // One fact per norm, where it is first mentioned
+      if (!norms.includes(match[0])) {
+        addFact(facts, 'technical_norm', 'technical', { value: match[0] },
+          sourceAt(joined, match.index!, match[0].length), 'pattern');
+      }
+      norms.push(match[0]);
     }
   }
 
   return [...new Set(norms)];
 }
 
-function extractFristen(segments: DocumentSegment[]): any {
-  const fristen: any[] = [];
-  const allText = segments.map(s => s.content).join('\n');
-
-  const datePatterns = [
-    /(\d{1,2})\.(\d{1,2})\.(\d{4})/g,
-    /(\d{4})-(\d{2})-(\d{2})/g,
-  ];
-
+function extractFristen(segments: DocumentSegment[], tables: SegmentTable[], facts: ExtractedFact[]) {
   const fristKeywords = [
     'Angebotsfrist',
     'Teilnahmefrist',
@@ -470,24 +1349,32 @@ function extractFristen(segments: DocumentSegment[]): any {
     'Rückfragefrist'
   ];
 
+  const fristen: Frist[] = fristenFromTables(tables, fristKeywords, facts);
+  const joined = joinSegments(segments.filter(s => !s.metadata?.is_table));
+  const allText = joined.text;
+
+  // Running text only for deadlines no table has named
   for (const keyword of fristKeywords) {
-    const keywordIndex = allText.indexOf(keyword);
-    if (keywordIndex !== -1) {
-      const contextText = allText.substring(keywordIndex, keywordIndex + 200);
-
-      for (const pattern of datePatterns) {
-        const matches = contextText.match(pattern);
-        if (matches && matches.length > 0) {
-          const dateStr = matches[0];
-          fristen.push({
-            bezeichnung: keyword,
-            datum: dateStr,
-            kontext: contextText.substring(0, 100)
-          });
-          break;
-        }
-      }
-    }
+    if (fristen.some(f => f.bezeichnung === keyword)) continue;
+
+    const keywordIndex = findKeyword(allText, new RegExp(keyword, 'g'));
+    if (keywordIndex === -1) continue;
+
+    const contextText = allText.substring(keywordIndex, keywordIndex + KEY_DATE_WINDOW);
+    // A period ("30 Kalendertage nach …") has no date of its own; a date after it belongs elsewhere
+    const mention = parseGermanDates(contextText)[0];
+    if (!mention?.start) continue;
+
+    const frist: Frist = {
+      bezeichnung: keyword,
+      datum: formatGermanDate(mention.start!.date),
+      uhrzeit: mention.start!.time,
+      zeitpunkt: mention.start!.timestamp,
+      kontext: contextText.substring(0, 100)
+    };
+    fristen.push(frist);
+    addFact(facts, 'deadline', 'deadlines', { bezeichnung: keyword, datum: frist.datum, uhrzeit: frist.uhrzeit },
+      sourceAt(joined, keywordIndex, mention.index + mention.text.length), 'pattern');
   }
 
   return {
@@ -496,129 +1383,427 @@ function extractFristen(segments: DocumentSegment[]): any {
   };
 }
 
-function extractRechtliches(segments: DocumentSegment[]): any {
-  const allText = segments.map(s => s.content).join('\n').toLowerCase();
+// First mention of the keyword that is not just the reference of another period
+function findKeyword(text: string, pattern: RegExp): number {
+  for (const match of text.matchAll(pattern)) {
+    if (!REFERENCE_BEFORE.test(text.slice(Math.max(0, match.index! - 40), match.index!))) {
+      return match.index!;
+    }
+  }
+  return -1;
+}
+
+// Deadline tables ("Termin | Datum"): every row with a date cell is a deadline.
+// Rows naming a known deadline use that name so later steps can find it.
+function fristenFromTables(tables: SegmentTable[], keywords: string[], facts: ExtractedFact[]): Frist[] {
+  const fristen: Frist[] = [];
+
+  for (const table of tables) {
+    if (!isDeadlineTable(table)) continue;
+
+    const labelColumn = findColumn(table.header, /bezeichnung|ereignis|vorgang|frist|termin|leistung/i);
+
+    for (const row of table.rows) {
+      const dateColumn = row.findIndex(cell => firstDate(cell) !== null);
+      if (dateColumn === -1) continue;
+
+      const label = (labelColumn !== -1 && labelColumn !== dateColumn ? row[labelColumn] : null)
+        || row.find((cell, index) => index !== dateColumn && cell.trim() && !isNumericCell(cell));
+      if (!label) continue;
+
+      const date = firstDate(row[dateColumn])!;
+      const time = date.time || row.map(findTime).find(Boolean) || null;
+      const keyword = keywords.find(k => label.toLowerCase().includes(k.toLowerCase()));
+
+      const frist: Frist = {
+        bezeichnung: keyword || label.trim(),
+        datum: formatGermanDate(date.date),
+        uhrzeit: time,
+        zeitpunkt: berlinTimestamp(date.date, time),
+        kontext: row.join(' | ')
+      };
+      fristen.push(frist);
+      addFact(facts, 'deadline', 'deadlines', { bezeichnung: frist.bezeichnung, datum: frist.datum, uhrzeit: time },
+        tableRowSource(table, row), 'table');
+    }
+  }
 
-  return {
-    tariftreue: allText.includes('tariftreue'),
-    mindestlohn: allText.includes('mindestlohn'),
-    datenschutz: allText.includes('datenschutz') || allText.includes('dsgvo'),
-    compliance: allText.includes('compliance'),
-    geheimhaltung: allText.includes('geheimhaltung') || allText.includes('vertraulichkeit')
-  };
+  return fristen;
+}
+
+function isDeadlineTable(table: SegmentTable): boolean {
+  return table.section === 'fristen' || table.section === 'meta' ||
+    findColumn(table.header, /frist|termin/i) !== -1;
+}
+
+function firstDate(text: string): GermanDate | null {
+  return parseGermanDates(text).find(mention => mention.start)?.start || null;
 }
 
-function extractSicherheit(segments: DocumentSegment[]): any {
-  const allText = segments.map(s => s.content).join('\n').toLowerCase();
+// Typed key dates for tenders.key_dates, searched in every section since
+// Ortstermin and Ausführungsbeginn are rarely under the deadlines heading
+function extractKeyDates(segments: DocumentSegment[], tables: SegmentTable[], facts: ExtractedFact[]): KeyDate[] {
+  const candidates: Array<{ keyDate: KeyDate; source: FactSource | null; method: ExtractionMethod }> = [];
+
+  for (const table of tables.filter(isDeadlineTable)) {
+    for (const row of table.rows) {
+      const rowText = row.join(' | ');
+      const keyType = KEY_DATE_TYPES.find(k => findKeyword(rowText, new RegExp(k.pattern.source, 'gi')) !== -1);
+      const mention = keyType && parseGermanDates(rowText).find(m => m.start || m.duration);
+      if (!keyType || !mention) continue;
+      candidates.push({ keyDate: toKeyDate(keyType, mention), source: tableRowSource(table, row), method: 'table' });
+    }
+  }
+
+  const joined = joinSegments(segments.filter(s => !s.metadata?.is_table));
+  for (const keyType of KEY_DATE_TYPES) {
+    for (const match of joined.text.matchAll(new RegExp(keyType.pattern.source, 'gi'))) {
+      if (REFERENCE_BEFORE.test(joined.text.slice(Math.max(0, match.index! - 40), match.index!))) continue;
+
+      const window = joined.text.slice(match.index!, match.index! + KEY_DATE_WINDOW);
+      const mention = parseGermanDates(window).find(m => m.start || m.duration);
+      if (!mention) continue;
+
+      // A date after another key date's name belongs to that one
+      const between = window.slice(match[0].length, mention.index);
+      if (KEY_DATE_TYPES.some(other => other !== keyType && other.pattern.test(between))) continue;
+
+      candidates.push({
+        keyDate: toKeyDate(keyType, mention),
+        source: sourceAt(joined, match.index!, mention.index + mention.text.length),
+        method: 'pattern'
+      });
+    }
+  }
 
+  // Per type: a date over a period, a time over a bare day, a table over running text
+  const rank = (candidate: typeof candidates[number]) =>
+    (candidate.keyDate.date ? 0 : 4) + (candidate.keyDate.time ? 0 : 2) + (candidate.method === 'table' ? 0 : 1);
+
+  const chosen = KEY_DATE_TYPES
+    .map(keyType => candidates
+      .filter(candidate => candidate.keyDate.type === keyType.type)
+      .sort((a, b) => rank(a) - rank(b))[0])
+    .filter(Boolean);
+
+  // Periods counted from the Angebotsfrist; a Bindefrist always is (§ 10 VOB/A)
+  const submission = chosen.find(c => c.keyDate.type === 'angebotsfrist' && c.keyDate.date)?.keyDate;
+  for (const { keyDate } of chosen) {
+    const duration = keyDate.duration;
+    if (!submission || keyDate.date || !duration) continue;
+    const fromSubmission = duration.reference
+      ? /angebot/i.test(duration.reference)
+      : keyDate.type === 'bindefrist';
+    if (!fromSubmission) continue;
+
+    const resolved = addDuration({ date: submission.date!, time: submission.time, timestamp: submission.timestamp! }, duration);
+    keyDate.date = resolved.date;
+    keyDate.time = resolved.time;
+    keyDate.timestamp = resolved.timestamp;
+  }
+
+  for (const { keyDate, source, method } of chosen) {
+    addFact(facts, 'key_date', 'deadlines', {
+      typ: keyDate.type,
+      bezeichnung: keyDate.description,
+      datum: keyDate.date ? formatGermanDate(keyDate.date) : null,
+      uhrzeit: keyDate.time,
+      zeitpunkt: keyDate.timestamp
+    }, source, method);
+  }
+
+  return chosen.map(candidate => candidate.keyDate);
+}
+
+function toKeyDate(keyType: typeof KEY_DATE_TYPES[number], mention: DateMention): KeyDate {
   return {
-    arbeitsschutz: allText.includes('arbeitsschutz'),
-    sige: allText.includes('sige') || allText.includes('sicherheitskoordinator'),
-    dguv: allText.includes('dguv'),
-    unfallverhütung: allText.includes('unfallverhütung')
+    type: keyType.type,
+    description: keyType.label,
+    date: mention.start?.date || null,
+    time: mention.start?.time || null,
+    timestamp: mention.start?.timestamp || null,
+    end_timestamp: mention.end?.timestamp || null,
+    duration: mention.duration,
+    text: mention.text
   };
 }
 
-function detectDuplicates(segments: DocumentSegment[]): any[] {
-  const duplicates: any[] = [];
-  const seen: Map<string, DocumentSegment> = new Map();
+// Tenders already created from this batch pick up re-extracted key dates
+async function syncTenderKeyDates(supabase: SupabaseClient, batchId: string, keyDates: KeyDate[]) {
+  const { data: batch } = await supabase
+    .from('tender_upload_batches')
+    .select('tender_id')
+    .eq('id', batchId)
+    .maybeSingle();
+
+  if (!batch?.tender_id) return;
+
+  const submission = keyDates.find(k => k.type === 'angebotsfrist' && k.timestamp);
+  const { error } = await supabase
+    .from('tenders')
+    .update({
+      key_dates: keyDates,
+      ...(submission ? { deadline: submission.timestamp } : {})
+    })
+    .eq('id', batch.tender_id);
+
+  if (error) {
+    console.error('Failed to update tender key dates:', error);
+  }
+}
 
-  for (const segment of segments) {
-    const normalized = segment.normalized_content.toLowerCase().trim();
-
-    // Skip very short segments
-    if (normalized.length < 50) continue;
-
-    if (seen.has(normalized)) {
-      const original = seen.get(normalized)!;
-      duplicates.push({
-        field_name: 'content_duplicate',
-        conflict_type: 'duplicate',
-        source_segments: [original.id, segment.id],
-        conflicting_values: [
-          { file_id: original.file_upload_id, content: original.content.substring(0, 100) },
-          { file_id: segment.file_upload_id, content: segment.content.substring(0, 100) }
-        ],
-        resolution_status: 'ignored'
-      });
-    } else {
-      seen.set(normalized, segment);
+function extractRechtliches(segments: DocumentSegment[], facts: ExtractedFact[]): any {
+  return findFlags(segments, {
+    tariftreue: ['tariftreue'],
+    mindestlohn: ['mindestlohn'],
+    datenschutz: ['datenschutz', 'dsgvo'],
+    compliance: ['compliance'],
+    geheimhaltung: ['geheimhaltung', 'vertraulichkeit']
+  }, 'legal_requirement', 'legal', facts);
+}
+
+function extractSicherheit(segments: DocumentSegment[], facts: ExtractedFact[]): any {
+  return findFlags(segments, {
+    arbeitsschutz: ['arbeitsschutz'],
+    sige: ['sige', 'sicherheitskoordinator'],
+    dguv: ['dguv'],
+    unfallverhütung: ['unfallverhütung']
+  }, 'safety_requirement', 'safety', facts);
+}
+
+// Flag per topic: true when any of its keywords is mentioned, with a fact at the first mention
+function findFlags(
+  segments: DocumentSegment[],
+  topics: Record<string, string[]>,
+  factType: string,
+  category: string,
+  facts: ExtractedFact[]
+): Record<string, boolean> {
+  const joined = joinSegments(segments);
+  const allText = joined.text.toLowerCase();
+  const flags: Record<string, boolean> = {};
+
+  for (const [topic, keywords] of Object.entries(topics)) {
+    flags[topic] = false;
+    for (const keyword of keywords) {
+      const index = allText.indexOf(keyword);
+      if (index === -1) continue;
+      flags[topic] = true;
+      addFact(facts, factType, category, { merkmal: topic }, sourceAt(joined, index, keyword.length), 'keyword');
+      break;
     }
   }
 
-  return duplicates;
+  return flags;
 }
 
-function detectConflicts(metaInfo: any, fristen: any): any[] {
-  const conflicts: any[] = [];
+// Compares every consolidated field across the source files. Each file is
+// extracted on its own, so a value is traced to the file and segment stating it.
+function detectConflicts(segments: DocumentSegment[], tables: SegmentTable[]): DocumentConflict[] {
+  // field name -> file -> first value the file states
+  const values = new Map<string, Map<string, StatedValue>>();
+  const files = new Map<string, string>();
+
+  for (const [fileId, fileSegments] of groupByFile(segments)) {
+    files.set(fileId, fileName(fileSegments[0]));
+    const fileTables = tables.filter(table => table.segment.file_upload_id === fileId);
+    const fileFacts: ExtractedFact[] = [];
+    extractSections(groupBySection(fileSegments), fileSegments, fileTables, fileFacts);
+
+    for (const fact of fileFacts) {
+      const definition = CONFLICT_FIELDS.find(f => f.factType === fact.fact_type);
+      const field = definition?.field(fact.fact_value);
+      const value = definition?.read(fact.fact_value);
+      if (!definition || !field || !value) continue;
+
+      const byFile = values.get(field) || new Map<string, StatedValue>();
+      if (!byFile.has(fileId)) {
+        byFile.set(fileId, { value, label: definition.label(fact.fact_value), comparison: definition.comparison, fact });
+      }
+      values.set(field, byFile);
+    }
+  }
+
+  const conflicts: DocumentConflict[] = [];
+
+  for (const [field, byFile] of values) {
+    const stated = [...byFile.values()];
+    const conflictType = classifyDifference(stated.map(s => s.value), stated[0].comparison);
+    if (!conflictType) continue;
+
+    conflicts.push({
+      field_name: field,
+      field_label: stated[0].label,
+      conflict_type: conflictType,
+      source_segments: [...new Set(stated.map(s => s.fact.source.segment.id))],
+      conflicting_values: groupStatedValues(stated),
+      resolution_status: 'pending',
+      resolution_note: conflictType === 'contradiction'
+        ? `${stated[0].label}: widersprüchliche Angaben in ${stated.length} Dokumenten`
+        : `${stated[0].label}: abweichende Schreibweise in ${stated.length} Dokumenten`
+    });
+  }
 
-  // Check for multiple deadlines
-  if (fristen.fristen && fristen.fristen.length > 1) {
-    const uniqueDates = [...new Set(fristen.fristen.map((f: any) => f.datum))];
-    if (uniqueDates.length > 1) {
+  // A weighted criterion only some of the criteria documents list
+  const criteriaFields = [...values.keys()].filter(field => field.startsWith('zuschlagskriterien.'));
+  const criteriaFiles = new Set(criteriaFields.flatMap(field => [...values.get(field)!.keys()]));
+  if (criteriaFiles.size > 1) {
+    for (const field of criteriaFields) {
+      const byFile = values.get(field)!;
+      const lacking = [...criteriaFiles].filter(fileId => !byFile.has(fileId));
+      if (lacking.length === 0) continue;
+
+      const stated = [...byFile.values()];
       conflicts.push({
-        field_name: 'deadline',
-        conflict_type: 'contradiction',
-        source_segments: [],
-        conflicting_values: uniqueDates,
+        field_name: field,
+        field_label: stated[0].label,
+        conflict_type: 'missing',
+        source_segments: [...new Set(stated.map(s => s.fact.source.segment.id))],
+        conflicting_values: groupStatedValues(stated),
         resolution_status: 'pending',
-        resolution_note: 'Mehrere unterschiedliche Fristen gefunden'
+        resolution_note: `${stated[0].label} fehlt in: ${lacking.map(fileId => files.get(fileId)).join(', ')}`
       });
     }
   }
 
+  for (const required of REQUIRED_FIELDS) {
+    if (values.has(required.field)) continue;
+    conflicts.push({
+      field_name: required.field,
+      field_label: required.label,
+      conflict_type: 'missing',
+      source_segments: [],
+      conflicting_values: [],
+      resolution_status: 'pending',
+      resolution_note: `${required.label} in keinem Dokument gefunden`
+    });
+  }
+
   return conflicts;
 }
 
-function validateExtractedData(data: any): any[] {
-  const errors: any[] = [];
+function groupByFile(segments: DocumentSegment[]): Map<string, DocumentSegment[]> {
+  const grouped = new Map<string, DocumentSegment[]>();
+  for (const segment of segments) {
+    const fileSegments = grouped.get(segment.file_upload_id) || [];
+    fileSegments.push(segment);
+    grouped.set(segment.file_upload_id, fileSegments);
+  }
+  return grouped;
+}
 
-  // Validate meta_info
-  if (!data.meta_info?.auftraggeber) {
-    errors.push({
-      field_path: 'meta_info.auftraggeber',
-      field_type: 'string',
-      is_required: true,
-      is_valid: false,
-      validation_rule: 'required',
-      error_message: 'Auftraggeber nicht gefunden'
-    });
+function metaField(factType: string, field: string, label: string, comparison: Comparison): ConflictField {
+  return {
+    factType,
+    comparison,
+    field: () => field,
+    label: () => label,
+    read: value => typeof value.value === 'string' ? value.value : null
+  };
+}
+
+// null when all files agree
+function classifyDifference(values: string[], comparison: Comparison): DocumentConflict['conflict_type'] | null {
+  const distinct = [...new Set(values.map(value => value.replace(/\s+/g, ' ').trim()))];
+  if (distinct.length < 2) return null;
+
+  const loose = [...new Set(distinct.map(looseText))];
+  if (new Set(loose.map(value => value.replace(/ /g, ''))).size === 1) return 'inconsistency';
+  if (comparison === 'code') return 'contradiction';
+
+  // "Stadt Musterhausen" / "Stadt Musterhausen, Tiefbauamt", "14.03.2026" / "14.03.2026 10:00"
+  const close = (a: string, b: string) =>
+    ` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `) ||
+    (comparison === 'text' && similarity(a, b) >= TEXT_SIMILARITY);
+
+  return loose.every(a => loose.every(b => a === b || close(a, b))) ? 'inconsistency' : 'contradiction';
+}
+
+// Dice coefficient of character bigrams
+function similarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const compact = text.replace(/ /g, '');
+    return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+  };
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.length === 0 || second.length === 0) return 0;
+
+  const remaining = [...second];
+  let shared = 0;
+  for (const bigram of first) {
+    const index = remaining.indexOf(bigram);
+    if (index === -1) continue;
+    shared++;
+    remaining.splice(index, 1);
   }
+  return (2 * shared) / (first.length + second.length);
+}
 
-  if (!data.meta_info?.kontakt?.email && !data.meta_info?.kontakt?.telefon) {
-    errors.push({
-      field_path: 'meta_info.kontakt',
-      field_type: 'object',
-      is_required: true,
-      is_valid: false,
-      validation_rule: 'required',
-      error_message: 'Keine Kontaktinformationen gefunden'
+function groupStatedValues(stated: StatedValue[]): ConflictValue[] {
+  const grouped = new Map<string, ConflictValue>();
+  for (const { value, fact } of stated) {
+    const key = value.replace(/\s+/g, ' ').trim();
+    const entry = grouped.get(key) || { value: key, sources: [] };
+    entry.sources.push({
+      file_upload_id: fact.source.segment.file_upload_id,
+      source_document: fileName(fact.source.segment),
+      page_number: fact.source.segment.page_number,
+      segment_id: fact.source.segment.id
     });
+    grouped.set(key, entry);
   }
+  return [...grouped.values()];
+}
 
-  // Validate leistungsumfang
-  if (!data.leistungsumfang?.beschreibung || data.leistungsumfang.beschreibung.length < 50) {
-    errors.push({
-      field_path: 'leistungsumfang.beschreibung',
-      field_type: 'string',
-      is_required: true,
-      is_valid: false,
-      validation_rule: 'min_length',
-      error_message: 'Leistungsbeschreibung zu kurz oder nicht vorhanden'
-    });
+// Active rules of the batch's organization; the baseline checks if they cannot be read.
+// Rules that cannot be run are skipped rather than failing the aggregation.
+async function loadValidationRules(supabase: SupabaseClient, batchId: string): Promise<ValidationRule[]> {
+  const { data: batch, error: batchError } = await supabase
+    .from('tender_upload_batches')
+    .select('org_id')
+    .eq('id', batchId)
+    .single();
+  if (batchError) {
+    console.error('Failed to load the batch organization, using baseline rules:', batchError.message);
+    return BASELINE_RULES;
   }
 
-  // Validate pflichtnachweise
-  if (!data.pflichtnachweise?.liste || data.pflichtnachweise.liste.length === 0) {
-    errors.push({
-      field_path: 'pflichtnachweise.liste',
-      field_type: 'array',
-      is_required: false,
-      is_valid: false,
-      validation_rule: 'not_empty',
-      error_message: 'Keine Pflichtnachweise identifiziert'
-    });
+  const { data, error } = await supabase
+    .from('validation_rules')
+    .select('id, name, field_path, rule_type, params, severity, procurement_types, message')
+    .eq('org_id', batch.org_id)
+    .eq('is_active', true)
+    .order('created_at');
+
+  if (error) {
+    console.error('Failed to load validation rules, using baseline rules:', error.message);
+    return BASELINE_RULES;
+  }
+
+  return ((data || []) as ValidationRule[]).filter(rule => {
+    const problem = ruleDefinitionError(rule);
+    if (problem) console.warn(`Skipping validation rule ${rule.id}: ${problem}`);
+    return !problem;
+  });
+}
+
+// Replaces the failed checks of an earlier run
+async function saveValidations(supabase: SupabaseClient, profileId: string, validations: ValidationResult[]) {
+  const { error: deleteError } = await supabase
+    .from('extraction_validations')
+    .delete()
+    .eq('tender_profile_id', profileId);
+  if (deleteError) {
+    console.error('Failed to clear validations:', deleteError.message);
+    return;
   }
 
-  return errors;
+  if (validations.length === 0) return;
+  const { error } = await supabase
+    .from('extraction_validations')
+    .insert(validations.map(v => ({ tender_profile_id: profileId, ...v })));
+  if (error) {
+    console.error('Failed to save validations:', error.message);
+  }
 }
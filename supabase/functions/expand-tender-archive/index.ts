@@ -0,0 +1,167 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { expandArchive } from "../_shared/archive.ts";
+import { storeArchiveDocuments, StoredUpload } from "../_shared/archive-storage.ts";
+import { AccessError, assertBatchAccess, loadBatchUpload } from "../_shared/tenancy.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Path and name of the archive are read from its upload row
+interface ExpandRequest {
+  batchId: string;
+  fileId: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let fileId: string | undefined;
+
+  try {
+    const requestData: ExpandRequest = await req.json();
+    const { batchId } = requestData;
+    // Checked before the file id is kept, so a refused request marks nothing as failed
+    await assertBatchAccess(supabase, req, supabaseServiceKey, batchId);
+    if (!batchId || !requestData.fileId) {
+      throw new Error('Missing required fields');
+    }
+    const { file_path: filePath, original_filename: originalFilename } =
+      await loadBatchUpload(supabase, batchId, requestData.fileId);
+    fileId = requestData.fileId;
+
+    console.log('Expanding archive:', { fileId, originalFilename });
+
+    await supabase
+      .from("tender_file_uploads")
+      .update({ processing_status: "processing" })
+      .eq("id", fileId);
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from("tender-documents")
+      .download(filePath);
+
+    if (downloadError || !fileData) {
+      throw new Error(`Failed to download archive: ${downloadError?.message}`);
+    }
+
+    const archive = await expandArchive(new Uint8Array(await fileData.arrayBuffer()));
+    console.log(`Archive contains ${archive.documents.length} documents, skipped ${archive.skipped.length} entries`);
+
+    if (archive.documents.length === 0) {
+      throw new Error('Archive contains no supported documents (PDF, DOCX, DOC, XLSX, XLS, TXT)');
+    }
+
+    const stored = await storeArchiveDocuments(supabase, batchId, archive, fileId);
+    if (stored.pending.length === 0 && stored.duplicates === 0) {
+      throw new Error(`None of the archive documents could be stored: ${stored.failed.join(', ')}`);
+    }
+
+    // The archive row stays as the container the extracted documents point to
+    await supabase
+      .from("tender_file_uploads")
+      .update({
+        processing_status: "expanded",
+        extraction_result: {
+          documents: archive.documents.map(d => ({
+            path: d.path,
+            duplicate_of: d.duplicateOf || null
+          })),
+          skipped: archive.skipped,
+          failed: stored.failed
+        },
+        processed_at: new Date().toISOString(),
+      })
+      .eq("id", fileId);
+
+    EdgeRuntime.waitUntil(processDocuments(supabaseUrl, supabaseServiceKey, batchId, stored.pending));
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        documents: archive.documents.length,
+        queued: stored.pending.length,
+        duplicates: stored.duplicates,
+        skipped: archive.skipped,
+        failed: stored.failed
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Archive expansion error:", error);
+
+    // A failed archive counts as one processed file, so the batch can still complete
+    if (fileId) {
+      try {
+        await supabase
+          .from("tender_file_uploads")
+          .update({
+            processing_status: "failed",
+            error_message: error.message || "Archive expansion failed",
+          })
+          .eq("id", fileId);
+      } catch (updateError) {
+        console.error("Failed to update file status:", updateError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || "Unknown error"
+      }),
+      {
+        status: error instanceof AccessError ? error.status : 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
+
+// Run the document pipeline for each extracted file, one at a time
+async function processDocuments(supabaseUrl: string, serviceKey: string, batchId: string, files: StoredUpload[]) {
+  for (const file of files) {
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/process-tender-documents`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${serviceKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          batchId,
+          fileId: file.id,
+          filePath: file.file_path,
+          mimeType: file.mime_type,
+          originalFilename: file.original_filename,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Processing failed for ${file.original_filename}:`, await response.text());
+      }
+    } catch (error) {
+      console.error(`Failed to trigger processing for ${file.original_filename}:`, error);
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { extractPdfPages } from "../_shared/pdf-text.ts";
+import { extractOoxml } from "../_shared/ooxml.ts";
+import { meanConfidence, ocrPdfPages, OcrLine, OcrPage } from "../_shared/ocr.ts";
+import { buildTable, looksLikeHeader, splitCells, TableData, tableToText } from "../_shared/tables.ts";
+import { MODEL_TYPE, NaiveBayesModel, predict } from "../_shared/classifier.ts";
+import { AccessError, assertBatchAccess, loadBatchUpload } from "../_shared/tenancy.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,32 +13,77 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+// Path, type and name of the file are read from its upload row
 interface ProcessRequest {
   batchId: string;
   fileId: string;
-  filePath: string;
-  mimeType: string;
-  originalFilename: string;
+}
+
+interface ExtractedLine {
+  text: string;
+  page_number?: number;
+  heading_level?: number;
+  ocr_confidence?: number;
+  // Table row from a DOCX/XLSX table; PDF and text lines are split into cells during segmentation
+  cells?: string[];
 }
 
 interface Segment {
   content: string;
   page_number?: number;
   sequence_number: number;
+  // Mean OCR confidence of the segment's lines, only set for scanned pages
+  ocr_confidence?: number;
   metadata: {
     heading?: string;
+    heading_level?: number;
+    // Titles of the enclosing headings from the top of the outline; a heading includes itself
+    heading_path: string[];
+    depth: number;
+    section_number?: string;
     is_heading: boolean;
+    ocr?: boolean;
+    is_table?: boolean;
+    table?: TableData;
     line_start: number;
     line_end: number;
   };
 }
 
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Long price sheets are split into several table segments, each with the header
+const MAX_TABLE_ROWS = 100;
+
+// Position of a heading in the outline: lower ranks enclose higher ones
+interface HeadingMarker {
+  rank: number;
+  number: string | null;
+}
+
+interface OutlineEntry {
+  title: string;
+  rank: number;
+  // Opened by a heading marker ("3.2", "Anlage 1") rather than by caps alone
+  numbered: boolean;
+}
+
 interface SectionType {
   id: string;
   name: string;
   keywords: string[];
 }
 
+interface SectionMatch {
+  id: string;
+  confidence: number;
+  source: 'model' | 'keywords';
+}
+
+// Trained-model predictions below this are left to the keywords
+const MODEL_MIN_PROBABILITY = 0.6;
+const MODEL_MIN_KNOWN_TOKENS = 3;
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -50,15 +101,17 @@ Deno.serve(async (req: Request) => {
 
   try {
     const requestData: ProcessRequest = await req.json();
-    batchId = requestData.batchId;
-    fileId = requestData.fileId;
-    const filePath = requestData.filePath;
-    const mimeType = requestData.mimeType;
-    const originalFilename = requestData.originalFilename;
-
-    if (!batchId || !fileId || !filePath || !mimeType || !originalFilename) {
+    // Checked before the ids are kept, so a refused request marks nothing as failed
+    await assertBatchAccess(supabase, req, supabaseServiceKey, requestData.batchId);
+    if (!requestData.batchId || !requestData.fileId) {
       throw new Error('Missing required fields');
     }
+    const upload = await loadBatchUpload(supabase, requestData.batchId, requestData.fileId);
+    batchId = requestData.batchId;
+    fileId = requestData.fileId;
+    const filePath = upload.file_path;
+    const mimeType = upload.mime_type;
+    const originalFilename = upload.original_filename;
 
     console.log('Processing file:', { fileId, originalFilename, mimeType });
 
@@ -80,32 +133,39 @@ Deno.serve(async (req: Request) => {
 
     console.log('File downloaded, size:', fileData.size);
 
-    // Extract text
-    let extractedText = "";
+    // Extract text line by line, keeping page numbers and heading levels where the format has them
+    let lines: ExtractedLine[] = [];
+    let ocrPages: OcrPage[] = [];
     try {
       if (mimeType === "application/pdf") {
-        extractedText = await extractPdfText(fileData);
-      } else if (mimeType.includes("word") || mimeType.includes("document")) {
-        extractedText = await extractWordText(fileData);
+        ({ lines, ocrPages } = await extractPdfText(fileData));
       } else if (mimeType.includes("sheet") || mimeType.includes("excel")) {
-        extractedText = await extractExcelText(fileData);
+        lines = await extractOfficeText(fileData, extractExcelText);
+      } else if (mimeType.includes("word") || mimeType.includes("document")) {
+        lines = await extractOfficeText(fileData, extractWordText);
       } else if (mimeType === "text/plain") {
-        extractedText = await fileData.text();
+        lines = toLines(await fileData.text());
       } else {
-        extractedText = await fileData.text();
+        lines = toLines(await fileData.text());
       }
     } catch (extractError) {
       console.error("Text extraction error:", extractError);
-      extractedText = `[Failed to extract text from ${originalFilename}]`;
+      lines = toLines(`[Failed to extract text from ${originalFilename}]`);
     }
 
-    console.log('Text extracted, length:', extractedText.length);
+    const extractedText = lines.map(line => line.text).join('\n');
+    console.log('Text extracted, length:', extractedText.length, 'lines:', lines.length);
+
+    if (ocrPages.length > 0) {
+      console.log(`OCR ran on ${ocrPages.length} scanned pages`);
+      await recordOcrQuality(supabase, batchId, fileId, originalFilename, ocrPages);
+    }
 
     await updatePipelineStage(supabase, batchId, 'normalization', 'completed');
     await updatePipelineStage(supabase, batchId, 'segmentation', 'processing');
 
     // PHASE 2: Segmentation
-    const segments = segmentDocument(extractedText);
+    const segments = segmentDocument(lines);
     console.log(`Created ${segments.length} segments`);
 
     await updatePipelineStage(supabase, batchId, 'segmentation', 'completed');
@@ -116,7 +176,32 @@ Deno.serve(async (req: Request) => {
       .from('section_types')
       .select('id, name, keywords');
 
-    const classifiedSegments = await classifySegments(segments, sectionTypes || [], batchId, fileId);
+    // Each organization has its own model, trained on its own labels
+    const { data: batch } = await supabase
+      .from('tender_upload_batches')
+      .select('org_id')
+      .eq('id', batchId)
+      .single();
+
+    const { data: activeModel } = await supabase
+      .from('classifier_models')
+      .select('version, model')
+      .eq('org_id', batch?.org_id)
+      .eq('model_type', MODEL_TYPE)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (activeModel) {
+      console.log(`Using trained classifier v${activeModel.version}`);
+    }
+
+    const classifiedSegments = await classifySegments(
+      segments,
+      sectionTypes || [],
+      (activeModel?.model as NaiveBayesModel | undefined) ?? null,
+      batchId,
+      fileId
+    );
     console.log(`Classified ${classifiedSegments.length} segments`);
 
     // Save segments to database
@@ -197,7 +282,7 @@ Deno.serve(async (req: Request) => {
         error: error.message || "Unknown error"
       }),
       {
-        status: 500,
+        status: error instanceof AccessError ? error.status : 500,
         headers: {
           ...corsHeaders,
           "Content-Type": "application/json",
@@ -225,67 +310,175 @@ async function updatePipelineStage(supabase: any, batchId: string, stageName: st
     .eq('stage_name', stageName);
 }
 
+interface OcrFileSummary {
+  filename: string;
+  pages: number;
+  avg_confidence: number | null;
+}
+
+interface LowQualityPage {
+  file_upload_id: string;
+  filename: string;
+  page_number: number;
+  confidence: number | null;
+  reason: OcrPage['issue'];
+  detail: string | null;
+}
+
+// Flags scanned pages that need a manual check on the normalization stage.
+// Several files of a batch share the stage row and are processed in parallel,
+// so the database merges the entries per file (record_ocr_quality).
+async function recordOcrQuality(supabase: SupabaseClient, batchId: string, fileId: string, filename: string, ocrPages: OcrPage[]) {
+  const recognized = ocrPages.filter(page => page.confidence !== null);
+  const summary: OcrFileSummary = {
+    filename,
+    pages: ocrPages.length,
+    avg_confidence: recognized.length > 0
+      ? Math.round(recognized.reduce((sum, page) => sum + page.confidence!, 0) / recognized.length * 100) / 100
+      : null
+  };
+
+  // Blank pages (no text, no image) are not worth a manual check
+  const flagged: LowQualityPage[] = ocrPages
+    .filter(page => page.issue && page.issue !== 'no_image')
+    .map(page => ({
+      file_upload_id: fileId,
+      filename,
+      page_number: page.page_number,
+      confidence: page.confidence,
+      reason: page.issue,
+      detail: page.detail ?? null
+    }));
+
+  const { error } = await supabase.rpc('record_ocr_quality', {
+    batch_id_param: batchId,
+    file_id_param: fileId,
+    summary,
+    flagged_pages: flagged
+  });
+
+  if (error) {
+    console.error(`Failed to record OCR quality for ${filename}:`, error);
+  }
+}
+
 // Segmentation: Split document into semantic segments
-function segmentDocument(text: string): Segment[] {
+// Segments never span a page break so each one can point to its source page.
+// Documents with styled headings (DOCX) use those levels instead of the text heuristic.
+// Tables become their own segments with rows and cells in metadata.table.
+function segmentDocument(lines: ExtractedLine[]): Segment[] {
   const segments: Segment[] = [];
-  const lines = text.split('\n');
+  const hasStyledHeadings = lines.some(line => line.heading_level !== undefined);
 
   let currentSegment: string[] = [];
+  let currentOcr: OcrLine[] = [];
+  let currentPage: number | undefined;
   let currentHeading = '';
+  const outline: OutlineEntry[] = [];
+  const headingPath = () => outline.map(entry => entry.title);
   let sequenceNumber = 0;
   let lineStart = 0;
 
+  const flushSegment = (lineEnd: number) => {
+    if (currentSegment.length === 0) return;
+    const isOcr = currentOcr.length > 0;
+    segments.push({
+      content: currentSegment.join('\n'),
+      page_number: currentPage,
+      sequence_number: sequenceNumber++,
+      ocr_confidence: isOcr ? meanConfidence(currentOcr) : undefined,
+      metadata: {
+        heading: currentHeading,
+        heading_path: headingPath(),
+        depth: outline.length,
+        is_heading: false,
+        ...(isOcr ? { ocr: true } : {}),
+        line_start: lineStart,
+        line_end: lineEnd
+      }
+    });
+    currentSegment = [];
+    currentOcr = [];
+  };
+
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
+    const line = lines[i].text.trim();
+    const pageNumber = lines[i].page_number;
 
-    // Skip empty lines
-    if (!line) {
-      if (currentSegment.length > 0) {
+    // Close the open segment at page boundaries
+    if (currentSegment.length > 0 && pageNumber !== currentPage) {
+      flushSegment(i - 1);
+    }
+
+    // Tables are detected before headings, "1.1 | Schneeräumung | 250 | m²" is a row, not a heading
+    const tableRows = collectTableRows(lines, i);
+    if (tableRows) {
+      flushSegment(i - 1);
+      const table = buildTable(tableRows.rows);
+      for (let start = 0; start < Math.max(table.rows.length, 1); start += MAX_TABLE_ROWS) {
+        const chunk: TableData = { ...table, rows: table.rows.slice(start, start + MAX_TABLE_ROWS) };
         segments.push({
-          content: currentSegment.join('\n'),
+          content: tableToText(chunk),
+          page_number: pageNumber,
           sequence_number: sequenceNumber++,
           metadata: {
             heading: currentHeading,
+            heading_path: headingPath(),
+            depth: outline.length,
             is_heading: false,
-            line_start: lineStart,
-            line_end: i
+            is_table: true,
+            table: chunk,
+            line_start: i,
+            line_end: tableRows.end - 1
           }
         });
-        currentSegment = [];
       }
+      i = tableRows.end - 1;
+      lineStart = tableRows.end;
+      continue;
+    }
+
+    // Skip empty lines
+    if (!line) {
+      flushSegment(i);
       continue;
     }
 
     // Detect headings (all caps, short, or numbered)
-    const isHeading =
-      (line.length < 100 && line === line.toUpperCase() && /[A-ZÄÖÜ]/.test(line)) ||
-      /^[0-9]+\.|^[0-9]+\.[0-9]+|^[A-Z]\)|^[IVX]+\./.test(line) ||
-      /^(Artikel|Abschnitt|Kapitel|Teil|Anlage|§)\s+[0-9IVX]/.test(line);
+    const marker = hasStyledHeadings ? null : parseHeadingMarker(line);
+    const isHeading = hasStyledHeadings
+      ? lines[i].heading_level !== undefined
+      : marker !== null ||
+        (line.length < 100 && line === line.toUpperCase() && /[A-ZÄÖÜ]/.test(line));
 
     if (isHeading) {
       // Save previous segment if exists
-      if (currentSegment.length > 0) {
-        segments.push({
-          content: currentSegment.join('\n'),
-          sequence_number: sequenceNumber++,
-          metadata: {
-            heading: currentHeading,
-            is_heading: false,
-            line_start: lineStart,
-            line_end: i - 1
-          }
-        });
-        currentSegment = [];
-      }
+      flushSegment(i - 1);
+
+      // Styled headings carry their level; otherwise the marker decides. Unnumbered caps titles are
+      // top level, but inside a numbered section they sit below it instead of closing the outline
+      const openNumbered = outline.filter(entry => entry.numbered).pop();
+      const rank = lines[i].heading_level ?? marker?.rank ?? (openNumbered ? openNumbered.rank + 1 : 1);
+      while (outline.length > 0 && outline[outline.length - 1].rank >= rank) outline.pop();
+      outline.push({ title: line, rank, numbered: marker !== null });
 
       // Save heading as its own segment
       currentHeading = line;
+      const headingOcr = lines[i].ocr_confidence;
+      const sectionNumber = (marker ?? parseHeadingMarker(line))?.number;
       segments.push({
         content: line,
+        page_number: pageNumber,
         sequence_number: sequenceNumber++,
+        ocr_confidence: headingOcr,
         metadata: {
           heading: line,
+          heading_level: lines[i].heading_level,
+          heading_path: headingPath(),
+          depth: outline.length,
+          ...(sectionNumber ? { section_number: sectionNumber } : {}),
           is_heading: true,
+          ...(headingOcr !== undefined ? { ocr: true } : {}),
           line_start: i,
           line_end: i
         }
@@ -294,88 +487,146 @@ function segmentDocument(text: string): Segment[] {
     } else {
       if (currentSegment.length === 0) {
         lineStart = i;
+        currentPage = pageNumber;
       }
       currentSegment.push(line);
+      if (lines[i].ocr_confidence !== undefined) {
+        currentOcr.push({ text: line, confidence: lines[i].ocr_confidence! });
+      }
 
       // Create segment after certain length or semantic break
       if (currentSegment.length > 20 ||
           line.endsWith('.') && currentSegment.join(' ').length > 500) {
-        segments.push({
-          content: currentSegment.join('\n'),
-          sequence_number: sequenceNumber++,
-          metadata: {
-            heading: currentHeading,
-            is_heading: false,
-            line_start: lineStart,
-            line_end: i
-          }
-        });
-        currentSegment = [];
+        flushSegment(i);
       }
     }
   }
 
   // Add remaining segment
-  if (currentSegment.length > 0) {
-    segments.push({
-      content: currentSegment.join('\n'),
-      sequence_number: sequenceNumber++,
-      metadata: {
-        heading: currentHeading,
-        is_heading: false,
-        line_start: lineStart,
-        line_end: lines.length - 1
-      }
-    });
-  }
+  flushSegment(lines.length - 1);
 
   return segments;
 }
 
+// Outline markers of German tender documents, from Anlage down to "A)" items.
+// Numbered headings nest by their number of parts: 3 > 3.2 > 3.2.1.
+function parseHeadingMarker(line: string): HeadingMarker | null {
+  if (line.length >= 100) return null;
+
+  // Capitalised or all caps ("ANLAGE 3")
+  const word = (text: string) => text[0].toUpperCase() + text.slice(1).toLowerCase();
+
+  let match = line.match(/^(anlage|anhang)\s+([0-9]+[a-z]?|[A-Z]|[IVX]+)\b/i);
+  if (match) return { rank: 0, number: `${word(match[1])} ${match[2]}` };
+
+  match = line.match(/^(teil|kapitel|abschnitt)\s+([0-9]+|[IVX]+|[A-Z])\b/i);
+  if (match) {
+    const kind = word(match[1]);
+    return { rank: { Teil: 1, Kapitel: 2, Abschnitt: 3 }[kind]!, number: `${kind} ${match[2]}` };
+  }
+
+  match = line.match(/^([IVX]+)\.\s/);
+  if (match) return { rank: 4, number: match[1] };
+
+  match = line.match(/^(?:§|Artikel|Art\.)\s*(\d+[a-z]?)\b/);
+  if (match) return { rank: 5, number: `§ ${match[1]}` };
+
+  // "3." and "3.2" as before; "3 Anforderungen" only with a capitalised word and no sentence punctuation
+  match = line.match(/^(\d{1,2}(?:\.\d{1,2})*)(\.?)\s+\S/);
+  if (match) {
+    const parts = match[1].split('.').length;
+    if (match[2] || parts > 1 || (/^\d{1,2}\s+[A-ZÄÖÜ][a-zäöüß]/.test(line) && !/[.,;:]$/.test(line))) {
+      return { rank: 5 + parts, number: match[1] };
+    }
+  }
+
+  match = line.match(/^([A-Z])\)/);
+  if (match) return { rank: 20, number: match[1] };
+
+  return null;
+}
+
+// Two or more consecutive rows with cells on one page form a table. A line
+// without cells between two rows is a wrapped cell and joins the longest cell
+// of the row above. A header row with a different column count starts the next table.
+function collectTableRows(lines: ExtractedLine[], start: number): { rows: string[][]; end: number } | null {
+  const cellsOf = (line: ExtractedLine) => line.cells ?? splitCells(line.text);
+  if (!cellsOf(lines[start])) return null;
+
+  const page = lines[start].page_number;
+  const rows: string[][] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].page_number === page) {
+    const cells = cellsOf(lines[i]);
+    if (cells) {
+      const previous = rows[rows.length - 1];
+      if (rows.length >= 2 && previous.length !== cells.length && looksLikeHeader(cells)) break;
+      rows.push([...cells]);
+      i++;
+      continue;
+    }
+
+    const text = lines[i].text.trim();
+    const next = lines[i + 1];
+    if (!text || !next || next.page_number !== page || !cellsOf(next)) break;
+
+    const row = rows[rows.length - 1];
+    const widest = row.reduce((best, cell, index) => cell.length > row[best].length ? index : best, 0);
+    row[widest] = `${row[widest]} ${text}`.trim();
+    i++;
+  }
+
+  return rows.length >= 2 ? { rows, end: i } : null;
+}
+
 // Classification: Assign section types to segments
+// With an active trained model its prediction wins whenever the model is sure
+// and knows enough of the text; otherwise the section-type keywords decide.
+// A segment whose own match is weaker than that of an enclosing heading
+// takes the section type of the nearest classified ancestor, so the text
+// under "3.2.1 Referenzen" stays Eignung even without its own keywords.
 async function classifySegments(
   segments: Segment[],
   sectionTypes: SectionType[],
+  model: NaiveBayesModel | null,
   batchId: string,
   fileId: string
 ): Promise<any[]> {
-  return segments.map(segment => {
-    const lowerContent = segment.content.toLowerCase();
-
-    // Rule-based classification
-    let bestMatch: { id: string; score: number } | null = null;
+  // Classified headings by their heading path
+  const headingMatches = new Map<string, SectionMatch & { heading: string }>();
+  const pathKey = (path: string[]) => path.join('\u0000');
+  const knownTypes = new Set(sectionTypes.map(sectionType => sectionType.id));
 
-    for (const sectionType of sectionTypes) {
-      let score = 0;
-
-      for (const keyword of sectionType.keywords) {
-        const keywordLower = keyword.toLowerCase();
-        if (lowerContent.includes(keywordLower)) {
-          score += 1;
+  return segments.map(segment => {
+    let bestMatch = matchKeywords(segment, sectionTypes);
+
+    const prediction = model ? predict(model, segment.content) : null;
+    if (prediction &&
+        knownTypes.has(prediction.label) &&
+        prediction.probability >= MODEL_MIN_PROBABILITY &&
+        prediction.known_tokens >= MODEL_MIN_KNOWN_TOKENS) {
+      bestMatch = { id: prediction.label, confidence: prediction.probability, source: 'model' };
+    }
 
-          // Bonus for keyword in heading
-          if (segment.metadata.is_heading) {
-            score += 2;
-          }
+    // Nearest enclosing heading with a section type (a heading's own path ends with itself)
+    const path = segment.metadata.heading_path;
+    let inherited: (SectionMatch & { heading: string }) | undefined;
+    for (let length = segment.metadata.is_heading ? path.length - 1 : path.length; length > 0 && !inherited; length--) {
+      inherited = headingMatches.get(pathKey(path.slice(0, length)));
+    }
 
-          // Bonus for keyword at start
-          if (lowerContent.startsWith(keywordLower) ||
-              lowerContent.startsWith(`${segment.metadata.heading?.toLowerCase()} ${keywordLower}`)) {
-            score += 1;
-          }
-        }
-      }
+    let inheritedFrom: string | undefined;
+    if (inherited && (!bestMatch || bestMatch.confidence < inherited.confidence)) {
+      bestMatch = { id: inherited.id, confidence: inherited.confidence, source: inherited.source };
+      inheritedFrom = inherited.heading;
+    }
 
-      if (score > 0 && (!bestMatch || score > bestMatch.score)) {
-        bestMatch = { id: sectionType.id, score };
-      }
+    if (segment.metadata.is_heading && bestMatch) {
+      headingMatches.set(pathKey(path), { ...bestMatch, heading: inheritedFrom ?? segment.content });
     }
 
-    // Calculate confidence score (0-1)
-    const maxPossibleScore = 10;
-    const confidence = bestMatch
-      ? Math.min(bestMatch.score / maxPossibleScore, 1.0)
-      : 0.1;
+    const confidence = bestMatch ? bestMatch.confidence : 0.1;
 
     // Filter out low-relevance segments (headers, boilerplate)
     const isRelevant =
@@ -383,49 +634,125 @@ async function classifySegments(
       !/^(seite|page)\s+\d+/i.test(segment.content) &&
       confidence > 0.05;
 
+    const metadata = {
+      ...segment.metadata,
+      ...(inheritedFrom ? { section_inherited_from: inheritedFrom } : {}),
+      ...(bestMatch ? { classifier: bestMatch.source } : {}),
+      // Scanned text: confidence_score holds the OCR confidence instead
+      ...(segment.ocr_confidence !== undefined ? { classification_confidence: Math.round(confidence * 100) / 100 } : {})
+    };
+
     return {
       file_upload_id: fileId,
       batch_id: batchId,
       section_type_id: bestMatch?.id || null,
       content: segment.content,
       normalized_content: segment.content.replace(/\s+/g, ' ').trim(),
+      page_number: segment.page_number ?? null,
       sequence_number: segment.sequence_number,
-      confidence_score: Math.round(confidence * 100) / 100,
+      // Scanned text is only as trustworthy as its recognition
+      confidence_score: segment.ocr_confidence ?? Math.round(confidence * 100) / 100,
       is_relevant: isRelevant,
-      metadata: segment.metadata
+      metadata
     };
   });
 }
 
-// Text extraction functions
-async function extractPdfText(file: Blob): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
+// Rule-based classification against the section-type keywords
+function matchKeywords(segment: Segment, sectionTypes: SectionType[]): SectionMatch | null {
+  const lowerContent = segment.content.toLowerCase();
+  let best: { id: string; score: number } | null = null;
 
-  let text = "";
-  const decoder = new TextDecoder("utf-8", { fatal: false });
+  for (const sectionType of sectionTypes) {
+    let score = 0;
 
-  try {
-    const decoded = decoder.decode(uint8Array);
-    const streamMatch = decoded.match(/stream([\s\S]*?)endstream/g);
-
-    if (streamMatch) {
-      for (const match of streamMatch) {
-        const content = match.replace(/stream|endstream/g, "").trim();
-        const readable = content.replace(/[^\x20-\x7E\n\r]/g, " ");
-        text += readable + "\n";
+    for (const keyword of sectionType.keywords) {
+      const keywordLower = keyword.toLowerCase();
+      if (lowerContent.includes(keywordLower)) {
+        score += 1;
+
+        // Bonus for keyword in heading
+        if (segment.metadata.is_heading) {
+          score += 2;
+        }
+
+        // Bonus for keyword at start
+        if (lowerContent.startsWith(keywordLower) ||
+            lowerContent.startsWith(`${segment.metadata.heading?.toLowerCase()} ${keywordLower}`)) {
+          score += 1;
+        }
       }
     }
 
-    const textMatch = decoded.match(/\(([^)]+)\)/g);
-    if (textMatch) {
-      text += textMatch.map(m => m.replace(/[()]/g, "")).join(" ");
+    if (score > 0 && (!best || score > best.score)) {
+      best = { id: sectionType.id, score };
     }
-  } catch (e) {
-    console.error("PDF extraction error:", e);
   }
 
-  return text.trim() || "[PDF content - text extraction limited]";
+  // Calculate confidence score (0-1)
+  const maxPossibleScore = 10;
+  return best
+    ? { id: best.id, confidence: Math.min(best.score / maxPossibleScore, 1.0), source: 'keywords' }
+    : null;
+}
+
+// Text extraction functions
+function toLines(text: string, pageNumber?: number): ExtractedLine[] {
+  return text.split('\n').map(line => ({ text: line, page_number: pageNumber }));
+}
+
+// Pages without a text layer are scans and go through OCR
+async function extractPdfText(file: Blob): Promise<{ lines: ExtractedLine[]; ocrPages: OcrPage[] }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const pages = await extractPdfPages(bytes);
+
+  // Page numbers or a stamp alone do not make a text layer
+  const scannedPages = pages
+    .filter(page => page.text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS)
+    .map(page => page.page_number);
+  const ocrPages = scannedPages.length > 0 ? await ocrPdfPages(bytes, scannedPages) : [];
+  const ocrByPage = new Map(ocrPages.map(page => [page.page_number, page]));
+
+  const lines = pages.flatMap(page => {
+    const ocr = ocrByPage.get(page.page_number);
+    if (ocr && ocr.lines.length > 0) {
+      return ocr.lines.map(line => ({ text: line.text, page_number: page.page_number, ocr_confidence: line.confidence }));
+    }
+    return toLines(page.text, page.page_number);
+  });
+
+  if (lines.every(line => !line.text.trim())) {
+    return { lines: toLines("[PDF content - text extraction limited]", 1), ocrPages };
+  }
+
+  return { lines, ocrPages };
+}
+
+// DOCX/XLSX are unpacked natively; legacy binary .doc/.xls fall back to a plain text scrape
+async function extractOfficeText(file: Blob, fallback: (file: Blob) => Promise<string>): Promise<ExtractedLine[]> {
+  const document = await extractOoxml(new Uint8Array(await file.arrayBuffer()));
+  if (!document) {
+    return toLines(await fallback(file));
+  }
+
+  const lines: ExtractedLine[] = [];
+  for (const block of document.blocks) {
+    if (block.type === 'paragraph') {
+      const [first, ...rest] = block.text.split('\n');
+      lines.push({ text: first, heading_level: block.heading_level });
+      for (const text of rest) lines.push({ text });
+    } else {
+      // Table rows keep their cells; the blank lines keep adjacent tables apart
+      lines.push({ text: '' });
+      for (const row of block.rows) {
+        const cells = row.map(cell => cell.trim());
+        if (cells.every(cell => !cell)) continue;
+        lines.push({ text: cells.join(' | '), cells });
+      }
+      lines.push({ text: '' });
+    }
+  }
+  return lines;
 }
 
 async function extractWordText(file: Blob): Promise<string> {
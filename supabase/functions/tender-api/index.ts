@@ -0,0 +1,1669 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { expandArchive } from "../_shared/archive.ts";
+import { storeArchiveDocuments } from "../_shared/archive-storage.ts";
+import { applyResolution } from "../_shared/consolidated-fields.ts";
+import { NormalizedCriteria, Zuschlagskriterium } from "../_shared/evaluation-criteria.ts";
+import { SuitabilityRequirement } from "../_shared/suitability.ts";
+import { stepLabels } from "../_shared/profile-diff.ts";
+import { ruleDefinitionError, ValidationRule } from "../_shared/validation-rules.ts";
+import { AccessError, assertBatchAccess, bearerToken, EDITOR_ROLES, requireUser } from "../_shared/tenancy.ts";
+
+// REST facade for the frontend (FileUploadZone, tender list and detail views).
+// Point VITE_API_URL at <SUPABASE_URL>/functions/v1/tender-api to use it. The
+// frontend sends the signed-in user's access token and every request runs as
+// that user, so row level security limits it to the user's organizations.
+// Scripts may call it with the service role key instead.
+//
+//   POST /upload-tender                 multipart 'file' (.zip), optional 'amends' (batch id of the tender),
+//                                       'org_id' (required with the service role key) -> { batch_id, version }
+//   POST /api/batches/:id/process       runs process-tender-documents for all files at once, then aggregate-tender-batch (editors only)
+//   GET  /api/batches/:id/status        progress counters for polling
+//   GET  /api/batches/:id/summary       BatchSummary with ui_json
+//   GET  /api/batches/:id/files         per-file results
+//   GET  /api/batches/:id/outline       heading tree per document (table of contents)
+//   GET  /api/batches/:id/conflicts     open conflicts between the batch's documents
+//   PUT  /api/conflicts/:id             { action: resolve|ignore|review, value?, resolved_by, note? }
+//   GET  /api/batches/:id/versions      all versions of the batch's tender with their changes and notifications
+//   GET  /api/notifications             unread notifications of all tenders
+//   PUT  /api/notifications/:id/read    { read_by }
+//   GET  /api/validation-rules          the organization's validation rules and the templates, active or not
+//   POST /api/validation-rules          { name, field_path, rule_type, params, severity, procurement_types, message, org_id? }
+//   PUT  /api/validation-rules/:id      same fields and is_active; applies from the next aggregation
+//                                       (admins of the rule's organization; templates: service role key only)
+//   GET  /api/tenders?sortBy=           processed batches as UI tenders
+//   GET  /api/section-types             section types for relabelling
+//   GET  /api/segments/:id              segment text with section type and source file
+//   GET  /api/segments/:id/source       original file URL, the segment's page and the facts cited from the file
+//   PUT  /api/segments/:id/section-type { section_type_id, labelled_by } -> relabel and retrain
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface FileUploadRow {
+  id: string;
+  upload_batch_id: string;
+  original_filename: string;
+  relative_path: string | null;
+  file_path: string;
+  mime_type: string;
+  processing_status: string;
+  duplicate_of: string | null;
+  extraction_result: { title?: string; serviceTypes?: string[] } | null;
+  error_message: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+type PendingFile = Pick<FileUploadRow, "id" | "file_path" | "mime_type" | "original_filename">;
+
+// Subset of tender_profiles.consolidated_data written by aggregate-tender-batch
+interface ConsolidatedData {
+  meta_info?: { auftraggeber?: string | null; vergabestelle?: string | null; vergabenummer?: string | null };
+  leistungsumfang?: { beschreibung?: string; leistungsort?: string | null; leistungszeitraum?: string | null };
+  pflichtnachweise?: {
+    liste?: Array<{ bezeichnung: string; kategorie: string; pflicht: boolean; hinweise?: string }>;
+    mindestanforderungen?: SuitabilityRequirement[];
+  };
+  zuschlagskriterien?: Partial<NormalizedCriteria>;
+  fristen?: { fristen?: Array<{ bezeichnung: string; datum: string }> };
+  key_dates?: Array<{ type: string; date: string | null; timestamp: string | null }>;
+  rechtliches?: Record<string, boolean>;
+  sicherheit?: Record<string, boolean>;
+}
+
+// Row of extracted_facts written by aggregate-tender-batch
+interface FactRow {
+  fact_type: string;
+  fact_category: string;
+  fact_value: Record<string, unknown>;
+  confidence_score: number;
+  segment_id: string | null;
+  source_document: string;
+  source_page: number | null;
+  source_section: string | null;
+  source_line_start: number | null;
+  source_line_end: number | null;
+  context_snippet: string | null;
+}
+
+// Where a ui_json item comes from; source_chunk_id is the document segment
+interface UiSource {
+  source_document: string;
+  source_chunk_id: string | null;
+  page_number: number | null;
+}
+
+interface UiFact extends UiSource {
+  fact_type: string;
+  category: string;
+  value: Record<string, unknown>;
+  confidence: number;
+  section: string | null;
+  line_start: number | null;
+  line_end: number | null;
+  snippet: string | null;
+}
+
+interface UiRisk {
+  risk_de: string;
+  severity: "high" | "medium" | "low";
+  source_document?: string;
+  source_chunk_id?: string | null;
+  page_number?: number | null;
+}
+
+interface UiJson {
+  meta: {
+    tender_id: string;
+    tender_title: string;
+    organization: string | null;
+    // Set for batch summaries: the tender's version and its first batch
+    version?: number;
+    root_batch_id?: string;
+  } & UiSource;
+  executive_summary: {
+    title_de: string;
+    organization_de: string | null;
+    location_de: string | null;
+    brief_description_de: string;
+  } & UiSource;
+  timeline_milestones: { submission_deadline_de: string | null; project_duration_de: string | null } & UiSource;
+  mandatory_requirements: Array<{ requirement_de: string; explanation_de: string } & UiSource>;
+  // Mindestanforderungen an die Eignung with their thresholds, compared with the company profile by the frontend
+  suitability_requirements: Array<SuitabilityRequirement & UiSource>;
+  risks: UiRisk[];
+  service_types: string[];
+  // Hauptkriterien and their Unterkriterien (parent_de); weight_percent is the share of the total score
+  evaluation_criteria: Array<{
+    criterion_de: string;
+    weight_percent: number | null;
+    weight_de: string | null;
+    number: string | null;
+    parent_de: string | null;
+  } & UiSource>;
+  // Whether the weights of each level add up
+  evaluation_checks: Array<{ ok: boolean; note_de: string }>;
+  price_formula: { method: string; name_de: string; text_de: string } | null;
+  safety_requirements: string[];
+  contract_penalties: string[];
+  certifications_required: string[];
+  process_steps: Array<{ title_de: string; description_de: string; days_de: string } & UiSource>;
+  missing_evidence_documents: Array<{ document_de: string; source_document: string; source_chunk_id: string | null }>;
+  economic_analysis?: Record<string, unknown>;
+  // Every extracted fact with its source, for the source viewer
+  facts: UiFact[];
+}
+
+// Heading segment as written by process-tender-documents
+interface HeadingSegmentRow {
+  id: string;
+  file_upload_id: string;
+  content: string;
+  page_number: number | null;
+  sequence_number: number;
+  metadata: { depth?: number; section_number?: string };
+  section_type: { name: string } | null;
+}
+
+interface OutlineNode {
+  segment_id: string;
+  title: string;
+  section_number: string | null;
+  depth: number;
+  page_number: number | null;
+  section_type: string | null;
+  children: OutlineNode[];
+}
+
+// Segment as shown in the relabel dialog
+interface SegmentRow {
+  id: string;
+  content: string;
+  page_number: number | null;
+  confidence_score: number | null;
+  section_type_id: string | null;
+  duplicate_of: string | null;
+  metadata: { classifier?: string; heading_path?: string[] } | null;
+  file: { original_filename: string; relative_path: string | null } | null;
+}
+
+// Segment of a page as shown in the source viewer
+interface PageSegmentRow {
+  id: string;
+  content: string;
+  sequence_number: number;
+  metadata: { line_start?: number; is_heading?: boolean; is_table?: boolean } | null;
+}
+
+interface RelabelRequest {
+  section_type_id?: string;
+  labelled_by?: string;
+}
+
+interface ConflictRequest {
+  // resolve: take value for the field; ignore: keep the extracted value; review: leave open for manual review
+  action?: "resolve" | "ignore" | "review";
+  value?: string;
+  resolved_by?: string;
+  note?: string;
+}
+
+// document_conflicts row as listed for review
+interface ConflictRow {
+  id: string;
+  tender_profile_id: string;
+  field_name: string;
+  field_label: string | null;
+  conflict_type: string;
+  source_segments: string[];
+  conflicting_values: unknown[];
+  resolution_status: string;
+  resolution_note: string | null;
+  resolved_value: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// tender_upload_batches row as one version of a tender
+interface VersionRow {
+  id: string;
+  root_batch_id: string | null;
+  amends_batch_id: string | null;
+  version: number;
+  status: string;
+  tender_id: string | null;
+  org_id: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// tender_profile_changes row: one field that differs from the amended version
+interface ChangeRow {
+  batch_id: string;
+  field_name: string;
+  field_label: string | null;
+  change_type: string;
+  old_value: string | null;
+  new_value: string | null;
+  summary: string;
+  affected_steps: number[];
+}
+
+interface NotificationRow {
+  id: string;
+  root_batch_id: string;
+  batch_id: string;
+  kind: string;
+  title: string;
+  message: string;
+  affected_steps: number[];
+  created_at: string;
+  read_at: string | null;
+  read_by: string | null;
+}
+
+interface NotificationRequest {
+  read_by?: string;
+}
+
+// Row of validation_rules
+interface ValidationRuleRow extends ValidationRule {
+  id: string;
+  org_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+type ValidationRuleRequest = Partial<Omit<ValidationRuleRow, "id" | "created_at" | "updated_at">>;
+
+const VERSION_COLUMNS = "id, root_batch_id, amends_batch_id, version, status, tender_id, org_id, created_at, completed_at";
+
+const CONFLICT_COLUMNS = "id, tender_profile_id, field_name, field_label, conflict_type, source_segments, conflicting_values, " +
+  "resolution_status, resolution_note, resolved_value, resolved_by, resolved_at, created_at";
+
+const CONFLICT_STATUS: Record<NonNullable<ConflictRequest["action"]>, string> = {
+  resolve: "resolved",
+  ignore: "ignored",
+  review: "manual_review"
+};
+
+// Links to original files are only handed out for one viewing session
+const SIGNED_URL_SECONDS = 3600;
+
+// Segments before and after the cited one for documents without pages
+const CONTEXT_SEGMENTS = 15;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const token = bearerToken(req);
+  const isService = token === supabaseServiceKey;
+  const supabase = isService
+    ? createClient(supabaseUrl, supabaseServiceKey)
+    : createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    });
+
+  try {
+    const url = new URL(req.url);
+    // The function is mounted under /functions/v1/tender-api (or /tender-api locally)
+    const path = url.pathname.replace(/^.*?\/tender-api(?=\/|$)/, "").replace(/\/+$/, "") || "/";
+
+    // null for the service role key
+    const userId = path === "/api/tenders/health" ? null : await requireUser(supabase, req, supabaseServiceKey);
+
+    if (req.method === "POST" && path === "/upload-tender") {
+      return json(await handleUpload(supabase, req));
+    }
+
+    if (req.method === "GET" && path === "/api/tenders") {
+      return json(await listTenders(supabase, url.searchParams.get("sortBy") || "deadline"));
+    }
+
+    if (req.method === "GET" && path === "/api/tenders/health") {
+      const { error } = await supabase.from("tender_upload_batches").select("id").limit(1);
+      return json({ success: !error, status: error ? "unhealthy" : "healthy", database: error ? "error" : "connected" });
+    }
+
+    if (req.method === "GET" && path === "/api/section-types") {
+      return json(await listSectionTypes(supabase));
+    }
+
+    const segmentRoute = path.match(/^\/api\/segments\/([0-9a-f-]{36})(?:\/(section-type|source))?$/i);
+    if (segmentRoute) {
+      const [, segmentId, action] = segmentRoute;
+
+      if (req.method === "GET" && !action) {
+        return json(await getSegment(supabase, segmentId));
+      }
+      if (req.method === "GET" && action === "source") {
+        return json(await getSegmentSource(supabase, segmentId));
+      }
+      if (req.method === "PUT" && action === "section-type") {
+        return json(await relabelSegment(supabase, segmentId, await req.json(), supabaseUrl, supabaseServiceKey));
+      }
+    }
+
+    const conflictRoute = path.match(/^\/api\/conflicts\/([0-9a-f-]{36})$/i);
+    if (req.method === "PUT" && conflictRoute) {
+      return json(await resolveConflict(supabase, conflictRoute[1], await req.json()));
+    }
+
+    if (req.method === "GET" && path === "/api/notifications") {
+      return json(await listNotifications(supabase));
+    }
+
+    const notificationRoute = path.match(/^\/api\/notifications\/([0-9a-f-]{36})\/read$/i);
+    if (req.method === "PUT" && notificationRoute) {
+      return json(await markNotificationRead(supabase, notificationRoute[1], await req.json()));
+    }
+
+    if (path === "/api/validation-rules") {
+      if (req.method === "GET") {
+        return json(await listValidationRules(supabase));
+      }
+      if (req.method === "POST") {
+        return json(await saveValidationRule(supabase, userId, null, await req.json()), 201);
+      }
+    }
+
+    const ruleRoute = path.match(/^\/api\/validation-rules\/([0-9a-f-]{36})$/i);
+    if (req.method === "PUT" && ruleRoute) {
+      return json(await saveValidationRule(supabase, userId, ruleRoute[1], await req.json()));
+    }
+
+    const batchRoute = path.match(/^\/api\/batches\/([0-9a-f-]{36})\/(process|status|summary|files|outline|conflicts|versions)$/i);
+    if (batchRoute) {
+      const [, batchId, action] = batchRoute;
+
+      if (req.method === "POST" && action === "process") {
+        // The workers run with the service role; viewers may not start them
+        await assertBatchAccess(supabase, req, supabaseServiceKey, batchId, EDITOR_ROLES);
+        return json(await startProcessing(supabase, batchId, supabaseUrl, supabaseServiceKey), 202);
+      }
+      if (req.method === "GET" && action === "status") {
+        return json(await getBatchStatus(supabase, batchId));
+      }
+      if (req.method === "GET" && action === "summary") {
+        return json(await getBatchSummary(supabase, batchId));
+      }
+      if (req.method === "GET" && action === "files") {
+        return json(await getBatchFiles(supabase, batchId));
+      }
+      if (req.method === "GET" && action === "outline") {
+        return json(await getBatchOutline(supabase, batchId));
+      }
+      if (req.method === "GET" && action === "conflicts") {
+        return json(await listConflicts(supabase, batchId));
+      }
+      if (req.method === "GET" && action === "versions") {
+        return json(await getBatchVersions(supabase, batchId));
+      }
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${path}`);
+  } catch (error) {
+    console.error("Tender API error:", error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || "Unknown error"
+      }),
+      {
+        status: error instanceof HttpError || error instanceof AccessError ? error.status : 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// Upload: expand the ZIP and store each contained document as its own file upload
+async function handleUpload(supabase: SupabaseClient, req: Request) {
+  const form = await req.formData().catch(() => null);
+  const upload = form?.get("file");
+
+  if (!upload || typeof upload === "string") {
+    throw new HttpError(400, "Missing form field 'file'");
+  }
+  if (!/\.zip$/i.test(upload.name)) {
+    throw new HttpError(400, "Only .zip files are supported");
+  }
+
+  let archive;
+  try {
+    archive = await expandArchive(new Uint8Array(await upload.arrayBuffer()));
+  } catch (zipError) {
+    throw new HttpError(400, zipError.message);
+  }
+
+  if (archive.documents.length === 0) {
+    throw new HttpError(400, "The archive contains no supported documents (PDF, DOCX, DOC, XLSX, XLS, TXT)");
+  }
+
+  // An amendment becomes the next version of the tender and is compared with the latest one
+  const amends = form?.get("amends");
+  if (amends !== null && amends !== undefined && (typeof amends !== "string" || !/^[0-9a-f-]{36}$/i.test(amends))) {
+    throw new HttpError(400, "'amends' must be the batch id of the tender");
+  }
+  const latest = amends ? await latestVersion(supabase, amends) : null;
+
+  // Users upload into their organization (the column default) or, if they
+  // belong to several, the one they name; the service role has to name one
+  const orgId = form?.get("org_id");
+  if (orgId !== null && orgId !== undefined && (typeof orgId !== "string" || !/^[0-9a-f-]{36}$/i.test(orgId))) {
+    throw new HttpError(400, "'org_id' must be the id of an organization");
+  }
+
+  // storeArchiveDocuments grows the total as it registers the documents
+  const { data: batch, error: batchError } = await supabase
+    .from("tender_upload_batches")
+    .insert({
+      total_files: 0,
+      processed_files: 0,
+      status: "uploading",
+      root_batch_id: latest ? latest.root_batch_id || latest.id : null,
+      amends_batch_id: latest?.id || null,
+      version: latest ? latest.version + 1 : 1,
+      tender_id: latest?.tender_id || null,
+      // A new version stays with the tender's organization
+      ...(latest ? { org_id: latest.org_id } : orgId ? { org_id: orgId } : {})
+    })
+    .select()
+    .single();
+
+  if (batchError) {
+    throw new Error(`Failed to create batch: ${batchError.message}`);
+  }
+
+  const stored = await storeArchiveDocuments(supabase, batch.id, archive, null);
+
+  if (stored.pending.length === 0 && stored.duplicates === 0) {
+    await supabase
+      .from("tender_upload_batches")
+      .update({ status: "failed", completed_at: new Date().toISOString() })
+      .eq("id", batch.id);
+    throw new HttpError(422, "None of the documents in the archive could be stored");
+  }
+
+  return {
+    success: true,
+    batch_id: batch.id,
+    version: batch.version,
+    amends_batch_id: batch.amends_batch_id,
+    total_files: stored.pending.length + stored.duplicates,
+    duplicate_files: stored.duplicates,
+    skipped_files: [...archive.skipped.map(entry => entry.path), ...stored.failed]
+  };
+}
+
+// Processing: run the per-file pipeline in parallel and the aggregation after it, in the background
+async function startProcessing(supabase: SupabaseClient, batchId: string, supabaseUrl: string, serviceKey: string) {
+  const batch = await loadBatch(supabase, batchId);
+
+  const { data: files, error: filesError } = await supabase
+    .from("tender_file_uploads")
+    .select("id, file_path, mime_type, original_filename")
+    .eq("upload_batch_id", batchId)
+    .eq("processing_status", "pending");
+
+  if (filesError) {
+    throw new Error(`Failed to load files: ${filesError.message}`);
+  }
+
+  if (batch.status === "uploading") {
+    await supabase
+      .from("tender_upload_batches")
+      .update({ status: "processing" })
+      .eq("id", batchId);
+  }
+
+  EdgeRuntime.waitUntil(runPipeline(supabase, batchId, files || [], supabaseUrl, serviceKey));
+
+  return {
+    success: true,
+    batch_id: batchId,
+    files_queued: files?.length || 0
+  };
+}
+
+async function runPipeline(supabase: SupabaseClient, batchId: string, files: PendingFile[], supabaseUrl: string, serviceKey: string) {
+  // One worker invocation per file, as for uploads from the frontend; each worker reports
+  // through increment_batch_progress, and the rollup completes the batch with the last file
+  const results = await Promise.allSettled(files.map(file =>
+    invokeFunction(supabaseUrl, serviceKey, "process-tender-documents", {
+      batchId,
+      fileId: file.id,
+      filePath: file.file_path,
+      mimeType: file.mime_type,
+      originalFilename: file.original_filename,
+    })
+  ));
+  results.forEach((result, index) => {
+    // process-tender-documents records the failure on the file itself
+    if (result.status === "rejected") {
+      console.error(`Processing failed for ${files[index].original_filename}:`, result.reason);
+    }
+  });
+
+  const { data: completed } = await supabase
+    .from("tender_file_uploads")
+    .select("id")
+    .eq("upload_batch_id", batchId)
+    .eq("processing_status", "completed");
+
+  // The rollup counts failed files as done as well; without a completed one there is nothing to aggregate
+  if (!completed || completed.length === 0) {
+    await supabase
+      .from("tender_upload_batches")
+      .update({ status: "failed", completed_at: new Date().toISOString() })
+      .eq("id", batchId);
+    return;
+  }
+
+  try {
+    await invokeFunction(supabaseUrl, serviceKey, "aggregate-tender-batch", { batchId });
+  } catch (error) {
+    console.error("Aggregation failed:", error);
+    await supabase
+      .from("tender_upload_batches")
+      .update({ status: "failed", completed_at: new Date().toISOString() })
+      .eq("id", batchId);
+  }
+}
+
+async function invokeFunction(supabaseUrl: string, serviceKey: string, name: string, body: unknown) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${serviceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${name} returned ${response.status}: ${await response.text()}`);
+  }
+  return await response.json();
+}
+
+// Status: counters derived from the file rows; the batch only counts as done once the profile exists
+async function getBatchStatus(supabase: SupabaseClient, batchId: string) {
+  const batch = await loadBatch(supabase, batchId);
+  const files = await loadFiles(supabase, batchId);
+  const profile = await loadProfile(supabase, batchId);
+
+  const counts = { completed: 0, failed: 0, duplicate: 0, processing: 0, pending: 0 };
+  for (const file of files) {
+    const status = file.processing_status as keyof typeof counts;
+    if (status in counts) counts[status]++;
+  }
+
+  const totalFiles = batch.total_files || files.length;
+  // Duplicates are done as soon as they are stored; their original carries the content
+  const finished = counts.completed + counts.failed + counts.duplicate;
+
+  let batchStatus = batch.status === "uploading" ? "uploading" : "processing";
+  if (batch.status === "failed") {
+    batchStatus = "failed";
+  } else if (profile && finished >= totalFiles) {
+    batchStatus = counts.failed > 0 ? "completed_with_errors" : "completed";
+  }
+
+  // Aggregation is the last step of the progress bar
+  const progress = totalFiles > 0 ? (finished / totalFiles) * 90 + (profile ? 10 : 0) : 0;
+
+  // Scanned pages the OCR could not read reliably, recorded by process-tender-documents
+  const { data: normalization } = await supabase
+    .from("pipeline_stages")
+    .select("metadata")
+    .eq("batch_id", batchId)
+    .eq("stage_name", "normalization")
+    .maybeSingle();
+
+  return {
+    batch_id: batchId,
+    batch_status: batchStatus,
+    total_files: totalFiles,
+    files_tracked: files.length,
+    files_success: counts.completed,
+    files_failed: counts.failed,
+    files_processing: counts.processing,
+    files_pending: counts.pending,
+    progress_percent: batchStatus === "failed" ? 100 : Math.min(100, Math.round(progress)),
+    ocr_pages: normalization?.metadata?.ocr_pages || 0,
+    low_quality_pages: normalization?.metadata?.low_quality_pages || []
+  };
+}
+
+// Summary: BatchSummary fields at the top level (FileUploadZone) and under data (detail refetch)
+async function getBatchSummary(supabase: SupabaseClient, batchId: string) {
+  const batch = await loadBatch(supabase, batchId);
+  const profile = await loadProfile(supabase, batchId);
+
+  if (!profile) {
+    throw new HttpError(404, "Summary not ready");
+  }
+
+  const files = await loadFiles(supabase, batchId);
+  const facts = await loadFacts(supabase, batchId);
+  const successFiles = files.filter(f => f.processing_status === "completed").length;
+  const failedFiles = files.filter(f => f.processing_status === "failed").length;
+
+  const uiJson = buildUiJson(batchId, profile.consolidated_data || {}, files, facts);
+  uiJson.meta.version = batch.version || 1;
+  uiJson.meta.root_batch_id = batch.root_batch_id || batchId;
+
+  const summary = {
+    run_id: batchId,
+    ui_json: uiJson,
+    total_files: batch.total_files || files.length,
+    success_files: successFiles,
+    failed_files: failedFiles,
+    status: failedFiles > 0 ? "completed_with_errors" : "completed"
+  };
+
+  return {
+    success: true,
+    data: summary,
+    ...summary
+  };
+}
+
+async function getBatchFiles(supabase: SupabaseClient, batchId: string) {
+  await loadBatch(supabase, batchId);
+  const files = await loadFiles(supabase, batchId);
+
+  return {
+    success: true,
+    files: files.map(file => ({
+      doc_id: file.id,
+      filename: `${file.relative_path || ""}${file.original_filename}`,
+      file_type: file.mime_type,
+      status: file.processing_status,
+      extracted_json: file.extraction_result || null,
+      error: file.error_message || null,
+      error_type: file.processing_status === "failed" ? "processing_error" : null,
+      processing_duration_ms: file.processed_at
+        ? new Date(file.processed_at).getTime() - new Date(file.created_at).getTime()
+        : null
+    }))
+  };
+}
+
+// Outline: the heading segments of each document as a tree, in document order
+async function getBatchOutline(supabase: SupabaseClient, batchId: string) {
+  await loadBatch(supabase, batchId);
+  const files = await loadFiles(supabase, batchId);
+
+  const { data, error } = await supabase
+    .from("document_segments")
+    .select("id, file_upload_id, content, page_number, sequence_number, metadata, section_type:section_types(name)")
+    .eq("batch_id", batchId)
+    .contains("metadata", { is_heading: true })
+    .order("sequence_number", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load outline: ${error.message}`);
+  }
+
+  const headings = (data || []) as unknown as HeadingSegmentRow[];
+
+  return {
+    success: true,
+    documents: files
+      .filter(file => file.processing_status === "completed")
+      .map(file => ({
+        doc_id: file.id,
+        filename: `${file.relative_path || ""}${file.original_filename}`,
+        outline: buildOutline(headings.filter(h => h.file_upload_id === file.id))
+      }))
+  };
+}
+
+function buildOutline(headings: HeadingSegmentRow[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+
+  for (const heading of headings) {
+    const node: OutlineNode = {
+      segment_id: heading.id,
+      title: heading.content,
+      section_number: heading.metadata?.section_number || null,
+      // Segments from before the outline was recorded count as top level
+      depth: heading.metadata?.depth || 1,
+      page_number: heading.page_number,
+      section_type: heading.section_type?.name || null,
+      children: []
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= node.depth) stack.pop();
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+// Section types: the labels a segment can be given
+async function listSectionTypes(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("section_types")
+    .select("id, name, description")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load section types: ${error.message}`);
+  }
+
+  return { success: true, section_types: data || [] };
+}
+
+async function getSegment(supabase: SupabaseClient, segmentId: string) {
+  const { data, error } = await supabase
+    .from("document_segments")
+    .select("id, content, page_number, confidence_score, section_type_id, duplicate_of, metadata, file:tender_file_uploads(original_filename, relative_path)")
+    .eq("id", segmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load segment: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, `Segment ${segmentId} not found`);
+  }
+
+  const segment = data as unknown as SegmentRow;
+
+  return {
+    success: true,
+    segment: {
+      segment_id: segment.id,
+      content: segment.content,
+      page_number: segment.page_number,
+      confidence: segment.confidence_score,
+      section_type_id: segment.section_type_id,
+      classifier: segment.metadata?.classifier || null,
+      heading_path: segment.metadata?.heading_path || [],
+      // Near-duplicate copies are not extracted from; this is the segment that is
+      duplicate_of: segment.duplicate_of,
+      filename: segment.file ? `${segment.file.relative_path || ""}${segment.file.original_filename}` : null
+    }
+  };
+}
+
+// Source: what the viewer needs to show a cited segment in its document.
+// The original file is linked when it is still in storage; the page's segments
+// are the fallback view. Lines are 1-based document lines, as in extracted_facts.
+async function getSegmentSource(supabase: SupabaseClient, segmentId: string) {
+  const { data: segment, error } = await supabase
+    .from("document_segments")
+    .select("id, file_upload_id, page_number, sequence_number, metadata")
+    .eq("id", segmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load segment: ${error.message}`);
+  }
+  if (!segment) {
+    throw new HttpError(404, `Segment ${segmentId} not found`);
+  }
+
+  const { data: file } = await supabase
+    .from("tender_file_uploads")
+    .select("id, original_filename, relative_path, file_path, mime_type")
+    .eq("id", segment.file_upload_id)
+    .single();
+
+  const { data: signed } = file?.file_path
+    ? await supabase.storage.from("tender-documents").createSignedUrl(file.file_path, SIGNED_URL_SECONDS)
+    : { data: null };
+
+  // Documents without pages (DOCX, XLSX) show the segments around the cited one
+  let pageQuery = supabase
+    .from("document_segments")
+    .select("id, content, sequence_number, metadata")
+    .eq("file_upload_id", segment.file_upload_id)
+    .order("sequence_number", { ascending: true });
+  pageQuery = segment.page_number !== null
+    ? pageQuery.eq("page_number", segment.page_number)
+    : pageQuery
+      .gte("sequence_number", segment.sequence_number - CONTEXT_SEGMENTS)
+      .lte("sequence_number", segment.sequence_number + CONTEXT_SEGMENTS);
+
+  const { data: pageSegments, error: pageError } = await pageQuery;
+  if (pageError) {
+    throw new Error(`Failed to load page: ${pageError.message}`);
+  }
+
+  const { data: facts, error: factError } = await supabase
+    .from("extracted_facts")
+    .select("id, segment_id, fact_type, fact_category, fact_value, source_page, source_section, source_line_start, source_line_end, context_snippet")
+    .eq("file_upload_id", segment.file_upload_id)
+    .order("source_page", { ascending: true, nullsFirst: true })
+    .order("source_line_start", { ascending: true });
+
+  if (factError) {
+    throw new Error(`Failed to load facts: ${factError.message}`);
+  }
+
+  return {
+    success: true,
+    document: {
+      file_upload_id: segment.file_upload_id,
+      filename: file ? `${file.relative_path || ""}${file.original_filename}` : null,
+      mime_type: file?.mime_type || null,
+      url: signed?.signedUrl || null
+    },
+    segment_id: segment.id,
+    page_number: segment.page_number,
+    segments: ((pageSegments || []) as PageSegmentRow[]).map(row => ({
+      segment_id: row.id,
+      content: row.content,
+      first_line: typeof row.metadata?.line_start === "number" ? row.metadata.line_start + 1 : null,
+      is_heading: row.metadata?.is_heading || false,
+      is_table: row.metadata?.is_table || false
+    })),
+    facts: (facts || []).map(fact => ({
+      fact_id: fact.id,
+      segment_id: fact.segment_id,
+      fact_type: fact.fact_type,
+      category: fact.fact_category,
+      value: fact.fact_value,
+      page_number: fact.source_page,
+      section: fact.source_section,
+      line_start: fact.source_line_start,
+      line_end: fact.source_line_end,
+      snippet: fact.context_snippet
+    }))
+  };
+}
+
+// Relabel: the correction is applied to the segment, stored as a training label
+// and retrains the classifier in the background
+async function relabelSegment(
+  supabase: SupabaseClient,
+  segmentId: string,
+  body: RelabelRequest,
+  supabaseUrl: string,
+  serviceKey: string
+) {
+  if (!body.section_type_id) {
+    throw new HttpError(400, "section_type_id is required");
+  }
+
+  const { data: sectionType } = await supabase
+    .from("section_types")
+    .select("id, name")
+    .eq("id", body.section_type_id)
+    .maybeSingle();
+
+  if (!sectionType) {
+    throw new HttpError(400, `Unknown section type ${body.section_type_id}`);
+  }
+
+  const { data: segment } = await supabase
+    .from("document_segments")
+    .select("id, batch_id, content, metadata")
+    .eq("id", segmentId)
+    .maybeSingle();
+
+  if (!segment) {
+    throw new HttpError(404, `Segment ${segmentId} not found`);
+  }
+  // Labels and the classifier they train belong to the segment's organization
+  const batch = await loadBatch(supabase, segment.batch_id);
+
+  const { error: updateError } = await supabase
+    .from("document_segments")
+    .update({
+      section_type_id: sectionType.id,
+      confidence_score: 1,
+      metadata: { ...(segment.metadata || {}), classifier: "user" }
+    })
+    .eq("id", segmentId);
+
+  if (updateError) {
+    throw new Error(`Failed to relabel segment: ${updateError.message}`);
+  }
+
+  const { error: labelError } = await supabase
+    .from("segment_labels")
+    .upsert({
+      segment_id: segmentId,
+      org_id: batch.org_id,
+      section_type_id: sectionType.id,
+      content: segment.content,
+      source: "user",
+      labelled_by: body.labelled_by || null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: "segment_id" });
+
+  if (labelError) {
+    throw new Error(`Failed to store label: ${labelError.message}`);
+  }
+
+  EdgeRuntime.waitUntil(
+    invokeFunction(supabaseUrl, serviceKey, "train-segment-classifier", { orgId: batch.org_id })
+      .catch(error => console.error("Classifier training failed:", error))
+  );
+
+  return { success: true, segment_id: segmentId, section_type: sectionType.name };
+}
+
+// Conflicts: pending ones and those set aside for manual review, with the
+// competing values and the files stating them
+async function listConflicts(supabase: SupabaseClient, batchId: string) {
+  await loadBatch(supabase, batchId);
+  const profile = await loadProfile(supabase, batchId);
+  if (!profile) {
+    return { success: true, conflicts: [] };
+  }
+
+  const { data: conflicts, error } = await supabase
+    .from("document_conflicts")
+    .select(CONFLICT_COLUMNS)
+    .eq("tender_profile_id", profile.id)
+    .in("resolution_status", ["pending", "manual_review"])
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load conflicts: ${error.message}`);
+  }
+
+  return { success: true, conflicts: (conflicts || []) as ConflictRow[] };
+}
+
+// Resolve: the chosen value goes into the consolidated profile and the tender
+// created from it; ignore and review only record the decision
+async function resolveConflict(supabase: SupabaseClient, conflictId: string, body: ConflictRequest) {
+  if (!body.action || !CONFLICT_STATUS[body.action]) {
+    throw new HttpError(400, "action must be resolve, ignore or review");
+  }
+
+  const { data: conflict } = await supabase
+    .from("document_conflicts")
+    .select(CONFLICT_COLUMNS)
+    .eq("id", conflictId)
+    .maybeSingle();
+
+  if (!conflict) {
+    throw new HttpError(404, `Conflict ${conflictId} not found`);
+  }
+
+  const row = conflict as ConflictRow;
+  const now = new Date().toISOString();
+  const resolvedBy = body.resolved_by?.trim() || null;
+  const value = body.value?.trim() || null;
+
+  if (body.action === "resolve") {
+    if (!value) {
+      throw new HttpError(400, "value is required to resolve a conflict");
+    }
+
+    const { data: profile } = await supabase
+      .from("tender_profiles")
+      .select("id, batch_id, consolidated_data")
+      .eq("id", row.tender_profile_id)
+      .single();
+
+    const data: ConsolidatedData = profile?.consolidated_data || {};
+    const applied = applyResolution(data, row.field_name, {
+      value,
+      label: row.field_label,
+      resolved_by: resolvedBy,
+      resolved_at: now
+    });
+    if (!applied) {
+      throw new HttpError(400, `"${value}" is not a valid value for ${row.field_label || row.field_name}`);
+    }
+
+    const { error: profileError } = await supabase
+      .from("tender_profiles")
+      .update({
+        consolidated_data: data,
+        meta_info: data.meta_info,
+        leistungsumfang: data.leistungsumfang,
+        zuschlagskriterien: data.zuschlagskriterien
+      })
+      .eq("id", row.tender_profile_id);
+
+    if (profileError) {
+      throw new Error(`Failed to update tender profile: ${profileError.message}`);
+    }
+
+    await updateTenderField(supabase, profile!.batch_id, row.field_name, data);
+  }
+
+  const { data: updated, error } = await supabase
+    .from("document_conflicts")
+    .update({
+      resolution_status: CONFLICT_STATUS[body.action],
+      resolved_value: body.action === "resolve" ? value : null,
+      resolved_by: resolvedBy,
+      // Flagged conflicts are still open
+      resolved_at: body.action === "review" ? null : now,
+      resolution_note: body.note?.trim() || row.resolution_note
+    })
+    .eq("id", conflictId)
+    .select(CONFLICT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update conflict: ${error.message}`);
+  }
+
+  return { success: true, conflict: updated as ConflictRow };
+}
+
+// Columns of the tender that show the resolved field
+async function updateTenderField(supabase: SupabaseClient, batchId: string, field: string, data: ConsolidatedData) {
+  const { data: batch } = await supabase
+    .from("tender_upload_batches")
+    .select("tender_id")
+    .eq("id", batchId)
+    .maybeSingle();
+
+  if (!batch?.tender_id) return;
+
+  const update: Record<string, unknown> = {};
+  if (field === "meta_info.auftraggeber") {
+    update.buyer = data.meta_info?.auftraggeber;
+  }
+  if (field.startsWith("key_dates.")) {
+    update.key_dates = data.key_dates || [];
+    const submission = data.key_dates?.find(k => k.type === "angebotsfrist" && k.timestamp);
+    if (submission) update.deadline = submission.timestamp;
+  }
+  if (field.startsWith("zuschlagskriterien.")) {
+    update.evaluation_criteria = (data.zuschlagskriterien?.kriterien || [])
+      .filter(k => !k.oberkriterium)
+      .map(k => k.anteil_gesamt != null ? `${k.bezeichnung} (${k.anteil_gesamt}%)` : k.bezeichnung);
+  }
+  if (Object.keys(update).length === 0) return;
+
+  const { error } = await supabase
+    .from("tenders")
+    .update(update)
+    .eq("id", batch.tender_id);
+
+  if (error) {
+    throw new Error(`Failed to update tender: ${error.message}`);
+  }
+}
+
+// Versions: every batch of the tender in order, each with what it changed
+// against the version it amends
+async function getBatchVersions(supabase: SupabaseClient, batchId: string) {
+  const batch = await loadBatch(supabase, batchId);
+  const rootBatchId = batch.root_batch_id || batch.id;
+
+  const { data: versionRows, error } = await supabase
+    .from("tender_upload_batches")
+    .select(VERSION_COLUMNS)
+    .or(`id.eq.${rootBatchId},root_batch_id.eq.${rootBatchId}`)
+    .order("version", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load versions: ${error.message}`);
+  }
+
+  const versions = (versionRows || []) as VersionRow[];
+  const { data: changes, error: changeError } = await supabase
+    .from("tender_profile_changes")
+    .select("batch_id, field_name, field_label, change_type, old_value, new_value, summary, affected_steps")
+    .in("batch_id", versions.map(v => v.id))
+    .order("created_at", { ascending: true });
+
+  if (changeError) {
+    throw new Error(`Failed to load changes: ${changeError.message}`);
+  }
+
+  const { data: notifications } = await supabase
+    .from("tender_notifications")
+    .select("*")
+    .eq("root_batch_id", rootBatchId)
+    .order("created_at", { ascending: false });
+
+  return {
+    success: true,
+    root_batch_id: rootBatchId,
+    versions: versions.map(version => ({
+      batch_id: version.id,
+      version: version.version,
+      amends_batch_id: version.amends_batch_id,
+      status: version.status,
+      created_at: version.created_at,
+      completed_at: version.completed_at,
+      changes: ((changes || []) as ChangeRow[])
+        .filter(change => change.batch_id === version.id)
+        .map(change => ({ ...change, affected_step_labels: stepLabels(change.affected_steps || []) }))
+    })),
+    notifications: ((notifications || []) as NotificationRow[]).map(withStepLabels)
+  };
+}
+
+// Notifications: unread ones of all tenders, newest first
+async function listNotifications(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("tender_notifications")
+    .select("*")
+    .is("read_at", null)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    throw new Error(`Failed to load notifications: ${error.message}`);
+  }
+
+  return { success: true, notifications: ((data || []) as NotificationRow[]).map(withStepLabels) };
+}
+
+async function markNotificationRead(supabase: SupabaseClient, notificationId: string, body: NotificationRequest) {
+  const { data, error } = await supabase
+    .from("tender_notifications")
+    .update({ read_at: new Date().toISOString(), read_by: body.read_by?.trim() || null })
+    .eq("id", notificationId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update notification: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, `Notification ${notificationId} not found`);
+  }
+
+  return { success: true, notification: withStepLabels(data as NotificationRow) };
+}
+
+function withStepLabels(notification: NotificationRow) {
+  return { ...notification, affected_step_labels: stepLabels(notification.affected_steps || []) };
+}
+
+// Validation rules: checks aggregate-tender-batch runs against every profile of the rule's organization
+async function listValidationRules(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("validation_rules")
+    .select("*")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to load validation rules: ${error.message}`);
+  }
+
+  return { success: true, rules: (data || []) as ValidationRuleRow[] };
+}
+
+// Admins maintain their organization's rules; templates (org null) only change with the service role
+async function requireRuleAdmin(supabase: SupabaseClient, userId: string | null, orgId: string | null) {
+  if (!userId) return;
+  if (!orgId) {
+    throw new HttpError(403, "Rule templates can only be changed with the service role key");
+  }
+
+  const { data } = await supabase
+    .from("memberships")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  if (data?.role !== "admin") {
+    throw new HttpError(403, "Only admins of the organization can change its validation rules");
+  }
+}
+
+// The organization a new rule belongs to: the requested one, else the user's first membership
+async function ruleOrgId(supabase: SupabaseClient, userId: string | null, requested?: string | null): Promise<string | null> {
+  if (requested || !userId) return requested ?? null;
+
+  const { data } = await supabase
+    .from("memberships")
+    .select("org_id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  return data?.org_id ?? null;
+}
+
+// Creates a rule (ruleId null) or changes one; the stored rule must still be runnable
+async function saveValidationRule(
+  supabase: SupabaseClient,
+  userId: string | null,
+  ruleId: string | null,
+  body: ValidationRuleRequest
+) {
+  let existing: ValidationRuleRow | null = null;
+  if (ruleId) {
+    const { data } = await supabase
+      .from("validation_rules")
+      .select("*")
+      .eq("id", ruleId)
+      .maybeSingle();
+    if (!data) {
+      throw new HttpError(404, `Validation rule ${ruleId} not found`);
+    }
+    existing = data as ValidationRuleRow;
+  }
+
+  // A rule stays in its organization
+  const orgId = existing ? existing.org_id : await ruleOrgId(supabase, userId, body.org_id);
+  await requireRuleAdmin(supabase, userId, orgId);
+
+  const rule = {
+    name: (body.name ?? existing?.name)?.trim(),
+    field_path: (body.field_path ?? existing?.field_path)?.trim(),
+    rule_type: body.rule_type ?? existing?.rule_type,
+    params: body.params ?? existing?.params ?? {},
+    severity: body.severity ?? existing?.severity ?? "error",
+    procurement_types: body.procurement_types ?? existing?.procurement_types ?? [],
+    message: (body.message ?? existing?.message)?.trim(),
+    is_active: body.is_active ?? existing?.is_active ?? true
+  };
+
+  const problem = ruleDefinitionError(rule);
+  if (problem) {
+    throw new HttpError(400, problem);
+  }
+
+  const query = existing
+    ? supabase.from("validation_rules").update({ ...rule, updated_at: new Date().toISOString() }).eq("id", existing.id)
+    : supabase.from("validation_rules").insert({ ...rule, org_id: orgId });
+  const { data, error } = await query.select("*").single();
+
+  if (error) {
+    throw new Error(`Failed to save validation rule: ${error.message}`);
+  }
+
+  return { success: true, rule: data as ValidationRuleRow };
+}
+
+// The newest version of the tender the given batch belongs to
+async function latestVersion(supabase: SupabaseClient, batchId: string): Promise<VersionRow> {
+  const batch = await loadBatch(supabase, batchId) as VersionRow;
+  const rootBatchId = batch.root_batch_id || batch.id;
+
+  const { data, error } = await supabase
+    .from("tender_upload_batches")
+    .select(VERSION_COLUMNS)
+    .or(`id.eq.${rootBatchId},root_batch_id.eq.${rootBatchId}`)
+    .order("version", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load versions: ${error.message}`);
+  }
+  return data as VersionRow;
+}
+
+// Tenders: the latest aggregated version of every tender, mapped to the UI's
+// Tender shape. id stays the first batch's id across versions; runId is the
+// version shown.
+async function listTenders(supabase: SupabaseClient, sortBy: string) {
+  const { data: allProfiles, error } = await supabase
+    .from("tender_profiles")
+    .select("batch_id, consolidated_data, confidence_avg, created_at, updated_at")
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to load tender profiles: ${error.message}`);
+  }
+
+  const { data: versionRows } = (allProfiles || []).length > 0
+    ? await supabase
+      .from("tender_upload_batches")
+      .select(VERSION_COLUMNS)
+      .in("id", (allProfiles || []).map(p => p.batch_id))
+    : { data: [] };
+
+  const versions = new Map(((versionRows || []) as VersionRow[]).map(v => [v.id, v]));
+  const rootOf = (batchId: string) => versions.get(batchId)?.root_batch_id || batchId;
+  const versionOf = (batchId: string) => versions.get(batchId)?.version || 1;
+
+  const latest = new Map<string, NonNullable<typeof allProfiles>[number]>();
+  const versionCount = new Map<string, number>();
+  for (const profile of allProfiles || []) {
+    const root = rootOf(profile.batch_id);
+    versionCount.set(root, (versionCount.get(root) || 0) + 1);
+    const current = latest.get(root);
+    if (!current || versionOf(profile.batch_id) > versionOf(current.batch_id)) latest.set(root, profile);
+  }
+  const profiles = [...latest.values()];
+
+  const { data: unread } = latest.size > 0
+    ? await supabase
+      .from("tender_notifications")
+      .select("root_batch_id")
+      .in("root_batch_id", [...latest.keys()])
+      .is("read_at", null)
+    : { data: [] };
+
+  const batchIds = profiles.map(p => p.batch_id);
+  const { data: files } = batchIds.length > 0
+    ? await supabase
+      .from("tender_file_uploads")
+      .select("id, upload_batch_id, original_filename, processing_status, extraction_result, created_at")
+      .in("upload_batch_id", batchIds)
+    : { data: [] };
+
+  const tenders = profiles.map(profile => {
+    const batchFiles = ((files || []) as FileUploadRow[]).filter(f => f.upload_batch_id === profile.batch_id);
+    const ui = buildUiJson(profile.batch_id, profile.consolidated_data || {}, batchFiles);
+    const requirements = ui.mandatory_requirements;
+
+    return {
+      id: rootOf(profile.batch_id),
+      runId: profile.batch_id,
+      version: versionOf(profile.batch_id),
+      versionCount: versionCount.get(rootOf(profile.batch_id)) || 1,
+      unreadNotifications: (unread || []).filter(n => n.root_batch_id === rootOf(profile.batch_id)).length,
+      createdAt: profile.created_at,
+      updatedAt: profile.updated_at,
+      status: "completed",
+      title: ui.meta.tender_title,
+      buyer: ui.meta.organization || "Missing Organization",
+      region: ui.executive_summary.location_de || "DE",
+      deadline: ui.timeline_milestones.submission_deadline_de,
+      url: "",
+      score: Math.round(Number(profile.confidence_avg || 0) * 100),
+      legalRisks: ui.risks.map(r => r.risk_de),
+      // Counted against the company profile once the tender is opened
+      mustHits: 0,
+      mustTotal: ui.suitability_requirements.length,
+      suitability: ui.suitability_requirements,
+      canHits: 0,
+      canTotal: 0,
+      serviceTypes: ui.service_types,
+      scopeOfWork: ui.executive_summary.brief_description_de,
+      certifications: ui.certifications_required,
+      evaluationCriteria: ui.evaluation_criteria.filter(c => !c.parent_de).map(c =>
+        c.weight_percent ? `${c.criterion_de} (${c.weight_percent}%)` : c.criterion_de
+      ),
+      submission: requirements.map(r => r.requirement_de),
+      sources: {
+        title: ui.meta.source_document,
+        buyer: ui.meta.source_document,
+        deadline: ui.timeline_milestones.source_document
+      }
+    };
+  });
+
+  if (sortBy === "score") {
+    tenders.sort((a, b) => b.score - a.score);
+  } else {
+    // Tenders without a known deadline go last
+    tenders.sort((a, b) =>
+      (a.deadline ? Date.parse(a.deadline) : Infinity) - (b.deadline ? Date.parse(b.deadline) : Infinity)
+    );
+  }
+
+  return { success: true, data: tenders };
+}
+
+async function loadBatch(supabase: SupabaseClient, batchId: string) {
+  const { data: batch, error } = await supabase
+    .from("tender_upload_batches")
+    .select("*")
+    .eq("id", batchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load batch: ${error.message}`);
+  }
+  if (!batch) {
+    throw new HttpError(404, `Batch ${batchId} not found`);
+  }
+  return batch;
+}
+
+async function loadFiles(supabase: SupabaseClient, batchId: string): Promise<FileUploadRow[]> {
+  const { data: files, error } = await supabase
+    .from("tender_file_uploads")
+    .select("*")
+    .eq("upload_batch_id", batchId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load files: ${error.message}`);
+  }
+  return files || [];
+}
+
+// Most confident first, so the first fact of a kind is the one to cite
+async function loadFacts(supabase: SupabaseClient, batchId: string): Promise<FactRow[]> {
+  const { data, error } = await supabase
+    .from("extracted_facts")
+    .select("fact_type, fact_category, fact_value, confidence_score, segment_id, source_document, source_page, source_section, source_line_start, source_line_end, context_snippet")
+    .eq("batch_id", batchId)
+    .order("confidence_score", { ascending: false })
+    .order("source_document", { ascending: true })
+    .order("source_page", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load extracted facts: ${error.message}`);
+  }
+  return (data || []) as FactRow[];
+}
+
+async function loadProfile(supabase: SupabaseClient, batchId: string) {
+  const { data: profile } = await supabase
+    .from("tender_profiles")
+    .select("*")
+    .eq("batch_id", batchId)
+    .maybeSingle();
+
+  return profile;
+}
+
+// ui_json: the shape mapSummaryToTender reads, built from the consolidated tender profile.
+// Items cite the extracted fact they come from; without one they fall back to the primary document.
+function buildUiJson(batchId: string, data: ConsolidatedData, files: FileUploadRow[], facts: FactRow[] = []): UiJson {
+  const completedFiles = files.filter(f => f.processing_status === "completed");
+  const primaryFile = completedFiles[0] || files[0];
+  const primarySource = primaryFile?.original_filename || "";
+  const cite = (factType: string, matches?: Record<string, unknown>) =>
+    citeFact(facts, primarySource, factType, matches);
+  const extractions = completedFiles.map(f => f.extraction_result || {});
+
+  const meta = data.meta_info || {};
+  const scope = data.leistungsumfang || {};
+  const fristen = data.fristen?.fristen || [];
+
+  const title = extractions.find(e => e.title && e.title !== "Ausschreibung")?.title
+    || meta.vergabenummer
+    || "Ausschreibung";
+
+  const submissionFrist = fristen.find(f => f.bezeichnung === "Angebotsfrist") || fristen[0];
+  const submissionDate = (data.key_dates || []).find(k => k.type === "angebotsfrist" && k.date);
+
+  const serviceTypes = new Set<string>();
+  for (const extraction of extractions) {
+    for (const type of extraction.serviceTypes || []) {
+      if (type !== "Dienstleistung") serviceTypes.add(type);
+    }
+  }
+
+  const nachweise = data.pflichtnachweise?.liste || [];
+  const kriterien = data.zuschlagskriterien?.kriterien || [];
+  const priceFormula = data.zuschlagskriterien?.preisformel || null;
+
+  return {
+    meta: {
+      tender_id: meta.vergabenummer || batchId,
+      tender_title: title,
+      organization: meta.auftraggeber || meta.vergabestelle || null,
+      ...cite("contracting_authority")
+    },
+    executive_summary: {
+      title_de: title,
+      organization_de: meta.auftraggeber || null,
+      location_de: scope.leistungsort || null,
+      brief_description_de: truncate(scope.beschreibung || "", 600),
+      ...cite("scope_of_work")
+    },
+    timeline_milestones: {
+      submission_deadline_de: submissionDate?.date || (submissionFrist ? toIsoDate(submissionFrist.datum) : null),
+      project_duration_de: scope.leistungszeitraum || null,
+      ...(submissionFrist
+        ? cite("deadline", { bezeichnung: submissionFrist.bezeichnung, datum: submissionFrist.datum })
+        : cite("performance_period"))
+    },
+    mandatory_requirements: nachweise
+      .filter(n => n.pflicht)
+      .map(n => ({
+        requirement_de: n.bezeichnung,
+        explanation_de: n.hinweise || "",
+        ...cite(n.kategorie === "Zertifikat" ? "certification" : "must_criteria", { bezeichnung: n.bezeichnung })
+      })),
+    suitability_requirements: (data.pflichtnachweise?.mindestanforderungen || []).map(r => ({
+      ...r,
+      ...cite("suitability_threshold", { art: r.art, bezeichnung: r.bezeichnung, wert: r.wert })
+    })),
+    risks: buildRisks(data, cite),
+    service_types: [...serviceTypes],
+    evaluation_criteria: kriterien.map(k => ({
+      criterion_de: k.bezeichnung,
+      weight_percent: k.anteil_gesamt ?? null,
+      weight_de: formatWeight(k),
+      number: k.nummer || null,
+      parent_de: k.oberkriterium || null,
+      ...cite("evaluation_criteria", { bezeichnung: k.bezeichnung })
+    })),
+    evaluation_checks: (data.zuschlagskriterien?.pruefung || []).map(c => ({ ok: c.ok, note_de: c.hinweis })),
+    price_formula: priceFormula
+      ? { method: priceFormula.methode, name_de: priceFormula.bezeichnung, text_de: priceFormula.text }
+      : null,
+    safety_requirements: buildSafetyRequirements(data.sicherheit || {}),
+    contract_penalties: [],
+    certifications_required: nachweise
+      .filter(n => n.kategorie === "Zertifikat")
+      .map(n => n.bezeichnung),
+    process_steps: fristen.map(f => ({
+      title_de: f.bezeichnung,
+      description_de: `${f.bezeichnung}: ${f.datum}`,
+      days_de: "",
+      ...cite("deadline", { bezeichnung: f.bezeichnung, datum: f.datum })
+    })),
+    missing_evidence_documents: [],
+    economic_analysis: undefined,
+    facts: facts.map(fact => ({
+      fact_type: fact.fact_type,
+      category: fact.fact_category,
+      value: fact.fact_value,
+      confidence: Number(fact.confidence_score),
+      source_document: fact.source_document,
+      source_chunk_id: fact.segment_id,
+      page_number: fact.source_page,
+      section: fact.source_section,
+      line_start: fact.source_line_start,
+      line_end: fact.source_line_end,
+      snippet: fact.context_snippet
+    }))
+  };
+}
+
+// First fact of the type whose value has the given fields
+// Weight as given in the documents, e.g. "20 Punkte" or "40 %"
+function formatWeight(k: Zuschlagskriterium): string | null {
+  if (k.gewichtung === null || k.gewichtung === undefined) return null;
+  const value = k.gewichtung.toLocaleString("de-DE");
+  return k.einheit === "Punkte" ? `${value} Punkte` : `${value} %`;
+}
+
+function citeFact(facts: FactRow[], fallback: string, factType: string, matches: Record<string, unknown> = {}): UiSource {
+  const fact = facts.find(f =>
+    f.fact_type === factType &&
+    Object.entries(matches).every(([key, value]) => f.fact_value?.[key] === value)
+  );
+
+  return fact
+    ? { source_document: fact.source_document, source_chunk_id: fact.segment_id, page_number: fact.source_page }
+    : { source_document: fallback, source_chunk_id: null, page_number: null };
+}
+
+function buildRisks(
+  data: ConsolidatedData,
+  cite: (factType: string, matches?: Record<string, unknown>) => UiSource
+): UiRisk[] {
+  const risks: UiRisk[] = [];
+  const rechtliches = data.rechtliches || {};
+  const legal = (merkmal: string) => cite("legal_requirement", { merkmal });
+
+  if (rechtliches.tariftreue) {
+    risks.push({ risk_de: "Tariftreueerklärung gefordert", severity: "medium", ...legal("tariftreue") });
+  }
+  if (rechtliches.mindestlohn) {
+    risks.push({ risk_de: "Mindestlohnvorgaben einzuhalten", severity: "medium", ...legal("mindestlohn") });
+  }
+  if (rechtliches.geheimhaltung) {
+    risks.push({ risk_de: "Geheimhaltungs- bzw. Vertraulichkeitspflichten", severity: "low", ...legal("geheimhaltung") });
+  }
+  if (rechtliches.datenschutz) {
+    risks.push({ risk_de: "Datenschutzanforderungen (DSGVO)", severity: "low", ...legal("datenschutz") });
+  }
+  if ((data.fristen?.fristen || []).length === 0) {
+    // Nothing to cite for a missing deadline
+    risks.push({ risk_de: "Keine Angebotsfrist in den Unterlagen gefunden", severity: "high", ...cite("") });
+  }
+
+  return risks;
+}
+
+function buildSafetyRequirements(sicherheit: Record<string, boolean>): string[] {
+  const labels: Record<string, string> = {
+    arbeitsschutz: "Arbeitsschutz",
+    sige: "SiGe-Koordination",
+    dguv: "DGUV-Vorschriften",
+    unfallverhütung: "Unfallverhütungsvorschriften"
+  };
+  return Object.keys(labels).filter(key => sicherheit[key]).map(key => labels[key]);
+}
+
+function toIsoDate(value: string): string | null {
+  const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (german) {
+    return `${german[3]}-${german[2].padStart(2, "0")}-${german[1].padStart(2, "0")}`;
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
@@ -0,0 +1,151 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  holdOutAccuracy,
+  MIN_TRAINING_SAMPLES,
+  MODEL_TYPE,
+  TrainingSample,
+  trainNaiveBayes
+} from "../_shared/classifier.ts";
+import { AccessError, assertOrgAccess } from "../_shared/tenancy.ts";
+
+// Retrains an organization's section-type classifier from its segment_labels
+// and the shared seed corpus, and activates the new model. Called by
+// tender-api after every relabel; editors of the organization may also start
+// it by hand, e.g. after a seed corpus was imported.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface TrainRequest {
+  orgId: string;
+}
+
+interface LabelRow {
+  content: string;
+  section_type_id: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { orgId }: TrainRequest = await req.json();
+    await assertOrgAccess(supabase, req, supabaseServiceKey, orgId);
+    // Also keeps the id safe to use in the label filter
+    if (!orgId || !UUID_PATTERN.test(orgId)) {
+      return respond({ success: false, error: "orgId must be an organization id" }, 400);
+    }
+
+    const { data: labels, error: labelError } = await supabase
+      .from("segment_labels")
+      .select("content, section_type_id")
+      .or(`org_id.eq.${orgId},org_id.is.null`)
+      .order("created_at", { ascending: true });
+
+    if (labelError) {
+      throw new Error(`Failed to load labels: ${labelError.message}`);
+    }
+
+    const samples: TrainingSample[] = ((labels || []) as LabelRow[])
+      .filter(row => row.content.trim().length > 0)
+      .map(row => ({ text: row.content, label: row.section_type_id }));
+
+    const perType: Record<string, number> = {};
+    for (const sample of samples) perType[sample.label] = (perType[sample.label] || 0) + 1;
+
+    // Cold start: keep using keyword matching until the corpus is large enough
+    if (samples.length < MIN_TRAINING_SAMPLES || Object.keys(perType).length < 2) {
+      console.log(`Not training: ${samples.length} labels in ${Object.keys(perType).length} section types`);
+      return respond({
+        success: true,
+        trained: false,
+        training_samples: samples.length,
+        required_samples: MIN_TRAINING_SAMPLES
+      });
+    }
+
+    const accuracy = holdOutAccuracy(samples);
+    const model = trainNaiveBayes(samples);
+
+    const { data: latest } = await supabase
+      .from("classifier_models")
+      .select("version")
+      .eq("org_id", orgId)
+      .eq("model_type", MODEL_TYPE)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: saved, error: saveError } = await supabase
+      .from("classifier_models")
+      .insert({
+        org_id: orgId,
+        model_type: MODEL_TYPE,
+        version: (latest?.version || 0) + 1,
+        model,
+        training_samples: samples.length,
+        metrics: {
+          holdout_accuracy: accuracy,
+          samples_per_section_type: perType,
+          vocabulary_size: Object.keys(model.log_likelihoods).length
+        }
+      })
+      .select("id, version")
+      .single();
+
+    if (saveError) {
+      throw new Error(`Failed to save model: ${saveError.message}`);
+    }
+
+    const { error: activateError } = await supabase.rpc("activate_classifier_model", {
+      model_id_param: saved.id
+    });
+
+    if (activateError) {
+      throw new Error(`Failed to activate model: ${activateError.message}`);
+    }
+
+    console.log(`Trained classifier v${saved.version} on ${samples.length} labels, hold-out accuracy ${accuracy}`);
+
+    return respond({
+      success: true,
+      trained: true,
+      model_id: saved.id,
+      version: saved.version,
+      training_samples: samples.length,
+      holdout_accuracy: accuracy
+    });
+  } catch (error) {
+    console.error("Training error:", error);
+
+    return respond({
+      success: false,
+      error: error.message || "Unknown error"
+    }, error instanceof AccessError ? error.status : 500);
+  }
+});
+
+function respond(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
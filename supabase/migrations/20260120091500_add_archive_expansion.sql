@@ -0,0 +1,147 @@
+/*
+  # ZIP Archive Expansion
+
+  1. Changes to `tender_file_uploads`
+    - `relative_path` (text) - Folder path inside the uploaded archive, e.g. 'Vergabeunterlagen/Formblätter/'
+    - `content_hash` (text) - SHA-256 of the file content, used for duplicate detection
+    - `parent_upload_id` (uuid) - The archive upload this document was extracted from
+    - `duplicate_of` (uuid) - First upload with identical content; duplicates are not processed again
+    - New processing statuses: 'expanded' (archive container), 'duplicate'
+
+  2. Batch Progress
+    - `rollup_batch_progress` recomputes `processed_files` from the file rows
+      (completed, failed and duplicate count as processed; expanded archives do not)
+    - Trigger keeps the batch in sync whenever a file row is inserted or changes status
+    - `increment_batch_progress` now delegates to the rollup, so repeated calls are harmless
+    - `adjust_batch_total` grows the batch when an archive expands into several documents
+
+  3. Storage
+    - Allow ZIP archives in the 'tender-documents' bucket and raise the size limit to 50 MB
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tender_file_uploads' AND column_name = 'relative_path'
+  ) THEN
+    ALTER TABLE tender_file_uploads ADD COLUMN relative_path text DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tender_file_uploads' AND column_name = 'content_hash'
+  ) THEN
+    ALTER TABLE tender_file_uploads ADD COLUMN content_hash text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tender_file_uploads' AND column_name = 'parent_upload_id'
+  ) THEN
+    ALTER TABLE tender_file_uploads ADD COLUMN parent_upload_id uuid REFERENCES tender_file_uploads(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tender_file_uploads' AND column_name = 'duplicate_of'
+  ) THEN
+    ALTER TABLE tender_file_uploads ADD COLUMN duplicate_of uuid REFERENCES tender_file_uploads(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tender_file_uploads_content_hash ON tender_file_uploads(upload_batch_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_tender_file_uploads_parent ON tender_file_uploads(parent_upload_id);
+
+-- Recompute batch progress from the file rows
+CREATE OR REPLACE FUNCTION rollup_batch_progress(batch_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total_files integer;
+  v_processed integer;
+BEGIN
+  SELECT COUNT(*)
+  INTO v_processed
+  FROM tender_file_uploads
+  WHERE upload_batch_id = batch_id_param
+    AND processing_status IN ('completed', 'failed', 'duplicate');
+
+  UPDATE tender_upload_batches
+  SET processed_files = v_processed
+  WHERE id = batch_id_param
+  RETURNING total_files INTO v_total_files;
+
+  IF v_total_files > 0 AND v_processed >= v_total_files THEN
+    UPDATE tender_upload_batches
+    SET
+      status = 'completed',
+      completed_at = COALESCE(completed_at, NOW())
+    WHERE id = batch_id_param
+      AND status NOT IN ('completed', 'failed');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_batch_progress(batch_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM rollup_batch_progress(batch_id_param);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION adjust_batch_total(batch_id_param uuid, delta integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE tender_upload_batches
+  SET total_files = GREATEST(0, total_files + delta)
+  WHERE id = batch_id_param;
+
+  PERFORM rollup_batch_progress(batch_id_param);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollup_batch_progress_on_file_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM rollup_batch_progress(NEW.upload_batch_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rollup_batch_progress_on_file_change ON tender_file_uploads;
+CREATE TRIGGER rollup_batch_progress_on_file_change
+  AFTER INSERT OR UPDATE OF processing_status ON tender_file_uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_batch_progress_on_file_change();
+
+-- Accept archives in the document bucket
+UPDATE storage.buckets
+SET
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'application/zip',
+    'application/x-zip-compressed'
+  ]
+WHERE id = 'tender-documents';
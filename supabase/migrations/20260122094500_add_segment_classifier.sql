@@ -0,0 +1,88 @@
+/*
+  # Trainable Segment Classifier
+
+  1. New Tables
+    - `segment_labels` - Labelled corpus for the segment classifier
+      - `id` (uuid, primary key)
+      - `segment_id` (uuid) - Labelled segment; kept as NULL when the segment is deleted
+      - `section_type_id` (uuid, foreign key to section_types)
+      - `content` (text) - Segment text at labelling time, so the corpus survives reprocessing
+      - `source` (text) - 'user' (relabelled in the UI) or 'seed' (imported corpus)
+      - `labelled_by` (text) - Name of the user who relabelled the segment
+      - `created_at`, `updated_at` (timestamptz)
+    - `classifier_models` - Trained models, one active at a time
+      - `id` (uuid, primary key)
+      - `model_type` (text) - 'multinomial_nb'
+      - `version` (integer) - Increases with every training run
+      - `model` (jsonb) - Vocabulary, class priors and token log-likelihoods
+      - `training_samples` (integer)
+      - `metrics` (jsonb) - Hold-out accuracy and samples per section type
+      - `is_active` (boolean) - The model process-tender-documents uses
+      - `trained_at` (timestamptz)
+
+  2. Notes
+    - A user relabel of the same segment replaces its earlier label
+    - Without an active model the pipeline falls back to keyword matching
+
+  3. Security
+    - Enable RLS; labels and models are written by the edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS segment_labels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  segment_id uuid UNIQUE REFERENCES document_segments(id) ON DELETE SET NULL,
+  section_type_id uuid NOT NULL REFERENCES section_types(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  source text NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'seed')),
+  labelled_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_labels_section_type ON segment_labels(section_type_id);
+
+CREATE TABLE IF NOT EXISTS classifier_models (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_type text NOT NULL DEFAULT 'multinomial_nb',
+  version integer NOT NULL,
+  model jsonb NOT NULL,
+  training_samples integer NOT NULL DEFAULT 0,
+  metrics jsonb DEFAULT '{}',
+  is_active boolean DEFAULT false,
+  trained_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_classifier_models_active ON classifier_models(model_type) WHERE is_active;
+
+ALTER TABLE segment_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE classifier_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read segment labels"
+  ON segment_labels FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read classifier models"
+  ON classifier_models FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Swap the active model in one transaction so the pipeline never sees two or none
+CREATE OR REPLACE FUNCTION activate_classifier_model(model_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE classifier_models
+  SET is_active = false
+  WHERE is_active
+    AND id <> model_id_param
+    AND model_type = (SELECT model_type FROM classifier_models WHERE id = model_id_param);
+
+  UPDATE classifier_models
+  SET is_active = true
+  WHERE id = model_id_param;
+END;
+$$;
@@ -0,0 +1,20 @@
+/*
+  # Conflict Resolution
+
+  1. Changes
+    - `document_conflicts`
+      - `field_label` (text) - Field as shown to the user, e.g. "Angebotsfrist"
+      - `resolved_value` (text) - Value chosen for the field when resolved
+      - `resolved_by` (text) - Name of the user who resolved, ignored or flagged the conflict
+
+  2. Notes
+    - A resolved value is written into tender_profiles.consolidated_data and the tender,
+      and applied again when the batch is aggregated anew
+    - Conflicts marked for manual review stay open until resolved or ignored
+*/
+
+ALTER TABLE document_conflicts ADD COLUMN IF NOT EXISTS field_label text;
+ALTER TABLE document_conflicts ADD COLUMN IF NOT EXISTS resolved_value text;
+ALTER TABLE document_conflicts ADD COLUMN IF NOT EXISTS resolved_by text;
+
+CREATE INDEX IF NOT EXISTS idx_document_conflicts_field ON document_conflicts(tender_profile_id, field_name);
@@ -0,0 +1,20 @@
+/*
+  # Near-Duplicate Segments
+
+  1. Changes
+    - `document_segments`
+      - `duplicate_of` (uuid) - Canonical segment this one repeats; set together with is_relevant = false
+      - `duplicate_similarity` (numeric) - Jaccard similarity of the word shingles to the canonical segment
+
+  2. Notes
+    - aggregate-tender-batch clusters near-identical segments of a batch (MinHash over word shingles)
+      before extracting, so re-issued documents are not counted twice
+    - Marks are recomputed on every aggregation; segments that are no longer duplicates become relevant again.
+      duplicate_similarity identifies marked segments even after their canonical segment was deleted
+    - Segments of a cluster share their duplicate_of
+*/
+
+ALTER TABLE document_segments ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES document_segments(id) ON DELETE SET NULL;
+ALTER TABLE document_segments ADD COLUMN IF NOT EXISTS duplicate_similarity numeric(4,3);
+
+CREATE INDEX IF NOT EXISTS idx_document_segments_duplicate_of ON document_segments(duplicate_of) WHERE duplicate_of IS NOT NULL;
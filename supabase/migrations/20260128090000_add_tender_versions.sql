@@ -0,0 +1,88 @@
+/*
+  # Tender Versions
+
+  1. Changes to `tender_upload_batches`
+    - `root_batch_id` (uuid) - First batch of the tender; NULL for the first version itself
+    - `amends_batch_id` (uuid) - Version this batch amends (Änderungsbekanntmachung, Bieterinformation)
+    - `version` (integer) - 1 for the original documents, counting up with every amendment
+
+  2. New Tables
+    - `tender_profile_changes` - Field-level differences of a version to the one it amends
+      - `id` (uuid, primary key)
+      - `batch_id` (uuid) - The amending version
+      - `previous_batch_id` (uuid) - The version it is compared with
+      - `field_name` (text) - e.g. 'key_dates.angebotsfrist', 'zuschlagskriterien.<criterion>', 'pflichtnachweise.<name>'
+      - `field_label` (text) - Field as shown to the user
+      - `change_type` (text) - 'added', 'removed' or 'changed'
+      - `old_value`, `new_value` (text) - Values as shown to the user
+      - `summary` (text) - e.g. "Angebotsfrist verschoben: 12.03.2026 10:00 Uhr → 19.03.2026 10:00 Uhr"
+      - `affected_steps` (integer[]) - Wizard steps that build on the field
+      - `created_at` (timestamptz)
+    - `tender_notifications` - Messages to the team about a tender
+      - `id` (uuid, primary key)
+      - `root_batch_id` (uuid) - The tender (its first batch)
+      - `batch_id` (uuid) - The version the message is about
+      - `kind` (text) - 'amendment'
+      - `title`, `message` (text)
+      - `affected_steps` (integer[]) - Steps with work already done that the change touches
+      - `created_at` (timestamptz)
+      - `read_at` (timestamptz), `read_by` (text)
+
+  3. Notes
+    - Every version keeps its own tender profile; earlier versions are never overwritten
+    - Changes and notifications are rewritten whenever the amending batch is aggregated again
+
+  4. Security
+    - Enable RLS; both tables are written by the edge functions
+*/
+
+ALTER TABLE tender_upload_batches ADD COLUMN IF NOT EXISTS root_batch_id uuid REFERENCES tender_upload_batches(id) ON DELETE CASCADE;
+ALTER TABLE tender_upload_batches ADD COLUMN IF NOT EXISTS amends_batch_id uuid REFERENCES tender_upload_batches(id) ON DELETE SET NULL;
+ALTER TABLE tender_upload_batches ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_tender_upload_batches_root ON tender_upload_batches(root_batch_id) WHERE root_batch_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS tender_profile_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES tender_upload_batches(id) ON DELETE CASCADE,
+  previous_batch_id uuid NOT NULL REFERENCES tender_upload_batches(id) ON DELETE CASCADE,
+  field_name text NOT NULL,
+  field_label text,
+  change_type text NOT NULL CHECK (change_type IN ('added', 'removed', 'changed')),
+  old_value text,
+  new_value text,
+  summary text NOT NULL,
+  affected_steps integer[] DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tender_profile_changes_batch ON tender_profile_changes(batch_id);
+
+CREATE TABLE IF NOT EXISTS tender_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  root_batch_id uuid NOT NULL REFERENCES tender_upload_batches(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES tender_upload_batches(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'amendment' CHECK (kind IN ('amendment')),
+  title text NOT NULL,
+  message text NOT NULL,
+  affected_steps integer[] DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz,
+  read_by text
+);
+
+CREATE INDEX IF NOT EXISTS idx_tender_notifications_root ON tender_notifications(root_batch_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tender_notifications_unread ON tender_notifications(created_at DESC) WHERE read_at IS NULL;
+
+ALTER TABLE tender_profile_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tender_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read tender profile changes"
+  ON tender_profile_changes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read tender notifications"
+  ON tender_notifications FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,95 @@
+/*
+  # Validation Rules
+
+  1. New Tables
+    - `validation_rules` - Declarative checks run against every consolidated tender profile
+      - `id` (uuid, primary key)
+      - `name` (text) - Short name shown to admins
+      - `field_path` (text) - Dotted path into consolidated_data; 'liste[]' for every element,
+        'key_dates[type=angebotsfrist]' for the elements with that field value
+      - `rule_type` (text) - 'required', 'regex', 'min_length', 'date_in_future', 'sum_equals_100' or 'enum'
+      - `params` (jsonb) - { pattern, flags } for regex, { min } for min_length, { values } for enum,
+        { tolerance } for sum_equals_100
+      - `severity` (text) - 'error', 'warning' or 'info'
+      - `procurement_types` (text[]) - Vergabeordnungen the rule applies to ('VOB/A', 'UVgO', 'VgV'); empty for all
+      - `message` (text) - Shown when the rule fails
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes to `extraction_validations`
+    - `rule_id` (uuid) - The rule that failed
+    - `severity` (text) - Severity of the rule at the time it ran
+    - `actual_value` (text) - The offending value, NULL when the field is missing
+
+  3. Notes
+    - aggregate-tender-batch loads the active rules on every run, so new rules apply from the next aggregation
+    - The Vergabeordnung of a tender is read from its documents (meta_info.vergabeordnung)
+
+  4. Security
+    - Enable RLS; rules are managed through tender-api
+*/
+
+CREATE TABLE IF NOT EXISTS validation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  field_path text NOT NULL,
+  rule_type text NOT NULL CHECK (rule_type IN ('required', 'regex', 'min_length', 'date_in_future', 'sum_equals_100', 'enum')),
+  params jsonb NOT NULL DEFAULT '{}',
+  severity text NOT NULL DEFAULT 'error' CHECK (severity IN ('error', 'warning', 'info')),
+  procurement_types text[] NOT NULL DEFAULT '{}' CHECK (procurement_types <@ ARRAY['VOB/A', 'UVgO', 'VgV']),
+  message text NOT NULL,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_validation_rules_active ON validation_rules(is_active) WHERE is_active;
+
+ALTER TABLE extraction_validations ADD COLUMN IF NOT EXISTS rule_id uuid REFERENCES validation_rules(id) ON DELETE SET NULL;
+ALTER TABLE extraction_validations ADD COLUMN IF NOT EXISTS severity text DEFAULT 'error' CHECK (severity IN ('error', 'warning', 'info'));
+ALTER TABLE extraction_validations ADD COLUMN IF NOT EXISTS actual_value text;
+
+ALTER TABLE validation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read validation rules"
+  ON validation_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- The checks the pipeline made so far, and the Vergabeordnung-specific ones
+INSERT INTO validation_rules (name, field_path, rule_type, params, severity, procurement_types, message) VALUES
+  ('Auftraggeber vorhanden', 'meta_info.auftraggeber', 'required', '{}', 'error', '{}',
+    'Auftraggeber nicht gefunden'),
+  ('Kontakt vorhanden', 'meta_info.kontakt', 'required', '{}', 'warning', '{}',
+    'Keine Kontaktinformationen gefunden'),
+  ('Leistungsbeschreibung vorhanden', 'leistungsumfang.beschreibung', 'min_length', '{"min": 50}', 'error', '{}',
+    'Leistungsbeschreibung zu kurz oder nicht vorhanden'),
+  ('Pflichtnachweise erkannt', 'pflichtnachweise.liste', 'min_length', '{"min": 1}', 'warning', '{}',
+    'Keine Pflichtnachweise identifiziert'),
+  ('Angebotsfrist vorhanden', 'key_dates[type=angebotsfrist].date', 'required', '{}', 'error', '{}',
+    'Angebotsfrist nicht gefunden'),
+  ('Angebotsfrist nicht abgelaufen', 'key_dates[type=angebotsfrist].timestamp', 'date_in_future', '{}', 'warning', '{}',
+    'Die Angebotsfrist ist bereits abgelaufen'),
+  -- kriterien lists Haupt- and Unterkriterien alike and may weigh in points; the
+  -- weights are checked per level while the criteria are normalized
+  ('Gewichtung stimmig', 'zuschlagskriterien.pruefung[].ok', 'enum', '{"values": ["true"]}', 'warning', '{}',
+    'Die Gewichtungen der Zuschlagskriterien sind nicht stimmig (Summe einer Ebene oder fehlende Gewichtung)'),
+  ('Vergabeordnung erkannt', 'meta_info.vergabeordnung', 'required', '{}', 'info', '{}',
+    'Vergabeordnung (VOB/A, UVgO, VgV) nicht erkannt'),
+  ('E-Mail-Adresse gültig', 'meta_info.kontakt.email', 'regex', '{"pattern": "^[^@\\s]+@[^@\\s]+\\.[a-z]{2,}$", "flags": "i"}', 'warning', '{}',
+    'Die E-Mail-Adresse der Vergabestelle ist ungültig'),
+  ('Verfahrensart nach VOB/A', 'meta_info.verfahrensart', 'enum',
+    '{"values": ["Öffentliche Ausschreibung", "Beschränkte Ausschreibung", "Freihändige Vergabe", "offenes Verfahren", "nicht offenes Verfahren", "Verhandlungsverfahren", "wettbewerblicher Dialog", "Innovationspartnerschaft"]}',
+    'warning', '{VOB/A}', 'Die Verfahrensart ist in der VOB/A nicht vorgesehen'),
+  ('Bindefrist angegeben', 'key_dates[type=bindefrist]', 'required', '{}', 'warning', '{VOB/A}',
+    'Keine Bindefrist angegeben (§ 10 VOB/A)'),
+  ('Verfahrensart nach UVgO', 'meta_info.verfahrensart', 'enum',
+    '{"values": ["Öffentliche Ausschreibung", "Beschränkte Ausschreibung", "Verhandlungsvergabe"]}',
+    'warning', '{UVgO}', 'Die Verfahrensart ist in der UVgO nicht vorgesehen'),
+  ('Verfahrensart nach VgV', 'meta_info.verfahrensart', 'enum',
+    '{"values": ["offenes Verfahren", "nicht offenes Verfahren", "Verhandlungsverfahren", "wettbewerblicher Dialog", "Innovationspartnerschaft"]}',
+    'warning', '{VgV}', 'Die Verfahrensart ist in der VgV nicht vorgesehen'),
+  ('Zuschlagskriterien angegeben', 'zuschlagskriterien.kriterien', 'min_length', '{"min": 1}', 'error', '{VgV}',
+    'Keine Zuschlagskriterien angegeben (§ 58 VgV)'),
+  ('Vergabenummer vorhanden', 'meta_info.vergabenummer', 'required', '{}', 'warning', '{VgV}',
+    'Keine Vergabenummer gefunden');
@@ -0,0 +1,16 @@
+/*
+  # Company Suitability Fields
+
+  1. Changes to `company_profiles`
+    - `annual_turnover` (numeric) - Average annual turnover in EUR over the last three years
+    - `employee_count` (integer) - Employees subject to social insurance
+    - `reference_projects` (jsonb) - [{ title, year, value }], value being the contract value in EUR
+
+  2. Notes
+    - The frontend compares these with the Mindestanforderungen an die Eignung
+      (pflichtnachweise.mindestanforderungen) to count the Muss-Kriterien a tender's bidder meets
+*/
+
+ALTER TABLE company_profiles ADD COLUMN IF NOT EXISTS annual_turnover numeric(14,2);
+ALTER TABLE company_profiles ADD COLUMN IF NOT EXISTS employee_count integer CHECK (employee_count >= 0);
+ALTER TABLE company_profiles ADD COLUMN IF NOT EXISTS reference_projects jsonb DEFAULT '[]'::jsonb;
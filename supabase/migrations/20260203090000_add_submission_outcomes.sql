@@ -0,0 +1,67 @@
+/*
+  # Submission Outcomes
+
+  1. New Tables
+    - `submission_outcomes` - How a submitted bid ended, as told by the Vorabinformation (§ 134 GWB)
+      - `id` (uuid, primary key)
+      - `submission_id` (uuid, unique) - The submission the outcome belongs to
+      - `result` (text) - 'awarded' or 'lost'
+      - `winning_price` (numeric) - Price of the winning bid in EUR, if disclosed
+      - `rank` (integer) - Our rank among the bids
+      - `bidder_count` (integer) - Number of bids received
+      - `reasons` (text) - Gründe der Nichtberücksichtigung from the Vorabinformation
+      - `notified_at` (date) - Date of the Vorabinformation
+      - `recorded_by` (text) - Name of the user who recorded the outcome
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes to `tender_submissions`
+    - `match_score` (integer) - Match score against the company profile when the submission was saved
+    - `price_delta_pct` (numeric) - Deviation of the offer's unit prices from the historical average in percent
+    - `distance_km` (numeric) - Delivery distance
+    - `price_weight` (numeric) - Share of the price in the Zuschlagskriterien in percent
+
+  3. Notes
+    - The frontend fits its win-probability model on the outcomes and the features saved
+      with their submissions; recording an outcome sets the submission's status to won or lost
+
+  4. Security
+    - Enable RLS with the same open policies as tender_submissions
+*/
+
+ALTER TABLE tender_submissions ADD COLUMN IF NOT EXISTS match_score integer CHECK (match_score BETWEEN 0 AND 100);
+ALTER TABLE tender_submissions ADD COLUMN IF NOT EXISTS price_delta_pct numeric(7,2);
+ALTER TABLE tender_submissions ADD COLUMN IF NOT EXISTS distance_km numeric;
+ALTER TABLE tender_submissions ADD COLUMN IF NOT EXISTS price_weight numeric(5,2);
+
+CREATE TABLE IF NOT EXISTS submission_outcomes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL UNIQUE REFERENCES tender_submissions(id) ON DELETE CASCADE,
+  result text NOT NULL CHECK (result IN ('awarded', 'lost')),
+  winning_price numeric(14,2) CHECK (winning_price >= 0),
+  rank integer CHECK (rank >= 1),
+  bidder_count integer CHECK (bidder_count >= 1),
+  reasons text DEFAULT '',
+  notified_at date,
+  recorded_by text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_outcomes_result ON submission_outcomes(result);
+
+ALTER TABLE submission_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view submission outcomes"
+  ON submission_outcomes FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can insert submission outcomes"
+  ON submission_outcomes FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update submission outcomes"
+  ON submission_outcomes FOR UPDATE
+  TO public
+  USING (true);
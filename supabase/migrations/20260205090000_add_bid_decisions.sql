@@ -0,0 +1,99 @@
+/*
+  # Bid/No-Bid Decisions
+
+  1. New Tables
+    - `bid_questions` - Questionnaire of the Bid/No-Bid gate
+      - `id` (uuid, primary key)
+      - `category` (text) - 'strategie', 'kapazitaet', 'marge', 'risiko' or 'beziehung'
+      - `question` (text)
+      - `weight` (numeric) - Weight of the question in the decision score
+      - `options` (jsonb) - [{ label, score }], score from 0 (speaks against a bid) to 100
+      - `sort_order` (integer)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `bid_decisions` - Every decision taken at the gate, the latest per tender applies
+      - `id` (uuid, primary key)
+      - `tender_id` (text) - Tender as shown in the app; it may not be saved to `tenders` yet
+      - `tender_title` (text)
+      - `decision` (text) - 'bid' or 'no_bid'
+      - `score` (numeric) - Weighted score of the answers, 0-100
+      - `band` (text) - 'hoch' (from 70), 'mittel' (from 50) or 'niedrig'
+      - `answers` (jsonb) - [{ question_id, question, option, score, weight }] as answered
+      - `approver` (text) - Name of the person who signed off
+      - `decided_at` (date)
+      - `comments` (text)
+      - `created_at` (timestamptz)
+
+  2. Notes
+    - The app only lets a tender past the Kriterien step once its latest decision is a Bid
+    - Bid and win rates per band are reported from bid_decisions joined with submission_outcomes
+    - Questions are configured in bid_questions; inactive questions are no longer asked
+
+  3. Security
+    - Enable RLS with the same open policies as tender_submissions
+*/
+
+CREATE TABLE IF NOT EXISTS bid_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category text NOT NULL CHECK (category IN ('strategie', 'kapazitaet', 'marge', 'risiko', 'beziehung')),
+  question text NOT NULL,
+  weight numeric NOT NULL DEFAULT 1 CHECK (weight > 0),
+  options jsonb NOT NULL DEFAULT '[]',
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bid_decisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tender_id text NOT NULL,
+  tender_title text DEFAULT '',
+  decision text NOT NULL CHECK (decision IN ('bid', 'no_bid')),
+  score numeric(5,2) NOT NULL CHECK (score BETWEEN 0 AND 100),
+  band text NOT NULL CHECK (band IN ('hoch', 'mittel', 'niedrig')),
+  answers jsonb NOT NULL DEFAULT '[]',
+  approver text NOT NULL CHECK (length(trim(approver)) > 0),
+  decided_at date NOT NULL DEFAULT CURRENT_DATE,
+  comments text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bid_decisions_tender ON bid_decisions(tender_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bid_decisions_decided_at ON bid_decisions(decided_at);
+
+ALTER TABLE bid_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bid_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bid questions"
+  ON bid_questions FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can view bid decisions"
+  ON bid_decisions FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can insert bid decisions"
+  ON bid_decisions FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+INSERT INTO bid_questions (category, question, weight, options, sort_order) VALUES
+  ('strategie', 'Passt die Leistung zu unserem Kerngeschäft?', 3,
+    '[{"label": "Kerngeschäft", "score": 100}, {"label": "Randbereich", "score": 50}, {"label": "Fremdes Leistungsfeld", "score": 0}]', 10),
+  ('strategie', 'Stärkt der Auftrag unsere Position in der Region oder bei der Zielgruppe?', 2,
+    '[{"label": "Deutlich", "score": 100}, {"label": "Etwas", "score": 50}, {"label": "Nein", "score": 0}]', 20),
+  ('kapazitaet', 'Sind Geräte und Personal im Leistungszeitraum verfügbar?', 3,
+    '[{"label": "Vollständig", "score": 100}, {"label": "Mit Zukauf oder Nachunternehmern", "score": 50}, {"label": "Nein", "score": 0}]', 30),
+  ('kapazitaet', 'Reicht die Zeit bis zur Angebotsfrist für ein sorgfältiges Angebot?', 1,
+    '[{"label": "Ja", "score": 100}, {"label": "Knapp", "score": 50}, {"label": "Nein", "score": 0}]', 40),
+  ('marge', 'Erwartete Marge gegenüber unserem Ziel', 3,
+    '[{"label": "Über dem Ziel", "score": 100}, {"label": "Im Ziel", "score": 70}, {"label": "Unter dem Ziel", "score": 20}, {"label": "Verlustrisiko", "score": 0}]', 50),
+  ('risiko', 'Vertragsrisiken (Vertragsstrafen, Haftung, Zahlungsbedingungen)', 2,
+    '[{"label": "Gering", "score": 100}, {"label": "Üblich", "score": 60}, {"label": "Hoch", "score": 0}]', 60),
+  ('risiko', 'Wie genau lassen sich Leistung und Mengen kalkulieren?', 2,
+    '[{"label": "Genau", "score": 100}, {"label": "Mit Annahmen", "score": 50}, {"label": "Kaum", "score": 0}]', 70),
+  ('beziehung', 'Beziehung zum Auftraggeber', 2,
+    '[{"label": "Bestandskunde, guter Verlauf", "score": 100}, {"label": "Bekannt", "score": 60}, {"label": "Neu", "score": 40}, {"label": "Belastet", "score": 0}]', 80);
@@ -0,0 +1,60 @@
+/*
+  # Tender Workspaces
+
+  1. New Tables
+    - `tender_workspaces` - The wizard state of one tender, so work survives a reload
+      and several tenders can be in progress at once
+      - `id` (uuid, primary key)
+      - `tender_key` (text, unique) - Tender as shown in the app; it may not be saved to `tenders` yet
+      - `title`, `buyer` (text), `deadline` (date) - Shown on the pipeline board
+      - `status` (text) - 'sichtung', 'in_bearbeitung', 'freigabe', 'abgegeben', 'zuschlag' or 'absage'
+      - `current_step` (integer) - Wizard step the tender was left at, 1-9
+      - `tender` (jsonb) - The tender with its extracted details
+      - `state` (jsonb) - Data of the steps: profile, docs, pricing, answers, aiEdits, riskAccepted
+      - `submission_id` (uuid, nullable) - Submission once the tender was saved
+      - `last_editor` (text) - Name of the person who changed the workspace last
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Notes
+    - The app saves the workspace on every change of the wizard, debounced
+    - The status follows the progress of the wizard and can be moved on the pipeline board
+
+  3. Security
+    - Enable RLS with the same open policies as tender_submissions
+*/
+
+CREATE TABLE IF NOT EXISTS tender_workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tender_key text NOT NULL UNIQUE,
+  title text DEFAULT '',
+  buyer text DEFAULT '',
+  deadline date,
+  status text NOT NULL DEFAULT 'sichtung'
+    CHECK (status IN ('sichtung', 'in_bearbeitung', 'freigabe', 'abgegeben', 'zuschlag', 'absage')),
+  current_step integer NOT NULL DEFAULT 1 CHECK (current_step BETWEEN 1 AND 9),
+  tender jsonb NOT NULL DEFAULT '{}',
+  state jsonb NOT NULL DEFAULT '{}',
+  submission_id uuid REFERENCES tender_submissions(id) ON DELETE SET NULL,
+  last_editor text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tender_workspaces_status ON tender_workspaces(status, updated_at DESC);
+
+ALTER TABLE tender_workspaces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tender workspaces"
+  ON tender_workspaces FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can insert tender workspaces"
+  ON tender_workspaces FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update tender workspaces"
+  ON tender_workspaces FOR UPDATE
+  TO public
+  USING (true);
@@ -0,0 +1,509 @@
+/*
+  # Organizations, Memberships and Tenant Isolation
+
+  1. New Tables
+    - `organizations` - A company using the app; all tender data belongs to one
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_at` (timestamptz)
+    - `memberships` - Which Supabase Auth user works in which organization, and as what
+      - `id` (uuid, primary key)
+      - `org_id` (uuid, foreign key to organizations)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `role` (text) - 'admin', 'kalkulator', 'bid_manager' or 'viewer'
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `org_id` on tenders, tender_upload_batches, company_profiles, historical_prices,
+      tender_workspaces and bid_decisions; it defaults to the organization of the
+      signed-in user, so the app does not have to send it
+    - Existing rows are moved to the organization 'Bestandsdaten'
+    - tender_workspaces.tender_key is unique per organization instead of globally
+    - `org_id` on segment_labels (empty for the shared seed corpus) and classifier_models;
+      every organization trains its own classifier. Models trained on the labels of
+      all organizations are deleted
+    - `org_id` on validation_rules; every organization maintains its own rules. Rules
+      without org_id are templates, copied to every organization
+    - The 'tender-documents' bucket is no longer public
+
+  3. Functions
+    - `current_org_id()` - Organization new rows of the signed-in user go to (their first membership)
+    - `is_org_member(org)`, `has_org_role(org, roles)` - Used by the policies
+    - `*_org_id(...)` - Organization of a batch, tender, submission, tender profile or storage path
+    - `activate_classifier_model(model)` - Swaps the active model within the model's organization
+    - `copy_validation_rules_to_org()` - Trigger giving a new organization its own copy of the rule templates
+    - `add_org_member(org, email, role)` - Lets an admin add an existing user by e-mail
+
+  4. Security
+    - Every "Anyone can ..." policy on tender data is replaced. Members read the rows
+      of their organizations; admins, bid managers and Kalkulatoren write them,
+      with narrower roles for company profiles, prices, bid decisions and outcomes.
+      Viewers only read.
+    - Child tables follow the organization of their batch, tender, submission or profile
+    - Section types, standard positions and bid questions are shared by all
+      organizations and read-only for signed-in users
+    - Admins maintain the validation rules of their organization; the templates are
+      read-only and changed with the service role
+    - Classifier models are only read and written by the edge functions
+    - Edge functions use the service role; tender-api runs requests as the calling user
+    - The batch progress and classifier RPCs can only be called with the service role,
+      except `adjust_batch_total`, which editors of the batch's organization may call
+      while uploading.
+      The policy helpers are callable by signed-in users only and never name an
+      organization the caller is not a member of
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'kalkulator', 'bid_manager', 'viewer')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id, created_at);
+
+-- The helpers read memberships and parent rows with the owner's rights, so that
+-- policies can use them without running into the policies of those tables
+CREATE OR REPLACE FUNCTION current_org_id()
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT org_id FROM memberships
+  WHERE user_id = auth.uid()
+  ORDER BY created_at
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION is_org_member(p_org_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM memberships WHERE org_id = p_org_id AND user_id = auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION has_org_role(p_org_id uuid, p_roles text[])
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE org_id = p_org_id AND user_id = auth.uid() AND role = ANY(p_roles)
+  )
+$$;
+
+-- Organizations and the first admin are created with the service role
+-- (see supabase/seed.sql); admins then add their colleagues
+CREATE OR REPLACE FUNCTION add_org_member(p_org_id uuid, p_email text, p_role text)
+RETURNS memberships
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_membership memberships;
+BEGIN
+  IF NOT has_org_role(p_org_id, ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins of the organization can add members';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  -- Does not tell whether the address is registered
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'The user could not be added to the organization';
+  END IF;
+
+  INSERT INTO memberships (org_id, user_id, role)
+  VALUES (p_org_id, v_user_id, p_role)
+  ON CONFLICT (org_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO v_membership;
+
+  RETURN v_membership;
+END;
+$$;
+
+-- Data from before organizations existed
+INSERT INTO organizations (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Bestandsdaten')
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'tenders', 'tender_upload_batches', 'company_profiles', 'historical_prices', 'tender_workspaces', 'bid_decisions'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS org_id uuid REFERENCES organizations(id) ON DELETE CASCADE', t);
+    EXECUTE format('UPDATE %I SET org_id = %L WHERE org_id IS NULL', t, '00000000-0000-0000-0000-000000000001');
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN org_id SET DEFAULT current_org_id()', t);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN org_id SET NOT NULL', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(org_id)', 'idx_' || t || '_org', t);
+  END LOOP;
+END $$;
+
+ALTER TABLE tender_workspaces DROP CONSTRAINT IF EXISTS tender_workspaces_tender_key_key;
+ALTER TABLE tender_workspaces ADD CONSTRAINT tender_workspaces_org_tender_key_key UNIQUE (org_id, tender_key);
+
+-- Labels quote the documents they were taken from; only seed labels are shared
+ALTER TABLE segment_labels ADD COLUMN IF NOT EXISTS org_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+UPDATE segment_labels l
+SET org_id = COALESCE(
+  (SELECT b.org_id FROM document_segments s JOIN tender_upload_batches b ON b.id = s.batch_id WHERE s.id = l.segment_id),
+  '00000000-0000-0000-0000-000000000001'
+)
+WHERE org_id IS NULL AND source = 'user';
+ALTER TABLE segment_labels ALTER COLUMN org_id SET DEFAULT current_org_id();
+ALTER TABLE segment_labels ADD CONSTRAINT segment_labels_org_check CHECK (org_id IS NOT NULL OR source = 'seed');
+CREATE INDEX IF NOT EXISTS idx_segment_labels_org ON segment_labels(org_id);
+
+-- Admins adapt the rules to the procurement types they bid on
+ALTER TABLE validation_rules ADD COLUMN IF NOT EXISTS org_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE validation_rules ALTER COLUMN org_id SET DEFAULT current_org_id();
+CREATE INDEX IF NOT EXISTS idx_validation_rules_org ON validation_rules(org_id);
+
+CREATE OR REPLACE FUNCTION copy_validation_rules_to_org()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO validation_rules (org_id, name, field_path, rule_type, params, severity, procurement_types, message, is_active)
+  SELECT NEW.id, name, field_path, rule_type, params, severity, procurement_types, message, is_active
+  FROM validation_rules
+  WHERE org_id IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS copy_validation_rules_to_org ON organizations;
+CREATE TRIGGER copy_validation_rules_to_org
+  AFTER INSERT ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION copy_validation_rules_to_org();
+
+-- Organizations created before the trigger
+INSERT INTO validation_rules (org_id, name, field_path, rule_type, params, severity, procurement_types, message, is_active)
+SELECT o.id, r.name, r.field_path, r.rule_type, r.params, r.severity, r.procurement_types, r.message, r.is_active
+FROM organizations o
+CROSS JOIN validation_rules r
+WHERE r.org_id IS NULL;
+
+-- A model's log-likelihoods reveal the vocabulary it was trained on
+DELETE FROM classifier_models;
+ALTER TABLE classifier_models ADD COLUMN IF NOT EXISTS org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE;
+DROP INDEX IF EXISTS idx_classifier_models_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_classifier_models_active ON classifier_models(org_id, model_type) WHERE is_active;
+
+CREATE OR REPLACE FUNCTION activate_classifier_model(model_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE classifier_models m
+  SET is_active = false
+  FROM classifier_models activated
+  WHERE activated.id = model_id_param
+    AND m.is_active
+    AND m.id <> model_id_param
+    AND m.org_id = activated.org_id
+    AND m.model_type = activated.model_type;
+
+  UPDATE classifier_models
+  SET is_active = true
+  WHERE id = model_id_param;
+END;
+$$;
+
+-- The organization a row belongs to, or null if the caller is not a member of
+-- it; the policies then deny access all the same
+CREATE OR REPLACE FUNCTION batch_org_id(p_batch_id uuid)
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT org_id FROM tender_upload_batches
+  WHERE id = p_batch_id
+    AND org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION tender_org_id(p_tender_id uuid)
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT org_id FROM tenders
+  WHERE id = p_tender_id
+    AND org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION submission_org_id(p_submission_id uuid)
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT t.org_id FROM tender_submissions s JOIN tenders t ON t.id = s.tender_id
+  WHERE s.id = p_submission_id
+    AND t.org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION tender_profile_org_id(p_profile_id uuid)
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT b.org_id FROM tender_profiles p JOIN tender_upload_batches b ON b.id = p.batch_id
+  WHERE p.id = p_profile_id
+    AND b.org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.uid())
+$$;
+
+-- Files are stored as '<batch id>/<file name>'
+CREATE OR REPLACE FUNCTION storage_org_id(p_name text)
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT batch_org_id(CASE
+    WHEN split_part(p_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(p_name, '/', 1)::uuid
+  END)
+$$;
+
+-- tender-api registers the documents of an upload as the signed-in user, so
+-- editors of the batch's organization may grow its total; the worker functions
+-- call it with the service role (no auth.uid())
+CREATE OR REPLACE FUNCTION adjust_batch_total(batch_id_param uuid, delta integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT has_org_role(batch_org_id(batch_id_param), ARRAY['admin', 'bid_manager', 'kalkulator']) THEN
+    RAISE EXCEPTION 'Batch % not found', batch_id_param USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE tender_upload_batches
+  SET total_files = GREATEST(0, total_files + delta)
+  WHERE id = batch_id_param;
+
+  PERFORM rollup_batch_progress(batch_id_param);
+END;
+$$;
+
+-- Replace the open policies on every table with tender data
+DO $$
+DECLARE
+  p record;
+BEGIN
+  FOR p IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'tenders', 'company_profiles', 'tender_submissions', 'documents', 'qa_responses', 'pricing_data',
+        'tender_upload_batches', 'tender_file_uploads', 'document_segments', 'tender_profiles',
+        'document_conflicts', 'extraction_validations', 'pipeline_stages', 'extracted_facts',
+        'historical_prices', 'standard_positions', 'calculation_validations', 'segment_labels',
+        'classifier_models', 'section_types', 'tender_profile_changes', 'tender_notifications',
+        'validation_rules', 'submission_outcomes', 'bid_questions', 'bid_decisions', 'tender_workspaces'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', p.policyname, p.tablename);
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Public can view tender documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public can upload tender documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public can update tender documents" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete tender documents" ON storage.objects;
+
+-- One set of policies per table: members read, the given roles write. The
+-- expression yields the organization a row belongs to.
+DO $$
+DECLARE
+  r record;
+  label text;
+BEGIN
+  FOR r IN
+    SELECT * FROM (VALUES
+      ('tenders', 'org_id', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('tender_upload_batches', 'org_id', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('tender_workspaces', 'org_id', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('company_profiles', 'org_id', ARRAY['admin', 'bid_manager']),
+      ('historical_prices', 'org_id', ARRAY['admin', 'kalkulator']),
+      ('bid_decisions', 'org_id', ARRAY['admin', 'bid_manager']),
+      ('tender_submissions', 'tender_org_id(tender_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('calculation_validations', 'tender_org_id(tender_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('documents', 'submission_org_id(submission_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('qa_responses', 'submission_org_id(submission_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('pricing_data', 'submission_org_id(submission_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('submission_outcomes', 'submission_org_id(submission_id)', ARRAY['admin', 'bid_manager']),
+      ('tender_file_uploads', 'batch_org_id(upload_batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('document_segments', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('tender_profiles', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('pipeline_stages', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('extracted_facts', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('tender_profile_changes', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('tender_notifications', 'batch_org_id(batch_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('document_conflicts', 'tender_profile_org_id(tender_profile_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('extraction_validations', 'tender_profile_org_id(tender_profile_id)', ARRAY['admin', 'bid_manager', 'kalkulator']),
+      ('segment_labels', 'org_id', ARRAY['admin', 'bid_manager', 'kalkulator'])
+    ) AS t(tbl, org_expr, writers)
+  LOOP
+    label := replace(r.tbl, '_', ' ');
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (is_org_member(%s))',
+      'Members can view ' || label, r.tbl, r.org_expr);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (has_org_role(%s, %L))',
+      'Editors can insert ' || label, r.tbl, r.org_expr, r.writers);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (has_org_role(%s, %L)) WITH CHECK (has_org_role(%s, %L))',
+      'Editors can update ' || label, r.tbl, r.org_expr, r.writers, r.org_expr, r.writers);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (has_org_role(%s, %L))',
+      'Editors can delete ' || label, r.tbl, r.org_expr, r.writers);
+  END LOOP;
+END $$;
+
+-- Shared by all organizations; changed with the service role only
+CREATE POLICY "Signed-in users can view section types"
+  ON section_types FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can view standard positions"
+  ON standard_positions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can view bid questions"
+  ON bid_questions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Members can view validation rules"
+  ON validation_rules FOR SELECT
+  TO authenticated
+  USING (org_id IS NULL OR is_org_member(org_id));
+
+CREATE POLICY "Admins can insert validation rules"
+  ON validation_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (has_org_role(org_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update validation rules"
+  ON validation_rules FOR UPDATE
+  TO authenticated
+  USING (has_org_role(org_id, ARRAY['admin']))
+  WITH CHECK (has_org_role(org_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete validation rules"
+  ON validation_rules FOR DELETE
+  TO authenticated
+  USING (has_org_role(org_id, ARRAY['admin']));
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (is_org_member(id));
+
+CREATE POLICY "Admins can update their organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (has_org_role(id, ARRAY['admin']))
+  WITH CHECK (has_org_role(id, ARRAY['admin']));
+
+CREATE POLICY "Members can view memberships of their organizations"
+  ON memberships FOR SELECT
+  TO authenticated
+  USING (is_org_member(org_id));
+
+CREATE POLICY "Admins can insert memberships"
+  ON memberships FOR INSERT
+  TO authenticated
+  WITH CHECK (has_org_role(org_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can update memberships"
+  ON memberships FOR UPDATE
+  TO authenticated
+  USING (has_org_role(org_id, ARRAY['admin']))
+  WITH CHECK (has_org_role(org_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can delete memberships"
+  ON memberships FOR DELETE
+  TO authenticated
+  USING (has_org_role(org_id, ARRAY['admin']));
+
+-- Documents are only reachable through signed URLs and the policies below
+UPDATE storage.buckets SET public = false WHERE id = 'tender-documents';
+
+CREATE POLICY "Members can view tender documents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'tender-documents' AND is_org_member(storage_org_id(name)));
+
+CREATE POLICY "Editors can upload tender documents"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'tender-documents' AND has_org_role(storage_org_id(name), ARRAY['admin', 'bid_manager', 'kalkulator']));
+
+CREATE POLICY "Editors can update tender documents"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'tender-documents' AND has_org_role(storage_org_id(name), ARRAY['admin', 'bid_manager', 'kalkulator']));
+
+CREATE POLICY "Editors can delete tender documents"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'tender-documents' AND has_org_role(storage_org_id(name), ARRAY['admin', 'bid_manager', 'kalkulator']));
+
+-- Functions are executable by everyone unless revoked. The batch progress RPCs
+-- are called by the worker functions and the classifier swap by the training
+-- function, all with the service role.
+REVOKE EXECUTE ON FUNCTION
+  rollup_batch_progress(uuid),
+  increment_batch_progress(uuid),
+  activate_classifier_model(uuid)
+FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION
+  rollup_batch_progress(uuid),
+  increment_batch_progress(uuid),
+  activate_classifier_model(uuid)
+TO service_role;
+
+-- Also called by tender-api as the uploading user; checks the role itself
+REVOKE EXECUTE ON FUNCTION adjust_batch_total(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION adjust_batch_total(uuid, integer) TO authenticated, service_role;
+
+-- The policies and the org_id defaults run as the signed-in user and need the
+-- helpers; nobody else does
+REVOKE EXECUTE ON FUNCTION
+  current_org_id(),
+  is_org_member(uuid),
+  has_org_role(uuid, text[]),
+  add_org_member(uuid, text, text),
+  batch_org_id(uuid),
+  tender_org_id(uuid),
+  submission_org_id(uuid),
+  tender_profile_org_id(uuid),
+  storage_org_id(text)
+FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION
+  current_org_id(),
+  is_org_member(uuid),
+  has_org_role(uuid, text[]),
+  add_org_member(uuid, text, text),
+  batch_org_id(uuid),
+  tender_org_id(uuid),
+  submission_org_id(uuid),
+  tender_profile_org_id(uuid),
+  storage_org_id(text)
+TO authenticated, service_role;
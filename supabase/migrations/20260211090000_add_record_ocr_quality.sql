@@ -0,0 +1,66 @@
+/*
+  # Atomic OCR Quality Report
+
+  1. Functions
+    - `record_ocr_quality(batch, file, summary, flagged_pages)` - Merges the OCR statistics of one
+      file into the metadata of the batch's normalization stage
+      - `ocr_files` gets the file's summary under its id
+      - `ocr_pages` is recounted from `ocr_files`
+      - `low_quality_pages` drops the file's earlier entries and gets `flagged_pages`
+
+  2. Notes
+    - process-tender-documents runs once per file, in parallel. Reading the metadata in the
+      function and writing it back let concurrent files overwrite each other's entries; the
+      stage row is now locked while one file is merged
+    - Called by the worker with the service role only
+*/
+
+CREATE OR REPLACE FUNCTION record_ocr_quality(
+  batch_id_param uuid,
+  file_id_param uuid,
+  summary jsonb,
+  flagged_pages jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metadata jsonb;
+BEGIN
+  SELECT COALESCE(metadata, '{}'::jsonb) INTO v_metadata
+  FROM pipeline_stages
+  WHERE batch_id = batch_id_param AND stage_name = 'normalization'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_metadata := jsonb_set(
+    v_metadata,
+    '{ocr_files}',
+    COALESCE(v_metadata->'ocr_files', '{}'::jsonb) || jsonb_build_object(file_id_param::text, summary)
+  );
+
+  v_metadata := v_metadata || jsonb_build_object(
+    'ocr_pages', (
+      SELECT COALESCE(sum((f.value->>'pages')::integer), 0)
+      FROM jsonb_each(v_metadata->'ocr_files') f
+    ),
+    'low_quality_pages', COALESCE((
+      SELECT jsonb_agg(p.value ORDER BY p.ordinality)
+      FROM jsonb_array_elements(COALESCE(v_metadata->'low_quality_pages', '[]'::jsonb)) WITH ORDINALITY p
+      WHERE p.value->>'file_upload_id' IS DISTINCT FROM file_id_param::text
+    ), '[]'::jsonb) || COALESCE(flagged_pages, '[]'::jsonb)
+  );
+
+  UPDATE pipeline_stages
+  SET metadata = v_metadata
+  WHERE batch_id = batch_id_param AND stage_name = 'normalization';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_ocr_quality(uuid, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_ocr_quality(uuid, uuid, jsonb, jsonb) TO service_role;
@@ -0,0 +1,83 @@
+-- Local development data for `supabase db reset`: two organizations and one
+-- user per role, all with the password 'Passwort123!'. Sign in as a user of
+-- Nordbau and of Südtief to check that neither sees the other's tenders.
+
+INSERT INTO organizations (id, name) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Nordbau GmbH'),
+  ('20000000-0000-0000-0000-000000000002', 'Südtief AG')
+ON CONFLICT (id) DO NOTHING;
+
+WITH seed_users (id, email, full_name) AS (
+  VALUES
+    ('a0000000-0000-0000-0000-000000000001'::uuid, 'admin@nordbau.test', 'Anna Admin'),
+    ('a0000000-0000-0000-0000-000000000002'::uuid, 'kalkulation@nordbau.test', 'Karl Kalkulator'),
+    ('a0000000-0000-0000-0000-000000000003'::uuid, 'bid@nordbau.test', 'Berta Bid-Manager'),
+    ('a0000000-0000-0000-0000-000000000004'::uuid, 'viewer@nordbau.test', 'Viktor Viewer'),
+    ('b0000000-0000-0000-0000-000000000001'::uuid, 'admin@suedtief.test', 'Susanne Südtief')
+)
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change_token_new, email_change
+)
+SELECT
+  '00000000-0000-0000-0000-000000000000', id, 'authenticated', 'authenticated', email,
+  extensions.crypt('Passwort123!', extensions.gen_salt('bf')), now(),
+  '{"provider": "email", "providers": ["email"]}', jsonb_build_object('full_name', full_name), now(), now(),
+  '', '', '', ''
+FROM seed_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT gen_random_uuid(), id, id::text, jsonb_build_object('sub', id::text, 'email', email), 'email', now(), now(), now()
+FROM auth.users
+WHERE email LIKE '%.test'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO memberships (org_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000001', 'admin'),
+  ('10000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002', 'kalkulator'),
+  ('10000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000003', 'bid_manager'),
+  ('10000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000004', 'viewer'),
+  ('20000000-0000-0000-0000-000000000002', 'b0000000-0000-0000-0000-000000000001', 'admin')
+ON CONFLICT (org_id, user_id) DO NOTHING;
+
+-- One tender per organization to see the isolation in the app
+INSERT INTO tenders (id, org_id, title, buyer, region, deadline, url) VALUES
+  ('c0000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+    'Baustelleneinrichtung Schulneubau Kiel', 'Landeshauptstadt Kiel', 'Schleswig-Holstein', CURRENT_DATE + 30, ''),
+  ('c0000000-0000-0000-0000-000000000002', '20000000-0000-0000-0000-000000000002',
+    'Mietgeräte Tunnelsanierung München', 'Stadtwerke München', 'Bayern', CURRENT_DATE + 45, '')
+ON CONFLICT (id) DO NOTHING;
+
+-- tender-api stores uploads as the signed-in user: check that a Kalkulator can
+-- create a batch and grow its total, and that a viewer cannot. Rolled back.
+DO $$
+DECLARE
+  v_batch uuid;
+BEGIN
+  BEGIN
+    SET LOCAL ROLE authenticated;
+    PERFORM set_config('request.jwt.claims', '{"sub": "a0000000-0000-0000-0000-000000000002", "role": "authenticated"}', true);
+
+    INSERT INTO tender_upload_batches (total_files, processed_files, status)
+    VALUES (0, 0, 'uploading')
+    RETURNING id INTO v_batch;
+    PERFORM adjust_batch_total(v_batch, 2);
+    IF (SELECT total_files FROM tender_upload_batches WHERE id = v_batch) <> 2 THEN
+      RAISE EXCEPTION 'adjust_batch_total did not grow the batch of a Kalkulator';
+    END IF;
+
+    PERFORM set_config('request.jwt.claims', '{"sub": "a0000000-0000-0000-0000-000000000004", "role": "authenticated"}', true);
+    BEGIN
+      PERFORM adjust_batch_total(v_batch, 1);
+      RAISE EXCEPTION 'A viewer could change the batch total';
+    EXCEPTION WHEN insufficient_privilege THEN
+      NULL;
+    END;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0100', MESSAGE = 'rollback';
+  EXCEPTION WHEN SQLSTATE 'P0100' THEN
+    NULL;
+  END;
+END $$;